@@ -1,29 +1,109 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { ExamConfig, ExamDifficulty, getLatexTemplate } from './types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { BankedQuestion, ConfigPreset, CustomPreamble, DEFAULT_EXAM_MATRIX, DEFAULT_TEMPLATE_SETTINGS, ExamConfig, ExamMatrix, ExamDifficulty, ExamModel, ExamQuestion, ExamTier, HistoryEntry, ModelSettings, PromptProfile, QUESTION_TYPES, SourceFigure, SourceProblem, ValidationIssue } from './types';
+import { streamExam, buildExamPrompt, repairQuestion, regenerateQuestion, generateMissingQuestions, redrawFigure, generateTier } from './services/geminiService';
+import { createStorageId, deleteBankedQuestion, deleteHistoryEntry, deletePreset, deletePromptProfile, deleteTemplate, describeFile, listBank, listHistory, listPresets, listPromptProfiles, listTemplates, saveBankedQuestion, saveHistoryEntry, savePreset, savePromptProfile, saveTemplate } from './services/storageService';
+import { downloadBinaryFile, downloadDataUrl, downloadTextFile } from './utils/latex';
+import { buildOverleafProject, ProjectDocument } from './utils/overleafProject';
+import { buildExamDocx, DOCX_MIME_TYPE } from './utils/docxExport';
+import { exportQuiz, QUIZ_FORMATS, QuizFormat } from './utils/quizExport';
+import { createPlaceholderPng, PLACEHOLDER_IMAGE_NAME } from './utils/placeholderImage';
+import { renderAnswerSheetLatex } from './utils/answerSheet';
+import { getLogoFileName, renderExamLatex, renderAnswerKeyLatex } from './utils/examRenderer';
+import { buildVariants, buildVariantAnswerGrid } from './utils/variants';
+import { validateExamLatex, applyAutoFixes } from './utils/validator';
+import { getMatrixTotals, isMatrixActive, renderMatrixLatex } from './utils/examMatrix';
+import { appendQuestions, createQuestionId, replaceQuestion } from './utils/examModel';
+import { getSelectedSources, removeSourceFile } from './utils/sourceProblems';
+import { getCurriculum, getCurriculumPicks, getCurriculumTopic } from './utils/curriculum';
+import { getAllTiers, getOtherDifficulties, renderTierSheetLatex, TIER_CODES, TIER_FILE_NAMES, tierLabel } from './utils/tiers';
+import { DEFAULT_PROMPT_SETTINGS, describePrompt, isDefaultPrompt } from './utils/promptSections';
+import ValidationPanel from './components/ValidationPanel';
+import TikzInspector from './components/TikzInspector';
+import LatexPreview from './components/LatexPreview';
+import ExamEditor from './components/ExamEditor';
+import HistorySidebar from './components/HistorySidebar';
+import QuestionBank from './components/QuestionBank';
+import ModelSettingsDialog from './components/ModelSettingsDialog';
+import TemplateSettingsPanel from './components/TemplateSettingsPanel';
+import ExamMatrixEditor from './components/ExamMatrixEditor';
+import AnswerSheetGrader from './components/AnswerSheetGrader';
+import BatchDialog from './components/BatchDialog';
+import SourcePicker from './components/SourcePicker';
+import FigureCropper from './components/FigureCropper';
+import CurriculumPicker from './components/CurriculumPicker';
+import TierComparison from './components/TierComparison';
+import PromptEditor from './components/PromptEditor';
+import PromptPreview from './components/PromptPreview';
+import PromptCompare from './components/PromptCompare';
+import { getProvider, loadModelSettings, saveModelSettings } from './services/modelProvider';
+
+type OutputTab = 'exam' | 'preview' | 'answerKey' | 'variants' | 'tiers' | 'matrix' | 'answerSheet';
+
+const DEFAULT_CONFIG: ExamConfig = {
+  topic: '',
+  grade: '6',
+  difficulty: ExamDifficulty.MEDIUM,
+  numMultipleChoice: 10,
+  numTrueFalse: 0,
+  numShortAnswer: 0,
+  numMatching: 0,
+  numFillBlank: 0,
+  numEssay: 2,
+  useTikz: true,
+  varyData: false,
+  language: 'vi', // Default to Vietnamese
+  bilingual: false,
+  numVariants: 1,
+  template: DEFAULT_TEMPLATE_SETTINGS,
+  matrix: DEFAULT_EXAM_MATRIX,
+  objectives: [],
+  differentiated: false,
+  prompt: DEFAULT_PROMPT_SETTINGS,
+};
 
 const App: React.FC = () => {
-  const [config, setConfig] = useState<ExamConfig>({
-    topic: '',
-    grade: '6',
-    difficulty: ExamDifficulty.MEDIUM,
-    numMultipleChoice: 10,
-    numEssay: 2,
-    useTikz: true,
-    varyData: false,
-    language: 'vi', // Default to Vietnamese
-  });
+  const [config, setConfig] = useState<ExamConfig>(DEFAULT_CONFIG);
 
   const [files, setFiles] = useState<File[]>([]);
   const [isDragging, setIsDragging] = useState<boolean>(false);
-  const [generatedCode, setGeneratedCode] = useState<string>('');
+  const [exam, setExam] = useState<ExamModel | null>(null);
+  const [examConfig, setExamConfig] = useState<ExamConfig>(config); // Config the current exam was generated with
+  const [fixingKey, setFixingKey] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<OutputTab>('exam');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [activeVariant, setActiveVariant] = useState<string>('grid'); // variant code, or 'grid' for the combined answer grid
+  const [tiers, setTiers] = useState<ExamTier[]>([]); // Differentiated papers at the levels other than examConfig.difficulty
+  const [activeTier, setActiveTier] = useState<ExamDifficulty | 'compare'>('compare');
+  const [writingTier, setWritingTier] = useState<ExamDifficulty | null>(null); // Level being written after the main paper
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [presets, setPresets] = useState<ConfigPreset[]>([]);
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [bank, setBank] = useState<BankedQuestion[]>([]);
+  const [savedPreambles, setSavedPreambles] = useState<CustomPreamble[]>([]);
+  const [promptProfiles, setPromptProfiles] = useState<PromptProfile[]>([]);
+  const [isBankOpen, setIsBankOpen] = useState<boolean>(false);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(loadModelSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isMatrixOpen, setIsMatrixOpen] = useState<boolean>(false);
+  const [isGraderOpen, setIsGraderOpen] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  const [sources, setSources] = useState<SourceProblem[]>([]); // Problems found in the uploaded files
+  const [isSourcePickerOpen, setIsSourcePickerOpen] = useState<boolean>(false);
+  const [isCurriculumOpen, setIsCurriculumOpen] = useState<boolean>(false);
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState<boolean>(false);
+  const [isPromptPreviewOpen, setIsPromptPreviewOpen] = useState<boolean>(false);
+  const [isPromptCompareOpen, setIsPromptCompareOpen] = useState<boolean>(false);
+  const [figures, setFigures] = useState<SourceFigure[]>([]); // Figures cut from uploaded images in the preview
+  const [highlight, setHighlight] = useState<{ line: number; nonce: number } | null>(null); // Source line the editor scrolls to
   
   // Preview State
   const [previewFile, setPreviewFile] = useState<{ url: string; type: 'image' | 'pdf'; name: string } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const outputRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null); // Aborts the running generation stream
 
   // Cleanup preview URL when modal closes or component unmounts
   useEffect(() => {
@@ -64,6 +144,7 @@ const App: React.FC = () => {
 
   const removeFile = (indexToRemove: number) => {
     setFiles(prev => prev.filter((_, index) => index !== indexToRemove));
+    setSources(prev => removeSourceFile(prev, indexToRemove));
   };
 
   const handlePreview = (file: File) => {
@@ -79,17 +160,236 @@ const App: React.FC = () => {
     }
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        const base64 = result.split(',')[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+  // History and presets live in IndexedDB; without it (e.g. private browsing) the app still works, just forgets
+  const refreshStorage = async () => {
+    try {
+      const [entries, saved, banked, preambles, profiles] = await Promise.all([listHistory(), listPresets(), listBank(), listTemplates(), listPromptProfiles()]);
+      setHistory(entries);
+      setPresets(saved);
+      setBank(banked);
+      setSavedPreambles(preambles);
+      setPromptProfiles(profiles);
+    } catch {
+      // Nothing to list; saving reports its own errors
+    }
+  };
+
+  useEffect(() => {
+    refreshStorage();
+  }, []);
+
+  // Batch papers are saved without becoming the open exam
+  const recordGeneration = async (usedConfig: ExamConfig, generated: ExamModel, sourceFiles: File[] = files, open = true, usedSources: SourceProblem[] = [], usedFigures: SourceFigure[] = [], usedTiers: ExamTier[] = []) => {
+    const now = Date.now();
+    const entry: HistoryEntry = {
+      id: createStorageId(),
+      name: `${generated.topic || usedConfig.topic} – ${usedConfig.language === 'vi' ? 'Lớp' : 'Grade'} ${usedConfig.grade}`,
+      createdAt: now,
+      updatedAt: now,
+      config: usedConfig,
+      files: await Promise.all(sourceFiles.map(describeFile)),
+      prompt: buildExamPrompt(usedConfig, sourceFiles.length, usedSources, usedFigures),
+      exam: generated,
+      latex: renderExamLatex(generated, undefined, usedConfig.template),
+      ...(usedTiers.length > 0 ? { tiers: usedTiers } : {}),
+    };
+    try {
+      await saveHistoryEntry(entry);
+      if (open) setCurrentHistoryId(entry.id);
+      setHistory(prev => [entry, ...prev]);
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được đề vào lịch sử.');
+    }
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    // Entries saved before a setting existed get its default
+    const entryConfig = { ...DEFAULT_CONFIG, ...entry.config };
+    setConfig(entryConfig);
+    setExamConfig(entryConfig);
+    setExam(entry.exam);
+    setTiers(entry.tiers || []);
+    setCurrentHistoryId(entry.id);
+    setActiveTab('exam');
+    setError(null);
+    setIsHistoryOpen(false);
+  };
+
+  const duplicateHistoryEntry = async (entry: HistoryEntry) => {
+    const now = Date.now();
+    const copy: HistoryEntry = { ...entry, id: createStorageId(), name: `${entry.name} (${config.language === 'vi' ? 'bản sao' : 'copy'})`, createdAt: now, updatedAt: now };
+    try {
+      await saveHistoryEntry(copy);
+      setHistory(prev => [copy, ...prev]);
+      openHistoryEntry(copy);
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được đề vào lịch sử.');
+    }
+  };
+
+  const renameHistoryEntry = async (entry: HistoryEntry) => {
+    const name = prompt(config.language === 'vi' ? 'Tên mới cho đề:' : 'New name for this exam:', entry.name)?.trim();
+    if (!name) return;
+    const renamed = { ...entry, name };
+    try {
+      await saveHistoryEntry(renamed);
+      setHistory(prev => prev.map(e => (e.id === entry.id ? renamed : e)));
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được đề vào lịch sử.');
+    }
+  };
+
+  const removeHistoryEntry = async (entry: HistoryEntry) => {
+    if (!confirm(config.language === 'vi' ? `Xoá "${entry.name}" khỏi lịch sử?` : `Delete "${entry.name}" from history?`)) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      setHistory(prev => prev.filter(e => e.id !== entry.id));
+      if (entry.id === currentHistoryId) setCurrentHistoryId(null);
+    } catch (err: any) {
+      setError(err.message || 'Không xoá được đề khỏi lịch sử.');
+    }
+  };
+
+  const saveCurrentPreset = async () => {
+    const name = prompt(config.language === 'vi' ? 'Tên cấu hình (ví dụ: Lớp 6 – 15 phút):' : 'Preset name (e.g. Grade 9 mock):')?.trim();
+    if (!name) return;
+    const existing = presets.find(p => p.name === name);
+    try {
+      await savePreset({ id: existing?.id || createStorageId(), name, config, createdAt: Date.now() });
+      setPresets(await listPresets());
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được cấu hình.');
+    }
+  };
+
+  const removePreset = async (preset: ConfigPreset) => {
+    if (!confirm(config.language === 'vi' ? `Xoá cấu hình "${preset.name}"?` : `Delete preset "${preset.name}"?`)) return;
+    try {
+      await deletePreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (err: any) {
+      setError(err.message || 'Không xoá được cấu hình.');
+    }
+  };
+
+  // An active matrix decides how many questions each part gets
+  const saveMatrix = (matrix: ExamMatrix) => {
+    const totals = getMatrixTotals(matrix);
+    setConfig(isMatrixActive(matrix)
+      ? { ...config, matrix, numMultipleChoice: totals.numMultipleChoice, numEssay: totals.numEssay }
+      : { ...config, matrix });
+    setIsMatrixOpen(false);
+  };
+
+  const storePreamble = async (preamble: CustomPreamble) => {
+    try {
+      await saveTemplate(preamble);
+      setSavedPreambles(await listTemplates());
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được preamble.');
+      throw err;
+    }
+  };
+
+  const removePreamble = async (preamble: CustomPreamble) => {
+    try {
+      await deleteTemplate(preamble.id);
+      setSavedPreambles(prev => prev.filter(p => p.id !== preamble.id));
+    } catch (err: any) {
+      setError(err.message || 'Không xoá được preamble.');
+      throw err;
+    }
+  };
+
+  const storePromptProfile = async (profile: PromptProfile) => {
+    try {
+      await savePromptProfile(profile);
+      setPromptProfiles(prev => [...prev.filter(p => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được hồ sơ lời nhắc.');
+      throw err;
+    }
+  };
+
+  const removePromptProfile = async (profile: PromptProfile) => {
+    try {
+      await deletePromptProfile(profile.id);
+      setPromptProfiles(prev => prev.filter(p => p.id !== profile.id));
+    } catch (err: any) {
+      setError(err.message || 'Không xoá được hồ sơ lời nhắc.');
+      throw err;
+    }
+  };
+
+  // A paper from the prompt comparison becomes the open exam, written with that prompt
+  const openComparedExam = async (usedConfig: ExamConfig, generated: ExamModel) => {
+    setCurrentHistoryId(null);
+    setExam(generated);
+    setExamConfig(usedConfig);
+    setTiers([]);
+    setActiveTab('exam');
+    setError(null);
+    setIsPromptCompareOpen(false);
+    await recordGeneration(usedConfig, generated, files, true, getSelectedSources(sources), figures);
+  };
+
+  const saveToBank = async (question: ExamQuestion) => {
+    if (!exam) return;
+    const banked: BankedQuestion = {
+      id: createStorageId(),
+      question,
+      tags: { grade: exam.grade, topic: exam.topic, difficulty: question.difficulty, type: question.type, language: exam.language },
+      savedAt: Date.now(),
+    };
+    try {
+      await saveBankedQuestion(banked);
+      setBank(prev => [banked, ...prev]);
+    } catch (err: any) {
+      setError(err.message || 'Không lưu được câu hỏi vào ngân hàng.');
+    }
+  };
+
+  const removeFromBank = async (banked: BankedQuestion) => {
+    if (!confirm(config.language === 'vi' ? 'Xoá câu hỏi này khỏi ngân hàng?' : 'Delete this question from the bank?')) return;
+    try {
+      await deleteBankedQuestion(banked.id);
+      setBank(prev => prev.filter(b => b.id !== banked.id));
+    } catch (err: any) {
+      setError(err.message || 'Không xoá được câu hỏi khỏi ngân hàng.');
+    }
+  };
+
+  // New exam from banked questions; the model only writes what is still missing for the configured counts
+  const assembleFromBank = async (selected: BankedQuestion[]) => {
+    const usedConfig: ExamConfig = { ...config };
+    QUESTION_TYPES.forEach(t => {
+      usedConfig[t.countKey] = Math.max(config[t.countKey] || 0, selected.filter(b => b.tags.type === t.id).length);
     });
+    setFixingKey('bank');
+    setError(null);
+
+    try {
+      let assembled: ExamModel = appendQuestions(
+        { topic: config.topic || selected[0].tags.topic, grade: config.grade, language: config.language, questions: [] },
+        selected.map(b => ({ ...b.question, id: createQuestionId() }))
+      );
+      for (const { id: type, countKey } of QUESTION_TYPES) {
+        const missing = usedConfig[countKey] - assembled.questions.filter(q => q.type === type).length;
+        if (missing > 0) assembled = appendQuestions(assembled, await generateMissingQuestions(usedConfig, assembled, type, missing));
+      }
+
+      setExamConfig(usedConfig);
+      setExam(assembled);
+      setTiers([]);
+      setCurrentHistoryId(null);
+      setActiveTab('exam');
+      setIsBankOpen(false);
+      await recordGeneration(usedConfig, assembled, []);
+    } catch (err: any) {
+      setError(err.message || 'Đã có lỗi xảy ra khi ghép đề.');
+    } finally {
+      setFixingKey(null);
+    }
   };
 
   const handleGenerate = async () => {
@@ -100,96 +400,300 @@ const App: React.FC = () => {
 
     setIsLoading(true);
     setError(null);
-    setGeneratedCode('');
+    setExam(null);
+    setTiers([]);
+    setCurrentHistoryId(null);
+    setActiveTab('exam');
+    setExamConfig(config);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const currentTemplate = getLatexTemplate(config.language);
-      
-      let promptText = `
-Đóng vai trò là một trợ giảng Toán học và chuyên gia LaTeX. Hãy tạo cho tôi một đề kiểm tra Toán hoàn chỉnh, sử dụng chính xác cấu trúc LaTeX tôi cung cấp bên dưới.
-
-YÊU CẦU ĐẶC BIỆT:
-${files.length > 0 ? `- ĐÃ CÓ ${files.length} TÀI LIỆU ĐÍNH KÈM.` : ''}
-${config.varyData 
-  ? '- HÃY THAY ĐỔI SỐ LIỆU trong các bài toán so với tài liệu gốc để tạo đề mới, nhưng PHẢI GIỮ NGUYÊN dạng toán và mức độ kiến thức.' 
-  : '- GIỮ NGUYÊN SỐ LIỆU và dạng toán như trong tài liệu (nếu có), hoặc tạo bài toán chuẩn mực.'}
-
-YÊU CẦU VỀ NGÔN NGỮ (QUAN TRỌNG):
-- NGÔN NGỮ ĐẦU RA CỦA ĐỀ THI: **${config.language === 'vi' ? 'TIẾNG VIỆT' : 'TIẾNG ANH (ENGLISH)'}**.
-${config.language === 'en' ? '- Hãy dịch toàn bộ nội dung câu hỏi, lời giải và thuật ngữ toán học sang Tiếng Anh chuẩn Cambridge.' : ''}
-
-YÊU CẦU VỀ NỘI DUNG:
-1. Chủ đề: ${config.topic || 'Dựa theo tài liệu đính kèm'}
-2. Đối tượng: Lớp ${config.grade}
-3. Độ khó: ${config.difficulty}
-4. Cấu trúc đề:
-   - Phần 1: Trắc nghiệm (${config.numMultipleChoice} câu).
-   - Phần 2: Tự luận (${config.numEssay} câu). Yêu cầu trình bày rõ ràng.
-
-YÊU CẦU QUAN TRỌNG VỀ TOÁN HỌC & LATEX:
-1. **CỠ CHỮ:** Đề thi phải được thiết lập cỡ chữ 13pt (đã có trong template với gói scrextend).
-2. **PHÂN SỐ:** BẮT BUỘC sử dụng lệnh \\dfrac{...}{...} cho tất cả các phân số để hiển thị to, rõ ràng (KHÔNG dùng \\frac).
-3. **DẠNG ĐIỀN SỐ CÒN THIẾU (QUAN TRỌNG):** 
-   - Tuyệt đối cẩn thận khi tạo mã LaTeX cho các bài toán điền ô trống.
-   - **Ô TRẢ LỜI:** Sử dụng \\framebox[1.5em]{\\vphantom{M}} hoặc \\fbox{\\phantom{00}} để tạo ô trống **RỖNG** (TUYỆT ĐỐI KHÔNG ĐIỀN DẤU CHẤM HỎI "?" VÀO TRONG). Mục đích là để học sinh điền kết quả vào.
-   - Với phép tính dọc: Sử dụng môi trường \\begin{array} hoặc \\begin{tabular} với căn lề chuẩn xác.
-4. **HÌNH VẼ (QUAN TRỌNG):**
-   ${config.useTikz 
-     ? '- Tự động sinh mã TikZ đầy đủ. **YÊU CẦU ĐẶC BIỆT:** Hình vẽ phải thoáng, KHÔNG ĐƯỢC đè lên chữ hoặc các chi tiết khác. Các nhãn (label), số đo góc/cạnh phải đặt ở vị trí dễ nhìn, không bị chồng chéo (dùng thuộc tính như `pos=0.5, above, below` hợp lý).' 
-     : '- KHÔNG vẽ hình bằng TikZ. Hãy chèn lệnh \\includegraphics[width=5cm]{image_placeholder.png} và để lại chú thích "% Thay thế bằng hình ảnh bài toán..."'}
-
-YÊU CẦU VỀ CẤU TRÚC CODE (BẮT BUỘC):
-1. Giữ nguyên toàn bộ phần Preamble trong Template.
-2. Sử dụng đúng môi trường custom đã định nghĩa: \\begin{questionbox}{Câu...} ... \\end{questionbox}.
-3. Không được thay đổi các gói lệnh (packages).
-4. CHỈ TRẢ VỀ MÃ LATEX ĐẦY ĐỦ, KHÔNG GIẢI THÍCH. BẮT ĐẦU BẰNG \\documentclass VÀ KẾT THÚC BẰNG \\end{document}.
-
-TEMPLATE (${config.language === 'vi' ? 'Tiếng Việt' : 'English'}):
-${currentTemplate}
-      `;
-
-      const parts: any[] = [{ text: promptText }];
-
-      for (const file of files) {
-        const base64Data = await fileToBase64(file);
-        parts.push({
-          inlineData: {
-            mimeType: file.type,
-            data: base64Data
+      // Finished questions are rendered as they arrive; a cancelled run keeps what was written.
+      // Ticked problems from the picker are sent instead of the files.
+      const picked = getSelectedSources(sources);
+      const generated = await streamExam(config, files, setExam, controller.signal, picked, figures);
+      setExam(generated);
+      // Differentiated set: the other levels are rewritten from the finished paper, one after another
+      const written: ExamTier[] = [];
+      if (config.differentiated && generated.questions.length > 0 && !controller.signal.aborted) {
+        try {
+          for (const difficulty of getOtherDifficulties(config.difficulty)) {
+            if (controller.signal.aborted) break;
+            setWritingTier(difficulty);
+            written.push({ difficulty, exam: await generateTier(config, generated, difficulty) });
+            setTiers([...written]);
           }
-        });
+        } catch (err: any) {
+          setError(err.message || 'Đã có lỗi xảy ra khi viết đề phân hoá.');
+        } finally {
+          setWritingTier(null);
+        }
       }
+      if (generated.questions.length > 0) await recordGeneration(config, generated, files, true, picked, figures, written);
+    } catch (err: any) {
+      setError(err.message || 'Đã có lỗi xảy ra khi tạo đề.');
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const cancelGeneration = () => abortRef.current?.abort();
+
+  // Both documents are rendered locally from the structured exam, so they always agree
+  const generatedCode = useMemo(() => (exam ? renderExamLatex(exam, undefined, examConfig.template) : ''), [exam, examConfig.template]);
+
+  const bankedIds = useMemo(() => new Set(bank.map(b => b.question.id)), [bank]);
+
+  const pickedCount = getSelectedSources(sources).length;
+  const curriculum = getCurriculum(config.grade, config.language);
+  const curriculumPicks = getCurriculumPicks(curriculum, config.objectives);
+  const expectedCount = QUESTION_TYPES.reduce((sum, t) => sum + (examConfig[t.countKey] || 0), 0);
+  const writtenCount = exam ? exam.questions.length : 0;
+
+  // Follow the stream: keep the newest question in view while it is being written
+  useEffect(() => {
+    if (isLoading && outputRef.current) outputRef.current.scrollTop = outputRef.current.scrollHeight;
+  }, [isLoading, generatedCode]);
+
+  // Edits, fixes and regenerated questions are written back onto the open history entry
+  useEffect(() => {
+    const entry = history.find(e => e.id === currentHistoryId);
+    if (!entry || !exam || entry.exam === exam) return;
+    const updated = { ...entry, exam, latex: generatedCode, updatedAt: Date.now() };
+    setHistory(prev => prev.map(e => (e.id === updated.id ? updated : e)));
+    saveHistoryEntry(updated).catch((err: any) => setError(err.message || 'Không lưu được thay đổi vào lịch sử.'));
+  }, [exam]);
+  const answerKeyCode = useMemo(() => (exam ? renderAnswerKeyLatex(exam, examConfig.template) : ''), [exam, examConfig.template]);
+
+  const issues = useMemo(
+    () => (exam ? validateExamLatex(generatedCode, exam, examConfig) : []),
+    [exam, generatedCode, examConfig]
+  );
 
-const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash', // <-- Sửa thành dòng này
-        contents: {
-          parts: parts
-        },
-        // Xóa hẳn phần thinkingConfig, chỉ để lại config cơ bản nếu cần (hoặc bỏ trống)
-      });
-
-      let text = response.text || '';
-      
-      if (text.startsWith('```latex')) {
-        text = text.replace(/^```latex/, '').replace(/```$/, '');
-      } else if (text.startsWith('```')) {
-        text = text.replace(/^```/, '').replace(/```$/, '');
+  // Files that \includegraphics refers to and that must ship next to the .tex
+  const projectImages: Record<string, string> = useMemo(
+    () => ({
+      ...(examConfig.template.logo ? { [getLogoFileName(examConfig.template)]: examConfig.template.logo.dataUrl } : {}),
+      ...exam?.images,
+    }),
+    [examConfig.template, exam?.images]
+  );
+
+  // Validation and preview problems point at source lines: show the source tab scrolled to that line
+  const jumpToLine = (line: number) => {
+    setActiveTab('exam');
+    setHighlight({ line, nonce: Date.now() });
+  };
+
+  const handleAutoFix = (toFix: ValidationIssue[]) => {
+    if (!exam) return;
+    setExam(applyAutoFixes(exam, toFix, examConfig));
+  };
+
+  // Targeted re-ask: only the failing question (or the missing part) goes back to the model
+  const handleReask = async (issue: ValidationIssue) => {
+    if (!exam) return;
+    setFixingKey(issue.id);
+    setError(null);
+
+    try {
+      if (issue.matrixCell && issue.part) {
+        const { rowId, level, missing } = issue.matrixCell;
+        setExam(appendQuestions(exam, await generateMissingQuestions(examConfig, exam, issue.part, missing, { rowId, level })));
+      } else if (issue.rule === 'count') {
+        const type = issue.part || 'mc';
+        const wanted = examConfig[QUESTION_TYPES.find(t => t.id === type)!.countKey] || 0;
+        const have = exam.questions.filter(q => q.type === type).length;
+        setExam(appendQuestions(exam, await generateMissingQuestions(examConfig, exam, type, wanted - have)));
+      } else {
+        const question = exam.questions.find(q => q.id === issue.questionId);
+        if (!question) return;
+        const problems = issues.filter(i => i.questionId === question.id).map(i => i.message);
+        setExam(replaceQuestion(exam, await repairQuestion(examConfig, question, problems)));
       }
+    } catch (err: any) {
+      setError(err.message || 'Đã có lỗi xảy ra khi sửa câu hỏi.');
+    } finally {
+      setFixingKey(null);
+    }
+  };
 
-      setGeneratedCode(text.trim());
+  // Every question the math check flagged goes back to the model on its own, one after another
+  const handleRepairMath = async () => {
+    if (!exam) return;
+    const ids = [...new Set(issues.filter(i => i.rule === 'correctness' && i.questionId).map(i => i.questionId!))];
+    setFixingKey('correctness');
+    setError(null);
+
+    let current = exam;
+    try {
+      for (const id of ids) {
+        const question = current.questions.find(q => q.id === id);
+        if (!question) continue;
+        const problems = issues.filter(i => i.questionId === id).map(i => i.message);
+        current = replaceQuestion(current, await repairQuestion(examConfig, question, problems));
+        setExam(current);
+      }
     } catch (err: any) {
-      setError(err.message || 'Đã có lỗi xảy ra khi tạo đề.');
+      setError(err.message || 'Đã có lỗi xảy ra khi sửa câu hỏi.');
     } finally {
-      setIsLoading(false);
+      setFixingKey(null);
+    }
+  };
+
+  const handleRegenerate = async (question: ExamQuestion) => {
+    if (!exam) return;
+    setFixingKey(question.id);
+    setError(null);
+
+    try {
+      setExam(replaceQuestion(exam, await regenerateQuestion(examConfig, exam, question)));
+    } catch (err: any) {
+      setError(err.message || 'Đã có lỗi xảy ra khi tạo lại câu hỏi.');
+    } finally {
+      setFixingKey(null);
+    }
+  };
+
+  // Scale tweaks from the figure panel change the question in place; a redraw asks the model for that figure only
+  const handleFigureChange = (question: ExamQuestion) => {
+    if (!exam) return;
+    setExam(replaceQuestion(exam, question));
+  };
+
+  const handleRedrawFigure = async (question: ExamQuestion, problems: string[]) => {
+    if (!exam) return;
+    setFixingKey(`figure-${question.id}`);
+    setError(null);
+
+    try {
+      const tikz = await redrawFigure(question, problems);
+      setExam(replaceQuestion(exam, { ...question, figure: { ...question.figure, tikz } }));
+    } catch (err: any) {
+      setError(err.message || 'Đã có lỗi xảy ra khi vẽ lại hình.');
+    } finally {
+      setFixingKey(null);
     }
   };
 
+  // Shuffled versions are rebuilt locally from the same paper and key, never by asking the model again
+  const variants = useMemo(() => {
+    if (!exam || config.numVariants < 2) return [];
+    return buildVariants(exam, config.numVariants);
+  }, [exam, config.numVariants]);
+
+  const variantGrid = useMemo(
+    () => (exam && variants.length > 0 ? buildVariantAnswerGrid(variants, exam, examConfig.template) : ''),
+    [exam, variants, examConfig.template]
+  );
+
+  const selectedVariant = variants.find(v => v.code === activeVariant);
+  const variantCode = useMemo(
+    () => (selectedVariant ? renderExamLatex(selectedVariant.exam, selectedVariant.code, examConfig.template) : variantGrid),
+    [selectedVariant, variantGrid, examConfig.template]
+  );
+
+  // Differentiated set: the open paper is the level it was generated at, so edits to it show up here too
+  const allTiers = useMemo(
+    () => (exam && tiers.length > 0 ? getAllTiers(exam, examConfig.difficulty, tiers) : []),
+    [exam, examConfig.difficulty, tiers]
+  );
+
+  const selectedTier = allTiers.find(t => t.difficulty === activeTier);
+  const tierCode = useMemo(() => {
+    if (allTiers.length === 0) return '';
+    return selectedTier
+      ? renderExamLatex(selectedTier.exam, TIER_CODES[selectedTier.difficulty], examConfig.template)
+      : renderTierSheetLatex(allTiers, examConfig.template);
+  }, [allTiers, selectedTier, examConfig.template]);
+
+  // The matrix the current exam was generated against, with its đặc tả, as a separate document
+  const matrixCode = useMemo(
+    () => (exam && isMatrixActive(examConfig.matrix) ? renderMatrixLatex(examConfig.matrix, exam, examConfig.template) : ''),
+    [exam, examConfig.matrix, examConfig.template]
+  );
+
+  // Bubble sheet for Part I, read back by the grader from photos
+  const answerSheetCode = useMemo(
+    () => (exam && exam.questions.some(q => q.type === 'mc') ? renderAnswerSheetLatex(exam, examConfig.template) : ''),
+    [exam, examConfig.template]
+  );
+
+  const activeCode = activeTab === 'exam' || activeTab === 'preview'
+    ? generatedCode
+    : activeTab === 'answerKey'
+      ? answerKeyCode
+      : activeTab === 'matrix' ? matrixCode : activeTab === 'answerSheet' ? answerSheetCode : activeTab === 'tiers' ? tierCode : variantCode;
+
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(generatedCode);
+    navigator.clipboard.writeText(activeCode);
     alert('Đã sao chép mã LaTeX vào bộ nhớ tạm!');
   };
 
+  const downloadTex = () => {
+    const fileName = activeTab === 'exam' || activeTab === 'preview'
+      ? 'de-kiem-tra.tex'
+      : activeTab === 'answerKey'
+        ? 'dap-an.tex'
+        : activeTab === 'matrix'
+          ? 'ma-tran-dac-ta.tex'
+          : activeTab === 'answerSheet'
+            ? 'phieu-tra-loi.tex'
+            : activeTab === 'tiers'
+              ? selectedTier ? `de-${TIER_FILE_NAMES[selectedTier.difficulty]}.tex` : 'bang-doi-chieu-phan-hoa.tex'
+              : selectedVariant ? `de-kiem-tra-ma-${selectedVariant.code}.tex` : 'bang-dap-an-cac-ma-de.tex';
+    downloadTextFile(activeCode, fileName, 'application/x-tex');
+    Object.entries(projectImages).forEach(([name, dataUrl]) => downloadDataUrl(dataUrl, name));
+    if (activeCode.includes(PLACEHOLDER_IMAGE_NAME)) downloadBinaryFile(createPlaceholderPng(), PLACEHOLDER_IMAGE_NAME, 'image/png');
+  };
+
+  // Every document of the current exam in one project that uploads to Overleaf as is; the paper is main.tex
+  const downloadOverleafZip = () => {
+    if (!exam) return;
+    const documents: ProjectDocument[] = [
+      { fileName: 'main.tex', latex: generatedCode },
+      { fileName: 'dap-an.tex', latex: answerKeyCode },
+    ];
+    if (matrixCode) documents.push({ fileName: 'ma-tran-dac-ta.tex', latex: matrixCode });
+    variants.forEach(v => documents.push({ fileName: `de-kiem-tra-ma-${v.code}.tex`, latex: renderExamLatex(v.exam, v.code, examConfig.template) }));
+    if (variantGrid) documents.push({ fileName: 'bang-dap-an-cac-ma-de.tex', latex: variantGrid });
+    if (answerSheetCode) documents.push({ fileName: 'phieu-tra-loi.tex', latex: answerSheetCode });
+    allTiers.forEach(t => {
+      documents.push({ fileName: `de-${TIER_FILE_NAMES[t.difficulty]}.tex`, latex: renderExamLatex(t.exam, TIER_CODES[t.difficulty], examConfig.template) });
+      documents.push({ fileName: `dap-an-${TIER_FILE_NAMES[t.difficulty]}.tex`, latex: renderAnswerKeyLatex(t.exam, examConfig.template) });
+    });
+    if (allTiers.length > 0) documents.push({ fileName: 'bang-doi-chieu-phan-hoa.tex', latex: renderTierSheetLatex(allTiers, examConfig.template) });
+    downloadBinaryFile(buildOverleafProject(documents, projectImages, exam.language === 'vi'), 'de-kiem-tra-overleaf.zip', 'application/zip');
+  };
+
+  // The paper as a Word document: the selected version or level on its tab, otherwise the original
+  const downloadDocx = () => {
+    if (!exam) return;
+    if (activeTab === 'tiers' && selectedTier) {
+      const docx = buildExamDocx(selectedTier.exam, TIER_CODES[selectedTier.difficulty], examConfig.template);
+      downloadBinaryFile(docx, `de-${TIER_FILE_NAMES[selectedTier.difficulty]}.docx`, DOCX_MIME_TYPE);
+      return;
+    }
+    const docx = activeTab === 'variants' && selectedVariant
+      ? buildExamDocx(selectedVariant.exam, selectedVariant.code, examConfig.template)
+      : buildExamDocx(exam, '', examConfig.template);
+    const fileName = activeTab === 'variants' && selectedVariant ? `de-kiem-tra-ma-${selectedVariant.code}.docx` : 'de-kiem-tra.docx';
+    downloadBinaryFile(docx, fileName, DOCX_MIME_TYPE);
+  };
+
+  // Part I for online practice: Moodle XML, GIFT, a QTI 2.1 package or a Google Forms CSV
+  const downloadQuiz = (format: QuizFormat) => {
+    if (!exam) return;
+    const { extension, mimeType } = QUIZ_FORMATS.find(f => f.id === format)!;
+    const data = exportQuiz(exam, format);
+    const fileName = `trac-nghiem.${extension}`;
+    if (typeof data === 'string') downloadTextFile(data, fileName, mimeType);
+    else downloadBinaryFile(data, fileName, mimeType);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center py-8 px-4 font-sans">
       <header className="mb-8 text-center max-w-2xl">
@@ -208,6 +712,36 @@ const response = await ai.models.generateContent({
                </svg>
                <h2 className="text-2xl font-bold">Cấu hình</h2>
             </div>
+            <div className="flex items-center gap-2">
+            {/* History & presets */}
+            <button
+               onClick={() => setIsHistoryOpen(true)}
+               className="p-2 rounded-lg text-slate-500 hover:text-indigo-700 hover:bg-slate-100 transition"
+               title={config.language === 'vi' ? 'Lịch sử & cấu hình đã lưu' : 'History & saved presets'}
+            >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+               </svg>
+            </button>
+            <button
+               onClick={() => setIsBankOpen(true)}
+               className="p-2 rounded-lg text-slate-500 hover:text-indigo-700 hover:bg-slate-100 transition"
+               title={config.language === 'vi' ? 'Ngân hàng câu hỏi' : 'Question bank'}
+            >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+               </svg>
+            </button>
+            <button
+               onClick={() => setIsSettingsOpen(true)}
+               className="p-2 rounded-lg text-slate-500 hover:text-indigo-700 hover:bg-slate-100 transition"
+               title={config.language === 'vi' ? 'Cài đặt mô hình' : 'Model settings'}
+            >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+               </svg>
+            </button>
             {/* Language Switcher */}
             <div className="flex bg-slate-100 p-1 rounded-lg">
                <button
@@ -223,6 +757,7 @@ const response = await ai.models.generateContent({
                   <span>🇬🇧</span> EN
                </button>
             </div>
+            </div>
           </div>
 
           <div className="space-y-6">
@@ -291,6 +826,21 @@ const response = await ai.models.generateContent({
                       </div>
                     ))}
                   </div>
+                  <div className="flex items-center justify-between pt-1 text-xs">
+                    <button onClick={() => setIsSourcePickerOpen(true)} className="font-semibold text-indigo-600 hover:underline">
+                      {config.language === 'vi' ? 'Chọn bài từ tài liệu…' : 'Pick problems from the files…'}
+                    </button>
+                    <span className="text-slate-500">
+                      {pickedCount > 0
+                        ? (config.language === 'vi' ? `Dùng ${pickedCount}/${sources.length} bài đã chọn` : `Using ${pickedCount}/${sources.length} ticked problems`)
+                        : (config.language === 'vi' ? 'Gửi toàn bộ tệp' : 'Sending the whole files')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {figures.length > 0
+                      ? (config.language === 'vi' ? `Hình đã cắt: ${figures.map(f => f.name).join(', ')}` : `Cut figures: ${figures.map(f => f.name).join(', ')}`)
+                      : (config.language === 'vi' ? 'Mở xem trước một ảnh để cắt hình vẽ cho đề.' : 'Open an image preview to cut figures for the paper.')}
+                  </p>
                 </div>
               )}
             </div>
@@ -298,7 +848,14 @@ const response = await ai.models.generateContent({
             {/* Input Fields - Styled for High Visibility */}
             <div className="space-y-5">
               <div>
-                <label className="block text-sm font-bold text-slate-800 mb-2">Chủ đề (Topic)</label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-bold text-slate-800">Chủ đề (Topic)</label>
+                  {curriculum && (
+                    <button onClick={() => setIsCurriculumOpen(true)} className="text-xs font-semibold text-indigo-600 hover:underline">
+                      {config.language === 'vi' ? 'Chọn theo chương trình…' : 'Pick from the syllabus…'}
+                    </button>
+                  )}
+                </div>
                 <input 
                   type="text"
                   className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition placeholder-slate-400 font-medium"
@@ -306,6 +863,18 @@ const response = await ai.models.generateContent({
                   value={config.topic}
                   onChange={(e) => setConfig({ ...config, topic: e.target.value })}
                 />
+                {curriculumPicks.length > 0 && (
+                  <div className="flex items-start justify-between gap-2 mt-2 text-xs">
+                    <span className="text-slate-500">
+                      {config.language === 'vi'
+                        ? `Theo chương trình: ${curriculumPicks.length} bài, ${curriculumPicks.reduce((sum, p) => sum + p.objectives.length, 0)} yêu cầu cần đạt`
+                        : `From the syllabus: ${curriculumPicks.length} lessons, ${curriculumPicks.reduce((sum, p) => sum + p.objectives.length, 0)} objectives`}
+                    </span>
+                    <button onClick={() => setConfig({ ...config, objectives: [] })} className="font-semibold text-slate-500 hover:text-red-600 flex-shrink-0">
+                      {config.language === 'vi' ? 'Bỏ' : 'Clear'}
+                    </button>
+                  </div>
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-5">
@@ -346,8 +915,9 @@ const response = await ai.models.generateContent({
                       type="number"
                       min="0"
                       max="50"
-                      className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none font-medium"
+                      className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none font-medium disabled:bg-slate-100 disabled:text-slate-500"
                       value={config.numMultipleChoice}
+                      disabled={isMatrixActive(config.matrix)}
                       onChange={(e) => setConfig({ ...config, numMultipleChoice: parseInt(e.target.value) || 0 })}
                     />
                     <span className="absolute right-4 top-3.5 text-slate-400 text-sm font-medium pointer-events-none">{config.language === 'vi' ? 'câu' : 'q'}</span>
@@ -361,8 +931,9 @@ const response = await ai.models.generateContent({
                       type="number"
                       min="0"
                       max="10"
-                      className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none font-medium"
+                      className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none font-medium disabled:bg-slate-100 disabled:text-slate-500"
                       value={config.numEssay}
+                      disabled={isMatrixActive(config.matrix)}
                       onChange={(e) => setConfig({ ...config, numEssay: parseInt(e.target.value) || 0 })}
                     />
                     <span className="absolute right-4 top-3.5 text-slate-400 text-sm font-medium pointer-events-none">{config.language === 'vi' ? 'câu' : 'q'}</span>
@@ -370,6 +941,78 @@ const response = await ai.models.generateContent({
                 </div>
               </div>
 
+              {/* Newer formats (Đúng/Sai, trả lời ngắn, ...) each get their own part; the matrix does not plan them */}
+              <div className="grid grid-cols-2 gap-5">
+                {QUESTION_TYPES.filter(t => t.id !== 'mc' && t.id !== 'essay').map(t => (
+                  <div key={t.id}>
+                    <label className="block text-sm font-bold text-slate-800 mb-2">{config.language === 'vi' ? t.vi : t.en}</label>
+                    <div className="relative">
+                      <input
+                        type="number"
+                        min="0"
+                        max="10"
+                        className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none font-medium"
+                        value={config[t.countKey] || 0}
+                        onChange={(e) => setConfig({ ...config, [t.countKey]: parseInt(e.target.value) || 0 })}
+                      />
+                      <span className="absolute right-4 top-3.5 text-slate-400 text-sm font-medium pointer-events-none">{config.language === 'vi' ? 'câu' : 'q'}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={() => setIsMatrixOpen(true)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border text-left transition ${isMatrixActive(config.matrix) ? 'border-indigo-300 bg-indigo-50' : 'border-slate-200 bg-slate-50 hover:border-indigo-300'}`}
+              >
+                <span className="flex flex-col">
+                  <span className="text-sm font-bold text-slate-800">{config.language === 'vi' ? 'Ma trận đề' : 'Specification matrix'}</span>
+                  <span className="text-xs text-slate-500">
+                    {isMatrixActive(config.matrix)
+                      ? (config.language === 'vi'
+                        ? `${config.matrix.rows.length} nội dung · ${config.numMultipleChoice + config.numEssay} câu · ${getMatrixTotals(config.matrix).points} điểm`
+                        : `${config.matrix.rows.length} content rows · ${config.numMultipleChoice + config.numEssay} questions · ${getMatrixTotals(config.matrix).points} points`)
+                      : (config.language === 'vi' ? 'Chưa dùng — đặt số câu theo từng nội dung và mức độ' : 'Off — set counts per content and level')}
+                  </span>
+                </span>
+                <span className="text-xs font-semibold text-indigo-600">{config.language === 'vi' ? 'Mở' : 'Open'}</span>
+              </button>
+
+              <div>
+                <label className="block text-sm font-bold text-slate-800 mb-2">{config.language === 'vi' ? 'Số mã đề (trộn câu & đáp án)' : 'Shuffled versions'}</label>
+                <div className="relative">
+                  <input 
+                    type="number"
+                    min="1"
+                    max="24"
+                    className="w-full px-4 py-3.5 rounded-xl border border-slate-300 bg-white text-slate-900 shadow-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none font-medium"
+                    value={config.numVariants}
+                    onChange={(e) => setConfig({ ...config, numVariants: Math.max(1, parseInt(e.target.value) || 1) })}
+                  />
+                  <span className="absolute right-4 top-3.5 text-slate-400 text-sm font-medium pointer-events-none">{config.language === 'vi' ? 'mã' : 'ver.'}</span>
+                </div>
+              </div>
+
+              <TemplateSettingsPanel
+                isVi={config.language === 'vi'}
+                settings={config.template}
+                savedPreambles={savedPreambles}
+                onChange={template => setConfig({ ...config, template })}
+                onSavePreamble={storePreamble}
+                onDeletePreamble={removePreamble}
+              />
+
+              <button
+                onClick={() => setIsPromptEditorOpen(true)}
+                className={`w-full flex items-center justify-between px-4 py-3 rounded-xl border text-left transition ${isDefaultPrompt(config.prompt) && !config.prompt.source ? 'border-slate-200 bg-slate-50 hover:border-indigo-300' : 'border-indigo-300 bg-indigo-50'}`}
+              >
+                <span className="flex flex-col">
+                  <span className="text-sm font-bold text-slate-800">{config.language === 'vi' ? 'Lời nhắc (prompt)' : 'Prompt'}</span>
+                  <span className="text-xs text-slate-500">{describePrompt(config.prompt, config.language === 'vi')}</span>
+                </span>
+                <span className="text-xs font-semibold text-indigo-600">{config.language === 'vi' ? 'Sửa' : 'Edit'}</span>
+              </button>
+
               {/* Advanced Options Toggles */}
               <div className="p-4 bg-slate-50 rounded-xl border border-slate-200 space-y-4">
                 <div className="flex items-center justify-between">
@@ -387,6 +1030,36 @@ const response = await ai.models.generateContent({
                 
                 <div className="h-px bg-slate-200"></div>
 
+                <div className="flex items-center justify-between">
+                   <div className="flex flex-col">
+                      <span className="text-sm font-bold text-slate-800">{config.language === 'vi' ? 'Song ngữ' : 'Bilingual'}</span>
+                      <span className="text-xs text-slate-500">{config.language === 'vi' ? 'Kèm bản dịch tiếng Anh?' : 'With a Vietnamese translation?'}</span>
+                   </div>
+                   <button 
+                     onClick={() => setConfig({...config, bilingual: !config.bilingual})}
+                     className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors focus:outline-none ${config.bilingual ? 'bg-indigo-600' : 'bg-slate-300'}`}
+                   >
+                     <span className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${config.bilingual ? 'translate-x-6' : 'translate-x-1'}`} />
+                   </button>
+                </div>
+
+                <div className="h-px bg-slate-200"></div>
+
+                <div className="flex items-center justify-between">
+                   <div className="flex flex-col">
+                      <span className="text-sm font-bold text-slate-800">{config.language === 'vi' ? 'Đề phân hoá 3 mức' : 'Differentiated papers'}</span>
+                      <span className="text-xs text-slate-500">{config.language === 'vi' ? 'Viết thêm 2 mức độ còn lại, câu N cùng kĩ năng?' : 'Also write the other two levels, question N on the same skill?'}</span>
+                   </div>
+                   <button 
+                     onClick={() => setConfig({...config, differentiated: !config.differentiated})}
+                     className={`relative inline-flex h-7 w-12 items-center rounded-full transition-colors focus:outline-none ${config.differentiated ? 'bg-indigo-600' : 'bg-slate-300'}`}
+                   >
+                     <span className={`inline-block h-5 w-5 transform rounded-full bg-white transition-transform ${config.differentiated ? 'translate-x-6' : 'translate-x-1'}`} />
+                   </button>
+                </div>
+
+                <div className="h-px bg-slate-200"></div>
+
                 <div className="flex items-center justify-between">
                    <div className="flex flex-col">
                       <span className="text-sm font-bold text-slate-800">{config.language === 'vi' ? 'Số liệu bài tập' : 'Data Variation'}</span>
@@ -423,6 +1096,27 @@ const response = await ai.models.generateContent({
                   </span>
                 ) : (config.language === 'vi' ? 'TẠO ĐỀ KIỂM TRA NGAY' : 'GENERATE EXAM NOW')}
               </button>
+              <button
+                onClick={() => setIsBatchOpen(true)}
+                disabled={isLoading}
+                className="mt-2 w-full py-2 rounded-xl text-sm font-semibold text-indigo-600 border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 transition"
+              >
+                {config.language === 'vi' ? 'Tạo nhiều đề một lúc (hàng loạt)…' : 'Generate many papers (batch)…'}
+              </button>
+              <div className="mt-2 flex justify-center gap-4 text-xs">
+                <button onClick={() => setIsPromptPreviewOpen(true)} disabled={isLoading} className="font-semibold text-indigo-600 hover:underline disabled:opacity-50">
+                  {config.language === 'vi' ? 'Xem lời nhắc sẽ gửi…' : 'Show the exact prompt…'}
+                </button>
+                <button onClick={() => setIsPromptCompareOpen(true)} disabled={isLoading} className="font-semibold text-indigo-600 hover:underline disabled:opacity-50">
+                  {config.language === 'vi' ? 'So sánh hai phiên bản lời nhắc…' : 'Compare two prompt versions…'}
+                </button>
+              </div>
+              <button onClick={() => setIsSettingsOpen(true)} className="mt-2 w-full text-center text-xs text-slate-500 hover:text-indigo-600">
+                {config.language === 'vi' ? 'Mô hình' : 'Model'}: <span className="font-semibold">{getProvider(modelSettings.providerId).label} · {modelSettings.model}</span>
+                {getProvider(modelSettings.providerId).requiresApiKey && !modelSettings.apiKey && (
+                  <span className="ml-1 text-amber-600 font-semibold">({config.language === 'vi' ? 'chưa có API key' : 'no API key yet'})</span>
+                )}
+              </button>
             </div>
           </div>
           
@@ -446,22 +1140,169 @@ const response = await ai.models.generateContent({
                    <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
                  </svg>
                </div>
-               <span className="text-slate-800 font-bold text-sm ml-2">Kết quả (LaTeX Source)</span>
+               {/* Output Tabs */}
+               <div className="flex bg-slate-100 p-1 rounded-lg ml-2">
+                 <button
+                   onClick={() => setActiveTab('exam')}
+                   className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'exam' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 >
+                   Kết quả (LaTeX Source)
+                 </button>
+                 <button
+                   onClick={() => setActiveTab('preview')}
+                   className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'preview' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 >
+                   {config.language === 'vi' ? 'Xem trước' : 'Preview'}
+                 </button>
+                 <button
+                   onClick={() => setActiveTab('answerKey')}
+                   className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all flex items-center gap-1.5 ${activeTab === 'answerKey' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 >
+                   {config.language === 'vi' ? 'Đáp án' : 'Answer Key'}
+                 </button>
+                 {variants.length > 0 && (
+                   <button
+                     onClick={() => setActiveTab('variants')}
+                     className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'variants' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                   >
+                     {config.language === 'vi' ? `Mã đề (${variants.length})` : `Versions (${variants.length})`}
+                   </button>
+                 )}
+                 {allTiers.length > 0 && (
+                   <button
+                     onClick={() => setActiveTab('tiers')}
+                     className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'tiers' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                   >
+                     {config.language === 'vi' ? `Phân hoá (${allTiers.length})` : `Levels (${allTiers.length})`}
+                   </button>
+                 )}
+                 {matrixCode && (
+                   <button
+                     onClick={() => setActiveTab('matrix')}
+                     className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'matrix' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                   >
+                     {config.language === 'vi' ? 'Ma trận' : 'Matrix'}
+                   </button>
+                 )}
+                 {answerSheetCode && (
+                   <button
+                     onClick={() => setActiveTab('answerSheet')}
+                     className={`px-3 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'answerSheet' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                   >
+                     {config.language === 'vi' ? 'Phiếu TL' : 'Answer sheet'}
+                   </button>
+                 )}
+               </div>
             </div>
-            {generatedCode && (
-              <button 
-                onClick={copyToClipboard}
-                className="text-xs bg-white hover:bg-slate-50 text-indigo-600 font-bold py-2 px-4 rounded-lg transition flex items-center border border-indigo-200 shadow-sm hover:shadow"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" />
-                </svg>
-                {config.language === 'vi' ? 'Sao chép mã' : 'Copy Code'}
-              </button>
+            {activeCode && (
+              <div className="flex items-center space-x-2">
+                <button 
+                  onClick={downloadTex}
+                  className="text-xs bg-white hover:bg-slate-50 text-slate-600 font-bold py-2 px-4 rounded-lg transition flex items-center border border-slate-200 shadow-sm hover:shadow"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  .tex
+                </button>
+                {exam && (
+                  <>
+                    <button
+                      onClick={downloadOverleafZip}
+                      title={config.language === 'vi' ? 'Dự án nén tải thẳng lên Overleaf (main.tex, đáp án, hình, README)' : 'Project archive that uploads straight to Overleaf (main.tex, answer key, images, README)'}
+                      className="text-xs bg-white hover:bg-slate-50 text-slate-600 font-bold py-2 px-4 rounded-lg transition flex items-center border border-slate-200 shadow-sm hover:shadow"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      .zip Overleaf
+                    </button>
+                    <button
+                      onClick={downloadDocx}
+                      title={config.language === 'vi' ? 'Đề dạng Word, công thức là phương trình Word' : 'The paper as a Word document with native equations'}
+                      className="text-xs bg-white hover:bg-slate-50 text-slate-600 font-bold py-2 px-4 rounded-lg transition flex items-center border border-slate-200 shadow-sm hover:shadow"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                      </svg>
+                      .docx
+                    </button>
+                    {exam.questions.some(q => q.type === 'mc') && (
+                      <select
+                        value=""
+                        onChange={e => e.target.value && downloadQuiz(e.target.value as QuizFormat)}
+                        title={config.language === 'vi' ? 'Xuất phần trắc nghiệm cho hệ thống thi trực tuyến' : 'Export the multiple-choice part to an online quiz tool'}
+                        className="text-xs bg-white hover:bg-slate-50 text-slate-600 font-bold py-2 px-2 rounded-lg transition border border-slate-200 shadow-sm hover:shadow outline-none"
+                      >
+                        <option value="">{config.language === 'vi' ? 'Trắc nghiệm online…' : 'Online quiz…'}</option>
+                        {QUIZ_FORMATS.map(f => (
+                          <option key={f.id} value={f.id}>{f.label}</option>
+                        ))}
+                      </select>
+                    )}
+                    {answerSheetCode && (
+                      <button
+                        onClick={() => setIsGraderOpen(true)}
+                        title={config.language === 'vi' ? 'Chấm phiếu trả lời từ ảnh chụp' : 'Grade filled answer sheets from photos'}
+                        className="text-xs bg-white hover:bg-slate-50 text-slate-600 font-bold py-2 px-4 rounded-lg transition flex items-center border border-slate-200 shadow-sm hover:shadow"
+                      >
+                        {config.language === 'vi' ? 'Chấm bài' : 'Grade sheets'}
+                      </button>
+                    )}
+                  </>
+                )}
+                <button 
+                  onClick={copyToClipboard}
+                  className="text-xs bg-white hover:bg-slate-50 text-indigo-600 font-bold py-2 px-4 rounded-lg transition flex items-center border border-indigo-200 shadow-sm hover:shadow"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" />
+                  </svg>
+                  {config.language === 'vi' ? 'Sao chép mã' : 'Copy Code'}
+                </button>
+              </div>
             )}
           </div>
+          {activeTab === 'variants' && variants.length > 0 && (
+            <div className="px-4 py-2 border-b border-slate-100 flex flex-wrap gap-2 bg-slate-50">
+              <button
+                onClick={() => setActiveVariant('grid')}
+                className={`px-3 py-1 rounded-md text-xs font-bold border transition ${activeVariant === 'grid' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+              >
+                {config.language === 'vi' ? 'Bảng đáp án' : 'Answer grid'}
+              </button>
+              {variants.map(v => (
+                <button
+                  key={v.code}
+                  onClick={() => setActiveVariant(v.code)}
+                  className={`px-3 py-1 rounded-md text-xs font-bold border transition ${activeVariant === v.code ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                >
+                  {config.language === 'vi' ? `Mã ${v.code}` : `Version ${v.code}`}
+                </button>
+              ))}
+            </div>
+          )}
+          {activeTab === 'tiers' && allTiers.length > 0 && (
+            <div className="px-4 py-2 border-b border-slate-100 flex flex-wrap gap-2 bg-slate-50">
+              <button
+                onClick={() => setActiveTier('compare')}
+                className={`px-3 py-1 rounded-md text-xs font-bold border transition ${activeTier === 'compare' ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+              >
+                {config.language === 'vi' ? 'So sánh' : 'Compare'}
+              </button>
+              {allTiers.map(t => (
+                <button
+                  key={t.difficulty}
+                  onClick={() => setActiveTier(t.difficulty)}
+                  className={`px-3 py-1 rounded-md text-xs font-bold border transition ${activeTier === t.difficulty ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                >
+                  {tierLabel(t.difficulty, config.language === 'vi')} · {config.language === 'vi' ? 'Mã' : 'Version'} {TIER_CODES[t.difficulty]}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex-1 relative bg-white">
-            {!generatedCode && !isLoading && (
+            {!activeCode && !isLoading && (
               <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-400 p-8 text-center bg-white">
                  <svg xmlns="http://www.w3.org/2000/svg" className="h-20 w-20 mb-4 opacity-10 text-slate-900" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -470,33 +1311,250 @@ const response = await ai.models.generateContent({
                  <p className="text-slate-400 text-sm mt-2 max-w-xs">{config.language === 'vi' ? 'Hãy điền thông tin bên trái và bấm nút Tạo đề.' : 'Fill in the form on the left and click Generate.'}</p>
               </div>
             )}
-            {isLoading && (
-               <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 p-8 text-center bg-white">
+            {isLoading && !exam && (
+               <div className="absolute inset-0 z-10 flex flex-col items-center justify-center text-slate-500 p-8 text-center bg-white">
                   <div className="w-full max-w-xs bg-slate-100 h-1.5 rounded-full overflow-hidden mb-4">
                      <div className="bg-indigo-600 h-full animate-progress-bar origin-left w-full"></div>
                   </div>
                   <p className="font-bold text-sm animate-pulse text-indigo-700">{config.language === 'vi' ? 'AI đang phân tích và soạn thảo đề thi...' : 'AI is analyzing and drafting the exam...'}</p>
-                  <p className="text-xs text-slate-400 mt-2">{config.language === 'vi' ? 'Việc này có thể mất khoảng 30-60 giây.' : 'This may take 30-60 seconds.'}</p>
+                  <p className="text-xs text-slate-400 mt-2">{config.language === 'vi' ? 'Câu hỏi sẽ hiện ra ngay khi được viết xong.' : 'Questions appear here as soon as they are written.'}</p>
+                  <button onClick={cancelGeneration} className="mt-4 text-xs font-bold text-slate-600 border border-slate-300 hover:border-red-300 hover:text-red-600 px-3 py-1.5 rounded-lg transition">
+                    {config.language === 'vi' ? 'Huỷ' : 'Cancel'}
+                  </button>
+               </div>
+            )}
+            {isLoading && exam && (
+               <div className="absolute top-0 inset-x-0 z-10 px-4 py-2 bg-indigo-50/95 border-b border-indigo-100 flex items-center gap-3 text-xs">
+                  <span className="font-bold text-indigo-700 whitespace-nowrap">
+                    {writingTier
+                      ? (config.language === 'vi' ? `Đang viết đề mức ${writingTier}...` : `Writing the ${tierLabel(writingTier, false)} paper...`)
+                      : (config.language === 'vi' ? `Đã viết ${writtenCount}/${expectedCount} câu` : `${writtenCount}/${expectedCount} questions written`)}
+                  </span>
+                  <div className="flex-1 bg-indigo-100 h-1.5 rounded-full overflow-hidden">
+                     <div className="bg-indigo-600 h-full transition-all" style={{ width: `${Math.min(100, (writtenCount / Math.max(1, expectedCount)) * 100)}%` }}></div>
+                  </div>
+                  <button onClick={cancelGeneration} className="font-bold text-slate-600 hover:text-red-600 transition">
+                    {config.language === 'vi' ? 'Huỷ (giữ phần đã viết)' : 'Cancel (keep partial)'}
+                  </button>
                </div>
             )}
-            <textarea 
-              className="w-full h-full bg-white text-slate-800 font-mono text-sm p-6 outline-none resize-none leading-relaxed border-0 focus:ring-0"
-              readOnly
-              value={generatedCode}
-              spellCheck={false}
-              placeholder="LaTeX code starts here..."
-            />
+            {activeTab === 'tiers' && activeTier === 'compare' && allTiers.length > 0 && !isLoading ? (
+              <TierComparison tiers={allTiers} isVi={config.language === 'vi'} onOpen={setActiveTier} />
+            ) : activeTab === 'preview' && activeCode && !isLoading ? (
+              <div className="absolute inset-0 flex">
+                <div className="flex-1 min-w-0">
+                  <LatexPreview latex={generatedCode} isVi={config.language === 'vi'} onJumpToLine={jumpToLine} images={projectImages} />
+                </div>
+                {exam && exam.questions.some(q => q.figure.kind === 'tikz' && q.figure.tikz) && (
+                  <TikzInspector
+                    exam={exam}
+                    latex={generatedCode}
+                    isVi={config.language === 'vi'}
+                    busyKey={fixingKey}
+                    onJumpToLine={jumpToLine}
+                    onChange={handleFigureChange}
+                    onRedraw={handleRedrawFigure}
+                  />
+                )}
+              </div>
+            ) : (
+            <div className="flex h-full">
+              {activeTab === 'exam' && exam && !isLoading ? (
+                <div className="flex-1 min-w-0">
+                  <ExamEditor
+                    exam={exam}
+                    latex={generatedCode}
+                    isVi={config.language === 'vi'}
+                    busyKey={fixingKey}
+                    highlight={highlight}
+                    onChange={setExam}
+                    onRegenerate={handleRegenerate}
+                    bankedIds={bankedIds}
+                    onSaveToBank={saveToBank}
+                    matrix={examConfig.matrix}
+                  />
+                </div>
+              ) : (
+              <textarea 
+                ref={outputRef}
+                className="flex-1 h-full bg-white text-slate-800 font-mono text-sm p-6 outline-none resize-none leading-relaxed border-0 focus:ring-0"
+                readOnly
+                value={activeCode}
+                spellCheck={false}
+                placeholder="LaTeX code starts here..."
+              />
+              )}
+              {activeTab === 'exam' && exam && !isLoading && (
+                <ValidationPanel
+                  issues={issues}
+                  isVi={config.language === 'vi'}
+                  busyKey={fixingKey}
+                  onJumpToLine={jumpToLine}
+                  onAutoFix={handleAutoFix}
+                  onReask={handleReask}
+                  onRepairMath={handleRepairMath}
+                />
+              )}
+            </div>
+            )}
           </div>
         </div>
 
       </main>
 
+      {isMatrixOpen && (
+        <ExamMatrixEditor
+          isVi={config.language === 'vi'}
+          matrix={config.matrix}
+          topic={config.topic}
+          onClose={() => setIsMatrixOpen(false)}
+          onSave={saveMatrix}
+        />
+      )}
+
+      {isGraderOpen && exam && (
+        <AnswerSheetGrader
+          isVi={config.language === 'vi'}
+          exam={exam}
+          variants={variants}
+          onClose={() => setIsGraderOpen(false)}
+        />
+      )}
+
+      {isBatchOpen && (
+        <BatchDialog
+          isVi={config.language === 'vi'}
+          baseConfig={config}
+          onGenerated={(usedConfig, generated) => recordGeneration(usedConfig, generated, [], false)}
+          onClose={() => setIsBatchOpen(false)}
+        />
+      )}
+
+      {isSourcePickerOpen && (
+        <SourcePicker
+          isVi={config.language === 'vi'}
+          files={files}
+          problems={sources}
+          keepData={!config.varyData}
+          onChange={setSources}
+          onClose={() => setIsSourcePickerOpen(false)}
+        />
+      )}
+
+      {isCurriculumOpen && curriculum && (
+        <CurriculumPicker
+          isVi={config.language === 'vi'}
+          curriculum={curriculum}
+          selected={config.objectives}
+          onSave={(objectiveIds) => {
+            const picks = getCurriculumPicks(curriculum, objectiveIds);
+            setConfig({ ...config, objectives: objectiveIds, topic: picks.length > 0 ? getCurriculumTopic(picks) : config.topic });
+            setIsCurriculumOpen(false);
+          }}
+          onClose={() => setIsCurriculumOpen(false)}
+        />
+      )}
+
+      {isPromptEditorOpen && (
+        <PromptEditor
+          isVi={config.language === 'vi'}
+          settings={config.prompt}
+          profiles={promptProfiles}
+          onApply={prompt => {
+            setConfig({ ...config, prompt });
+            setIsPromptEditorOpen(false);
+          }}
+          onSaveProfile={storePromptProfile}
+          onDeleteProfile={removePromptProfile}
+          onClose={() => setIsPromptEditorOpen(false)}
+        />
+      )}
+
+      {isPromptPreviewOpen && (
+        <PromptPreview
+          isVi={config.language === 'vi'}
+          prompt={buildExamPrompt(config, files.length, getSelectedSources(sources), figures)}
+          attachments={pickedCount > 0 ? [] : files.map(f => f.name)}
+          promptName={describePrompt(config.prompt, config.language === 'vi')}
+          onSend={() => {
+            setIsPromptPreviewOpen(false);
+            handleGenerate();
+          }}
+          onClose={() => setIsPromptPreviewOpen(false)}
+        />
+      )}
+
+      {isPromptCompareOpen && (
+        <PromptCompare
+          isVi={config.language === 'vi'}
+          config={config}
+          files={files}
+          sources={getSelectedSources(sources)}
+          figures={figures}
+          profiles={promptProfiles}
+          onOpen={openComparedExam}
+          onClose={() => setIsPromptCompareOpen(false)}
+        />
+      )}
+
+      {isHistoryOpen && (
+        <HistorySidebar
+          isVi={config.language === 'vi'}
+          history={history}
+          presets={presets}
+          currentId={currentHistoryId}
+          onClose={() => setIsHistoryOpen(false)}
+          onOpen={openHistoryEntry}
+          onDuplicate={duplicateHistoryEntry}
+          onRename={renameHistoryEntry}
+          onDelete={removeHistoryEntry}
+          onSavePreset={saveCurrentPreset}
+          onLoadPreset={preset => {
+            setConfig({ ...config, ...preset.config });
+            setIsHistoryOpen(false);
+          }}
+          onDeletePreset={removePreset}
+        />
+      )}
+
+      {isBankOpen && (
+        <QuestionBank
+          isVi={config.language === 'vi'}
+          bank={bank}
+          config={config}
+          busy={fixingKey === 'bank'}
+          onClose={() => setIsBankOpen(false)}
+          onDelete={removeFromBank}
+          onAssemble={assembleFromBank}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <ModelSettingsDialog
+          isVi={config.language === 'vi'}
+          settings={modelSettings}
+          onClose={() => setIsSettingsOpen(false)}
+          onSave={settings => {
+            saveModelSettings(settings);
+            setModelSettings(settings);
+            setIsSettingsOpen(false);
+          }}
+        />
+      )}
+
       {/* Preview Modal */}
       {previewFile && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={closePreview}>
-          <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+          <div className={`bg-white rounded-2xl shadow-2xl ${previewFile.type === 'image' ? 'max-w-6xl' : 'max-w-4xl'} w-full h-[85vh] flex flex-col overflow-hidden`} onClick={e => e.stopPropagation()}>
             <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
-              <h3 className="font-bold text-slate-700 truncate pr-4">{previewFile.name}</h3>
+              <div className="min-w-0 pr-4">
+                <h3 className="font-bold text-slate-700 truncate">{previewFile.name}</h3>
+                <p className="text-xs text-slate-500">
+                  {previewFile.type === 'image'
+                    ? (config.language === 'vi' ? 'Cắt các hình vẽ để AI chèn vào đúng câu hỏi thay cho ảnh giữ chỗ.' : 'Cut out the figures so the AI puts them in the right questions instead of the placeholder.')
+                    : (config.language === 'vi' ? 'Cắt hình chỉ làm được trên ảnh: chụp trang PDF thành ảnh PNG/JPG rồi tải lên.' : 'Figures can only be cut from images: save the PDF page as a PNG/JPG and upload it.')}
+                </p>
+              </div>
               <button onClick={closePreview} className="text-slate-400 hover:text-slate-600 transition">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -505,7 +1563,14 @@ const response = await ai.models.generateContent({
             </div>
             <div className="flex-1 bg-slate-100 p-4 overflow-auto flex justify-center items-center">
               {previewFile.type === 'image' ? (
-                <img src={previewFile.url} alt="Preview" className="max-w-full max-h-full object-contain rounded shadow-lg" />
+                <FigureCropper
+                  isVi={config.language === 'vi'}
+                  url={previewFile.url}
+                  fileName={previewFile.name}
+                  figures={figures}
+                  onAdd={figure => setFigures(prev => [...prev, figure])}
+                  onRemove={name => setFigures(prev => prev.filter(f => f.name !== name))}
+                />
               ) : (
                 <iframe src={previewFile.url} className="w-full h-full rounded shadow-lg border bg-white" title="PDF Preview"></iframe>
               )}
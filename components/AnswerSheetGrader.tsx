@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { ExamModel } from '../types';
+import { buildAnswerKeys, getAnswerSheetLayout, GradedSheet, renderResultsCsv, scoreSheet, SheetReading } from '../utils/answerSheet';
+import { formatPoints } from '../utils/examRenderer';
+import { getQuestionsByType } from '../utils/examModel';
+import { downloadTextFile } from '../utils/latex';
+import { readAnswerSheet, toGrayImage } from '../utils/sheetReader';
+import { ExamVariant } from '../utils/variants';
+
+interface AnswerSheetGraderProps {
+  isVi: boolean;
+  exam: ExamModel;
+  variants: ExamVariant[];
+  onClose: () => void;
+}
+
+interface ReadSheet {
+  fileName: string;
+  reading: SheetReading | null;
+  error?: string; // Why the photo could not be opened at all, e.g. a format the browser cannot decode
+}
+
+// Photos are scaled down to this many pixels on the long side before reading
+const MAX_PHOTO_SIZE = 1600;
+
+const readPhoto = async (file: File, numQuestions: number): Promise<SheetReading | null> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_PHOTO_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const pixels = context.getImageData(0, 0, width, height);
+  return readAnswerSheet(toGrayImage(pixels.data, width, height), getAnswerSheetLayout(numQuestions));
+};
+
+const AnswerSheetGrader: React.FC<AnswerSheetGraderProps> = ({ isVi, exam, variants, onClose }) => {
+  const [sheets, setSheets] = useState<ReadSheet[]>([]);
+  const [pending, setPending] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const numQuestions = getQuestionsByType(exam, 'mc').length;
+  const keys = useMemo(() => buildAnswerKeys(exam, variants), [exam, variants]);
+  const graded: (GradedSheet & ReadSheet)[] = useMemo(
+    () => sheets.map(s => ({ ...s, score: s.reading ? scoreSheet(s.reading, keys) : null })),
+    [sheets, keys]
+  );
+
+  // Photos are read one after another so the progress count stays live and memory stays low
+  const addPhotos = async (files: File[]) => {
+    const photos = files.filter(f => f.type.startsWith('image/'));
+    setPending(n => n + photos.length);
+    for (const file of photos) {
+      let sheet: ReadSheet;
+      try {
+        sheet = { fileName: file.name, reading: await readPhoto(file, numQuestions) };
+      } catch (err: any) {
+        sheet = { fileName: file.name, reading: null, error: err.message || String(err) };
+      }
+      setSheets(prev => [...prev, sheet]);
+      setPending(n => n - 1);
+    }
+  };
+
+  const updateReading = (index: number, patch: Partial<SheetReading>) =>
+    setSheets(prev => prev.map((s, i) => (i === index && s.reading ? { ...s, reading: { ...s.reading, ...patch } } : s)));
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addPhotos(Array.from(e.dataTransfer.files));
+  };
+
+  const status = (sheet: GradedSheet & ReadSheet) => {
+    if (sheet.error) return isVi ? `Không đọc được ảnh: ${sheet.error}` : `Could not read the photo: ${sheet.error}`;
+    if (!sheet.reading) return isVi ? 'Không tìm thấy 4 ô vuông góc phiếu' : 'Corner squares not found';
+    if (!sheet.score) {
+      return sheet.reading.variantCode
+        ? (isVi ? `Không có mã đề ${sheet.reading.variantCode}` : `No version ${sheet.reading.variantCode}`)
+        : (isVi ? 'Chưa tô mã đề' : 'Version code not filled in');
+    }
+    const multiple = sheet.score.marks.filter(m => m === 'multiple').length;
+    return multiple > 0 ? (isVi ? `${multiple} câu tô nhiều đáp án` : `${multiple} with several bubbles filled`) : '';
+  };
+
+  const codeInput = (value: string, onChange: (value: string) => void, width: string) => (
+    <input
+      value={value}
+      onChange={e => onChange(e.target.value.trim())}
+      className={`${width} px-1 py-1 text-center font-mono text-xs border border-slate-200 rounded focus:ring-1 focus:ring-indigo-500 outline-none`}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Chấm phiếu trả lời' : 'Grade answer sheets'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi
+                ? 'Chụp thẳng cả trang phiếu, thấy đủ 4 ô vuông đen ở góc. Ảnh được đọc ngay trên trình duyệt, không gửi đi đâu.'
+                : 'Photograph the whole sheet with all four black corner squares in view. Photos are read in the browser and never uploaded.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-4">
+          <label
+            onDragOver={e => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={onDrop}
+            className={`block p-6 rounded-xl border-2 border-dashed text-center cursor-pointer transition ${
+              isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-slate-300 bg-slate-50 hover:border-indigo-400'
+            }`}
+          >
+            <span className="text-sm font-bold text-slate-700">
+              {isVi ? 'Kéo thả ảnh phiếu vào đây hoặc ' : 'Drop photos of the sheets here or '}
+              <span className="text-indigo-600 hover:underline">{isVi ? 'chọn ảnh' : 'choose photos'}</span>
+            </span>
+            <input
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={e => {
+                addPhotos(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            {pending > 0 && <p className="mt-2 text-xs text-indigo-600">{isVi ? `Đang đọc ${pending} ảnh…` : `Reading ${pending} photo(s)…`}</p>}
+          </label>
+
+          {graded.length > 0 && (
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-slate-100 text-slate-700">
+                  <th className="border border-slate-200 p-2 w-8">STT</th>
+                  <th className="border border-slate-200 p-2 text-left">{isVi ? 'Ảnh' : 'Photo'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Số báo danh' : 'Candidate No.'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Mã đề' : 'Version'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Đúng' : 'Correct'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Điểm' : 'Points'}</th>
+                  <th className="border border-slate-200 p-2 text-left">{isVi ? 'Ghi chú' : 'Notes'}</th>
+                  <th className="border border-slate-200 p-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {graded.map((sheet, i) => (
+                  <tr key={i} className={sheet.score ? '' : 'bg-amber-50'}>
+                    <td className="border border-slate-200 p-2 text-center font-semibold">{i + 1}</td>
+                    <td className="border border-slate-200 p-2 truncate max-w-[12rem]" title={sheet.fileName}>{sheet.fileName}</td>
+                    <td className="border border-slate-200 p-1 text-center">
+                      {sheet.reading && codeInput(sheet.reading.studentId, v => updateReading(i, { studentId: v }), 'w-20')}
+                    </td>
+                    <td className="border border-slate-200 p-1 text-center">
+                      {sheet.reading && codeInput(sheet.reading.variantCode, v => updateReading(i, { variantCode: v }), 'w-14')}
+                    </td>
+                    <td className="border border-slate-200 p-2 text-center">{sheet.score ? `${sheet.score.correct}/${sheet.score.key.length}` : ''}</td>
+                    <td className="border border-slate-200 p-2 text-center font-semibold">{sheet.score ? formatPoints(sheet.score.points, isVi) : ''}</td>
+                    <td className="border border-slate-200 p-2 text-amber-700">{status(sheet)}</td>
+                    <td className="border border-slate-200 p-1 text-center">
+                      <button
+                        onClick={() => setSheets(sheets.filter((_, j) => j !== i))}
+                        className="text-slate-400 hover:text-red-500 transition"
+                        title={isVi ? 'Xoá' : 'Remove'}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <span className="text-xs text-slate-500">
+            {isVi ? `${graded.filter(s => s.score).length}/${graded.length} phiếu đã chấm` : `${graded.filter(s => s.score).length}/${graded.length} sheets graded`}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-100">
+              {isVi ? 'Đóng' : 'Close'}
+            </button>
+            <button
+              onClick={() => downloadTextFile(renderResultsCsv(graded, isVi), 'ket-qua-cham-bai.csv', 'text/csv')}
+              disabled={graded.length === 0 || pending > 0}
+              className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-4 py-2 rounded-lg transition"
+            >
+              {isVi ? 'Tải bảng điểm .csv' : 'Download results .csv'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerSheetGrader;
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExamConfig, ExamModel, QUESTION_TYPES } from '../types';
+import { streamExam } from '../services/geminiService';
+import { BatchParseResult, buildBatchZip, parseBatchInput } from '../utils/batchConfig';
+import { downloadBinaryFile } from '../utils/latex';
+import { runQueue, TaskState } from '../utils/taskQueue';
+
+interface BatchDialogProps {
+  isVi: boolean;
+  baseConfig: ExamConfig; // The form: every column left out of the list comes from here
+  onGenerated: (config: ExamConfig, exam: ExamModel) => void;
+  onClose: () => void;
+}
+
+interface BatchJob {
+  line: number;
+  config: ExamConfig;
+  state: TaskState;
+  exam: ExamModel | null;
+}
+
+const MAX_RETRIES = 5;
+
+const EXAMPLE_VI = `Chủ đề, Lớp, Độ khó, Trắc nghiệm, Tự luận, Ngôn ngữ
+Phân số, 6, Khá, 10, 2, vi
+"Số nguyên, phép cộng", 6, Cơ bản, 12, 2, vi
+Phương trình bậc nhất, 8, Nâng cao, 8, 3, vi`;
+
+const EXAMPLE_EN = `Topic, Grade, Difficulty, Multiple choice, Essay, Language
+Fractions, 6, medium, 10, 2, en
+"Integers, addition", 6, easy, 12, 2, en
+Linear equations, 8, hard, 8, 3, en`;
+
+const STATUS_STYLES: Record<TaskState['status'], string> = {
+  queued: 'text-slate-400',
+  running: 'text-indigo-600',
+  waiting: 'text-amber-600',
+  done: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-slate-400',
+};
+
+const BatchDialog: React.FC<BatchDialogProps> = ({ isVi, baseConfig, onGenerated, onClose }) => {
+  const [input, setInput] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const parsed: BatchParseResult = useMemo(() => parseBatchInput(input, baseConfig, isVi), [input, baseConfig, isVi]);
+
+  // Retry countdowns tick while the queue runs; closing the dialog stops the queue
+  useEffect(() => {
+    if (!isRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateJob = (index: number, patch: Partial<BatchJob>) =>
+    setJobs(prev => prev.map((job, i) => (i === index ? { ...job, ...patch } : job)));
+
+  const start = async () => {
+    const rows = parsed.rows;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setJobs(rows.map(r => ({ line: r.line, config: r.config, state: { status: 'queued', attempts: 0 }, exam: null })));
+    setIsRunning(true);
+
+    await runQueue(
+      rows.map((row, index) => ({ row, index })),
+      async ({ row, index }, signal) => {
+        const exam = await streamExam(row.config, [], () => {}, signal);
+        if (signal.aborted) return; // A cancelled paper is incomplete: leave it out
+        if (exam.questions.length === 0) throw new Error(isVi ? 'Mô hình không trả về câu hỏi nào' : 'The model returned no questions');
+        updateJob(index, { exam });
+        onGenerated(row.config, exam);
+      },
+      {
+        concurrency,
+        maxRetries: MAX_RETRIES,
+        signal: controller.signal,
+        onChange: (index, state) => updateJob(index, { state }),
+      }
+    );
+
+    controllerRef.current = null;
+    setIsRunning(false);
+  };
+
+  const cancel = () => controllerRef.current?.abort();
+
+  const downloadZip = () =>
+    downloadBinaryFile(
+      buildBatchZip(jobs.map(j => ({ config: j.config, exam: j.exam, error: j.state.error })), isVi),
+      isVi ? 'de-kiem-tra-hang-loat.zip' : 'exam-batch.zip',
+      'application/zip'
+    );
+
+  const loadFile = async (file: File) => setInput(await file.text());
+
+  const statusText = ({ status, attempts, error, retryAt }: TaskState) => {
+    switch (status) {
+      case 'queued':
+        return isVi ? 'Chờ đến lượt' : 'Queued';
+      case 'running':
+        return attempts > 1 ? (isVi ? `Đang tạo (lần ${attempts})` : `Generating (attempt ${attempts})`) : (isVi ? 'Đang tạo…' : 'Generating…');
+      case 'waiting': {
+        const seconds = Math.max(0, Math.ceil(((retryAt || now) - now) / 1000));
+        return isVi ? `Bị giới hạn tốc độ, thử lại sau ${seconds} giây` : `Rate limited, retrying in ${seconds}s`;
+      }
+      case 'done':
+        return isVi ? 'Xong' : 'Done';
+      case 'failed':
+        return `${isVi ? 'Lỗi' : 'Failed'}: ${error}`;
+      case 'cancelled':
+        return isVi ? 'Đã huỷ' : 'Cancelled';
+    }
+  };
+
+  const counts = (config: ExamConfig) =>
+    QUESTION_TYPES.filter(t => config[t.countKey] > 0)
+      .map(t => `${config[t.countKey]} ${isVi ? t.vi : t.en}`)
+      .join(', ');
+
+  // Before a run the table previews the parsed list; during and after it shows the queue
+  const rows: BatchJob[] = jobs.length > 0 ? jobs : parsed.rows.map(r => ({ ...r, state: { status: 'queued', attempts: 0 }, exam: null }));
+  const finished = jobs.filter(j => j.exam).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Tạo đề hàng loạt' : 'Batch generation'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi
+                ? 'Mỗi dòng một đề. Cột không ghi lấy theo cấu hình đang chọn (mẫu trình bày, TikZ, số mã đề...).'
+                : 'One paper per line. Columns left out follow the current settings (template, TikZ, versions...).'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs font-semibold text-slate-600">
+                {isVi ? 'Danh sách hoặc CSV (dòng tiêu đề là tuỳ chọn)' : 'List or CSV (the header row is optional)'}
+              </label>
+              <div className="flex gap-3 text-xs">
+                <button onClick={() => setInput(isVi ? EXAMPLE_VI : EXAMPLE_EN)} disabled={isRunning} className="text-indigo-600 hover:underline disabled:opacity-50">
+                  {isVi ? 'Điền ví dụ' : 'Use example'}
+                </button>
+                <label className={`text-indigo-600 hover:underline ${isRunning ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                  {isVi ? 'Mở tệp .csv' : 'Open .csv file'}
+                  <input
+                    type="file"
+                    accept=".csv,.tsv,.txt"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) loadFile(file);
+                      e.target.value = '';
+                    }}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+            </div>
+            <textarea
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              disabled={isRunning}
+              rows={6}
+              placeholder={isVi ? EXAMPLE_VI : EXAMPLE_EN}
+              className="w-full p-3 font-mono text-xs border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none disabled:bg-slate-50"
+            />
+            <p className="text-[11px] text-slate-400">
+              {isVi
+                ? 'Không có dòng tiêu đề thì các cột theo thứ tự: Chủ đề, Lớp, Độ khó, Trắc nghiệm, Tự luận, Ngôn ngữ. Cột khác: Đúng/Sai, Trả lời ngắn, Nối cột, Điền khuyết, Số mã đề.'
+                : 'Without a header the columns are: Topic, Grade, Difficulty, Multiple choice, Essay, Language. Other columns: True/false, Short answer, Matching, Fill in the blank, Versions.'}
+            </p>
+          </div>
+
+          {parsed.errors.length > 0 && jobs.length === 0 && (
+            <ul className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800 space-y-0.5">
+              {parsed.errors.map((e, i) => (
+                <li key={i}>{e}</li>
+              ))}
+            </ul>
+          )}
+
+          {rows.length > 0 && (
+            <table className="w-full text-xs border-collapse">
+              <thead>
+                <tr className="bg-slate-100 text-slate-700">
+                  <th className="border border-slate-200 p-2 w-8">STT</th>
+                  <th className="border border-slate-200 p-2 text-left">{isVi ? 'Chủ đề' : 'Topic'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Lớp' : 'Grade'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Độ khó' : 'Difficulty'}</th>
+                  <th className="border border-slate-200 p-2 text-left">{isVi ? 'Số câu' : 'Questions'}</th>
+                  <th className="border border-slate-200 p-2">{isVi ? 'Ngôn ngữ' : 'Language'}</th>
+                  <th className="border border-slate-200 p-2 text-left">{isVi ? 'Trạng thái' : 'Status'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((job, i) => (
+                  <tr key={i}>
+                    <td className="border border-slate-200 p-2 text-center font-semibold">{i + 1}</td>
+                    <td className="border border-slate-200 p-2">{job.config.topic}</td>
+                    <td className="border border-slate-200 p-2 text-center">{job.config.grade}</td>
+                    <td className="border border-slate-200 p-2 text-center">{job.config.difficulty}</td>
+                    <td className="border border-slate-200 p-2">{counts(job.config)}</td>
+                    <td className="border border-slate-200 p-2 text-center uppercase">{job.config.language}</td>
+                    <td className={`border border-slate-200 p-2 ${STATUS_STYLES[job.state.status]}`}>
+                      {jobs.length > 0 ? statusText(job.state) : ''}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <div className="flex items-center gap-3 text-xs text-slate-500">
+            <label className="flex items-center gap-1">
+              {isVi ? 'Chạy song song' : 'At a time'}
+              <select
+                value={concurrency}
+                onChange={e => setConcurrency(parseInt(e.target.value, 10))}
+                disabled={isRunning}
+                className="border border-slate-200 rounded px-1 py-0.5 bg-white"
+              >
+                {[1, 2, 3, 4].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {jobs.length > 0 && (
+              <span>
+                {isVi ? `${finished}/${jobs.length} đề xong · đã lưu vào Lịch sử` : `${finished}/${jobs.length} papers done · saved to History`}
+              </span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {isRunning ? (
+              <button onClick={cancel} className="text-sm font-semibold text-slate-600 px-4 py-2 rounded-lg border border-slate-300 hover:border-red-300 hover:text-red-600 transition">
+                {isVi ? 'Dừng' : 'Stop'}
+              </button>
+            ) : (
+              <button
+                onClick={start}
+                disabled={parsed.rows.length === 0}
+                className="text-sm font-semibold text-indigo-600 px-4 py-2 rounded-lg border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 transition"
+              >
+                {isVi ? `Tạo ${parsed.rows.length} đề` : `Generate ${parsed.rows.length} papers`}
+              </button>
+            )}
+            <button
+              onClick={downloadZip}
+              disabled={isRunning || finished === 0}
+              className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-4 py-2 rounded-lg transition"
+            >
+              {isVi ? 'Tải tất cả (.zip)' : 'Download all (.zip)'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchDialog;
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { CurriculumGrade, CurriculumLesson } from '../types';
+import { getCurriculumPicks, objectiveId } from '../utils/curriculum';
+
+interface CurriculumPickerProps {
+  isVi: boolean;
+  curriculum: CurriculumGrade; // Catalogue of the form's grade and language
+  selected: string[]; // Objective ids already picked
+  onSave: (objectiveIds: string[]) => void;
+  onClose: () => void;
+}
+
+const lessonIds = (lesson: CurriculumLesson) => lesson.objectives.map((_, i) => objectiveId(lesson, i));
+
+// Chapter → lesson → objectives of one grade; ticking a lesson ticks all its objectives, which can then be narrowed
+const CurriculumPicker: React.FC<CurriculumPickerProps> = ({ isVi, curriculum, selected, onSave, onClose }) => {
+  const [picked, setPicked] = useState<Set<string>>(() => new Set(selected));
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState<Set<number>>(() => {
+    const withPicks = curriculum.chapters.map((chapter, c) => (chapter.lessons.some(l => lessonIds(l).some(id => picked.has(id))) ? c : -1)).filter(c => c >= 0);
+    return new Set(withPicks.length > 0 ? withPicks : [0]);
+  });
+
+  const picks = useMemo(() => getCurriculumPicks(curriculum, [...picked]), [curriculum, picked]);
+  const objectiveCount = picks.reduce((sum, p) => sum + p.objectives.length, 0);
+
+  // Searching shows every matching lesson with its chapter opened
+  const needle = query.trim().toLowerCase();
+  const matches = (lesson: CurriculumLesson) =>
+    !needle || lesson.title.toLowerCase().includes(needle) || lesson.objectives.some(o => o.toLowerCase().includes(needle));
+
+  const toggle = (ids: string[], on: boolean) =>
+    setPicked(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (on ? next.add(id) : next.delete(id)));
+      return next;
+    });
+
+  const toggleChapter = (c: number) =>
+    setOpen(prev => {
+      const next = new Set(prev);
+      if (next.has(c)) next.delete(c);
+      else next.add(c);
+      return next;
+    });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Chọn chủ đề theo chương trình' : 'Pick the topic from the syllabus'}</h3>
+            <p className="text-xs text-slate-500">{curriculum.programme}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-slate-200">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={isVi ? 'Tìm bài hoặc yêu cầu cần đạt…' : 'Search lessons or objectives…'}
+            className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-2">
+          {curriculum.chapters.map((chapter, c) => {
+            const lessons = chapter.lessons.filter(matches);
+            if (lessons.length === 0) return null;
+            const isOpen = !!needle || open.has(c);
+            const count = chapter.lessons.filter(l => lessonIds(l).some(id => picked.has(id))).length;
+            return (
+              <div key={c} className="border border-slate-200 rounded-lg overflow-hidden">
+                <button
+                  onClick={() => toggleChapter(c)}
+                  className="w-full flex justify-between items-center px-3 py-2 bg-slate-50 hover:bg-slate-100 text-left transition"
+                >
+                  <span className="text-sm font-bold text-slate-700">{chapter.title}</span>
+                  <span className="text-xs text-slate-500 flex-shrink-0 ml-2">
+                    {count > 0 ? (isVi ? `${count} bài đã chọn` : `${count} picked`) : ''} {isOpen ? '▾' : '▸'}
+                  </span>
+                </button>
+                {isOpen && (
+                  <ul className="divide-y divide-slate-100">
+                    {lessons.map(lesson => {
+                      const ids = lessonIds(lesson);
+                      const chosen = ids.filter(id => picked.has(id)).length;
+                      return (
+                        <li key={lesson.id} className="px-3 py-2">
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={chosen === ids.length}
+                              ref={el => {
+                                if (el) el.indeterminate = chosen > 0 && chosen < ids.length;
+                              }}
+                              onChange={e => toggle(ids, e.target.checked)}
+                              className="mt-0.5 h-4 w-4 accent-indigo-600 flex-shrink-0"
+                            />
+                            <span className="text-sm text-slate-800">{lesson.title}</span>
+                          </label>
+                          {chosen > 0 && (
+                            <ul className="mt-1.5 ml-6 space-y-1">
+                              {lesson.objectives.map((objective, i) => (
+                                <li key={i}>
+                                  <label className="flex items-start gap-2 text-xs text-slate-600 cursor-pointer">
+                                    <input
+                                      type="checkbox"
+                                      checked={picked.has(ids[i])}
+                                      onChange={e => toggle([ids[i]], e.target.checked)}
+                                      className="mt-0.5 h-3.5 w-3.5 accent-indigo-600 flex-shrink-0"
+                                    />
+                                    {objective}
+                                  </label>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-slate-500">
+              {isVi ? `${picks.length} bài · ${objectiveCount} yêu cầu cần đạt` : `${picks.length} lessons · ${objectiveCount} objectives`}
+            </span>
+            <button onClick={() => setPicked(new Set())} disabled={picked.size === 0} className="text-indigo-600 hover:underline disabled:opacity-50">
+              {isVi ? 'Bỏ chọn tất cả' : 'Untick all'}
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 px-4 py-2 rounded-lg transition">
+              {isVi ? 'Huỷ' : 'Cancel'}
+            </button>
+            <button
+              onClick={() => onSave(curriculum.chapters.flatMap(c => c.lessons.flatMap(lessonIds)).filter(id => picked.has(id)))}
+              className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition"
+            >
+              {isVi ? 'Dùng cho đề' : 'Use for the paper'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CurriculumPicker;
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { CustomPreamble } from '../types';
+import { createStorageId } from '../services/storageService';
+import { findDeclaredPlaceholders } from '../utils/examRenderer';
+
+interface CustomPreambleDialogProps {
+  isVi: boolean;
+  preamble: CustomPreamble | null; // null = new preamble
+  onClose: () => void;
+  onSave: (preamble: CustomPreamble) => void;
+  onDelete: (preamble: CustomPreamble) => void;
+}
+
+const CustomPreambleDialog: React.FC<CustomPreambleDialogProps> = ({ isVi, preamble, onClose, onSave, onDelete }) => {
+  const [name, setName] = useState(preamble?.name || '');
+  const [source, setSource] = useState(preamble?.source || '');
+  const [values, setValues] = useState<Record<string, string>>(
+    Object.fromEntries((preamble?.placeholders || []).map(p => [p.key, p.value]))
+  );
+
+  // Only the part before \begin{document} is kept; the generator writes the document itself
+  const cleanSource = useMemo(() => {
+    const docStart = source.indexOf('\\begin{document}');
+    return (docStart === -1 ? source : source.slice(0, docStart)).trim();
+  }, [source]);
+  const placeholders = useMemo(() => findDeclaredPlaceholders(cleanSource), [cleanSource]);
+
+  const warnings: string[] = [];
+  if (cleanSource && !cleanSource.startsWith('\\documentclass')) {
+    warnings.push(isVi ? 'Preamble nên bắt đầu bằng \\documentclass.' : 'The preamble should start with \\documentclass.');
+  }
+  if (cleanSource && !/\\newenvironment\{questionbox\}/.test(cleanSource)) {
+    warnings.push(isVi ? 'Chưa định nghĩa môi trường questionbox — đề sẽ không biên dịch được.' : 'questionbox is not defined — the exam will not compile.');
+  }
+  const missingCommands = ['tfstatements', 'tfitem', 'answerline', 'matching', 'matchpair', 'blank']
+    .filter(name => !new RegExp(`\\\\(newenvironment|newcommand)\\{\\\\?${name}\\}`).test(cleanSource));
+  if (cleanSource && missingCommands.length > 0) {
+    warnings.push(isVi
+      ? `Chưa định nghĩa ${missingCommands.join(', ')} — cần cho câu Đúng/Sai, trả lời ngắn, nối cột và điền khuyết.`
+      : `${missingCommands.join(', ')} not defined — needed for true/false, short-answer, matching and fill-in questions.`);
+  }
+  if (source.includes('\\begin{document}')) {
+    warnings.push(isVi ? 'Phần từ \\begin{document} trở đi sẽ bị bỏ qua.' : 'Everything from \\begin{document} on is ignored.');
+  }
+
+  const save = () => {
+    onSave({
+      id: preamble?.id || createStorageId(),
+      name: name.trim() || (isVi ? 'Preamble riêng' : 'Own preamble'),
+      source: cleanSource,
+      placeholders: placeholders.map(key => ({ key, value: values[key] || '' })),
+    });
+  };
+
+  const remove = () => {
+    if (preamble && confirm(isVi ? `Xoá preamble "${preamble.name}"?` : `Delete preamble "${preamble.name}"?`)) onDelete(preamble);
+  };
+
+  const fieldClass = 'w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-slate-800';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-700">{isVi ? 'Preamble riêng' : 'Own preamble'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">{isVi ? 'Tên' : 'Name'}</label>
+            <input value={name} onChange={e => setName(e.target.value)} className={fieldClass} placeholder={isVi ? 'Ví dụ: Mẫu tổ Toán' : 'e.g. Maths department'} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">{isVi ? 'Mã preamble (đến trước \\begin{document})' : 'Preamble source (up to \\begin{document})'}</label>
+            <textarea
+              value={source}
+              onChange={e => setSource(e.target.value)}
+              spellCheck={false}
+              rows={12}
+              className={`${fieldClass} font-mono text-xs`}
+              placeholder={'\\documentclass[a4paper]{article}\n...\n\\newenvironment{questionbox}[1]{...}{...}'}
+            />
+            <p className="text-xs text-slate-500 mt-2">
+              {isVi
+                ? 'Có thể dùng các chỗ trống có sẵn như [TRƯỜNG], [GIÁO VIÊN], [LỚP], [CHỦ ĐỀ], [HÌNH MỜ], [LIÊN HỆ] hoặc tự đặt thêm, ví dụ [TỔ CHUYÊN MÔN].'
+                : 'Use the built-in placeholders such as [SCHOOL], [TEACHER], [GRADE], [TOPIC], [WATERMARK], [CONTACT] or declare your own, e.g. [DEPARTMENT].'}
+            </p>
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+              {warnings.map(w => <li key={w}>⚠ {w}</li>)}
+            </ul>
+          )}
+
+          {placeholders.length > 0 && (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">{isVi ? 'Giá trị cho chỗ trống tự đặt' : 'Values for declared placeholders'}</label>
+              <div className="space-y-2">
+                {placeholders.map(key => (
+                  <div key={key} className="flex items-center gap-3">
+                    <code className="text-xs font-mono text-indigo-700 w-48 flex-shrink-0 truncate">{key}</code>
+                    <input
+                      value={values[key] || ''}
+                      onChange={e => setValues({ ...values, [key]: e.target.value })}
+                      className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between gap-2">
+          <div>
+            {preamble && (
+              <button onClick={remove} className="text-sm font-semibold text-red-600 px-4 py-2 rounded-lg hover:bg-red-50">
+                {isVi ? 'Xoá' : 'Delete'}
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-100">
+              {isVi ? 'Huỷ' : 'Cancel'}
+            </button>
+            <button
+              onClick={save}
+              disabled={!cleanSource}
+              className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-4 py-2 rounded-lg transition"
+            >
+              {isVi ? 'Lưu' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomPreambleDialog;
@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { COGNITIVE_LEVELS, CognitiveLevel, ExamMatrix, ExamModel, ExamQuestion } from '../types';
+import { getQuestionBlocks, parseQuestionLatex } from '../utils/examRenderer';
+import { describeAnswer, moveQuestion, OPTION_LETTERS, questionTypeLabel, removeQuestion, replaceQuestion, STATEMENT_LETTERS } from '../utils/examModel';
+import { isMatrixActive, matrixCellLabel } from '../utils/examMatrix';
+
+interface ExamEditorProps {
+  exam: ExamModel;
+  latex: string; // renderExamLatex(exam), already computed by the caller
+  isVi: boolean;
+  busyKey: string | null; // Question id (or issue id) currently waiting on the model
+  highlight: { line: number; nonce: number } | null; // Scroll to and flash this source line
+  onChange: (exam: ExamModel) => void;
+  onRegenerate: (question: ExamQuestion) => void;
+  bankedIds: Set<string>; // Questions already saved to the question bank
+  onSaveToBank: (question: ExamQuestion) => void;
+  matrix?: ExamMatrix; // When active, each question shows (and can be moved to) its matrix cell
+}
+
+type Segment =
+  | { kind: 'text'; text: string; startLine: number }
+  | { kind: 'question'; text: string; startLine: number; question: ExamQuestion };
+
+const countLines = (text: string) => text.split('\n').length - 1;
+
+// Cut the document into read-only template text and one editable block per questionbox
+const buildSegments = (latex: string, exam: ExamModel): Segment[] => {
+  const segments: Segment[] = [];
+  let cursor = 0;
+  let line = 1;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    segments.push({ kind: 'text', text, startLine: line });
+    line += countLines(text);
+  };
+
+  getQuestionBlocks(latex, exam).forEach(block => {
+    pushText(latex.slice(cursor, block.start));
+    // Keep whole lines together so the gutter numbers match the source
+    const end = latex[block.end] === '\n' ? block.end + 1 : block.end;
+    const text = latex.slice(block.start, end);
+    segments.push({ kind: 'question', text, startLine: line, question: block.question });
+    line += countLines(text);
+    cursor = end;
+  });
+  pushText(latex.slice(cursor));
+  return segments;
+};
+
+const CodeLines: React.FC<{ text: string; startLine: number; flashLine: number | null; muted?: boolean }> = ({ text, startLine, flashLine, muted }) => (
+  <pre className={`font-mono text-sm leading-relaxed ${muted ? 'text-slate-400' : 'text-slate-800'}`}>
+    {text.split('\n').map((content, i) => (
+      <div key={i} data-line={startLine + i} className={`flex ${flashLine === startLine + i ? 'bg-amber-100' : ''}`}>
+        <span className="w-10 flex-shrink-0 text-right pr-3 text-slate-300 select-none">{startLine + i}</span>
+        <span className="whitespace-pre-wrap break-all">{content || ' '}</span>
+      </div>
+    ))}
+  </pre>
+);
+
+const ExamEditor: React.FC<ExamEditorProps> = ({ exam, latex, isVi, busyKey, highlight, onChange, onRegenerate, bankedIds, onSaveToBank, matrix }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [draftAnswer, setDraftAnswer] = useState('');
+  const [draftTruth, setDraftTruth] = useState<boolean[]>([]);
+  const [flashLine, setFlashLine] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const segments = useMemo(() => buildSegments(latex, exam), [latex, exam]);
+
+  useEffect(() => {
+    if (!highlight) return;
+    const target = containerRef.current?.querySelector(`[data-line="${highlight.line}"]`);
+    target?.scrollIntoView({ block: 'center' });
+    setFlashLine(highlight.line);
+    const timer = setTimeout(() => setFlashLine(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlight]);
+
+  const startEditing = (segment: Extract<Segment, { kind: 'question' }>) => {
+    setEditingId(segment.question.id);
+    setDraft(segment.text.trimEnd());
+    setDraftAnswer(segment.question.type === 'fillBlank' ? (segment.question.blanks || []).join('; ') : segment.question.correctAnswer);
+    setDraftTruth((segment.question.statements || []).map(s => s.isTrue));
+  };
+
+  // The LaTeX carries the text; answers that do not show in the paper come from the fields under it
+  const saveEditing = (question: ExamQuestion) => {
+    const edited = parseQuestionLatex(draft, question);
+    switch (question.type) {
+      case 'mc':
+      case 'shortAnswer':
+        edited.correctAnswer = draftAnswer.trim();
+        break;
+      case 'trueFalse':
+        edited.statements = (edited.statements || []).map((s, i) => ({ ...s, isTrue: draftTruth[i] ?? s.isTrue }));
+        break;
+      case 'fillBlank':
+        edited.blanks = draftAnswer.split(';').map(b => b.trim()).filter(Boolean);
+        break;
+    }
+    onChange(replaceQuestion(exam, edited));
+    setEditingId(null);
+  };
+
+  const deleteQuestion = (question: ExamQuestion) => {
+    if (!confirm(isVi ? 'Xoá câu hỏi này khỏi đề?' : 'Remove this question from the paper?')) return;
+    onChange(removeQuestion(exam, question.id));
+  };
+
+  const matrixCells = useMemo(
+    () => (isMatrixActive(matrix)
+      ? matrix.rows.flatMap(row => COGNITIVE_LEVELS.map(({ id }) => {
+        return { key: `${row.id}|${id}`, label: matrixCellLabel(matrix, { rowId: row.id, level: id }, isVi) };
+      }))
+      : []),
+    [matrix, isVi]
+  );
+
+  const assignCell = (question: ExamQuestion, key: string) => {
+    const [rowId, level] = key.split('|');
+    onChange(replaceQuestion(exam, { ...question, matrixCell: rowId ? { rowId, level: level as CognitiveLevel } : undefined }));
+  };
+
+  const toolButton = 'px-2 py-1 rounded text-xs font-semibold transition disabled:text-slate-300';
+
+  return (
+    <div ref={containerRef} className="h-full overflow-y-auto custom-scrollbar p-4">
+      {segments.map(segment => {
+        if (segment.kind === 'text') {
+          return <CodeLines key={`text-${segment.startLine}`} text={segment.text.replace(/\n$/, '')} startLine={segment.startLine} flashLine={flashLine} muted />;
+        }
+
+        const { question } = segment;
+        const sameType = exam.questions.filter(q => q.type === question.type);
+        const position = sameType.findIndex(q => q.id === question.id);
+        const isEditing = editingId === question.id;
+        const isBusy = busyKey === question.id;
+
+        return (
+          <div
+            key={question.id}
+            className={`my-1 rounded-lg border ${isEditing ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200 hover:border-indigo-300'} ${isBusy ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-center justify-between px-2 py-1 bg-slate-50 border-b border-slate-200 rounded-t-lg">
+              <span className="text-xs font-bold text-slate-600">
+                {questionTypeLabel(question.type, isVi)} · {position + 1}
+                {question.type !== 'essay' && !isEditing && <span className="ml-2 text-emerald-700">{isVi ? 'Đáp án' : 'Answer'}: {describeAnswer(question, isVi)}</span>}
+                {matrixCells.length > 0 && !isEditing && (question.type === 'mc' || question.type === 'essay') && (
+                  <select
+                    value={question.matrixCell ? `${question.matrixCell.rowId}|${question.matrixCell.level}` : ''}
+                    onChange={e => assignCell(question, e.target.value)}
+                    disabled={busyKey !== null}
+                    className="ml-2 max-w-[14rem] border border-slate-200 rounded px-1 py-0.5 text-xs font-normal bg-white"
+                    title={isVi ? 'Ô ma trận' : 'Matrix cell'}
+                  >
+                    <option value="">{isVi ? '— Chưa gắn ô ma trận —' : '— No matrix cell —'}</option>
+                    {matrixCells.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                  </select>
+                )}
+              </span>
+              <div className="flex items-center">
+                {isEditing ? (
+                  <>
+                    <button onClick={() => saveEditing(question)} className={`${toolButton} text-white bg-indigo-600 hover:bg-indigo-700`}>
+                      {isVi ? 'Lưu' : 'Save'}
+                    </button>
+                    <button onClick={() => setEditingId(null)} className={`${toolButton} text-slate-600 hover:bg-slate-200`}>
+                      {isVi ? 'Huỷ' : 'Cancel'}
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onChange(moveQuestion(exam, question.id, -1))}
+                      disabled={position === 0 || busyKey !== null}
+                      className={`${toolButton} text-slate-600 hover:bg-slate-200`}
+                      title={isVi ? 'Chuyển lên' : 'Move up'}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => onChange(moveQuestion(exam, question.id, 1))}
+                      disabled={position === sameType.length - 1 || busyKey !== null}
+                      className={`${toolButton} text-slate-600 hover:bg-slate-200`}
+                      title={isVi ? 'Chuyển xuống' : 'Move down'}
+                    >
+                      ↓
+                    </button>
+                    <button onClick={() => startEditing(segment)} disabled={busyKey !== null} className={`${toolButton} text-indigo-600 hover:bg-indigo-50`}>
+                      {isVi ? 'Sửa' : 'Edit'}
+                    </button>
+                    <button onClick={() => onRegenerate(question)} disabled={busyKey !== null} className={`${toolButton} text-indigo-600 hover:bg-indigo-50`}>
+                      {isBusy ? (isVi ? 'Đang tạo lại...' : 'Regenerating...') : (isVi ? 'Tạo lại câu này' : 'Regenerate this question')}
+                    </button>
+                    <button
+                      onClick={() => onSaveToBank(question)}
+                      disabled={bankedIds.has(question.id)}
+                      className={`${toolButton} text-emerald-700 hover:bg-emerald-50`}
+                    >
+                      {bankedIds.has(question.id) ? (isVi ? 'Đã lưu' : 'Saved') : (isVi ? 'Lưu vào ngân hàng' : 'Save to bank')}
+                    </button>
+                    <button onClick={() => deleteQuestion(question)} disabled={busyKey !== null} className={`${toolButton} text-red-600 hover:bg-red-50`}>
+                      {isVi ? 'Xoá' : 'Delete'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            {isEditing ? (
+              <div className="p-2">
+                <textarea
+                  value={draft}
+                  onChange={e => setDraft(e.target.value)}
+                  rows={Math.min(20, draft.split('\n').length + 1)}
+                  spellCheck={false}
+                  className="w-full font-mono text-sm p-2 border border-slate-200 rounded outline-none focus:border-indigo-400"
+                />
+                {question.type === 'mc' && (
+                  <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 mt-1">
+                    {isVi ? 'Đáp án đúng' : 'Correct answer'}
+                    <select value={draftAnswer} onChange={e => setDraftAnswer(e.target.value)} className="border border-slate-200 rounded px-1 py-0.5">
+                      {OPTION_LETTERS.map(letter => <option key={letter} value={letter}>{letter}</option>)}
+                    </select>
+                  </label>
+                )}
+                {(question.type === 'shortAnswer' || question.type === 'fillBlank') && (
+                  <label className="flex items-center gap-2 text-xs font-semibold text-slate-600 mt-1">
+                    {question.type === 'shortAnswer'
+                      ? (isVi ? 'Đáp số' : 'Answer')
+                      : (isVi ? 'Đáp án các chỗ trống (cách nhau bởi ;)' : 'Blank answers (separated by ;)')}
+                    <input value={draftAnswer} onChange={e => setDraftAnswer(e.target.value)} className="flex-1 border border-slate-200 rounded px-1 py-0.5 font-mono" />
+                  </label>
+                )}
+                {question.type === 'trueFalse' && (
+                  <div className="flex items-center gap-3 text-xs font-semibold text-slate-600 mt-1">
+                    {isVi ? 'Mệnh đề đúng' : 'True statements'}
+                    {STATEMENT_LETTERS.slice(0, Math.max(draftTruth.length, 1)).map((letter, i) => (
+                      <label key={letter} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={!!draftTruth[i]}
+                          onChange={e => setDraftTruth(draftTruth.map((value, j) => (j === i ? e.target.checked : value)))}
+                        />
+                        {letter})
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div onDoubleClick={() => busyKey === null && startEditing(segment)} className="py-1">
+                <CodeLines text={segment.text.replace(/\n$/, '')} startLine={segment.startLine} flashLine={flashLine} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ExamEditor;
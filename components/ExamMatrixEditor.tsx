@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { COGNITIVE_LEVELS, CognitiveLevel, ExamMatrix, MatrixCell, MatrixRow } from '../types';
+import { createMatrixRow, getMatrixTotals } from '../utils/examMatrix';
+import { formatPoints } from '../utils/examRenderer';
+
+interface ExamMatrixEditorProps {
+  isVi: boolean;
+  matrix: ExamMatrix;
+  topic: string; // Seeds the first row of an empty matrix
+  onClose: () => void;
+  onSave: (matrix: ExamMatrix) => void;
+}
+
+const ExamMatrixEditor: React.FC<ExamMatrixEditorProps> = ({ isVi, matrix, topic, onClose, onSave }) => {
+  const [rows, setRows] = useState<MatrixRow[]>(matrix.rows.length > 0 ? matrix.rows : [createMatrixRow(topic)]);
+  const [openSpecs, setOpenSpecs] = useState<Set<string>>(new Set());
+
+  const totals = getMatrixTotals({ enabled: true, rows });
+
+  const updateRow = (id: string, patch: Partial<MatrixRow>) => setRows(rows.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const updateCell = (row: MatrixRow, level: CognitiveLevel, patch: Partial<MatrixCell>) =>
+    updateRow(row.id, { cells: { ...row.cells, [level]: { ...row.cells[level], ...patch } } });
+
+  const toggleSpec = (id: string) => {
+    const next = new Set(openSpecs);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setOpenSpecs(next);
+  };
+
+  const numberInput = (value: number, onChange: (value: number) => void, step = 1, title = '') => (
+    <input
+      type="number"
+      min="0"
+      step={step}
+      value={value}
+      title={title}
+      onChange={e => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+      className="w-12 px-1 py-1 text-center text-xs border border-slate-200 rounded focus:ring-1 focus:ring-indigo-500 outline-none"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Ma trận đề' : 'Specification matrix'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi
+                ? 'Mỗi ô: số câu trắc nghiệm (TN), số câu tự luận (TL) và tổng điểm của ô.'
+                : 'Each cell: multiple-choice count (MC), constructed-response count (CR) and the cell\'s total points.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="bg-slate-100 text-slate-700">
+                <th className="border border-slate-200 p-2 w-8">TT</th>
+                <th className="border border-slate-200 p-2 text-left">{isVi ? 'Nội dung kiến thức' : 'Content'}</th>
+                {COGNITIVE_LEVELS.map(l => (
+                  <th key={l.id} className="border border-slate-200 p-2">
+                    {isVi ? l.vi : l.en}
+                    <div className="font-normal text-slate-500">{isVi ? 'TN · TL · điểm' : 'MC · CR · pts'}</div>
+                  </th>
+                ))}
+                <th className="border border-slate-200 p-2">{isVi ? 'Số câu' : 'Qs'}</th>
+                <th className="border border-slate-200 p-2">{isVi ? 'Điểm' : 'Pts'}</th>
+                <th className="border border-slate-200 p-2 w-8"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => {
+                const rowCount = COGNITIVE_LEVELS.reduce((sum, { id }) => sum + row.cells[id].numMultipleChoice + row.cells[id].numEssay, 0);
+                const rowPoints = COGNITIVE_LEVELS.reduce((sum, { id }) => sum + row.cells[id].points, 0);
+                return (
+                  <React.Fragment key={row.id}>
+                    <tr>
+                      <td className="border border-slate-200 p-2 text-center font-semibold">{i + 1}</td>
+                      <td className="border border-slate-200 p-1">
+                        <input
+                          value={row.subTopic}
+                          onChange={e => updateRow(row.id, { subTopic: e.target.value })}
+                          placeholder={isVi ? 'Ví dụ: Phép cộng phân số' : 'e.g. Adding fractions'}
+                          className="w-full min-w-[10rem] px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                        />
+                        <button onClick={() => toggleSpec(row.id)} className="mt-1 text-indigo-600 hover:underline">
+                          {openSpecs.has(row.id) ? (isVi ? 'Ẩn đặc tả' : 'Hide requirements') : (isVi ? 'Đặc tả (yêu cầu cần đạt)' : 'Requirements')}
+                        </button>
+                      </td>
+                      {COGNITIVE_LEVELS.map(({ id }) => (
+                        <td key={id} className="border border-slate-200 p-1 whitespace-nowrap text-center">
+                          {numberInput(row.cells[id].numMultipleChoice, v => updateCell(row, id, { numMultipleChoice: Math.round(v) }), 1, isVi ? 'Trắc nghiệm' : 'Multiple choice')}
+                          {numberInput(row.cells[id].numEssay, v => updateCell(row, id, { numEssay: Math.round(v) }), 1, isVi ? 'Tự luận' : 'Constructed response')}
+                          {numberInput(row.cells[id].points, v => updateCell(row, id, { points: v }), 0.25, isVi ? 'Điểm' : 'Points')}
+                        </td>
+                      ))}
+                      <td className="border border-slate-200 p-2 text-center font-semibold">{rowCount}</td>
+                      <td className="border border-slate-200 p-2 text-center font-semibold">{formatPoints(rowPoints, isVi)}</td>
+                      <td className="border border-slate-200 p-1 text-center">
+                        <button
+                          onClick={() => setRows(rows.filter(r => r.id !== row.id))}
+                          disabled={rows.length === 1}
+                          className="text-red-500 hover:text-red-700 disabled:text-slate-300 font-bold"
+                          title={isVi ? 'Xoá dòng' : 'Delete row'}
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                    {openSpecs.has(row.id) && (
+                      <tr className="bg-slate-50">
+                        <td className="border border-slate-200"></td>
+                        <td colSpan={8} className="border border-slate-200 p-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            {COGNITIVE_LEVELS.map(l => (
+                              <label key={l.id} className="block">
+                                <span className="font-semibold text-slate-600">{isVi ? l.vi : l.en}</span>
+                                <textarea
+                                  value={row.cells[l.id].requirement}
+                                  onChange={e => updateCell(row, l.id, { requirement: e.target.value })}
+                                  rows={2}
+                                  className="w-full mt-1 px-2 py-1 border border-slate-200 rounded outline-none focus:ring-1 focus:ring-indigo-500"
+                                />
+                              </label>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              <tr className="bg-slate-100 font-semibold text-slate-700">
+                <td className="border border-slate-200 p-2" colSpan={2}>{isVi ? 'Tổng' : 'Total'}</td>
+                {COGNITIVE_LEVELS.map(({ id }) => (
+                  <td key={id} className="border border-slate-200 p-2 text-center">
+                    {totals.byLevel[id].numMultipleChoice} · {totals.byLevel[id].numEssay} · {formatPoints(totals.byLevel[id].points, isVi)}
+                  </td>
+                ))}
+                <td className="border border-slate-200 p-2 text-center">{totals.numMultipleChoice + totals.numEssay}</td>
+                <td className={`border border-slate-200 p-2 text-center ${totals.points !== 10 ? 'text-amber-600' : 'text-emerald-700'}`}>{formatPoints(totals.points, isVi)}</td>
+                <td className="border border-slate-200"></td>
+              </tr>
+            </tbody>
+          </table>
+
+          <button onClick={() => setRows([...rows, createMatrixRow()])} className="mt-3 text-sm font-semibold text-indigo-600 hover:underline">
+            + {isVi ? 'Thêm nội dung' : 'Add content row'}
+          </button>
+          {totals.points !== 10 && (
+            <p className="mt-2 text-xs text-amber-600">
+              {isVi ? `Tổng điểm ma trận là ${formatPoints(totals.points, true)}, thường là 10.` : `The matrix totals ${totals.points} points; papers usually total 10.`}
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between gap-2">
+          <button onClick={() => onSave({ enabled: false, rows })} className="text-sm font-semibold text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-100">
+            {isVi ? 'Không dùng ma trận' : 'Turn matrix off'}
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="text-sm font-semibold text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-100">
+              {isVi ? 'Huỷ' : 'Cancel'}
+            </button>
+            <button
+              onClick={() => onSave({ enabled: true, rows })}
+              disabled={totals.numMultipleChoice + totals.numEssay === 0}
+              className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-4 py-2 rounded-lg transition"
+            >
+              {isVi ? 'Dùng ma trận này' : 'Use this matrix'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamMatrixEditor;
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { SourceFigure } from '../types';
+import { nextFigureName } from '../utils/sourceProblems';
+
+interface FigureCropperProps {
+  isVi: boolean;
+  url: string; // Object URL of the uploaded image
+  fileName: string;
+  figures: SourceFigure[]; // Every figure cut so far, from any file
+  onAdd: (figure: SourceFigure) => void;
+  onRemove: (name: string) => void;
+}
+
+// Selection on the displayed image, as fractions of its size
+interface Selection {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Cuts are saved at most this wide; selections smaller than this fraction of the image are ignored
+const MAX_FIGURE_WIDTH = 1200;
+const MIN_SELECTION = 0.02;
+
+const cropImage = (image: HTMLImageElement, { x0, y0, x1, y1 }: Selection) => {
+  const sx = Math.min(x0, x1) * image.naturalWidth;
+  const sy = Math.min(y0, y1) * image.naturalHeight;
+  const sw = Math.abs(x1 - x0) * image.naturalWidth;
+  const sh = Math.abs(y1 - y0) * image.naturalHeight;
+  const scale = Math.min(1, MAX_FIGURE_WIDTH / sw);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Drag a rectangle over the picture, describe it and save it as a named figure for the generator
+const FigureCropper: React.FC<FigureCropperProps> = ({ isVi, url, fileName, figures, onAdd, onRemove }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [label, setLabel] = useState('');
+
+  const pointAt = (e: React.MouseEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const startDrag = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const { x, y } = pointAt(e);
+    setSelection({ x0: x, y0: y, x1: x, y1: y });
+    setDragging(true);
+  };
+
+  const moveDrag = (e: React.MouseEvent) => {
+    if (!dragging) return;
+    const { x, y } = pointAt(e);
+    setSelection(prev => prev && { ...prev, x1: x, y1: y });
+  };
+
+  const isUsable = !!selection && Math.abs(selection.x1 - selection.x0) > MIN_SELECTION && Math.abs(selection.y1 - selection.y0) > MIN_SELECTION;
+
+  const save = () => {
+    if (!selection || !imageRef.current || !isUsable) return;
+    onAdd({ name: nextFigureName(figures), label: label.trim(), dataUrl: cropImage(imageRef.current, selection), fileName });
+    setSelection(null);
+    setLabel('');
+  };
+
+  const fromThisFile = figures.filter(f => f.fileName === fileName);
+
+  return (
+    <div className="w-full h-full flex gap-4 min-h-0">
+      <div className="flex-1 min-w-0 overflow-auto flex justify-center items-start">
+        <div
+          className="relative inline-block cursor-crosshair select-none"
+          onMouseDown={startDrag}
+          onMouseMove={moveDrag}
+          onMouseUp={() => setDragging(false)}
+          onMouseLeave={() => setDragging(false)}
+        >
+          <img ref={imageRef} src={url} alt="Preview" draggable={false} className="max-w-full rounded shadow-lg" />
+          {selection && (
+            <div
+              className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
+              style={{
+                left: `${Math.min(selection.x0, selection.x1) * 100}%`,
+                top: `${Math.min(selection.y0, selection.y1) * 100}%`,
+                width: `${Math.abs(selection.x1 - selection.x0) * 100}%`,
+                height: `${Math.abs(selection.y1 - selection.y0) * 100}%`,
+              }}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="w-64 flex-shrink-0 flex flex-col gap-3 min-h-0">
+        <div className="bg-white rounded-lg border border-slate-200 p-3 space-y-2">
+          <p className="text-xs text-slate-500">
+            {isVi ? 'Kéo chuột quanh hình vẽ để cắt, ghi hình thuộc bài nào rồi lưu.' : 'Drag around a figure to cut it, say which problem it belongs to, then save.'}
+          </p>
+          <input
+            value={label}
+            onChange={e => setLabel(e.target.value)}
+            placeholder={isVi ? 'Ví dụ: Hình bài 3, tam giác ABC' : 'e.g. Figure of problem 3, triangle ABC'}
+            className="w-full px-2 py-1.5 text-xs border border-slate-200 rounded focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <button
+            onClick={save}
+            disabled={!isUsable}
+            className="w-full text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-3 py-1.5 rounded transition"
+          >
+            {isVi ? `Lưu thành ${nextFigureName(figures)}` : `Save as ${nextFigureName(figures)}`}
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          {fromThisFile.map(figure => (
+            <li key={figure.name} className="bg-white rounded-lg border border-slate-200 p-2 text-xs">
+              <img src={figure.dataUrl} alt={figure.name} className="max-h-24 mx-auto object-contain" />
+              <div className="flex justify-between items-center mt-1.5 gap-2">
+                <span className="font-mono font-semibold text-slate-700 truncate" title={figure.label}>{figure.name}</span>
+                <button onClick={() => onRemove(figure.name)} className="text-red-600 hover:underline flex-shrink-0">
+                  {isVi ? 'Xoá' : 'Delete'}
+                </button>
+              </div>
+              {figure.label && <p className="text-slate-500 truncate">{figure.label}</p>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default FigureCropper;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { ConfigPreset, HistoryEntry } from '../types';
+
+interface HistorySidebarProps {
+  isVi: boolean;
+  history: HistoryEntry[];
+  presets: ConfigPreset[];
+  currentId: string | null; // History entry shown in the output panel
+  onClose: () => void;
+  onOpen: (entry: HistoryEntry) => void;
+  onDuplicate: (entry: HistoryEntry) => void;
+  onRename: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onSavePreset: () => void;
+  onLoadPreset: (preset: ConfigPreset) => void;
+  onDeletePreset: (preset: ConfigPreset) => void;
+}
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  isVi, history, presets, currentId, onClose, onOpen, onDuplicate, onRename, onDelete, onSavePreset, onLoadPreset, onDeletePreset,
+}) => {
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleString(isVi ? 'vi-VN' : 'en-GB', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside className="w-80 max-w-full h-full bg-white shadow-2xl border-r border-slate-200 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800">{isVi ? 'Lịch sử & cấu hình' : 'History & presets'}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <section className="p-4 border-b border-slate-200">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-slate-700 uppercase tracking-wider">{isVi ? 'Cấu hình đã lưu' : 'Saved presets'}</span>
+            <button onClick={onSavePreset} className="text-xs font-bold text-indigo-600 hover:underline">
+              {isVi ? '+ Lưu cấu hình hiện tại' : '+ Save current'}
+            </button>
+          </div>
+          {presets.length === 0 ? (
+            <p className="text-xs text-slate-400">{isVi ? 'Chưa có cấu hình nào.' : 'No presets yet.'}</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <span key={preset.id} className="inline-flex items-center bg-indigo-50 border border-indigo-100 rounded-full text-xs font-semibold text-indigo-700">
+                  <button onClick={() => onLoadPreset(preset)} className="pl-3 pr-1 py-1 hover:underline" title={isVi ? 'Nạp cấu hình' : 'Load preset'}>
+                    {preset.name}
+                  </button>
+                  <button onClick={() => onDeletePreset(preset)} className="pr-2 pl-1 py-1 text-indigo-300 hover:text-red-500" title={isVi ? 'Xoá' : 'Delete'}>
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <div className="px-4 pt-4 pb-2 text-xs font-bold text-slate-700 uppercase tracking-wider">
+          {isVi ? `Đề đã tạo (${history.length})` : `Generated exams (${history.length})`}
+        </div>
+        <ul className="flex-1 overflow-y-auto custom-scrollbar px-2 pb-4 space-y-1">
+          {history.length === 0 && (
+            <li className="px-2 text-xs text-slate-400">{isVi ? 'Các đề đã tạo sẽ được lưu tại đây.' : 'Generated exams are kept here.'}</li>
+          )}
+          {history.map(entry => (
+            <li
+              key={entry.id}
+              className={`rounded-lg border p-2.5 text-xs ${entry.id === currentId ? 'border-indigo-300 bg-indigo-50/60' : 'border-transparent hover:border-slate-200 hover:bg-slate-50'}`}
+            >
+              <button onClick={() => onOpen(entry)} className="block w-full text-left">
+                <div className="font-bold text-slate-800 text-sm truncate">{entry.name}</div>
+                <div className="text-slate-500 mt-0.5">
+                  {isVi ? 'Lớp' : 'Grade'} {entry.config.grade} · {entry.exam.questions.length} {isVi ? 'câu' : 'questions'} · {formatDate(entry.updatedAt)}
+                </div>
+                {entry.files.length > 0 && (
+                  <div className="text-slate-400 truncate mt-0.5" title={entry.files.map(f => f.name).join(', ')}>
+                    📎 {entry.files.map(f => f.name).join(', ')}
+                  </div>
+                )}
+              </button>
+              <div className="flex gap-3 mt-1.5 font-semibold">
+                <button onClick={() => onDuplicate(entry)} className="text-slate-600 hover:underline">{isVi ? 'Nhân bản' : 'Duplicate'}</button>
+                <button onClick={() => onRename(entry)} className="text-slate-600 hover:underline">{isVi ? 'Đổi tên' : 'Rename'}</button>
+                <button onClick={() => onDelete(entry)} className="text-red-600 hover:underline">{isVi ? 'Xoá' : 'Delete'}</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <div className="flex-1 bg-black/30 backdrop-blur-[1px]" />
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { renderLatexPreview } from '../utils/latexPreview';
+
+interface LatexPreviewProps {
+  latex: string;
+  isVi: boolean;
+  onJumpToLine: (line: number) => void; // Opens the source tab at the offending line
+  images?: Record<string, string>; // \includegraphics file name -> data URL
+}
+
+const LatexPreview: React.FC<LatexPreviewProps> = ({ latex, isVi, onJumpToLine, images }) => {
+  const { html, problems } = useMemo(() => renderLatexPreview(latex, isVi, images), [latex, isVi, images]);
+  const errorCount = problems.filter(p => p.severity === 'error').length;
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      {problems.length > 0 && (
+        <div className="max-h-36 overflow-y-auto custom-scrollbar border-b border-slate-200 bg-slate-50 px-4 py-2 text-xs">
+          <div className="font-bold text-slate-700 uppercase tracking-wider mb-1.5">
+            {isVi
+              ? `Lỗi khi dựng bản xem trước (${errorCount} lỗi, ${problems.length - errorCount} cảnh báo)`
+              : `Preview problems (${errorCount} errors, ${problems.length - errorCount} warnings)`}
+          </div>
+          <ul className="space-y-1">
+            {problems.map((problem, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <button
+                  onClick={() => onJumpToLine(problem.line)}
+                  className={`font-mono font-bold px-1.5 py-0.5 rounded flex-shrink-0 ${problem.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+                  title={isVi ? 'Mở mã nguồn tại dòng này' : 'Open the source at this line'}
+                >
+                  L{problem.line}
+                </button>
+                <span className="text-slate-700 leading-snug pt-0.5">{problem.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex-1 overflow-auto custom-scrollbar bg-slate-200 p-6">
+        <div dangerouslySetInnerHTML={{ __html: html }} />
+      </div>
+
+      <style>{`
+        .latex-page {
+          position: relative;
+          max-width: 794px;
+          min-height: 1123px;
+          margin: 0 auto;
+          padding: 48px 56px;
+          background: white;
+          box-shadow: 0 4px 16px rgba(15, 23, 42, 0.15);
+          font-family: 'Latin Modern Roman', 'Times New Roman', serif;
+          font-size: 15px;
+          line-height: 1.55;
+          color: #0f172a;
+          overflow: hidden;
+        }
+        .latex-watermark {
+          position: absolute;
+          top: 50%;
+          left: 50%;
+          transform: translate(-50%, -50%) rotate(45deg);
+          font-size: 64px;
+          font-weight: bold;
+          color: rgba(163, 193, 173, 0.2);
+          white-space: nowrap;
+          pointer-events: none;
+        }
+        .latex-header, .latex-footer {
+          display: flex;
+          justify-content: space-between;
+          font-size: 13px;
+        }
+        .latex-header { border-bottom: 1px solid #64748b; padding-bottom: 4px; margin-bottom: 16px; }
+        .latex-footer { border-top: 1px solid #64748b; padding-top: 4px; margin-top: 32px; }
+        .latex-body { position: relative; }
+        .latex-par { height: 0.6em; }
+        .latex-h2 { font-size: 1.25em; font-weight: bold; color: rgb(0, 51, 102); margin: 1em 0 0.5em; }
+        .latex-h3 { font-size: 1.1em; font-weight: bold; color: rgb(0, 51, 102); margin: 0.8em 0 0.4em; }
+        .latex-center { text-align: center; }
+        .latex-questionbox, .latex-solutionbox { margin: 0.6em 0; }
+        .latex-questionbox-label { color: rgb(0, 51, 102); }
+        .latex-solutionbox { border-left: 3px solid rgb(163, 193, 173); padding-left: 0.75em; }
+        .latex-solutionbox-label { color: rgb(0, 51, 102); }
+        .latex-translated { font-style: italic; color: #475569; }
+        .latex-bilingual { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 1em; margin: 0.3em 0; }
+        .latex-blank { display: inline-block; width: 5.75em; border-bottom: 1px solid #000; }
+        .latex-tasks { display: grid; gap: 0.25em 1em; margin: 0.3em 0 0.3em 1em; }
+        .latex-table { border-collapse: collapse; margin: 0.3em auto; }
+        .latex-cell { padding: 2px 6px; white-space: nowrap; vertical-align: top; }
+        .latex-cell-bordered { padding: 2px 6px; border: 1px solid #334155; vertical-align: top; }
+        .latex-ul { list-style: disc; padding-left: 1.5em; }
+        .latex-ol { list-style: decimal; padding-left: 1.5em; }
+        .latex-rule { border: 0; border-top: 1px solid #334155; margin: 0.5em 0; }
+        .latex-hfill { display: inline-block; flex: 1; min-width: 1em; }
+        .latex-dotfill { display: inline-block; min-width: 3em; border-bottom: 1px dotted #334155; }
+        .latex-framebox { display: inline-block; border: 1px solid #334155; padding: 0 3px; min-width: 1.5em; }
+        .latex-makebox { display: inline-flex; }
+        .latex-makebox .latex-dotfill { flex: 1; }
+        .latex-graphic { display: inline-block; max-height: 1.6cm; }
+        .latex-image { display: inline-block; border: 1px dashed #94a3b8; padding: 1em 2em; color: #64748b; font-size: 0.85em; }
+        .latex-tikz { display: block; text-align: center; margin: 0.5em 0; }
+        .latex-error { color: #b91c1c; background: #fee2e2; font-family: monospace; font-size: 0.85em; }
+      `}</style>
+    </div>
+  );
+};
+
+export default LatexPreview;
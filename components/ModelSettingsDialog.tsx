@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ModelSettings, ProviderId } from '../types';
+import { getProvider, PROVIDERS } from '../services/modelProvider';
+
+interface ModelSettingsDialogProps {
+  isVi: boolean;
+  settings: ModelSettings;
+  onClose: () => void;
+  onSave: (settings: ModelSettings) => void;
+}
+
+const ModelSettingsDialog: React.FC<ModelSettingsDialogProps> = ({ isVi, settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<ModelSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const provider = getProvider(draft.providerId);
+
+  const changeProvider = (providerId: ProviderId) => {
+    setDraft({ ...draft, providerId, model: getProvider(providerId).models[0] });
+  };
+
+  const fieldClass = 'w-full p-3 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition text-slate-800';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-700">{isVi ? 'Cài đặt mô hình' : 'Model settings'}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">{isVi ? 'Nhà cung cấp' : 'Provider'}</label>
+            <select value={draft.providerId} onChange={e => changeProvider(e.target.value as ProviderId)} className={fieldClass}>
+              {PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-slate-700 mb-2">{isVi ? 'Mô hình' : 'Model'}</label>
+            <select value={draft.model} onChange={e => setDraft({ ...draft, model: e.target.value })} className={fieldClass}>
+              {provider.models.map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+
+          {provider.requiresApiKey ? (
+            <div>
+              <label className="block text-sm font-semibold text-slate-700 mb-2">API key</label>
+              <div className="flex gap-2">
+                <input
+                  type={showKey ? 'text' : 'password'}
+                  value={draft.apiKey}
+                  onChange={e => setDraft({ ...draft, apiKey: e.target.value })}
+                  placeholder="AIza..."
+                  autoComplete="off"
+                  spellCheck={false}
+                  className={`${fieldClass} font-mono text-sm`}
+                />
+                <button onClick={() => setShowKey(!showKey)} className="px-3 text-xs font-semibold text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50">
+                  {showKey ? (isVi ? 'Ẩn' : 'Hide') : (isVi ? 'Hiện' : 'Show')}
+                </button>
+              </div>
+              <p className="text-xs text-slate-500 mt-2">
+                {isVi
+                  ? 'Khoá chỉ được lưu trong trình duyệt này (localStorage) và gửi trực tiếp tới nhà cung cấp.'
+                  : 'The key is stored only in this browser (localStorage) and sent straight to the provider.'}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-3">
+              {isVi
+                ? 'Chế độ thử nghiệm ngoại tuyến: trả về câu hỏi mẫu cố định, không cần mạng hay API key.'
+                : 'Offline test mode: returns fixed sample questions, no network or API key needed.'}
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2">
+          <button onClick={onClose} className="text-sm font-semibold text-slate-600 px-4 py-2 rounded-lg hover:bg-slate-100">
+            {isVi ? 'Huỷ' : 'Cancel'}
+          </button>
+          <button onClick={() => onSave(draft)} className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition">
+            {isVi ? 'Lưu' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsDialog;
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { ExamConfig, ExamModel, PromptProfile, PromptSettings, QUESTION_TYPES, SourceFigure, SourceProblem } from '../types';
+import { generateExam } from '../services/geminiService';
+import { renderExamLatex } from '../utils/examRenderer';
+import { validateExamLatex } from '../utils/validator';
+import { DEFAULT_PROMPT_SETTINGS, describePrompt, diffLines, getChangedSections, getSectionText, getVersionSettings, PROMPT_SECTIONS } from '../utils/promptSections';
+
+interface PromptCompareProps {
+  isVi: boolean;
+  config: ExamConfig; // Both papers are written from this form, only the prompt differs
+  files: File[];
+  sources: SourceProblem[]; // Ticked problems
+  figures: SourceFigure[];
+  profiles: PromptProfile[];
+  onOpen: (config: ExamConfig, exam: ExamModel) => void;
+  onClose: () => void;
+}
+
+type Side = 'A' | 'B';
+
+interface CompareRun {
+  config: ExamConfig;
+  exam: ExamModel | null;
+  error?: string;
+  errors: number; // Validation issues of the paper
+  warnings: number;
+}
+
+const DEFAULT_CHOICE = 'default';
+const CURRENT_CHOICE = 'current';
+
+// Same form, two wordings of the prompt: what changed in the text and what each one wrote
+const PromptCompare: React.FC<PromptCompareProps> = ({ isVi, config, files, sources, figures, profiles, onOpen, onClose }) => {
+  const saved = profiles.find(p => p.versions.length > 0); // A starts on a saved version, if there is one
+  const [choices, setChoices] = useState<Record<Side, string>>({
+    A: saved ? `${saved.id}:${saved.versions[saved.versions.length - 1].version}` : DEFAULT_CHOICE,
+    B: CURRENT_CHOICE,
+  });
+  const [runs, setRuns] = useState<Partial<Record<Side, CompareRun>>>({});
+  const [running, setRunning] = useState<Side | null>(null);
+
+  const resolve = (choice: string): PromptSettings => {
+    if (choice === CURRENT_CHOICE) return config.prompt;
+    const [profileId, version] = choice.split(':');
+    const profile = profiles.find(p => p.id === profileId);
+    const found = profile?.versions.find(v => v.version === +version);
+    return profile && found ? getVersionSettings(profile, found) : DEFAULT_PROMPT_SETTINGS;
+  };
+
+  const prompts: Record<Side, PromptSettings> = { A: resolve(choices.A), B: resolve(choices.B) };
+  const changed = useMemo(() => getChangedSections(prompts.A, prompts.B), [choices, profiles, config.prompt]);
+
+  const choose = (side: Side, choice: string) => {
+    setChoices(prev => ({ ...prev, [side]: choice }));
+    setRuns(prev => ({ ...prev, [side]: undefined }));
+  };
+
+  // One after the other, so the two runs do not compete for the same rate limit
+  const run = async () => {
+    setRuns({});
+    for (const side of ['A', 'B'] as Side[]) {
+      setRunning(side);
+      const usedConfig = { ...config, prompt: prompts[side] };
+      try {
+        const exam = await generateExam(usedConfig, files, sources, figures);
+        const issues = validateExamLatex(renderExamLatex(exam, undefined, usedConfig.template), exam, usedConfig, usedConfig.template);
+        const result: CompareRun = {
+          config: usedConfig,
+          exam,
+          errors: issues.filter(i => i.severity === 'error').length,
+          warnings: issues.filter(i => i.severity === 'warning').length,
+        };
+        setRuns(prev => ({ ...prev, [side]: result }));
+      } catch (err: any) {
+        setRuns(prev => ({ ...prev, [side]: { config: usedConfig, exam: null, error: err.message || String(err), errors: 0, warnings: 0 } }));
+      }
+    }
+    setRunning(null);
+  };
+
+  const expected = QUESTION_TYPES.reduce((sum, t) => sum + (config[t.countKey] || 0), 0);
+  const rowCount = Math.max(0, ...(['A', 'B'] as Side[]).map(side => runs[side]?.exam?.questions.length || 0));
+
+  const options = (
+    <>
+      <option value={CURRENT_CHOICE}>{isVi ? `Đang dùng trên form (${describePrompt(config.prompt, true)})` : `On the form (${describePrompt(config.prompt, false)})`}</option>
+      <option value={DEFAULT_CHOICE}>{isVi ? 'Mặc định (có sẵn)' : 'Built-in'}</option>
+      {profiles.map(p => (
+        <optgroup key={p.id} label={p.name}>
+          {p.versions.map(v => (
+            <option key={v.version} value={`${p.id}:${v.version}`}>{`${p.name} · v${v.version}${v.note ? ` — ${v.note}` : ''}`}</option>
+          ))}
+        </optgroup>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'So sánh hai phiên bản lời nhắc' : 'Compare two prompt versions'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi
+                ? `Cùng chủ đề, số câu, tài liệu và hình như trên form; chỉ khác lời nhắc. Mỗi lần chạy tạo 2 đề.`
+                : `Same topic, counts, files and figures as the form; only the prompt differs. Each run writes 2 papers.`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-slate-200 grid grid-cols-2 gap-4">
+          {(['A', 'B'] as Side[]).map(side => (
+            <label key={side} className="flex items-center gap-2 text-sm">
+              <span className="font-bold text-slate-700 w-5">{side}</span>
+              <select
+                value={choices[side]}
+                onChange={e => choose(side, e.target.value)}
+                disabled={running !== null}
+                className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-800 outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {options}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-5">
+          <section>
+            <h4 className="text-sm font-bold text-slate-800 mb-2">{isVi ? 'Khác nhau trong lời nhắc' : 'Prompt differences'}</h4>
+            {changed.length === 0 ? (
+              <p className="text-xs text-slate-500">{isVi ? 'Hai lời nhắc giống hệt nhau.' : 'The two prompts are identical.'}</p>
+            ) : (
+              <div className="space-y-3">
+                {changed.map(id => {
+                  const meta = PROMPT_SECTIONS.find(s => s.id === id)!;
+                  return (
+                    <div key={id} className="rounded-lg border border-slate-200 overflow-hidden">
+                      <div className="px-3 py-1.5 bg-slate-50 border-b border-slate-200 text-xs font-bold text-slate-700">{isVi ? meta.vi : meta.en}</div>
+                      <div className="p-2 font-mono text-xs whitespace-pre-wrap break-words">
+                        {diffLines(getSectionText(prompts.A, id), getSectionText(prompts.B, id)).map((line, i) => (
+                          <div
+                            key={i}
+                            className={line.kind === 'added' ? 'bg-green-50 text-green-800' : line.kind === 'removed' ? 'bg-red-50 text-red-800' : 'text-slate-500'}
+                          >
+                            {line.kind === 'added' ? '+ B ' : line.kind === 'removed' ? '− A ' : '    '}{line.text}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+
+          {(runs.A || runs.B || running) && (
+            <section>
+              <h4 className="text-sm font-bold text-slate-800 mb-2">{isVi ? 'Đề tạo được' : 'Papers written'}</h4>
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="border-b border-slate-200 bg-slate-50">
+                    <th className="p-2 w-10"></th>
+                    {(['A', 'B'] as Side[]).map(side => {
+                      const result = runs[side];
+                      return (
+                        <th key={side} className="p-2 text-left align-top font-normal border-l border-slate-200">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-bold text-slate-800">{side} · {describePrompt(prompts[side], isVi)}</span>
+                            {result?.exam && (
+                              <button onClick={() => onOpen(result.config, result.exam!)} className="font-semibold text-indigo-600 hover:underline flex-shrink-0">
+                                {isVi ? `Mở đề ${side}` : `Open ${side}`}
+                              </button>
+                            )}
+                          </div>
+                          {running === side && <div className="text-indigo-600">{isVi ? 'Đang tạo đề…' : 'Generating…'}</div>}
+                          {result?.error && <div className="text-red-600">{result.error}</div>}
+                          {result?.exam && (
+                            <div className="text-slate-500">
+                              {isVi ? `${result.exam.questions.length}/${expected} câu` : `${result.exam.questions.length}/${expected} questions`}
+                              {' · '}
+                              <span className={result.errors > 0 ? 'text-red-600' : ''}>{result.errors} {isVi ? 'lỗi' : 'errors'}</span>
+                              {' · '}
+                              <span className={result.warnings > 0 ? 'text-amber-700' : ''}>{result.warnings} {isVi ? 'cảnh báo' : 'warnings'}</span>
+                            </div>
+                          )}
+                        </th>
+                      );
+                    })}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from({ length: rowCount }, (_, i) => (
+                    <tr key={i} className="border-b border-slate-100 align-top">
+                      <td className="p-2 font-bold text-slate-500">{i + 1}</td>
+                      {(['A', 'B'] as Side[]).map(side => {
+                        const question = runs[side]?.exam?.questions[i];
+                        const type = question && QUESTION_TYPES.find(t => t.id === question.type);
+                        return (
+                          <td key={side} className="p-2 border-l border-slate-100">
+                            {question && (
+                              <>
+                                <div className="text-slate-500">{type ? (isVi ? type.vi : type.en) : question.type}</div>
+                                <p className="font-mono text-slate-700 whitespace-pre-wrap break-words">{question.stem}</p>
+                              </>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <span className="text-xs text-slate-500">
+            {config.topic || (isVi ? '(chủ đề lấy từ tài liệu)' : '(topic from the files)')} · {isVi ? `Lớp ${config.grade}` : `Grade ${config.grade}`} · {expected} {isVi ? 'câu' : 'questions'}
+          </span>
+          <button
+            onClick={run}
+            disabled={running !== null || (!config.topic && files.length === 0)}
+            className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-4 py-2 rounded-lg transition"
+          >
+            {running ? (isVi ? `Đang tạo đề ${running}…` : `Writing ${running}…`) : (isVi ? 'Tạo đề với A và B' : 'Generate with A and B')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptCompare;
@@ -0,0 +1,264 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PromptProfile, PromptSection, PromptSectionId, PromptSettings } from '../types';
+import { createStorageId } from '../services/storageService';
+import {
+  DEFAULT_PROMPT_SETTINGS, getChangedSections, getMissingPlaceholders, getSectionText, getVersionSettings, PROMPT_PLACEHOLDER_HELP, PROMPT_SECTIONS,
+} from '../utils/promptSections';
+
+interface PromptEditorProps {
+  isVi: boolean;
+  settings: PromptSettings; // What the form uses now
+  profiles: PromptProfile[];
+  onApply: (settings: PromptSettings) => void;
+  onSaveProfile: (profile: PromptProfile) => Promise<void>;
+  onDeleteProfile: (profile: PromptProfile) => Promise<void>;
+  onClose: () => void;
+}
+
+// Every section, with the built-in wording where the settings lack one
+const toSections = (settings: PromptSettings): PromptSection[] => PROMPT_SECTIONS.map(({ id }) => ({ id, text: getSectionText(settings, id) }));
+
+const formatDate = (time: number, isVi: boolean) =>
+  new Date(time).toLocaleString(isVi ? 'vi-VN' : 'en-GB', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Rewords the prompt section by section and keeps the wordings as numbered versions of named profiles
+const PromptEditor: React.FC<PromptEditorProps> = ({ isVi, settings, profiles, onApply, onSaveProfile, onDeleteProfile, onClose }) => {
+  const [sections, setSections] = useState<PromptSection[]>(() => toSections(settings));
+  const [source, setSource] = useState(settings.source);
+  // What the sections were loaded as, to tell whether they have been edited since
+  const [loaded, setLoaded] = useState<PromptSettings>(() => {
+    const profile = profiles.find(p => p.id === settings.source?.profileId);
+    const version = profile?.versions.find(v => v.version === settings.source?.version);
+    return profile && version ? getVersionSettings(profile, version) : settings.source ? settings : DEFAULT_PROMPT_SETTINGS;
+  });
+  const [activeId, setActiveId] = useState<PromptSectionId>('role');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null); // The app's own error banner is hidden behind this dialog
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const draft: PromptSettings = { sections, source };
+  const edited = useMemo(() => getChangedSections({ sections }, loaded).length > 0, [sections, loaded]);
+  const changedFromDefault = useMemo(() => getChangedSections({ sections }, DEFAULT_PROMPT_SETTINGS), [sections]);
+  const profile = profiles.find(p => p.id === source?.profileId);
+  const meta = PROMPT_SECTIONS.find(s => s.id === activeId)!;
+  const text = sections.find(s => s.id === activeId)!.text;
+  const missing = getMissingPlaceholders(activeId, text);
+
+  const setText = (id: PromptSectionId, value: string) => setSections(prev => prev.map(s => (s.id === id ? { ...s, text: value } : s)));
+
+  // Placeholders go in at the cursor
+  const insertPlaceholder = (key: string) => {
+    const el = textareaRef.current;
+    const start = el ? el.selectionStart : text.length;
+    const end = el ? el.selectionEnd : text.length;
+    setText(activeId, text.slice(0, start) + key + text.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + key.length, start + key.length);
+    });
+  };
+
+  const load = (value: string) => {
+    if (edited && !confirm(isVi ? 'Bỏ các thay đổi chưa lưu?' : 'Discard unsaved changes?')) return;
+    const [profileId, version] = value.split(':');
+    const picked = profiles.find(p => p.id === profileId);
+    const saved = picked?.versions.find(v => v.version === +version);
+    const next = picked && saved ? getVersionSettings(picked, saved) : DEFAULT_PROMPT_SETTINGS;
+    setSections(toSections(next));
+    setSource(next.source);
+    setLoaded(next);
+  };
+
+  const store = async (target: PromptProfile, note: string) => {
+    const version = (target.versions[target.versions.length - 1]?.version || 0) + 1;
+    const updated = { ...target, versions: [...target.versions, { version, savedAt: Date.now(), note, sections }] };
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSaveProfile(updated);
+      const next = getVersionSettings(updated, updated.versions[updated.versions.length - 1]);
+      setSource(next.source);
+      setLoaded(next);
+    } catch (err: any) {
+      setSaveError(err.message || String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveVersion = async () => {
+    if (!profile) return saveAsProfile();
+    const note = prompt(isVi ? `Ghi chú cho "${profile.name}" v${(profile.versions[profile.versions.length - 1]?.version || 0) + 1} (đã đổi gì?):` : `Note for "${profile.name}" v${(profile.versions[profile.versions.length - 1]?.version || 0) + 1} (what changed?):`);
+    if (note === null) return;
+    await store(profile, note.trim());
+  };
+
+  const saveAsProfile = async () => {
+    const name = prompt(isVi ? 'Tên hồ sơ lời nhắc (ví dụ: Đề HK1 – ô trả lời kẻ ô):' : 'Prompt profile name (e.g. Term 1 – boxed answers):')?.trim();
+    if (!name) return;
+    if (profiles.some(p => p.name === name)) {
+      alert(isVi ? `Đã có hồ sơ "${name}". Chọn hồ sơ đó rồi lưu phiên bản mới.` : `"${name}" already exists. Load it and save a new version instead.`);
+      return;
+    }
+    await store({ id: createStorageId(), name, versions: [] }, isVi ? 'Bản đầu tiên' : 'First version');
+  };
+
+  const removeProfile = async () => {
+    if (!profile || !confirm(isVi ? `Xoá hồ sơ "${profile.name}" và cả ${profile.versions.length} phiên bản?` : `Delete "${profile.name}" and all ${profile.versions.length} versions?`)) return;
+    setSaveError(null);
+    try {
+      await onDeleteProfile(profile);
+    } catch (err: any) {
+      setSaveError(err.message || String(err));
+      return;
+    }
+    // The wording stays in the editor, now as an edit of the built-in one
+    setSource(undefined);
+    setLoaded(DEFAULT_PROMPT_SETTINGS);
+  };
+
+  const apply = () => onApply(source ? { ...draft, edited } : { sections });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Lời nhắc gửi cho AI' : 'Generation prompt'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi
+                ? 'Sửa từng phần của lời nhắc. Các chỗ trong [NGOẶC VUÔNG] được điền từ form khi tạo đề.'
+                : 'Reword each part of the prompt. [BRACKETED] placeholders are filled from the form when generating.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-3 border-b border-slate-200 flex flex-wrap items-center gap-3 text-sm">
+          <label className="font-semibold text-slate-700">{isVi ? 'Phiên bản' : 'Version'}</label>
+          <select
+            value={source ? `${source.profileId}:${source.version}` : 'default'}
+            onChange={e => load(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-800 outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="default">{isVi ? 'Mặc định (có sẵn)' : 'Built-in'}</option>
+            {source && !profile && <option value={`${source.profileId}:${source.version}`}>{`${source.name} · v${source.version} ${isVi ? '(đã xoá)' : '(deleted)'}`}</option>}
+            {profiles.map(p => (
+              <optgroup key={p.id} label={p.name}>
+                {p.versions.map(v => (
+                  <option key={v.version} value={`${p.id}:${v.version}`}>
+                    {`${p.name} · v${v.version} · ${formatDate(v.savedAt, isVi)}${v.note ? ` — ${v.note}` : ''}`}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          {edited && <span className="text-xs font-semibold text-amber-700">{isVi ? 'Đã sửa, chưa lưu' : 'Edited, not saved'}</span>}
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <ul className="w-56 flex-shrink-0 border-r border-slate-200 overflow-auto custom-scrollbar p-2 space-y-1">
+            {PROMPT_SECTIONS.map(s => {
+              const sectionMissing = getMissingPlaceholders(s.id, sections.find(x => x.id === s.id)!.text);
+              return (
+                <li key={s.id}>
+                  <button
+                    onClick={() => setActiveId(s.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition ${activeId === s.id ? 'bg-indigo-50 text-indigo-700 font-bold' : 'text-slate-700 hover:bg-slate-50'}`}
+                  >
+                    <span className="block">{isVi ? s.vi : s.en}</span>
+                    <span className="block text-xs font-normal">
+                      {sectionMissing.length > 0
+                        ? <span className="text-amber-700">{isVi ? `Thiếu ${sectionMissing.length} chỗ điền` : `${sectionMissing.length} placeholder(s) missing`}</span>
+                        : changedFromDefault.includes(s.id)
+                          ? <span className="text-indigo-600">{isVi ? 'Khác mặc định' : 'Reworded'}</span>
+                          : <span className="text-slate-400">{isVi ? 'Mặc định' : 'Built-in'}</span>}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-bold text-slate-800">{isVi ? meta.vi : meta.en}</span>
+              <button
+                onClick={() => setText(activeId, getSectionText(DEFAULT_PROMPT_SETTINGS, activeId))}
+                disabled={!changedFromDefault.includes(activeId)}
+                className="text-xs font-semibold text-indigo-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+              >
+                {isVi ? 'Khôi phục mặc định' : 'Reset to built-in'}
+              </button>
+            </div>
+            <textarea
+              ref={textareaRef}
+              value={text}
+              onChange={e => setText(activeId, e.target.value)}
+              spellCheck={false}
+              className="flex-1 min-h-0 w-full p-3 rounded-lg border border-slate-300 font-mono text-xs text-slate-800 leading-relaxed outline-none focus:ring-2 focus:ring-indigo-500 resize-none custom-scrollbar"
+            />
+            {meta.placeholders.length > 0 && (
+              <div className="space-y-1.5">
+                <p className="text-xs text-slate-500">{isVi ? 'Bấm để chèn vào vị trí con trỏ:' : 'Click to insert at the cursor:'}</p>
+                <ul className="space-y-1">
+                  {meta.placeholders.map(key => (
+                    <li key={key} className="flex items-baseline gap-2 text-xs">
+                      <button
+                        onClick={() => insertPlaceholder(key)}
+                        className={`font-mono px-2 py-0.5 rounded border flex-shrink-0 transition ${missing.includes(key) ? 'border-amber-300 bg-amber-50 text-amber-800' : 'border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100'}`}
+                      >
+                        {key}
+                      </button>
+                      <span className="text-slate-500">{isVi ? PROMPT_PLACEHOLDER_HELP[key].vi : PROMPT_PLACEHOLDER_HELP[key].en}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {missing.length > 0 && (
+              <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                {isVi
+                  ? `Phần này không còn ${missing.join(', ')}: thông tin đó sẽ không được gửi cho AI.`
+                  : `This section no longer has ${missing.join(', ')}: that information will not be sent to the AI.`}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <div className="flex items-center gap-3 text-xs">
+            <button onClick={saveVersion} disabled={isSaving} className="font-semibold text-indigo-600 hover:underline disabled:opacity-50">
+              {profile ? (isVi ? `Lưu phiên bản mới của "${profile.name}"` : `Save a new version of "${profile.name}"`) : (isVi ? 'Lưu thành hồ sơ…' : 'Save as a profile…')}
+            </button>
+            {profile && (
+              <>
+                <button onClick={saveAsProfile} disabled={isSaving} className="text-indigo-600 hover:underline disabled:opacity-50">
+                  {isVi ? 'Lưu thành hồ sơ khác…' : 'Save as another profile…'}
+                </button>
+                <button onClick={removeProfile} disabled={isSaving} className="text-red-600 hover:underline disabled:opacity-50">
+                  {isVi ? 'Xoá hồ sơ' : 'Delete profile'}
+                </button>
+              </>
+            )}
+            {saveError && <span className="text-red-600">{saveError}</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 px-4 py-2 rounded-lg transition">
+              {isVi ? 'Huỷ' : 'Cancel'}
+            </button>
+            <button onClick={apply} className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition">
+              {isVi ? 'Dùng cho đề' : 'Use for the exam'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptEditor;
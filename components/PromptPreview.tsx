@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+
+interface PromptPreviewProps {
+  isVi: boolean;
+  prompt: string; // Exactly the text that goes to the model
+  attachments: string[]; // Names of the files sent with it; none when picked problems stand in for them
+  promptName: string; // Which wording it was built from, e.g. "Đề HK1 · v3"
+  onSend: () => void;
+  onClose: () => void;
+}
+
+// Read-only look at the request before it is sent
+const PromptPreview: React.FC<PromptPreviewProps> = ({ isVi, prompt, attachments, promptName, onSend, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(prompt);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Lời nhắc sẽ gửi cho AI' : 'Prompt to be sent'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi ? 'Đúng nguyên văn, đã điền từ form' : 'Word for word, filled in from the form'} · {promptName} · {prompt.length.toLocaleString(isVi ? 'vi-VN' : 'en-GB')} {isVi ? 'ký tự' : 'characters'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 bg-slate-900">
+          <pre className="font-mono text-xs text-slate-100 whitespace-pre-wrap break-words leading-relaxed">{prompt}</pre>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <span className="text-xs text-slate-500 truncate">
+            {attachments.length > 0
+              ? `${isVi ? 'Kèm tệp' : 'With files'}: ${attachments.join(', ')}`
+              : (isVi ? 'Không kèm tệp nào' : 'No files attached')}
+          </span>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button onClick={copy} className="text-sm font-semibold text-indigo-600 border border-indigo-200 hover:bg-indigo-50 px-4 py-2 rounded-lg transition">
+              {copied ? (isVi ? 'Đã sao chép' : 'Copied') : (isVi ? 'Sao chép' : 'Copy')}
+            </button>
+            <button onClick={onSend} className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition">
+              {isVi ? 'Gửi và tạo đề' : 'Send and generate'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptPreview;
@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { BankedQuestion, ExamConfig, ExamDifficulty, QUESTION_TYPES, QuestionType } from '../types';
+import { questionTypeLabel } from '../utils/examModel';
+
+interface QuestionBankProps {
+  isVi: boolean;
+  bank: BankedQuestion[];
+  config: ExamConfig; // Counts the assembled exam has to reach
+  busy: boolean;
+  onClose: () => void;
+  onDelete: (banked: BankedQuestion) => void;
+  onAssemble: (selected: BankedQuestion[]) => void;
+}
+
+interface BankFilter {
+  search: string;
+  grade: string;
+  type: QuestionType | '';
+  difficulty: ExamDifficulty | '';
+  language: 'vi' | 'en' | '';
+}
+
+// Case- and accent-insensitive, so "phan so" finds "Phân số"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+
+const matchesFilter = (banked: BankedQuestion, filter: BankFilter) => {
+  const { tags, question } = banked;
+  if (filter.grade && tags.grade !== filter.grade) return false;
+  if (filter.type && tags.type !== filter.type) return false;
+  if (filter.difficulty && tags.difficulty !== filter.difficulty) return false;
+  if (filter.language && tags.language !== filter.language) return false;
+  if (!filter.search.trim()) return true;
+  const haystack = fold(`${tags.topic} ${question.stem} ${question.options.join(' ')}`);
+  return fold(filter.search).split(/\s+/).every(word => haystack.includes(word));
+};
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ isVi, bank, config, busy, onClose, onDelete, onAssemble }) => {
+  const [filter, setFilter] = useState<BankFilter>({ search: '', grade: config.grade, type: '', difficulty: '', language: config.language });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const grades = useMemo(() => Array.from(new Set(bank.map(b => b.tags.grade))).sort((a, b) => Number(a) - Number(b)), [bank]);
+  const visible = useMemo(() => bank.filter(b => matchesFilter(b, filter)), [bank, filter]);
+  const selected = bank.filter(b => selectedIds.includes(b.id));
+  // Per part: picked from the bank, and still to be written to reach the configured count
+  const perType = QUESTION_TYPES.map(t => {
+    const picked = selected.filter(b => b.tags.type === t.id).length;
+    return { label: isVi ? t.vi.toLowerCase() : t.en.toLowerCase(), picked, missing: Math.max(0, (config[t.countKey] || 0) - picked) };
+  });
+  const listCounts = (key: 'picked' | 'missing') =>
+    perType.filter(t => t[key] > 0).map(t => `${t[key]} ${t.label}`).join(', ') || '0';
+
+  const toggle = (id: string) => setSelectedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+  const selectClass = 'p-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-700">{isVi ? `Ngân hàng câu hỏi (${bank.length})` : `Question bank (${bank.length})`}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-slate-200 grid grid-cols-2 md:grid-cols-5 gap-2">
+          <input
+            type="text"
+            value={filter.search}
+            onChange={e => setFilter({ ...filter, search: e.target.value })}
+            placeholder={isVi ? 'Tìm theo chủ đề, nội dung...' : 'Search topic or text...'}
+            className={`${selectClass} col-span-2 md:col-span-1`}
+          />
+          <select value={filter.grade} onChange={e => setFilter({ ...filter, grade: e.target.value })} className={selectClass}>
+            <option value="">{isVi ? 'Mọi lớp' : 'All grades'}</option>
+            {Array.from(new Set([config.grade, ...grades])).map(g => <option key={g} value={g}>{isVi ? `Lớp ${g}` : `Grade ${g}`}</option>)}
+          </select>
+          <select value={filter.type} onChange={e => setFilter({ ...filter, type: e.target.value as BankFilter['type'] })} className={selectClass}>
+            <option value="">{isVi ? 'Mọi dạng' : 'All types'}</option>
+            {QUESTION_TYPES.map(t => <option key={t.id} value={t.id}>{isVi ? t.vi : t.en}</option>)}
+          </select>
+          <select value={filter.difficulty} onChange={e => setFilter({ ...filter, difficulty: e.target.value as BankFilter['difficulty'] })} className={selectClass}>
+            <option value="">{isVi ? 'Mọi mức độ' : 'All levels'}</option>
+            {Object.values(ExamDifficulty).map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+          <select value={filter.language} onChange={e => setFilter({ ...filter, language: e.target.value as BankFilter['language'] })} className={selectClass}>
+            <option value="">{isVi ? 'Mọi ngôn ngữ' : 'All languages'}</option>
+            <option value="vi">Tiếng Việt</option>
+            <option value="en">English</option>
+          </select>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+          {visible.length === 0 && (
+            <li className="p-8 text-center text-sm text-slate-400">
+              {bank.length === 0
+                ? (isVi ? 'Chưa có câu hỏi nào. Bấm "Lưu vào ngân hàng" trên một câu hỏi đã tạo.' : 'No questions yet. Use "Save to bank" on a generated question.')
+                : (isVi ? 'Không có câu hỏi phù hợp bộ lọc.' : 'No questions match the filter.')}
+            </li>
+          )}
+          {visible.map(banked => (
+            <li key={banked.id} className={`p-3 flex gap-3 text-sm ${selectedIds.includes(banked.id) ? 'bg-indigo-50/60' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(banked.id)}
+                onChange={() => toggle(banked.id)}
+                className="mt-1 w-4 h-4 text-indigo-600 rounded border-gray-300 focus:ring-indigo-500"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap gap-1.5 mb-1 text-[11px] font-semibold">
+                  <span className="px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700">{questionTypeLabel(banked.tags.type, isVi)}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{isVi ? 'Lớp' : 'Grade'} {banked.tags.grade}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{banked.tags.difficulty}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600">{banked.tags.topic}</span>
+                  <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 uppercase">{banked.tags.language}</span>
+                </div>
+                <p className="font-mono text-xs text-slate-700 whitespace-pre-wrap break-words line-clamp-3">{banked.question.stem}</p>
+              </div>
+              <button onClick={() => onDelete(banked)} className="self-start text-xs font-semibold text-red-600 hover:underline">
+                {isVi ? 'Xoá' : 'Delete'}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex items-center justify-between gap-4">
+          <p className="text-xs text-slate-600">
+            {isVi
+              ? `Đã chọn: ${listCounts('picked')}. AI sẽ viết thêm: ${listCounts('missing')} để đủ số câu đã cấu hình.`
+              : `Selected: ${listCounts('picked')}. AI will write: ${listCounts('missing')} more to reach the configured counts.`}
+          </p>
+          <button
+            onClick={() => onAssemble(selected)}
+            disabled={busy || selected.length === 0}
+            className="flex-shrink-0 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-4 py-2 rounded-lg transition"
+          >
+            {busy ? (isVi ? 'Đang ghép đề...' : 'Assembling...') : (isVi ? 'Ghép đề mới' : 'Assemble exam')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBank;
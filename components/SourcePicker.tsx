@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SourceProblem } from '../types';
+import { extractSourceProblems } from '../services/geminiService';
+import { getSelectedSources } from '../utils/sourceProblems';
+
+interface SourcePickerProps {
+  isVi: boolean;
+  files: File[];
+  problems: SourceProblem[];
+  keepData: boolean; // Default for newly found problems, from the form's data toggle
+  onChange: (problems: SourceProblem[]) => void;
+  onClose: () => void;
+}
+
+// Thumbnails are cut out at most this wide, with a little margin around the problem
+const THUMBNAIL_WIDTH = 480;
+const THUMBNAIL_MARGIN = 15;
+
+const cropThumbnail = async (file: File, box: [number, number, number, number]): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const [ymin, xmin, ymax, xmax] = box.map((v, i) => (i < 2 ? Math.max(0, v - THUMBNAIL_MARGIN) : Math.min(1000, v + THUMBNAIL_MARGIN)));
+  const sx = (xmin / 1000) * bitmap.width;
+  const sy = (ymin / 1000) * bitmap.height;
+  const sw = ((xmax - xmin) / 1000) * bitmap.width;
+  const sh = ((ymax - ymin) / 1000) * bitmap.height;
+  const scale = Math.min(1, THUMBNAIL_WIDTH / sw);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  canvas.getContext('2d')!.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+const withThumbnails = async (file: File, problems: SourceProblem[]): Promise<SourceProblem[]> => {
+  if (!file.type.startsWith('image/')) return problems;
+  return Promise.all(problems.map(async p => (p.box ? { ...p, thumbnail: await cropThumbnail(file, p.box).catch(() => undefined) } : p)));
+};
+
+const SourcePicker: React.FC<SourcePickerProps> = ({ isVi, files, problems, keepData, onChange, onClose }) => {
+  const [reading, setReading] = useState<number | null>(null); // Index of the file being read
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const problemsRef = useRef(problems);
+  problemsRef.current = problems;
+
+  // PDF pages are shown through the browser's own viewer, one object URL per file
+  const pdfUrls = useMemo(() => files.map(f => (f.type === 'application/pdf' ? URL.createObjectURL(f) : '')), [files]);
+  useEffect(() => () => pdfUrls.forEach(url => url && URL.revokeObjectURL(url)), [pdfUrls]);
+
+  // Files are read one after another; a file read again replaces its earlier problems
+  const readFiles = async (indices: number[]) => {
+    for (const index of indices) {
+      setReading(index);
+      setErrors(prev => ({ ...prev, [index]: '' }));
+      try {
+        const found = await withThumbnails(files[index], await extractSourceProblems(files[index], index, keepData));
+        if (found.length === 0) throw new Error(isVi ? 'Không tìm thấy bài toán nào' : 'No problems found');
+        onChange([...problemsRef.current.filter(p => p.fileIndex !== index), ...found].sort((a, b) => a.fileIndex - b.fileIndex));
+      } catch (err: any) {
+        setErrors(prev => ({ ...prev, [index]: err.message || String(err) }));
+      }
+    }
+    setReading(null);
+  };
+
+  // Opening the picker reads every file that has no problems yet
+  useEffect(() => {
+    const unread = files.map((_, i) => i).filter(i => !problems.some(p => p.fileIndex === i));
+    if (unread.length > 0) readFiles(unread);
+  }, []);
+
+  const update = (id: string, patch: Partial<SourceProblem>) => onChange(problems.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  const selectAll = (selected: boolean) => onChange(problems.map(p => ({ ...p, selected })));
+
+  const selectedCount = getSelectedSources(problems).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-700">{isVi ? 'Chọn bài từ tài liệu' : 'Pick problems from the files'}</h3>
+            <p className="text-xs text-slate-500">
+              {isVi
+                ? 'Chỉ các bài được đánh dấu được gửi cho AI, thay cho cả tệp. Mỗi bài có thể giữ nguyên hoặc đổi số liệu.'
+                : 'Only the ticked problems are sent to the AI, instead of the whole files. Each one keeps or varies its numbers.'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-4 space-y-5">
+          {files.map((file, fileIndex) => {
+            const found = problems.filter(p => p.fileIndex === fileIndex);
+            return (
+              <div key={fileIndex}>
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-bold text-slate-700 truncate" title={file.name}>{file.name}</span>
+                  {reading === fileIndex ? (
+                    <span className="text-xs text-indigo-600 flex-shrink-0">{isVi ? 'Đang đọc tài liệu…' : 'Reading the file…'}</span>
+                  ) : (
+                    <button
+                      onClick={() => readFiles([fileIndex])}
+                      disabled={reading !== null}
+                      className="text-xs font-semibold text-indigo-600 hover:underline disabled:text-slate-400 flex-shrink-0"
+                    >
+                      {isVi ? 'Đọc lại' : 'Read again'}
+                    </button>
+                  )}
+                </div>
+                {errors[fileIndex] && <p className="text-xs text-red-600 mb-2">{errors[fileIndex]}</p>}
+                <ul className="space-y-2">
+                  {found.map(problem => (
+                    <li
+                      key={problem.id}
+                      className={`flex gap-3 p-2.5 rounded-lg border transition ${problem.selected ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-200 bg-white opacity-70'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={problem.selected}
+                        onChange={e => update(problem.id, { selected: e.target.checked })}
+                        className="mt-1 h-4 w-4 accent-indigo-600 flex-shrink-0"
+                      />
+                      <div className="w-40 h-28 flex-shrink-0 rounded border border-slate-200 bg-slate-50 overflow-hidden flex items-center justify-center">
+                        {problem.thumbnail ? (
+                          <img src={problem.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                        ) : pdfUrls[fileIndex] ? (
+                          <iframe
+                            src={`${pdfUrls[fileIndex]}#page=${problem.page}&toolbar=0&navpanes=0&view=FitH`}
+                            title={`${file.name} – ${problem.page}`}
+                            loading="lazy"
+                            className="w-full h-full pointer-events-none"
+                          />
+                        ) : (
+                          <span className="text-[11px] text-slate-400">{isVi ? 'Không có ảnh' : 'No image'}</span>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-[11px] text-slate-400 mb-1">{isVi ? `Trang ${problem.page}` : `Page ${problem.page}`}</div>
+                        <p className="font-mono text-xs text-slate-700 whitespace-pre-wrap break-words line-clamp-5">{problem.text}</p>
+                        {problem.figure && <p className="text-[11px] text-slate-500 italic mt-1">{isVi ? 'Hình' : 'Figure'}: {problem.figure}</p>}
+                      </div>
+                      <select
+                        value={problem.keepData ? 'keep' : 'vary'}
+                        onChange={e => update(problem.id, { keepData: e.target.value === 'keep' })}
+                        disabled={!problem.selected}
+                        className="self-start text-xs border border-slate-200 rounded px-1.5 py-1 bg-white disabled:opacity-50"
+                      >
+                        <option value="keep">{isVi ? 'Giữ số liệu' : 'Keep numbers'}</option>
+                        <option value="vary">{isVi ? 'Đổi số liệu' : 'Vary numbers'}</option>
+                      </select>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-between items-center gap-2">
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-slate-500">
+              {isVi ? `Đã chọn ${selectedCount}/${problems.length} bài` : `${selectedCount}/${problems.length} problems ticked`}
+            </span>
+            <button onClick={() => selectAll(true)} disabled={problems.length === 0} className="text-indigo-600 hover:underline disabled:opacity-50">
+              {isVi ? 'Chọn tất cả' : 'Tick all'}
+            </button>
+            <button onClick={() => selectAll(false)} disabled={problems.length === 0} className="text-indigo-600 hover:underline disabled:opacity-50">
+              {isVi ? 'Bỏ chọn tất cả' : 'Untick all'}
+            </button>
+          </div>
+          <button onClick={onClose} className="text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-2 rounded-lg transition">
+            {isVi ? 'Xong' : 'Done'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePicker;
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { BilingualLayout, CustomPreamble, TEMPLATE_LAYOUTS, TemplateLayoutId, TemplateSettings } from '../types';
+import CustomPreambleDialog from './CustomPreambleDialog';
+
+interface TemplateSettingsPanelProps {
+  isVi: boolean;
+  settings: TemplateSettings;
+  savedPreambles: CustomPreamble[];
+  onChange: (settings: TemplateSettings) => void;
+  onSavePreamble: (preamble: CustomPreamble) => Promise<void>;
+  onDeletePreamble: (preamble: CustomPreamble) => Promise<void>;
+}
+
+const TemplateSettingsPanel: React.FC<TemplateSettingsPanelProps> = ({ isVi, settings, savedPreambles, onChange, onSavePreamble, onDeletePreamble }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomPreamble | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const update = (patch: Partial<TemplateSettings>) => onChange({ ...settings, ...patch });
+
+  // Switching layout also switches to that layout's usual duration
+  const changeLayout = (layout: TemplateLayoutId) => {
+    update({ layout, duration: TEMPLATE_LAYOUTS.find(l => l.id === layout)?.duration ?? settings.duration });
+  };
+
+  const loadLogo = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => update({ logo: { fileName: file.name, dataUrl: reader.result as string } });
+    reader.readAsDataURL(file);
+  };
+
+  const choosePreamble = (id: string) => {
+    update({ customPreamble: savedPreambles.find(p => p.id === id) });
+  };
+
+  const openDialog = (preamble: CustomPreamble | null) => {
+    setEditing(preamble);
+    setIsDialogOpen(true);
+  };
+
+  const fieldClass = 'w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm text-slate-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none';
+  const labelClass = 'block text-xs font-bold text-slate-600 mb-1';
+  const layout = TEMPLATE_LAYOUTS.find(l => l.id === settings.layout);
+
+  return (
+    <div className="bg-slate-50 rounded-xl border border-slate-200">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-4 text-left">
+        <div className="flex flex-col">
+          <span className="text-sm font-bold text-slate-800">{isVi ? 'Mẫu đề' : 'Template'}</span>
+          <span className="text-xs text-slate-500">
+            {settings.customPreamble ? settings.customPreamble.name : (isVi ? layout?.vi : layout?.en)}
+            {settings.schoolName.trim() && ` · ${settings.schoolName.trim()}`}
+          </span>
+        </div>
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <div>
+            <label className={labelClass}>{isVi ? 'Bố cục' : 'Layout'}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {TEMPLATE_LAYOUTS.map(l => (
+                <button
+                  key={l.id}
+                  onClick={() => changeLayout(l.id)}
+                  className={`px-3 py-2 rounded-lg border text-xs font-semibold transition ${settings.layout === l.id ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-200 bg-white text-slate-600 hover:border-indigo-300'}`}
+                >
+                  {isVi ? l.vi : l.en}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>{isVi ? 'Tên trường' : 'School name'}</label>
+              <input className={fieldClass} value={settings.schoolName} onChange={e => update({ schoolName: e.target.value })} placeholder={isVi ? 'Để trống: in dòng chấm' : 'Blank: printed as dots'} />
+            </div>
+            <div>
+              <label className={labelClass}>{isVi ? 'Giáo viên' : 'Teacher'}</label>
+              <input className={fieldClass} value={settings.teacherName} onChange={e => update({ teacherName: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>{isVi ? 'Thời gian (phút)' : 'Duration (min)'}</label>
+              <input className={fieldClass} value={settings.duration} onChange={e => update({ duration: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>{isVi ? 'Chữ chìm (hình mờ)' : 'Watermark text'}</label>
+              <input className={fieldClass} value={settings.watermark} onChange={e => update({ watermark: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>{isVi ? 'Chân trang liên hệ' : 'Contact footer'}</label>
+              <input className={fieldClass} value={settings.contactFooter} onChange={e => update({ contactFooter: e.target.value })} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>{isVi ? 'Bản dịch (đề song ngữ)' : 'Translation (bilingual papers)'}</label>
+            <select className={fieldClass} value={settings.bilingualLayout || 'stacked'} onChange={e => update({ bilingualLayout: e.target.value as BilingualLayout })}>
+              <option value="stacked">{isVi ? 'Dịch bên dưới' : 'Below the original'}</option>
+              <option value="columns">{isVi ? 'Hai cột' : 'Two columns'}</option>
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Logo</label>
+            {settings.logo ? (
+              <div className="flex items-center gap-3">
+                <img src={settings.logo.dataUrl} alt="" className="h-10 w-10 object-contain border border-slate-200 rounded bg-white" />
+                <span className="text-xs text-slate-600 truncate flex-1">{settings.logo.fileName}</span>
+                <button onClick={() => update({ logo: undefined })} className="text-xs font-semibold text-red-600 hover:underline">
+                  {isVi ? 'Bỏ logo' : 'Remove'}
+                </button>
+              </div>
+            ) : (
+              <input type="file" accept="image/png,image/jpeg" onChange={e => loadLogo(e.target.files?.[0])} className="text-xs text-slate-600" />
+            )}
+          </div>
+
+          <div className="h-px bg-slate-200"></div>
+
+          <div>
+            <label className={labelClass}>{isVi ? 'Preamble riêng' : 'Own preamble'}</label>
+            <div className="flex gap-2">
+              <select className={fieldClass} value={settings.customPreamble?.id || ''} onChange={e => choosePreamble(e.target.value)}>
+                <option value="">{isVi ? '— Preamble có sẵn —' : '— Built-in preamble —'}</option>
+                {savedPreambles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              {settings.customPreamble && (
+                <button onClick={() => openDialog(settings.customPreamble!)} className="px-3 text-xs font-semibold text-slate-600 border border-slate-200 rounded-lg bg-white hover:bg-slate-50">
+                  {isVi ? 'Sửa' : 'Edit'}
+                </button>
+              )}
+            </div>
+            <button onClick={() => openDialog(null)} className="mt-2 text-xs font-semibold text-indigo-600 hover:underline">
+              + {isVi ? 'Dán preamble mới' : 'Paste a new preamble'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isDialogOpen && (
+        <CustomPreambleDialog
+          isVi={isVi}
+          preamble={editing}
+          onClose={() => setIsDialogOpen(false)}
+          onSave={async preamble => {
+            update({ customPreamble: preamble });
+            setIsDialogOpen(false);
+            try {
+              await onSavePreamble(preamble);
+            } catch {
+              // Already reported; this paper keeps using it anyway
+            }
+          }}
+          onDelete={async preamble => {
+            setIsDialogOpen(false);
+            try {
+              await onDeletePreamble(preamble);
+            } catch {
+              return; // Still stored, so it stays selected
+            }
+            if (settings.customPreamble?.id === preamble.id) update({ customPreamble: undefined });
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TemplateSettingsPanel;
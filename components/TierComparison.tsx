@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { ExamDifficulty, ExamTier, QUESTION_TYPES } from '../types';
+import { describeAnswer } from '../utils/examModel';
+import { formatPoints } from '../utils/examRenderer';
+import { getTierRows, TIER_CODES, tierLabel } from '../utils/tiers';
+
+interface TierComparisonProps {
+  tiers: ExamTier[]; // Every level of the set, easiest first
+  isVi: boolean;
+  onOpen: (difficulty: ExamDifficulty) => void; // Shows that paper's LaTeX
+}
+
+// Question N of every level in one row, with the skill and points they share
+const TierComparison: React.FC<TierComparisonProps> = ({ tiers, isVi, onOpen }) => {
+  const rows = useMemo(() => getTierRows(tiers), [tiers]);
+  const total = rows.reduce((sum, r) => sum + r.points, 0);
+
+  return (
+    <div className="absolute inset-0 overflow-auto custom-scrollbar">
+      <table className="w-full text-xs border-collapse">
+        <thead className="sticky top-0 z-10 bg-slate-50">
+          <tr className="border-b border-slate-200">
+            <th className="p-3 text-left font-bold text-slate-700 w-44 align-bottom">
+              {isVi ? `Thang điểm chung: ${formatPoints(total, true)}` : `Common scale: ${formatPoints(total, false)} marks`}
+            </th>
+            {tiers.map(t => (
+              <th key={t.difficulty} className="p-3 text-left align-bottom">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-slate-800">
+                    {tierLabel(t.difficulty, isVi)} <span className="font-mono text-slate-500">· {isVi ? 'Mã' : 'Version'} {TIER_CODES[t.difficulty]}</span>
+                  </span>
+                  <button onClick={() => onOpen(t.difficulty)} className="font-semibold text-indigo-600 hover:underline flex-shrink-0">
+                    {isVi ? 'Mở đề' : 'Open'}
+                  </button>
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => {
+            const type = QUESTION_TYPES.find(t => t.id === row.type)!;
+            return (
+              <tr key={`${row.type}-${row.number}`} className="border-b border-slate-100 align-top">
+                <td className="p-3 bg-slate-50">
+                  <div className="font-bold text-slate-700">{isVi ? `${type.vi} · Câu ${row.number}` : `${type.en} · Question ${row.number}`}</div>
+                  <div className="text-slate-500">{formatPoints(row.points, isVi)} {isVi ? 'điểm' : 'marks'}</div>
+                  {row.skill && <div className="mt-1 text-indigo-700">{row.skill}</div>}
+                </td>
+                {row.questions.map((question, i) => (
+                  <td key={i} className="p-3 border-l border-slate-100">
+                    {question ? (
+                      <>
+                        <p className="font-mono text-slate-700 whitespace-pre-wrap break-words">{question.stem}</p>
+                        <p className="mt-1.5 text-slate-500">
+                          <span className="font-semibold">{isVi ? 'Đáp án' : 'Answer'}:</span> {describeAnswer(question, isVi)}
+                        </p>
+                      </>
+                    ) : (
+                      <span className="text-amber-700">{isVi ? 'Đề này không còn câu tương ứng.' : 'This paper no longer has this question.'}</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TierComparison;
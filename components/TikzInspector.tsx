@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { ExamModel, ExamQuestion, QUESTION_TYPES } from '../types';
+import { getQuestionBlocks } from '../utils/examRenderer';
+import { checkTikz, setTikzScale } from '../utils/tikzCheck';
+
+interface TikzInspectorProps {
+  exam: ExamModel;
+  latex: string; // Rendered paper, for the line each figure starts on
+  isVi: boolean;
+  busyKey: string | null; // `figure-<question id>` while that figure is being redrawn
+  onJumpToLine: (line: number) => void;
+  onChange: (question: ExamQuestion) => void;
+  onRedraw: (question: ExamQuestion, problems: string[]) => void;
+}
+
+const SCALE_STEP = 0.1;
+
+// Every TikZ figure of the paper on its own, with the checks that need no compiler and a way to fix it in place
+const TikzInspector: React.FC<TikzInspectorProps> = ({ exam, latex, isVi, busyKey, onJumpToLine, onChange, onRedraw }) => {
+  const figures = useMemo(() => {
+    const blocks = getQuestionBlocks(latex, exam);
+    return blocks
+      .filter(block => block.question.figure.kind === 'tikz' && block.question.figure.tikz)
+      .map(block => ({
+        question: block.question,
+        line: latex.slice(0, block.start).split('\n').length,
+        number: blocks.filter(b => b.question.type === block.question.type).indexOf(block) + 1,
+        check: checkTikz(block.question.figure.tikz!, isVi),
+      }));
+  }, [exam, latex, isVi]);
+
+  const rescale = (question: ExamQuestion, scale: number) =>
+    onChange({ ...question, figure: { ...question.figure, tikz: setTikzScale(question.figure.tikz!, scale) } });
+
+  const flagged = figures.filter(f => f.check.problems.length > 0).length;
+
+  return (
+    <div className="w-80 flex-shrink-0 border-l border-slate-200 bg-slate-50 flex flex-col min-h-0">
+      <div className="p-3 border-b border-slate-200 flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-700 uppercase tracking-wider">
+          {isVi ? `Hình TikZ (${figures.length})` : `TikZ figures (${figures.length})`}
+        </span>
+        <span className={`text-xs font-semibold ${flagged > 0 ? 'text-amber-700' : 'text-emerald-700'}`}>
+          {flagged > 0 ? (isVi ? `${flagged} hình cần xem` : `${flagged} to review`) : isVi ? 'Không phát hiện lỗi' : 'No issues found'}
+        </span>
+      </div>
+      <ul className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-200">
+        {figures.map(({ question, line, number, check }) => {
+          const type = QUESTION_TYPES.find(t => t.id === question.type)!;
+          const busy = busyKey === `figure-${question.id}`;
+          return (
+            <li key={question.id} className="p-3 text-xs space-y-2">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onJumpToLine(line)}
+                  className="font-mono font-bold px-1.5 py-0.5 rounded bg-slate-200 text-slate-700 flex-shrink-0"
+                  title={isVi ? 'Đi tới dòng' : 'Go to line'}
+                >
+                  L{line}
+                </button>
+                <span className="font-semibold text-slate-700 truncate">
+                  {isVi ? `${type.vi} · Câu ${number}` : `${type.en} · Question ${number}`}
+                </span>
+              </div>
+              <div
+                className="bg-white rounded border border-slate-200 p-2 overflow-auto max-h-56 flex justify-center"
+                dangerouslySetInnerHTML={{ __html: check.svg }}
+              />
+              <div className="text-slate-500">
+                {isVi
+                  ? `Khổ in khoảng ${check.width.toFixed(1).replace('.', ',')} × ${check.height.toFixed(1).replace('.', ',')} cm`
+                  : `Prints at about ${check.width.toFixed(1)} × ${check.height.toFixed(1)} cm`}
+              </div>
+              {check.problems.length > 0 && (
+                <ul className="space-y-1">
+                  {check.problems.map((problem, i) => (
+                    <li key={i} className="px-2 py-1 rounded bg-amber-100 text-amber-800 leading-snug">{problem}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1">
+                  <span className="text-slate-500 mr-1">{isVi ? 'Tỉ lệ' : 'Scale'}</span>
+                  <button
+                    onClick={() => rescale(question, check.scale - SCALE_STEP)}
+                    disabled={busyKey !== null}
+                    className="w-6 h-6 rounded border border-slate-200 bg-white font-bold text-slate-600 hover:border-indigo-300 disabled:opacity-50"
+                  >
+                    −
+                  </button>
+                  <span className="w-9 text-center font-mono text-slate-700">{Math.round(check.scale * 100) / 100}</span>
+                  <button
+                    onClick={() => rescale(question, check.scale + SCALE_STEP)}
+                    disabled={busyKey !== null}
+                    className="w-6 h-6 rounded border border-slate-200 bg-white font-bold text-slate-600 hover:border-indigo-300 disabled:opacity-50"
+                  >
+                    +
+                  </button>
+                </div>
+                <button
+                  onClick={() => onRedraw(question, check.problems)}
+                  disabled={busyKey !== null}
+                  className="text-indigo-600 hover:underline font-semibold disabled:text-slate-400"
+                >
+                  {busy ? (isVi ? 'Đang hỏi AI...' : 'Asking AI...') : isVi ? 'Yêu cầu AI vẽ lại' : 'Ask AI to redraw'}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TikzInspector;
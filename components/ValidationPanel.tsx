@@ -0,0 +1,101 @@
+import React from 'react';
+import { ValidationIssue } from '../types';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  isVi: boolean;
+  busyKey: string | null; // Issue id (or 'all') currently being repaired
+  onJumpToLine: (line: number) => void;
+  onAutoFix: (issues: ValidationIssue[]) => void;
+  onReask: (issue: ValidationIssue) => void;
+  onRepairMath: () => void; // Re-ask the model for every question whose answer did not check out
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, isVi, busyKey, onJumpToLine, onAutoFix, onReask, onRepairMath }) => {
+  const fixable = issues.filter(i => i.fixable);
+  const wrongAnswers = new Set(issues.filter(i => i.rule === 'correctness').map(i => i.questionId)).size;
+
+  if (issues.length === 0) {
+    return (
+      <div className="w-72 flex-shrink-0 border-l border-slate-200 bg-emerald-50/50 p-4 text-sm text-emerald-700 font-medium flex items-start">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+        {isVi ? 'Không phát hiện lỗi cấu trúc.' : 'No structural issues found.'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-72 flex-shrink-0 border-l border-slate-200 bg-slate-50 flex flex-col min-h-0">
+      <div className="p-3 border-b border-slate-200 flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-700 uppercase tracking-wider">
+          {isVi ? `Kiểm tra (${issues.length} lỗi)` : `Checks (${issues.length} issues)`}
+        </span>
+        {fixable.length > 0 && (
+          <button
+            onClick={() => onAutoFix(fixable)}
+            disabled={busyKey !== null}
+            className="text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 px-2.5 py-1 rounded-md transition"
+          >
+            {isVi ? 'Sửa tất cả' : 'Fix all'}
+          </button>
+        )}
+      </div>
+      {wrongAnswers > 0 && (
+        <div className="px-3 py-2 border-b border-slate-200 bg-amber-50 flex items-center justify-between gap-2 text-xs">
+          <span className="text-amber-800">
+            {isVi ? `${wrongAnswers} câu sai khi tính lại đáp án` : `${wrongAnswers} question(s) failed the answer recheck`}
+          </span>
+          <button
+            onClick={onRepairMath}
+            disabled={busyKey !== null}
+            className="font-bold text-amber-800 hover:underline disabled:text-slate-400 flex-shrink-0"
+          >
+            {busyKey === 'correctness' ? (isVi ? 'Đang hỏi AI...' : 'Asking AI...') : isVi ? 'Yêu cầu AI sửa' : 'Ask AI to fix'}
+          </button>
+        </div>
+      )}
+      <ul className="flex-1 overflow-y-auto custom-scrollbar divide-y divide-slate-200">
+        {issues.map(issue => (
+          <li key={issue.id} className="p-3 text-xs">
+            <div className="flex items-start gap-2">
+              <button
+                onClick={() => onJumpToLine(issue.line)}
+                className={`font-mono font-bold px-1.5 py-0.5 rounded flex-shrink-0 ${issue.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}
+                title={isVi ? 'Đi tới dòng' : 'Go to line'}
+              >
+                L{issue.line}
+              </button>
+              <span className="text-slate-700 leading-snug">{issue.message}</span>
+            </div>
+            <div className="flex gap-2 mt-2 pl-9">
+              {issue.fixable && (
+                <button
+                  onClick={() => onAutoFix([issue])}
+                  disabled={busyKey !== null}
+                  className="text-indigo-600 hover:underline font-semibold disabled:text-slate-400"
+                >
+                  {isVi ? 'Sửa tự động' : 'Auto-fix'}
+                </button>
+              )}
+              {((issue.questionId && issue.rule !== 'matrix') || (issue.rule === 'count' && !issue.fixable) || issue.matrixCell) && (
+                <button
+                  onClick={() => onReask(issue)}
+                  disabled={busyKey !== null}
+                  className="text-slate-600 hover:underline font-semibold disabled:text-slate-400"
+                >
+                  {busyKey === issue.id
+                    ? (isVi ? 'Đang hỏi AI...' : 'Asking AI...')
+                    : issue.rule === 'count' || issue.matrixCell ? (isVi ? 'Yêu cầu AI bổ sung' : 'Ask AI to add') : (isVi ? 'Yêu cầu AI sửa câu này' : 'Ask AI to fix this')}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,34 @@
+import { GoogleGenAI } from "@google/genai";
+import { ModelProvider, ModelRequest } from '../types';
+
+const buildParams = (request: ModelRequest) => ({
+  model: request.model,
+  contents: { parts: request.parts },
+  config: {
+    ...(request.schema ? { responseMimeType: 'application/json', responseSchema: request.schema } : {}),
+    abortSignal: request.signal,
+  },
+});
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  requiresApiKey: true,
+
+  generate: async request => {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    const response = await ai.models.generateContent(buildParams(request));
+    return response.text || '';
+  },
+
+  stream: async function* (request) {
+    const ai = new GoogleGenAI({ apiKey: request.apiKey });
+    const stream = await ai.models.generateContentStream(buildParams(request));
+    for await (const chunk of stream) {
+      yield chunk.text || '';
+    }
+  },
+
+  generateStructured: request => geminiProvider.generate(request),
+};
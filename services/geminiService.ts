@@ -0,0 +1,533 @@
+import { Type } from "@google/genai";
+import { COGNITIVE_LEVELS, CognitiveLevel, ExamConfig, ExamDifficulty, ExamModel, ExamQuestion, PromptSectionId, QUESTION_TYPES, QuestionType, SourceFigure, SourceProblem } from '../types';
+import { getConfigCurriculumPicks, getCurriculum } from '../utils/curriculum';
+import { attachFigures, normalizeExamModel, normalizeQuestion, readStreamedExam } from '../utils/examModel';
+import { isMatrixActive, levelLabel } from '../utils/examMatrix';
+import { stripCodeFences } from '../utils/latex';
+import { fillPromptSection, getSectionText } from '../utils/promptSections';
+import { alignTier } from '../utils/tiers';
+import { normalizeSourceProblems } from '../utils/sourceProblems';
+import { getActiveModel } from './modelProvider';
+
+// Response schema: one typed object per question instead of a free-form LaTeX document
+const questionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    type: {
+      type: Type.STRING,
+      enum: QUESTION_TYPES.map(t => t.id),
+      description: "'mc' = trắc nghiệm, 'trueFalse' = đúng/sai, 'shortAnswer' = trả lời ngắn, 'matching' = nối cột, 'fillBlank' = điền khuyết, 'essay' = tự luận",
+    },
+    stem: { type: Type.STRING, description: 'Nội dung câu hỏi bằng LaTeX, KHÔNG kèm \\begin{questionbox} và KHÔNG kèm phương án' },
+    options: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Chỉ với câu trắc nghiệm: đúng 4 phương án theo thứ tự A, B, C, D, KHÔNG kèm \\task hay chữ cái' },
+    correctAnswer: { type: Type.STRING, description: 'Trắc nghiệm: một chữ cái A/B/C/D. Trả lời ngắn: một số, tối đa 4 kí tự. Tự luận: kết quả cuối cùng. Các dạng khác: để trống' },
+    statements: {
+      type: Type.ARRAY,
+      description: 'Chỉ với câu đúng/sai: đúng 4 mệnh đề a, b, c, d',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: 'Mệnh đề bằng LaTeX, KHÔNG kèm chữ cái a), b)' },
+          isTrue: { type: Type.BOOLEAN },
+        },
+        required: ['text', 'isTrue'],
+      },
+    },
+    pairs: {
+      type: Type.ARRAY,
+      description: 'Chỉ với câu nối cột: các cặp ĐÃ GHÉP ĐÚNG, vế trái là cột A, vế phải là cột B',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          left: { type: Type.STRING },
+          right: { type: Type.STRING },
+        },
+        required: ['left', 'right'],
+      },
+    },
+    blanks: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Chỉ với câu điền khuyết: đáp án của từng chỗ \\blank trong stem, theo thứ tự' },
+    translation: {
+      type: Type.OBJECT,
+      description: 'Chỉ khi đề song ngữ: câu hỏi bằng ngôn ngữ thứ hai, cùng số liệu và thứ tự với bản gốc',
+      properties: {
+        stem: { type: Type.STRING },
+        options: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Các phương án theo đúng thứ tự A, B, C, D của bản gốc' },
+        statements: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Nội dung các mệnh đề a, b, c, d theo đúng thứ tự của bản gốc' },
+        pairs: {
+          type: Type.ARRAY,
+          description: 'Các cặp theo đúng thứ tự của bản gốc',
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              left: { type: Type.STRING },
+              right: { type: Type.STRING },
+            },
+            required: ['left', 'right'],
+          },
+        },
+      },
+      required: ['stem'],
+    },
+    solution: { type: Type.STRING, description: 'Lời giải chi tiết bằng LaTeX' },
+    markingScheme: {
+      type: Type.ARRAY,
+      description: 'Chỉ với câu tự luận: các bước giải và điểm thành phần, tổng bằng points',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          step: { type: Type.STRING },
+          points: { type: Type.NUMBER },
+        },
+        required: ['step', 'points'],
+      },
+    },
+    figure: {
+      type: Type.OBJECT,
+      properties: {
+        kind: { type: Type.STRING, enum: ['none', 'tikz', 'image'] },
+        tikz: { type: Type.STRING, description: 'Mã \\begin{tikzpicture} ... \\end{tikzpicture} đầy đủ khi kind = tikz' },
+        description: { type: Type.STRING, description: 'Mô tả ngắn hình vẽ' },
+        image: { type: Type.STRING, description: 'Chỉ khi kind = image và dùng một hình cắt sẵn từ tài liệu: tên tệp của hình đó' },
+      },
+      required: ['kind'],
+    },
+    difficulty: { type: Type.STRING, enum: Object.values(ExamDifficulty) },
+    points: { type: Type.NUMBER, description: 'Số điểm của câu' },
+    matrixRow: { type: Type.NUMBER, description: 'Chỉ khi đề có ma trận: số thứ tự dòng (nội dung) của ma trận mà câu này thuộc về' },
+    level: { type: Type.STRING, enum: COGNITIVE_LEVELS.map(l => l.id), description: 'Chỉ khi đề có ma trận: mức độ nhận thức của câu (nb, th, vd, vdc)' },
+    skill: { type: Type.STRING, description: 'Chỉ khi đề phân hoá: kĩ năng/kiến thức cụ thể mà câu kiểm tra, một cụm ngắn' },
+  },
+  required: ['type', 'stem', 'correctAnswer', 'solution', 'figure', 'difficulty', 'points'],
+  propertyOrdering: [
+    'type', 'matrixRow', 'level', 'skill', 'stem', 'figure', 'options', 'statements', 'pairs', 'blanks', 'translation', 'correctAnswer', 'solution', 'markingScheme', 'difficulty', 'points',
+  ],
+};
+
+const examSchema = {
+  type: Type.OBJECT,
+  properties: {
+    topic: { type: Type.STRING, description: 'Tên chủ đề ngắn gọn dùng cho tiêu đề đề thi' },
+    questions: { type: Type.ARRAY, items: questionSchema },
+  },
+  required: ['topic', 'questions'],
+  propertyOrdering: ['topic', 'questions'], // Topic first so a streamed response can show it early
+};
+
+// Extraction pre-step: every problem printed in one uploaded file
+const sourceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    problems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: 'Toàn bộ đề bài (kể cả các ý a, b, c và phương án nếu có) bằng LaTeX, giữ nguyên số liệu' },
+          page: { type: Type.NUMBER, description: 'Số trang (bắt đầu từ 1) chứa bài; ảnh chỉ có trang 1' },
+          box: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: 'Vùng chứa bài trên trang: [ymin, xmin, ymax, xmax], thang 0–1000' },
+          figure: { type: Type.STRING, description: 'Mô tả ngắn hình vẽ của bài; để trống nếu không có hình' },
+        },
+        required: ['text', 'page'],
+        propertyOrdering: ['page', 'box', 'text', 'figure'],
+      },
+    },
+  },
+  required: ['problems'],
+};
+
+// Redrawing one figure: only the TikZ comes back
+const figureSchema = {
+  type: Type.OBJECT,
+  properties: {
+    tikz: { type: Type.STRING, description: 'Mã \\begin{tikzpicture} ... \\end{tikzpicture} đầy đủ của hình vẽ mới' },
+  },
+  required: ['tikz'],
+};
+
+export const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Formatting rules shared by full generation and single-question repairs, in the wording of the config's prompt
+const buildLatexRules = (config: ExamConfig) => `${fillPromptSection(getSectionText(config.prompt, 'latex'), {
+  '[HÌNH VẼ]': config.useTikz
+    ? '- Khi cần hình, đặt figure.kind = "tikz" và sinh mã TikZ đầy đủ trong figure.tikz. **YÊU CẦU ĐẶC BIỆT:** Hình vẽ phải thoáng, KHÔNG ĐƯỢC đè lên chữ hoặc các chi tiết khác. Các nhãn (label), số đo góc/cạnh phải đặt ở vị trí dễ nhìn, không bị chồng chéo (dùng thuộc tính như `pos=0.5, above, below` hợp lý).'
+    : '- KHÔNG vẽ hình bằng TikZ. Khi cần hình, đặt figure.kind = "image" và mô tả hình trong figure.description (phần mềm sẽ chèn ảnh thay thế).',
+})}
+`;
+
+// Bilingual papers: every question also in the other language; the mock provider looks for the heading
+const buildBilingualRules = (config: ExamConfig) => {
+  if (!config.bilingual) return '';
+  const second = config.language === 'vi' ? 'tiếng Anh' : 'tiếng Việt';
+  return `
+ĐỀ SONG NGỮ (BẮT BUỘC):
+- Mỗi câu hỏi PHẢI có trường translation: bản dịch sang ${second} của stem, options, statements và pairs (dạng câu nào có trường nào thì dịch trường đó).
+- Bản dịch giữ NGUYÊN mọi số liệu, công thức, kí hiệu, chỗ trống \\blank và thứ tự phương án/mệnh đề/cặp; chỉ dịch phần chữ. Số thập phân viết theo quy ước của từng ngôn ngữ (2,5 trong tiếng Việt, 2.5 trong tiếng Anh).
+- Đáp án, lời giải và hình vẽ chỉ viết một lần, bằng ngôn ngữ chính của đề.
+`;
+};
+
+// Differentiated papers: the skill of every question is what the papers at the other levels are aligned on
+const buildDifferentiationRules = (config: ExamConfig) => {
+  if (!config.differentiated) return '';
+  return `
+ĐỀ PHÂN HOÁ:
+- Mỗi câu hỏi PHẢI có trường skill: kĩ năng hoặc kiến thức cụ thể mà câu kiểm tra, viết thành một cụm ngắn (ví dụ "Cộng hai phân số khác mẫu").
+- Đề này sẽ được viết lại ở các mức độ khác, câu thứ N kiểm tra cùng kĩ năng; vì vậy mỗi câu chỉ kiểm tra MỘT kĩ năng chính.
+`;
+};
+
+// Lessons and objectives picked from the built-in catalogue, grouped under their chapter
+const buildCurriculumSection = (config: ExamConfig) => {
+  const picks = getConfigCurriculumPicks(config);
+  if (picks.length === 0) return '';
+  const lines = picks.map(({ chapter, lesson, objectives }) =>
+    `   - ${chapter.title} › ${lesson.title}\n${objectives.map(o => `     + ${o}`).join('\n')}`);
+
+  return `
+CHƯƠNG TRÌNH: ${getCurriculum(config.grade, config.language)!.programme}
+Đề chỉ kiểm tra các bài sau và phải bám sát yêu cầu cần đạt của từng bài:
+${lines.join('\n')}
+- Các câu hỏi phủ đều các yêu cầu cần đạt ở trên; không dùng kiến thức vượt chương trình của lớp.
+`;
+};
+
+// One line per non-empty matrix cell; the mock provider reads the same lines back
+const buildMatrixSection = (config: ExamConfig) => {
+  if (!isMatrixActive(config.matrix)) return '';
+  const lines = config.matrix.rows.flatMap((row, i) => COGNITIVE_LEVELS
+    .filter(({ id }) => row.cells[id].numMultipleChoice + row.cells[id].numEssay > 0)
+    .map(({ id }) => {
+      const cell = row.cells[id];
+      const requirement = cell.requirement.trim() ? ` Yêu cầu cần đạt: ${cell.requirement.trim()}` : '';
+      return `   - Dòng ${i + 1} – ${levelLabel(id, true)} (level = "${id}"): ${cell.numMultipleChoice} câu "mc", ${cell.numEssay} câu "essay", tổng ${cell.points} điểm.${requirement}`;
+    }));
+  const rows = config.matrix.rows.map((row, i) => `   ${i + 1}. ${row.subTopic}`).join('\n');
+
+  return `
+MA TRẬN ĐỀ (BẮT BUỘC TUÂN THEO TỪNG Ô):
+Các dòng nội dung:
+${rows}
+Số câu và điểm của từng ô:
+${lines.join('\n')}
+- Mỗi câu hỏi PHẢI có matrixRow = số thứ tự dòng và level = mã mức độ của ô mà nó thuộc về.
+- Số câu mỗi loại và tổng điểm các câu trong từng ô phải khớp CHÍNH XÁC với ma trận. Ô không được liệt kê thì không có câu "mc" hay "essay" nào.
+- Ma trận chỉ áp dụng cho câu "mc" và "essay"; các dạng câu khác không cần matrixRow và level.
+`;
+};
+
+// What each question type must contain; the mock provider reads the counts back from these lines
+const TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+  mc: 'mỗi câu đúng 4 phương án và DUY NHẤT một phương án đúng.',
+  trueFalse: 'stem là đoạn dẫn chung, statements có ĐÚNG 4 mệnh đề (a, b, c, d), mỗi mệnh đề ghi rõ isTrue; options để trống.',
+  shortAnswer: 'đáp án (correctAnswer) là MỘT số, tối đa 4 kí tự kể cả dấu "-" và dấu phẩy thập phân (ví dụ 12; -3,5; 0,25); không có phương án.',
+  matching: 'pairs gồm 3 đến 5 cặp {left, right} ĐÃ GHÉP ĐÚNG; phần mềm sẽ tự xáo trộn cột B khi in.',
+  fillBlank: 'trong stem đặt lệnh \\blank tại mỗi chỗ trống; blanks liệt kê đáp án của từng chỗ trống theo đúng thứ tự.',
+  essay: 'có markingScheme chia bước và điểm thành phần.',
+};
+
+// Multiple choice and essay are always listed (possibly with 0), the other types only when asked for
+const buildStructureSection = (config: ExamConfig) =>
+  QUESTION_TYPES
+    .filter(t => t.id === 'mc' || t.id === 'essay' || (config[t.countKey] || 0) > 0)
+    .map(t => `   - ${t.vi}: ĐÚNG ${config[t.countKey] || 0} câu có type = "${t.id}", ${TYPE_INSTRUCTIONS[t.id]}`)
+    .join('\n');
+
+// Problems ticked in the extraction pre-step, each marked keep or vary; the files themselves are not sent
+const buildSourceSection = (sources: SourceProblem[]) => {
+  const problems = sources.map((p, i) => {
+    const figure = p.figure ? ` (Hình: ${p.figure})` : '';
+    return `${i + 1}. [${p.keepData ? 'GIỮ NGUYÊN SỐ LIỆU' : 'ĐỔI SỐ LIỆU'}] ${p.text.replace(/\s*\n\s*/g, ' ')}${figure}`;
+  });
+  return `
+BÀI TOÁN GỐC ĐÃ CHỌN TỪ TÀI LIỆU (chỉ dựa vào các bài này):
+${problems.join('\n')}
+- Mỗi câu của đề dựa trên một bài ở trên: cùng dạng toán và mức độ kiến thức. Lần lượt dùng hết các bài trước khi dùng lại một bài.
+- Bài ghi [GIỮ NGUYÊN SỐ LIỆU] giữ đúng số liệu gốc; bài ghi [ĐỔI SỐ LIỆU] phải thay số liệu mới.
+`;
+};
+
+// Figures cut from the uploads; the mock provider reads the file names back from these lines
+const buildFigureSection = (figures: SourceFigure[]) => `
+HÌNH CẮT SẴN TỪ TÀI LIỆU:
+${figures.map(f => `   - ${f.name}: ${f.label || '(không có mô tả)'}`).join('\n')}
+- Câu hỏi dựa trên bài toán có một trong các hình này thì dùng đúng hình đó: figure.kind = "image", figure.image = tên tệp, figure.description = mô tả hình. KHÔNG vẽ lại bằng TikZ.
+- Mỗi hình chỉ dùng cho bài toán mà nó minh hoạ; không dùng tên tệp nào khác ngoài danh sách trên.
+`;
+
+// The editable sections filled from the form, with the setting-specific blocks between content and LaTeX rules
+export const buildExamPrompt = (config: ExamConfig, fileCount: number, sources: SourceProblem[] = [], figures: SourceFigure[] = []) => {
+  const values: Record<string, string> = {
+    '[TÀI LIỆU]': sources.length > 0 ? `- ĐÃ CHỌN ${sources.length} BÀI TOÁN GỐC TỪ TÀI LIỆU (xem bên dưới).` : fileCount > 0 ? `- ĐÃ CÓ ${fileCount} TÀI LIỆU ĐÍNH KÈM.` : '',
+    '[SỐ LIỆU]': sources.length > 0
+      ? '- Giữ hay đổi số liệu theo ghi chú của từng bài toán gốc.'
+      : config.varyData
+      ? '- HÃY THAY ĐỔI SỐ LIỆU trong các bài toán so với tài liệu gốc để tạo đề mới, nhưng PHẢI GIỮ NGUYÊN dạng toán và mức độ kiến thức.'
+      : '- GIỮ NGUYÊN SỐ LIỆU và dạng toán như trong tài liệu (nếu có), hoặc tạo bài toán chuẩn mực.',
+    '[NGÔN NGỮ]': config.language === 'vi' ? 'TIẾNG VIỆT' : 'TIẾNG ANH (ENGLISH)',
+    '[YÊU CẦU TIẾNG ANH]': config.language === 'en' ? '- Hãy dịch toàn bộ nội dung câu hỏi, lời giải và thuật ngữ toán học sang Tiếng Anh chuẩn Cambridge.' : '',
+    '[CHỦ ĐỀ]': config.topic || 'Dựa theo tài liệu đính kèm',
+    '[LỚP]': config.grade,
+    '[ĐỘ KHÓ]': config.difficulty,
+    '[CẤU TRÚC]': buildStructureSection(config),
+    '[TỔNG ĐIỂM]': isMatrixActive(config.matrix) ? 'tổng điểm của ma trận bên dưới' : '10',
+  };
+  const section = (id: PromptSectionId) => fillPromptSection(getSectionText(config.prompt, id), values);
+
+  return `
+${section('role')}
+
+${section('special')}
+
+${section('language')}
+
+${section('content')}
+${buildCurriculumSection(config)}${buildMatrixSection(config)}${sources.length > 0 ? buildSourceSection(sources) : ''}${figures.length > 0 ? buildFigureSection(figures) : ''}${buildDifferentiationRules(config)}${buildBilingualRules(config)}
+${buildLatexRules(config)}`;
+};
+
+const questionTypeLabel = (type: QuestionType) =>
+  `${(QUESTION_TYPES.find(t => t.id === type)?.vi || type).toLowerCase()} (type = "${type}")`;
+
+const parseJson = (text: string): any => {
+  try {
+    return JSON.parse(stripCodeFences(text));
+  } catch {
+    throw new Error('AI trả về dữ liệu không đúng định dạng JSON. Vui lòng thử lại.');
+  }
+};
+
+// Structured output from whichever provider and model are selected in the settings
+const callForJson = async (parts: any[], schema: object): Promise<any> => {
+  const { provider, base } = getActiveModel();
+  return parseJson(await provider.generateStructured({ ...base, parts, schema }));
+};
+
+// Picked problems stand in for the files they came from
+const buildExamParts = async (config: ExamConfig, files: File[], sources: SourceProblem[] = [], figures: SourceFigure[] = []): Promise<any[]> => {
+  const parts: any[] = [{ text: buildExamPrompt(config, files.length, sources, figures) }];
+  if (sources.length > 0) return parts;
+
+  for (const file of files) {
+    const base64Data = await fileToBase64(file);
+    parts.push({
+      inlineData: {
+        mimeType: file.type,
+        data: base64Data
+      }
+    });
+  }
+
+  return parts;
+};
+
+export const generateExam = async (config: ExamConfig, files: File[], sources: SourceProblem[] = [], figures: SourceFigure[] = []): Promise<ExamModel> =>
+  attachFigures(normalizeExamModel(await callForJson(await buildExamParts(config, files, sources, figures), examSchema), config), figures);
+
+// Pre-step before generation: list the problems printed in one file so the teacher can pick which to build on
+export const extractSourceProblems = async (file: File, fileIndex: number, keepData: boolean): Promise<SourceProblem[]> => {
+  const prompt = `
+Tài liệu đính kèm là một tệp bài tập/đề kiểm tra Toán. Hãy liệt kê LẦN LƯỢT TẤT CẢ các bài toán (bài tập, câu hỏi) có trong tài liệu, theo đúng thứ tự xuất hiện.
+- Mỗi bài là một phần tử của problems. Chép nguyên văn đề bài bằng LaTeX (dùng \\dfrac cho phân số), giữ nguyên số liệu, KHÔNG giải.
+- Câu trắc nghiệm: chép cả các phương án. Bài có nhiều ý a), b), c): gộp thành một bài.
+- Ghi số trang và vùng chứa bài trên trang (box), và mô tả ngắn hình vẽ nếu bài có hình.
+- Bỏ qua tiêu đề, hướng dẫn làm bài, lời giải và đáp án.
+`;
+  const parts = [{ text: prompt }, { inlineData: { mimeType: file.type, data: await fileToBase64(file) } }];
+  return normalizeSourceProblems(await callForJson(parts, sourceSchema), file.name, fileIndex, keepData);
+};
+
+// Streamed generation: onProgress receives the exam built from every question finished so far.
+// Aborting through `signal` resolves with that partial exam instead of throwing.
+export const streamExam = async (
+  config: ExamConfig,
+  files: File[],
+  onProgress: (partial: ExamModel) => void,
+  signal: AbortSignal,
+  sources: SourceProblem[] = [],
+  figures: SourceFigure[] = []
+): Promise<ExamModel> => {
+  const { provider, base } = getActiveModel();
+  const parts = await buildExamParts(config, files, sources, figures);
+  let text = '';
+  let finished: ExamQuestion[] = [];
+
+  const partial = (): ExamModel => {
+    const { topic, questions } = readStreamedExam(text);
+    // Questions already shown keep their ids so the output does not flicker
+    finished = [...finished, ...questions.slice(finished.length).map(q => normalizeQuestion(q, config.difficulty, config.matrix))];
+    return attachFigures(normalizeExamModel({ topic }, config, finished), figures);
+  };
+
+  try {
+    for await (const chunk of provider.stream({ ...base, parts, schema: examSchema, signal })) {
+      if (signal.aborted) break;
+      const before = finished.length;
+      text += chunk;
+      const exam = partial();
+      if (finished.length !== before || before === 0) onProgress(exam);
+    }
+  } catch (err) {
+    if (!signal.aborted) throw err;
+  }
+
+  if (signal.aborted) return partial();
+  return attachFigures(normalizeExamModel(parseJson(text), config), figures);
+};
+
+// Targeted re-ask: rewrite one question so it passes the listed checks, keeping topic and level
+export const repairQuestion = async (config: ExamConfig, question: ExamQuestion, problems: string[]): Promise<ExamQuestion> => {
+  const prompt = `
+Đóng vai trò là một trợ giảng Toán học và chuyên gia LaTeX. Câu hỏi ${questionTypeLabel(question.type)} dưới đây (dạng JSON) bị lỗi khi kiểm tra. Hãy viết lại CHỈ câu này, sửa toàn bộ lỗi, giữ nguyên chủ đề, dạng toán, độ khó (${question.difficulty}) và số điểm (${question.points}).
+
+LỖI CẦN SỬA:
+${problems.map(p => `- ${p}`).join('\n')}
+
+YÊU CẦU DẠNG CÂU: ${TYPE_INSTRUCTIONS[question.type]}
+
+CÂU HỎI HIỆN TẠI:
+${JSON.stringify({ ...question, id: undefined }, null, 2)}
+
+NGÔN NGỮ: ${config.language === 'vi' ? 'TIẾNG VIỆT' : 'TIẾNG ANH (ENGLISH)'}. Lớp ${config.grade}.
+${buildBilingualRules(config)}${buildLatexRules(config)}`;
+
+  const raw = await callForJson([{ text: prompt }], questionSchema);
+  return { ...normalizeQuestion(raw, question.difficulty), id: question.id, matrixCell: question.matrixCell, skill: question.skill };
+};
+
+// Fresh replacement for one question the teacher did not like; the rest of the paper is left alone
+export const regenerateQuestion = async (config: ExamConfig, exam: ExamModel, question: ExamQuestion): Promise<ExamQuestion> => {
+  const others = exam.questions.filter(q => q.id !== question.id && q.type === question.type).map((q, i) => `${i + 1}. ${q.stem}`).join('\n');
+  const prompt = `
+Đóng vai trò là một trợ giảng Toán học và chuyên gia LaTeX. Hãy soạn MỘT câu ${questionTypeLabel(question.type)} MỚI để thay thế câu hỏi dưới đây trong đề kiểm tra chủ đề "${exam.topic}" (Lớp ${config.grade}). Câu mới phải cùng chủ đề, cùng độ khó (${question.difficulty}), cùng số điểm (${question.points}) nhưng KHÁC nội dung câu cũ và KHÔNG trùng với các câu còn lại.
+
+YÊU CẦU DẠNG CÂU: ${TYPE_INSTRUCTIONS[question.type]}
+
+CÂU CẦN THAY:
+${question.stem}
+
+CÁC CÂU CÒN LẠI TRONG ĐỀ:
+${others || '(không có)'}
+
+NGÔN NGỮ: ${config.language === 'vi' ? 'TIẾNG VIỆT' : 'TIẾNG ANH (ENGLISH)'}.
+${buildBilingualRules(config)}${buildLatexRules(config)}`;
+
+  const raw = await callForJson([{ text: prompt }], questionSchema);
+  return {
+    ...normalizeQuestion({ ...raw, type: question.type }, question.difficulty),
+    id: question.id,
+    difficulty: question.difficulty,
+    points: question.points,
+    matrixCell: question.matrixCell,
+    skill: question.skill,
+  };
+};
+
+// New TikZ for the figure of one question; the stem, answer and the other questions are left alone
+export const redrawFigure = async (question: ExamQuestion, problems: string[]): Promise<string> => {
+  const prompt = `
+Đóng vai trò là một chuyên gia vẽ hình TikZ cho đề Toán. Hình vẽ của câu hỏi dưới đây cần vẽ lại. Hãy viết lại CHỈ mã TikZ của hình, giữ nguyên các điểm, số đo và nhãn mà đề bài nhắc tới.
+
+LỖI CẦN SỬA:
+${(problems.length > 0 ? problems : ['Hình chưa rõ ràng, hãy vẽ lại cho thoáng']).map(p => `- ${p}`).join('\n')}
+
+ĐỀ BÀI:
+${question.stem}
+
+MÃ TIKZ HIỆN TẠI:
+${question.figure.tikz}
+
+YÊU CẦU:
+- Trả về mã \\begin{tikzpicture} ... \\end{tikzpicture} đầy đủ trong trường tikz.
+- Hình phải thoáng, KHÔNG ĐƯỢC đè lên chữ hoặc các chi tiết khác. Các nhãn (label), số đo góc/cạnh đặt ở vị trí dễ nhìn, không chồng lên nhau (dùng \`pos=0.5, above, below\` hợp lý).
+- Hình rộng không quá 16 cm và cao không quá 12 cm khi in.
+- Chỉ dùng các lệnh của gói tikz: \\draw, \\fill, \\node, \\coordinate, \\foreach.
+`;
+
+  const raw = await callForJson([{ text: prompt }], figureSchema);
+  const tikz = typeof raw?.tikz === 'string' ? raw.tikz.trim() : '';
+  if (!/^\\begin\{tikzpicture\}[\s\S]*\\end\{tikzpicture\}$/.test(tikz)) {
+    throw new Error('AI không trả về mã TikZ hợp lệ. Vui lòng thử lại.');
+  }
+  return tikz;
+};
+
+// How a paper at each level differs from the others while testing the same skills
+const TIER_INSTRUCTIONS: Record<ExamDifficulty, string> = {
+  [ExamDifficulty.EASY]: 'số liệu nhỏ và đẹp, ít bước giải, có thể gợi ý hướng làm; chỉ dùng trực tiếp kiến thức của kĩ năng.',
+  [ExamDifficulty.MEDIUM]: 'số liệu vừa phải, hai đến ba bước giải, không gợi ý.',
+  [ExamDifficulty.HARD]: 'số liệu phức tạp hơn, nhiều bước giải, kết hợp kĩ năng với kiến thức liên quan hoặc tình huống thực tế, không gợi ý.',
+};
+
+// One paper of a differentiated set: the base paper rewritten at another level, question by question
+export const generateTier = async (config: ExamConfig, base: ExamModel, difficulty: ExamDifficulty): Promise<ExamModel> => {
+  const counts = { ...config };
+  QUESTION_TYPES.forEach(t => {
+    counts[t.countKey] = base.questions.filter(q => q.type === t.id).length;
+  });
+  const questions = QUESTION_TYPES.flatMap(({ id }) => base.questions.filter(q => q.type === id).map((q, i) =>
+    `- ${questionTypeLabel(id)}, câu ${i + 1}, ${q.points} điểm. Kĩ năng: ${q.skill || '(như đề bài)'}\n  ${q.stem.replace(/\s*\n\s*/g, ' ')}`));
+  const prompt = `
+Đóng vai trò là một trợ giảng Toán học và chuyên gia LaTeX. Lớp học có học sinh nhiều trình độ. Dưới đây là đề kiểm tra mức độ ${config.difficulty}; hãy soạn một đề SONG SONG mức độ **${difficulty}** để phát cùng lúc và chấm trên cùng thang điểm, trả về dạng JSON theo đúng schema đã cho.
+
+YÊU CẦU ĐỀ PHÂN HOÁ:
+- Câu thứ N của mỗi phần kiểm tra ĐÚNG kĩ năng của câu thứ N cùng phần trong đề gốc, cùng dạng câu (type) và cùng số điểm; trường skill ghi lại kĩ năng đó.
+- Mức độ ${difficulty}: ${TIER_INSTRUCTIONS[difficulty]}
+- KHÔNG chép lại câu của đề gốc. Câu tự luận có markingScheme với tổng điểm bằng số điểm của câu.
+
+Chủ đề: ${base.topic}
+Lớp: ${config.grade}
+Cấu trúc đề:
+${buildStructureSection(counts)}
+
+ĐỀ GỐC (mức ${config.difficulty}):
+${questions.join('\n')}
+
+NGÔN NGỮ: ${config.language === 'vi' ? 'TIẾNG VIỆT' : 'TIẾNG ANH (ENGLISH)'}.
+${buildBilingualRules(config)}${buildLatexRules(config)}`;
+
+  const written = normalizeExamModel(await callForJson([{ text: prompt }], examSchema), { ...config, difficulty });
+  const aligned = alignTier(base, written, difficulty);
+  if (!aligned) throw new Error(`AI trả về đề mức ${difficulty} thiếu câu so với đề gốc. Vui lòng thử lại.`);
+  return aligned;
+};
+
+// Targeted re-ask for a part (or one matrix cell) that came back short
+export const generateMissingQuestions = async (
+  config: ExamConfig,
+  exam: ExamModel,
+  type: QuestionType,
+  count: number,
+  cell?: { rowId: string; level: CognitiveLevel }
+): Promise<ExamQuestion[]> => {
+  const existing = exam.questions.filter(q => q.type === type).map((q, i) => `${i + 1}. ${q.stem}`).join('\n');
+  const row = cell && config.matrix.rows.find(r => r.id === cell.rowId);
+  const cellText = row
+    ? `\nCác câu mới thuộc nội dung "${row.subTopic}", mức độ ${levelLabel(cell.level, true)}.${row.cells[cell.level].requirement.trim() ? ` Yêu cầu cần đạt: ${row.cells[cell.level].requirement.trim()}` : ''}`
+    : '';
+  const prompt = `
+Đóng vai trò là một trợ giảng Toán học và chuyên gia LaTeX. Đề kiểm tra chủ đề "${exam.topic}" (Lớp ${config.grade}, độ khó ${config.difficulty}) đang thiếu câu. Hãy soạn thêm ĐÚNG ${count} câu ${questionTypeLabel(type)}, KHÔNG trùng với các câu đã có dưới đây.${cellText}
+
+YÊU CẦU DẠNG CÂU: ${TYPE_INSTRUCTIONS[type]}
+
+CÁC CÂU ĐÃ CÓ:
+${existing || '(chưa có)'}
+
+NGÔN NGỮ: ${config.language === 'vi' ? 'TIẾNG VIỆT' : 'TIẾNG ANH (ENGLISH)'}.
+${buildBilingualRules(config)}${buildLatexRules(config)}`;
+
+  const raw = await callForJson([{ text: prompt }], { type: Type.ARRAY, items: questionSchema });
+  return (Array.isArray(raw) ? raw : [])
+    .map((q: any) => ({ ...normalizeQuestion({ ...q, type }, config.difficulty), matrixCell: cell }))
+    .slice(0, count);
+};
@@ -0,0 +1,292 @@
+// Fixture questions for the offline mock provider, in the JSON shape the real model returns.
+// Each fixture takes the question's position so repeated fixtures still get different numbers.
+
+import { QuestionType } from '../types';
+
+type Fixture = (n: number) => any;
+
+const MC_VI: Fixture[] = [
+  n => ({
+    type: 'mc',
+    stem: `Kết quả của phép tính $\\dfrac{1}{${n + 1}} + \\dfrac{1}{${n + 2}}$ là:`,
+    figure: { kind: 'none' },
+    options: [`$\\dfrac{${2 * n + 3}}{${(n + 1) * (n + 2)}}$`, `$\\dfrac{2}{${2 * n + 3}}$`, `$\\dfrac{1}{${(n + 1) * (n + 2)}}$`, `$\\dfrac{2}{${(n + 1) * (n + 2)}}$`],
+    correctAnswer: 'A',
+    solution: `Quy đồng mẫu số: $\\dfrac{${n + 2}}{${(n + 1) * (n + 2)}} + \\dfrac{${n + 1}}{${(n + 1) * (n + 2)}} = \\dfrac{${2 * n + 3}}{${(n + 1) * (n + 2)}}$.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+  n => ({
+    type: 'mc',
+    stem: `Hình chữ nhật có chiều dài $${n + 4}$ cm và chiều rộng $${n + 2}$ cm. Chu vi hình chữ nhật là:`,
+    figure: {
+      kind: 'tikz',
+      tikz: `\\begin{tikzpicture}\n  \\draw[thick] (0,0) rectangle (4,2);\n  \\node[below] at (2,0) {$${n + 4}$ cm};\n  \\node[right] at (4,1) {$${n + 2}$ cm};\n\\end{tikzpicture}`,
+      description: 'Hình chữ nhật có ghi độ dài hai cạnh',
+    },
+    options: [`$${2 * (2 * n + 6)}$ cm`, `$${2 * n + 6}$ cm`, `$${(n + 4) * (n + 2)}$ cm`, `$${4 * n + 8}$ cm`],
+    correctAnswer: 'A',
+    solution: `Chu vi $= 2 \\times (${n + 4} + ${n + 2}) = ${2 * (2 * n + 6)}$ (cm).`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+  n => ({
+    type: 'mc',
+    stem: `Số nào thích hợp điền vào ô trống: $${n + 3} \\times \\framebox[1.5em]{\\vphantom{M}} = ${(n + 3) * 6}$?`,
+    figure: { kind: 'none' },
+    options: ['$5$', '$6$', '$7$', '$8$'],
+    correctAnswer: 'B',
+    solution: `$${(n + 3) * 6} : ${n + 3} = 6$.`,
+    difficulty: 'Khá',
+    points: 0.5,
+  }),
+  n => ({
+    type: 'mc',
+    stem: `Tính $25\\%$ của $${40 * (n + 1)}$.`,
+    figure: { kind: 'none' },
+    options: [`$${10 * (n + 1)}$`, `$${20 * (n + 1)}$`, `$${5 * (n + 1)}$`, `$${25 * (n + 1)}$`],
+    correctAnswer: 'A',
+    solution: `$25\\%$ của $${40 * (n + 1)}$ là $${40 * (n + 1)} \\cdot \\dfrac{25}{100} = ${10 * (n + 1)}$.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+];
+
+const ESSAY_VI: Fixture[] = [
+  n => ({
+    type: 'essay',
+    stem: `Tìm $x$, biết: $x + \\dfrac{1}{${n + 2}} = \\dfrac{3}{${n + 2}}$.`,
+    figure: { kind: 'none' },
+    correctAnswer: `$x = \\dfrac{2}{${n + 2}}$`,
+    solution: `$x = \\dfrac{3}{${n + 2}} - \\dfrac{1}{${n + 2}} = \\dfrac{2}{${n + 2}}$.`,
+    markingScheme: [
+      { step: `Chuyển vế: $x = \\dfrac{3}{${n + 2}} - \\dfrac{1}{${n + 2}}$`, points: 0.5 },
+      { step: `Tính được $x = \\dfrac{2}{${n + 2}}$`, points: 0.5 },
+    ],
+    difficulty: 'Khá',
+    points: 1,
+  }),
+  n => ({
+    type: 'essay',
+    stem: `Một lớp học có $${30 + n}$ học sinh, trong đó $\\dfrac{2}{5}$ số học sinh là nam. Hỏi lớp có bao nhiêu học sinh nữ?`,
+    figure: { kind: 'none' },
+    correctAnswer: `$${30 + n - Math.round(((30 + n) * 2) / 5)}$ học sinh nữ`,
+    solution: 'Tính số học sinh nam rồi lấy tổng trừ đi.',
+    markingScheme: [
+      { step: `Số học sinh nam: $${30 + n} \\times \\dfrac{2}{5} = ${Math.round(((30 + n) * 2) / 5)}$`, points: 1 },
+      { step: `Số học sinh nữ: $${30 + n} - ${Math.round(((30 + n) * 2) / 5)} = ${30 + n - Math.round(((30 + n) * 2) / 5)}$`, points: 1 },
+    ],
+    difficulty: 'Khá',
+    points: 2,
+  }),
+];
+
+const MC_EN: Fixture[] = [
+  n => ({
+    type: 'mc',
+    stem: `Work out $\\dfrac{1}{${n + 1}} + \\dfrac{1}{${n + 2}}$.`,
+    figure: { kind: 'none' },
+    options: [`$\\dfrac{${2 * n + 3}}{${(n + 1) * (n + 2)}}$`, `$\\dfrac{2}{${2 * n + 3}}$`, `$\\dfrac{1}{${(n + 1) * (n + 2)}}$`, `$\\dfrac{2}{${(n + 1) * (n + 2)}}$`],
+    correctAnswer: 'A',
+    solution: `Use a common denominator: $\\dfrac{${n + 2} + ${n + 1}}{${(n + 1) * (n + 2)}} = \\dfrac{${2 * n + 3}}{${(n + 1) * (n + 2)}}$.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+  n => ({
+    type: 'mc',
+    stem: `A rectangle is $${n + 4}$ cm long and $${n + 2}$ cm wide. What is its perimeter?`,
+    figure: {
+      kind: 'tikz',
+      tikz: `\\begin{tikzpicture}\n  \\draw[thick] (0,0) rectangle (4,2);\n  \\node[below] at (2,0) {$${n + 4}$ cm};\n  \\node[right] at (4,1) {$${n + 2}$ cm};\n\\end{tikzpicture}`,
+      description: 'Rectangle labelled with its side lengths',
+    },
+    options: [`$${2 * (2 * n + 6)}$ cm`, `$${2 * n + 6}$ cm`, `$${(n + 4) * (n + 2)}$ cm`, `$${4 * n + 8}$ cm`],
+    correctAnswer: 'A',
+    solution: `Perimeter $= 2 \\times (${n + 4} + ${n + 2}) = ${2 * (2 * n + 6)}$ cm.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+  n => ({
+    type: 'mc',
+    stem: `Which number goes in the box: $${n + 3} \\times \\framebox[1.5em]{\\vphantom{M}} = ${(n + 3) * 6}$?`,
+    figure: { kind: 'none' },
+    options: ['$5$', '$6$', '$7$', '$8$'],
+    correctAnswer: 'B',
+    solution: `$${(n + 3) * 6} \\div ${n + 3} = 6$.`,
+    difficulty: 'Khá',
+    points: 0.5,
+  }),
+  n => ({
+    type: 'mc',
+    stem: `Work out $25\\%$ of $${40 * (n + 1)}$.`,
+    figure: { kind: 'none' },
+    options: [`$${10 * (n + 1)}$`, `$${20 * (n + 1)}$`, `$${5 * (n + 1)}$`, `$${25 * (n + 1)}$`],
+    correctAnswer: 'A',
+    solution: `$25\\%$ of $${40 * (n + 1)}$ is $${40 * (n + 1)} \\times \\dfrac{25}{100} = ${10 * (n + 1)}$.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+];
+
+const ESSAY_EN: Fixture[] = [
+  n => ({
+    type: 'essay',
+    stem: `Solve $x + \\dfrac{1}{${n + 2}} = \\dfrac{3}{${n + 2}}$.`,
+    figure: { kind: 'none' },
+    correctAnswer: `$x = \\dfrac{2}{${n + 2}}$`,
+    solution: `$x = \\dfrac{3}{${n + 2}} - \\dfrac{1}{${n + 2}} = \\dfrac{2}{${n + 2}}$.`,
+    markingScheme: [
+      { step: `Rearrange: $x = \\dfrac{3}{${n + 2}} - \\dfrac{1}{${n + 2}}$`, points: 0.5 },
+      { step: `$x = \\dfrac{2}{${n + 2}}$`, points: 0.5 },
+    ],
+    difficulty: 'Khá',
+    points: 1,
+  }),
+  n => ({
+    type: 'essay',
+    stem: `A class has $${30 + n}$ students and $\\dfrac{2}{5}$ of them are boys. How many girls are in the class?`,
+    figure: { kind: 'none' },
+    correctAnswer: `$${30 + n - Math.round(((30 + n) * 2) / 5)}$ girls`,
+    solution: 'Work out the number of boys, then subtract it from the total.',
+    markingScheme: [
+      { step: `Boys: $${30 + n} \\times \\dfrac{2}{5} = ${Math.round(((30 + n) * 2) / 5)}$`, points: 1 },
+      { step: `Girls: $${30 + n} - ${Math.round(((30 + n) * 2) / 5)} = ${30 + n - Math.round(((30 + n) * 2) / 5)}$`, points: 1 },
+    ],
+    difficulty: 'Khá',
+    points: 2,
+  }),
+];
+
+const TRUE_FALSE_VI: Fixture[] = [
+  n => ({
+    type: 'trueFalse',
+    stem: `Cho hai phân số $\\dfrac{1}{${n + 1}}$ và $\\dfrac{1}{${n + 2}}$. Xét tính đúng sai của các mệnh đề sau:`,
+    figure: { kind: 'none' },
+    statements: [
+      { text: `$\\dfrac{1}{${n + 1}} > \\dfrac{1}{${n + 2}}$`, isTrue: true },
+      { text: `Tổng hai phân số bằng $\\dfrac{2}{${2 * n + 3}}$`, isTrue: false },
+      { text: `Mẫu số chung nhỏ nhất của hai phân số là $${(n + 1) * (n + 2)}$`, isTrue: true },
+      { text: `Hiệu $\\dfrac{1}{${n + 1}} - \\dfrac{1}{${n + 2}}$ là một số âm`, isTrue: false },
+    ],
+    correctAnswer: '',
+    solution: `a) Đúng vì $${n + 1} < ${n + 2}$. b) Sai, tổng bằng $\\dfrac{${2 * n + 3}}{${(n + 1) * (n + 2)}}$. c) Đúng. d) Sai, hiệu dương.`,
+    difficulty: 'Khá',
+    points: 1,
+  }),
+];
+
+const SHORT_ANSWER_VI: Fixture[] = [
+  n => ({
+    type: 'shortAnswer',
+    stem: `Một lớp có $${4 * n + 20}$ học sinh, trong đó $\\dfrac{1}{4}$ số học sinh đạt loại giỏi. Hỏi lớp có bao nhiêu học sinh giỏi?`,
+    figure: { kind: 'none' },
+    correctAnswer: String(n + 5),
+    solution: `Số học sinh giỏi là $${4 * n + 20} \\cdot \\dfrac{1}{4} = ${n + 5}$.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+];
+
+const MATCHING_VI: Fixture[] = [
+  n => ({
+    type: 'matching',
+    stem: 'Nối mỗi phép tính ở cột A với kết quả đúng ở cột B.',
+    figure: { kind: 'none' },
+    pairs: [
+      { left: `$${n} + ${n + 1}$`, right: `$${2 * n + 1}$` },
+      { left: `$${n + 1} \\times 3$`, right: `$${3 * n + 3}$` },
+      { left: `$${n + 10} - ${n}$`, right: '$10$' },
+    ],
+    correctAnswer: '',
+    solution: 'Tính từng phép tính rồi nối với kết quả tương ứng.',
+    difficulty: 'Cơ bản',
+    points: 1,
+  }),
+];
+
+const FILL_BLANK_VI: Fixture[] = [
+  n => ({
+    type: 'fillBlank',
+    stem: `Điền số thích hợp vào chỗ trống: $\\dfrac{1}{${n + 1}} = \\dfrac{2}{\\blank}$ và $\\dfrac{${n}}{${n + 1}} = \\dfrac{\\blank}{${3 * (n + 1)}}$.`,
+    figure: { kind: 'none' },
+    blanks: [String(2 * (n + 1)), String(3 * n)],
+    correctAnswer: '',
+    solution: 'Nhân cả tử và mẫu với cùng một số khác 0.',
+    difficulty: 'Cơ bản',
+    points: 1,
+  }),
+];
+
+const TRUE_FALSE_EN: Fixture[] = [
+  n => ({
+    type: 'trueFalse',
+    stem: `Consider the fractions $\\dfrac{1}{${n + 1}}$ and $\\dfrac{1}{${n + 2}}$. Decide whether each statement is true or false.`,
+    figure: { kind: 'none' },
+    statements: [
+      { text: `$\\dfrac{1}{${n + 1}} > \\dfrac{1}{${n + 2}}$`, isTrue: true },
+      { text: `Their sum is $\\dfrac{2}{${2 * n + 3}}$`, isTrue: false },
+      { text: `Their lowest common denominator is $${(n + 1) * (n + 2)}$`, isTrue: true },
+      { text: `$\\dfrac{1}{${n + 1}} - \\dfrac{1}{${n + 2}}$ is negative`, isTrue: false },
+    ],
+    correctAnswer: '',
+    solution: `a) True since $${n + 1} < ${n + 2}$. b) False, the sum is $\\dfrac{${2 * n + 3}}{${(n + 1) * (n + 2)}}$. c) True. d) False, the difference is positive.`,
+    difficulty: 'Khá',
+    points: 1,
+  }),
+];
+
+const SHORT_ANSWER_EN: Fixture[] = [
+  n => ({
+    type: 'shortAnswer',
+    stem: `A class has $${4 * n + 20}$ students and $\\dfrac{1}{4}$ of them got a distinction. How many students got a distinction?`,
+    figure: { kind: 'none' },
+    correctAnswer: String(n + 5),
+    solution: `$${4 * n + 20} \\times \\dfrac{1}{4} = ${n + 5}$ students.`,
+    difficulty: 'Cơ bản',
+    points: 0.5,
+  }),
+];
+
+const MATCHING_EN: Fixture[] = [
+  n => ({
+    type: 'matching',
+    stem: 'Match each calculation in column A with its result in column B.',
+    figure: { kind: 'none' },
+    pairs: [
+      { left: `$${n} + ${n + 1}$`, right: `$${2 * n + 1}$` },
+      { left: `$${n + 1} \\times 3$`, right: `$${3 * n + 3}$` },
+      { left: `$${n + 10} - ${n}$`, right: '$10$' },
+    ],
+    correctAnswer: '',
+    solution: 'Work out each calculation and match it to its result.',
+    difficulty: 'Cơ bản',
+    points: 1,
+  }),
+];
+
+const FILL_BLANK_EN: Fixture[] = [
+  n => ({
+    type: 'fillBlank',
+    stem: `Fill in the blanks: $\\dfrac{1}{${n + 1}} = \\dfrac{2}{\\blank}$ and $\\dfrac{${n}}{${n + 1}} = \\dfrac{\\blank}{${3 * (n + 1)}}$.`,
+    figure: { kind: 'none' },
+    blanks: [String(2 * (n + 1)), String(3 * n)],
+    correctAnswer: '',
+    solution: 'Multiply the numerator and the denominator by the same non-zero number.',
+    difficulty: 'Cơ bản',
+    points: 1,
+  }),
+];
+
+const FIXTURES: Record<QuestionType, { vi: Fixture[]; en: Fixture[] }> = {
+  mc: { vi: MC_VI, en: MC_EN },
+  trueFalse: { vi: TRUE_FALSE_VI, en: TRUE_FALSE_EN },
+  shortAnswer: { vi: SHORT_ANSWER_VI, en: SHORT_ANSWER_EN },
+  matching: { vi: MATCHING_VI, en: MATCHING_EN },
+  fillBlank: { vi: FILL_BLANK_VI, en: FILL_BLANK_EN },
+  essay: { vi: ESSAY_VI, en: ESSAY_EN },
+};
+
+export const mockQuestion = (type: QuestionType, index: number, english: boolean) => {
+  const fixtures = english ? FIXTURES[type].en : FIXTURES[type].vi;
+  return fixtures[index % fixtures.length](index + 1);
+};
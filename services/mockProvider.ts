@@ -0,0 +1,158 @@
+import { ExamDifficulty, ModelProvider, ModelRequest, QUESTION_TYPES, QuestionType } from '../types';
+import { normalizeQuestion } from '../utils/examModel';
+import { renderQuestion } from '../utils/examRenderer';
+import { mockQuestion } from './mockFixtures';
+
+// Offline backend: answers from fixtures, shaped by what the prompt and schema ask for.
+// The same request always gets the same answer, so the whole flow can be exercised without a network.
+
+const promptText = (request: ModelRequest) => request.parts.filter(p => typeof p.text === 'string').map(p => p.text).join('\n');
+
+const hashText = (text: string) => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) >>> 0;
+  return hash;
+};
+
+const countFor = (prompt: string, type: QuestionType, fallback: number) => {
+  const match = new RegExp(`ĐÚNG (\\d+) câu có type = "${type}"`).exec(prompt);
+  return match ? parseInt(match[1], 10) : fallback;
+};
+
+// Matrix cells as listed by buildExamPrompt: every fixture is tagged with its cell and shares the cell's points
+const MATRIX_CELL = /Dòng (\d+) – .*?\(level = "(\w+)"\): (\d+) câu "mc", (\d+) câu "essay", tổng ([\d.]+) điểm/g;
+const matrixQuestions = (prompt: string, question: (type: QuestionType, index: number) => any): any[] | null => {
+  const cells = Array.from(prompt.matchAll(MATRIX_CELL));
+  if (cells.length === 0) return null;
+  let mcIndex = 0;
+  let essayIndex = 0;
+  return cells.flatMap(([, row, level, mc, essay, points]) => {
+    const count = parseInt(mc, 10) + parseInt(essay, 10);
+    const tag = (q: any) => ({ ...q, matrixRow: parseInt(row, 10), level, points: Math.round((parseFloat(points) / count) * 100) / 100 });
+    return [
+      ...Array.from({ length: parseInt(mc, 10) }, () => tag(question('mc', mcIndex++))),
+      ...Array.from({ length: parseInt(essay, 10) }, () => tag(question('essay', essayIndex++))),
+    ];
+  });
+};
+
+// Figures listed by buildExamPrompt ("   - hinh-1.png: label") go to the first questions, one each
+const FIGURE_LINE = /^ {3}- (\S+\.png): (.*)$/gm;
+const withFigures = (prompt: string, questions: any[]) => {
+  const section = prompt.split('HÌNH CẮT SẴN TỪ TÀI LIỆU:')[1];
+  if (!section) return questions;
+  const figures = Array.from(section.matchAll(FIGURE_LINE));
+  return questions.map((q, i) => (figures[i] ? { ...q, figure: { kind: 'image', image: figures[i][1], description: figures[i][2] } } : q));
+};
+
+const structuredAnswer = (request: ModelRequest): any => {
+  const prompt = promptText(request);
+  const english = prompt.includes('TIẾNG ANH (ENGLISH)');
+  const schema: any = request.schema || {};
+  const offset = hashText(prompt) % 7;
+
+  // Bilingual prompts get the same fixture in the other language as the translation; differentiated ones a skill per question
+  const question = (type: QuestionType, index: number) => {
+    const fixture = mockQuestion(type, index, english);
+    const original = prompt.includes('ĐỀ PHÂN HOÁ')
+      ? { ...fixture, skill: `${english ? 'Skill' : 'Kĩ năng'} ${type}-${index + 1}` }
+      : fixture;
+    if (!prompt.includes('ĐỀ SONG NGỮ')) return original;
+    const other = mockQuestion(type, index, !english);
+    return {
+      ...original,
+      translation: { stem: other.stem, options: other.options, statements: other.statements?.map((s: any) => s.text), pairs: other.pairs },
+    };
+  };
+
+  // Source extraction: a few fixture problems stacked down the first page
+  if (schema.properties?.problems) {
+    const fixtures = [mockQuestion('mc', offset, english), mockQuestion('mc', offset + 1, english), mockQuestion('essay', offset, english)];
+    return {
+      problems: fixtures.map((q, i) => ({
+        page: 1,
+        box: [80 + i * 300, 60, 340 + i * 300, 940],
+        text: [q.stem, ...(q.options || []).map((o: string, k: number) => `${'ABCD'[k]}. ${o}`)].join('\n'),
+        figure: q.figure.kind === 'none' ? '' : q.figure.description,
+      })),
+    };
+  }
+
+  // Figure redraws: the picture from the prompt comes back as it was
+  if (schema.properties?.tikz) {
+    const current = /\\begin\{tikzpicture\}[\s\S]*?\\end\{tikzpicture\}/.exec(prompt.split('MÃ TIKZ HIỆN TẠI:')[1] || '');
+    return { tikz: current ? current[0] : mockQuestion('mc', 1, english).figure.tikz };
+  }
+
+  if (schema.properties?.questions) {
+    const topic = /Chủ đề: (.+)/.exec(prompt)?.[1]?.trim();
+    const fallbackTopic = topic && !topic.startsWith('Dựa theo') ? topic : (english ? 'Fractions' : 'Phân số');
+    const fromMatrix = matrixQuestions(prompt, question);
+    if (fromMatrix) return { topic: fallbackTopic, questions: withFigures(prompt, fromMatrix) };
+    const questions = QUESTION_TYPES.flatMap(({ id }) => {
+      const fallback = id === 'mc' ? 4 : id === 'essay' ? 1 : 0;
+      return Array.from({ length: countFor(prompt, id, fallback) }, (_, i) => question(id, i));
+    });
+    return { topic: fallbackTopic, questions: withFigures(prompt, questions) };
+  }
+
+  // Single-question and top-up prompts name one type, e.g. 'đúng/sai (type = "trueFalse")'
+  const named = /type = "(\w+)"/.exec(prompt)?.[1];
+  const type = QUESTION_TYPES.find(t => t.id === named)?.id || 'mc';
+  if (schema.type === 'ARRAY') {
+    const count = parseInt(/ĐÚNG (\d+) câu/.exec(prompt)?.[1] || '1', 10);
+    return Array.from({ length: count }, (_, i) => question(type, offset + i));
+  }
+  if (schema.properties?.stem) {
+    return question(type, offset);
+  }
+  return {};
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Free-text requests get fixture LaTeX: one multiple-choice and one essay questionbox
+const latexAnswer = (request: ModelRequest) => {
+  const english = promptText(request).includes('TIẾNG ANH (ENGLISH)');
+  return (['mc', 'essay'] as const)
+    .map((type, i) => renderQuestion(normalizeQuestion(mockQuestion(type, 0, english), ExamDifficulty.MEDIUM), i, !english))
+    .join('\n');
+};
+
+const answerText = (request: ModelRequest) =>
+  request.schema ? JSON.stringify(structuredAnswer(request), null, 2) : latexAnswer(request);
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  models: ['mock-fixtures'],
+  requiresApiKey: false,
+
+  generate: async request => {
+    await delay(150, request.signal);
+    return answerText(request);
+  },
+
+  // Small chunks with a pause between them, like a real stream
+  stream: async function* (request) {
+    const text = answerText(request);
+    for (let i = 0; i < text.length; i += 64) {
+      await delay(25, request.signal);
+      yield text.slice(i, i + 64);
+    }
+  },
+
+  generateStructured: request => mockProvider.generate(request),
+};
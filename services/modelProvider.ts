@@ -0,0 +1,42 @@
+import { ModelProvider, ModelRequest, ModelSettings, ProviderId } from '../types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const SETTINGS_KEY = 'latex-exam-generator.model-settings';
+
+export const PROVIDERS: ModelProvider[] = [geminiProvider, mockProvider];
+
+export const getProvider = (id: ProviderId): ModelProvider => PROVIDERS.find(p => p.id === id) || geminiProvider;
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  providerId: 'gemini',
+  model: geminiProvider.models[0],
+  apiKey: '',
+};
+
+export const loadModelSettings = (): ModelSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored) return DEFAULT_MODEL_SETTINGS;
+    const settings = { ...DEFAULT_MODEL_SETTINGS, ...stored };
+    // A model the provider no longer offers falls back to its default
+    const provider = getProvider(settings.providerId);
+    return provider.models.includes(settings.model) ? settings : { ...settings, model: provider.models[0] };
+  } catch {
+    return DEFAULT_MODEL_SETTINGS;
+  }
+};
+
+export const saveModelSettings = (settings: ModelSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Provider and request fields for the current settings; read on every call so changes apply immediately
+export const getActiveModel = (): { provider: ModelProvider; base: Pick<ModelRequest, 'model' | 'apiKey'> } => {
+  const settings = loadModelSettings();
+  const provider = getProvider(settings.providerId);
+  if (provider.requiresApiKey && !settings.apiKey.trim()) {
+    throw new Error('Chưa có API key. Mở "Cài đặt mô hình" (biểu tượng bánh răng) để nhập khoá API.');
+  }
+  return { provider, base: { model: settings.model, apiKey: settings.apiKey.trim() } };
+};
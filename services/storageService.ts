@@ -0,0 +1,99 @@
+import { BankedQuestion, ConfigPreset, CustomPreamble, HistoryEntry, PromptProfile, SourceFileInfo } from '../types';
+
+const DB_NAME = 'latex-exam-generator';
+const DB_VERSION = 4;
+const HISTORY_STORE = 'history';
+const PRESET_STORE = 'presets';
+const BANK_STORE = 'questionBank';
+const TEMPLATE_STORE = 'templates';
+const PROMPT_STORE = 'promptProfiles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PRESET_STORE)) db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(BANK_STORE)) db.createObjectStore(BANK_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(PROMPT_STORE)) db.createObjectStore(PROMPT_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createStorageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Newest first
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await run<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveHistoryEntry = (entry: HistoryEntry) => run<IDBValidKey>(HISTORY_STORE, 'readwrite', store => store.put(entry));
+
+export const deleteHistoryEntry = (id: string) => run<undefined>(HISTORY_STORE, 'readwrite', store => store.delete(id));
+
+export const listPresets = async (): Promise<ConfigPreset[]> => {
+  const presets = await run<ConfigPreset[]>(PRESET_STORE, 'readonly', store => store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = (preset: ConfigPreset) => run<IDBValidKey>(PRESET_STORE, 'readwrite', store => store.put(preset));
+
+export const deletePreset = (id: string) => run<undefined>(PRESET_STORE, 'readwrite', store => store.delete(id));
+
+// Newest first
+export const listBank = async (): Promise<BankedQuestion[]> => {
+  const banked = await run<BankedQuestion[]>(BANK_STORE, 'readonly', store => store.getAll());
+  return banked.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const saveBankedQuestion = (banked: BankedQuestion) => run<IDBValidKey>(BANK_STORE, 'readwrite', store => store.put(banked));
+
+export const deleteBankedQuestion = (id: string) => run<undefined>(BANK_STORE, 'readwrite', store => store.delete(id));
+
+export const listTemplates = async (): Promise<CustomPreamble[]> => {
+  const templates = await run<CustomPreamble[]>(TEMPLATE_STORE, 'readonly', store => store.getAll());
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = (template: CustomPreamble) => run<IDBValidKey>(TEMPLATE_STORE, 'readwrite', store => store.put(template));
+
+export const deleteTemplate = (id: string) => run<undefined>(TEMPLATE_STORE, 'readwrite', store => store.delete(id));
+
+export const listPromptProfiles = async (): Promise<PromptProfile[]> => {
+  const profiles = await run<PromptProfile[]>(PROMPT_STORE, 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePromptProfile = (profile: PromptProfile) => run<IDBValidKey>(PROMPT_STORE, 'readwrite', store => store.put(profile));
+
+export const deletePromptProfile = (id: string) => run<undefined>(PROMPT_STORE, 'readwrite', store => store.delete(id));
+
+// Uploaded files are not kept, only enough to recognise them again
+export const describeFile = async (file: File): Promise<SourceFileInfo> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const hash = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return { name: file.name, type: file.type, size: file.size, hash };
+};
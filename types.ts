@@ -9,10 +9,325 @@ export interface ExamConfig {
   grade: string;
   difficulty: ExamDifficulty;
   numMultipleChoice: number;
+  numTrueFalse: number;
+  numShortAnswer: number;
+  numMatching: number;
+  numFillBlank: number;
   numEssay: number;
   useTikz: boolean; // true = Generate TikZ, false = Use \includegraphics placeholder
   varyData: boolean; // true = Change numbers, false = Keep exact numbers from source
   language: 'vi' | 'en'; // Added language support
+  bilingual: boolean; // Every question also carries its translation into the other language
+  numVariants: number; // Number of shuffled versions (Mã đề) built locally from one generation
+  template: TemplateSettings; // Layout and school details the documents are rendered with
+  matrix: ExamMatrix; // Specification matrix (ma trận đề); when enabled its totals set the counts above
+  objectives: string[]; // Catalogue objectives picked for the topic (utils/curriculum); their lessons and wording go into the prompt
+  differentiated: boolean; // Also write the paper at the other two difficulties, aligned question by question (utils/tiers)
+  prompt: PromptSettings; // Wording of the generation prompt; copied in so a saved exam records what it was asked with
+}
+
+// Editable blocks of the generation prompt, in the order they are sent (utils/promptSections)
+export type PromptSectionId = 'role' | 'special' | 'language' | 'content' | 'latex';
+
+export interface PromptSection {
+  id: PromptSectionId;
+  text: string; // May contain the section's [PLACEHOLDERS]
+}
+
+export interface PromptSettings {
+  sections: PromptSection[];
+  source?: { profileId: string; name: string; version: number }; // Saved version the sections were loaded from; unset = built-in
+  edited?: boolean; // Changed since they were loaded from `source`
+}
+
+// One saved wording; saving a profile again adds a version, earlier ones stay to compare with or go back to
+export interface PromptVersion {
+  version: number; // 1, 2, ...
+  savedAt: number;
+  note: string; // What changed, as typed when saving
+  sections: PromptSection[];
+}
+
+export interface PromptProfile {
+  id: string;
+  name: string;
+  versions: PromptVersion[]; // Oldest first
+}
+
+// Offline curriculum catalogue: GDPT 2018 for Vietnamese papers, Cambridge for English ones
+export interface CurriculumLesson {
+  id: string; // "<programme>-<grade>-<chapter>-<lesson>"; objective ids add ".<n>"
+  title: string;
+  objectives: string[]; // Yêu cầu cần đạt / learning objectives
+}
+
+export interface CurriculumChapter {
+  title: string;
+  lessons: CurriculumLesson[];
+}
+
+export interface CurriculumGrade {
+  language: 'vi' | 'en';
+  grades: string[]; // Values of ExamConfig.grade it is offered for
+  programme: string; // "Chương trình GDPT 2018 – Toán lớp 6", "Cambridge Lower Secondary Mathematics – Stage 7"
+  chapters: CurriculumChapter[];
+}
+
+// Cognitive levels of the Vietnamese specification matrix
+export type CognitiveLevel = 'nb' | 'th' | 'vd' | 'vdc';
+
+export const COGNITIVE_LEVELS: { id: CognitiveLevel; vi: string; en: string }[] = [
+  { id: 'nb', vi: 'Nhận biết', en: 'Recall' },
+  { id: 'th', vi: 'Thông hiểu', en: 'Understanding' },
+  { id: 'vd', vi: 'Vận dụng', en: 'Application' },
+  { id: 'vdc', vi: 'Vận dụng cao', en: 'Higher application' },
+];
+
+export interface MatrixCell {
+  numMultipleChoice: number;
+  numEssay: number;
+  points: number; // Total points of the cell's questions
+  requirement: string; // Yêu cầu cần đạt, printed in the đặc tả table
+}
+
+export interface MatrixRow {
+  id: string;
+  subTopic: string;
+  cells: Record<CognitiveLevel, MatrixCell>;
+}
+
+export interface ExamMatrix {
+  enabled: boolean;
+  rows: MatrixRow[];
+}
+
+export const DEFAULT_EXAM_MATRIX: ExamMatrix = { enabled: false, rows: [] };
+
+export type TemplateLayoutId = 'quiz15' | 'period' | 'semester' | 'worksheet';
+
+export interface TemplatePlaceholder {
+  key: string; // As written in the preamble, e.g. "[TỔ CHUYÊN MÔN]"
+  value: string;
+}
+
+// A teacher's own preamble; it replaces the built-in one and must still define questionbox
+export interface CustomPreamble {
+  id: string;
+  name: string;
+  source: string;
+  placeholders: TemplatePlaceholder[]; // Declared placeholders beyond the built-in ones
+}
+
+// Where a bilingual paper prints the translation: under each part of the question, or in a column beside it
+export type BilingualLayout = 'stacked' | 'columns';
+
+export interface TemplateSettings {
+  layout: TemplateLayoutId;
+  bilingualLayout?: BilingualLayout; // Unset = stacked
+  schoolName: string;
+  teacherName: string;
+  duration: string; // Minutes, as printed
+  watermark: string; // Empty = no watermark
+  contactFooter: string; // Empty = no footer line
+  logo?: { fileName: string; dataUrl: string }; // Drawn with \includegraphics; the file ships with the download
+  customPreamble?: CustomPreamble; // Copied in so saved exams render the same later
+}
+
+export type QuestionType = 'mc' | 'trueFalse' | 'shortAnswer' | 'matching' | 'fillBlank' | 'essay';
+
+export type QuestionCountKey = 'numMultipleChoice' | 'numTrueFalse' | 'numShortAnswer' | 'numMatching' | 'numFillBlank' | 'numEssay';
+
+// Parts of the paper in print order; each type gets its own \section* when it has questions
+export const QUESTION_TYPES: {
+  id: QuestionType;
+  countKey: QuestionCountKey;
+  vi: string; // Form and editor label
+  en: string;
+  sectionVi: string; // Section heading, after "PHẦN I: "
+  sectionEn: string;
+  countPlaceholderVi: string;
+  countPlaceholderEn: string;
+}[] = [
+  { id: 'mc', countKey: 'numMultipleChoice', vi: 'Trắc nghiệm', en: 'Multiple choice', sectionVi: 'TRẮC NGHIỆM', sectionEn: 'MULTIPLE CHOICE', countPlaceholderVi: '[SỐ LƯỢNG TN]', countPlaceholderEn: '[NUM_MC]' },
+  { id: 'trueFalse', countKey: 'numTrueFalse', vi: 'Đúng/Sai', en: 'True/false', sectionVi: 'TRẮC NGHIỆM ĐÚNG SAI', sectionEn: 'TRUE OR FALSE', countPlaceholderVi: '[SỐ LƯỢNG ĐS]', countPlaceholderEn: '[NUM_TF]' },
+  { id: 'shortAnswer', countKey: 'numShortAnswer', vi: 'Trả lời ngắn', en: 'Short answer', sectionVi: 'TRẢ LỜI NGẮN', sectionEn: 'SHORT ANSWER', countPlaceholderVi: '[SỐ LƯỢNG TLN]', countPlaceholderEn: '[NUM_SHORT]' },
+  { id: 'matching', countKey: 'numMatching', vi: 'Nối cột', en: 'Matching', sectionVi: 'NỐI CỘT', sectionEn: 'MATCHING', countPlaceholderVi: '[SỐ LƯỢNG NC]', countPlaceholderEn: '[NUM_MATCHING]' },
+  { id: 'fillBlank', countKey: 'numFillBlank', vi: 'Điền khuyết', en: 'Fill in the blank', sectionVi: 'ĐIỀN VÀO CHỖ TRỐNG', sectionEn: 'FILL IN THE BLANKS', countPlaceholderVi: '[SỐ LƯỢNG ĐK]', countPlaceholderEn: '[NUM_FILL]' },
+  { id: 'essay', countKey: 'numEssay', vi: 'Tự luận', en: 'Essay', sectionVi: 'TỰ LUẬN', sectionEn: 'CONSTRUCTED RESPONSE', countPlaceholderVi: '[SỐ LƯỢNG TL]', countPlaceholderEn: '[NUM_ESSAY]' },
+];
+
+export interface TrueFalseStatement {
+  text: string; // LaTeX
+  isTrue: boolean;
+}
+
+export interface MatchingPair {
+  left: string; // Column A item (LaTeX)
+  right: string; // Its match in column B
+}
+
+export interface FigureSpec {
+  kind: 'none' | 'tikz' | 'image';
+  tikz?: string; // Full \begin{tikzpicture} ... \end{tikzpicture} when kind = 'tikz'
+  description?: string; // What the figure shows; used as the caption comment for image placeholders
+  image?: string; // kind = 'image': file name of a figure cut from the uploads; unset = the placeholder picture
+}
+
+export interface MarkingStep {
+  step: string; // One step of the worked solution (LaTeX)
+  points: number;
+}
+
+// The question's text in the second language of a bilingual paper; numbers, formulas and order match the original
+export interface QuestionTranslation {
+  stem: string;
+  options?: string[]; // MC: same A–D order
+  statements?: string[]; // True/false: statement texts a) to d)
+  pairs?: MatchingPair[]; // Matching: same order as the original pairs
+}
+
+export interface ExamQuestion {
+  id: string;
+  type: QuestionType;
+  stem: string; // Question text (LaTeX, without the questionbox wrapper)
+  options: string[]; // MC only: option texts in A, B, C, D order (LaTeX, without \task)
+  correctAnswer: string; // MC: the letter; short answer: the number; essay: the final result
+  statements?: TrueFalseStatement[]; // True/false only: statements a) to d)
+  pairs?: MatchingPair[]; // Matching only: pairs as matched, column A order
+  matchOrder?: number[]; // Matching only: column B prints pairs[matchOrder[0]].right first, ...
+  blanks?: string[]; // Fill in the blank only: answers for each \blank in the stem, in order
+  solution: string; // Worked solution (LaTeX)
+  markingScheme: MarkingStep[]; // Essay only: scored steps for the answer key
+  figure: FigureSpec;
+  difficulty: ExamDifficulty;
+  points: number;
+  matrixCell?: { rowId: string; level: CognitiveLevel }; // Matrix cell the question was written for
+  skill?: string; // Differentiated papers: what the question tests, the same for question N at every level
+  translation?: QuestionTranslation; // Bilingual papers only
+}
+
+// Structured exam returned by the model; every LaTeX document is rendered locally from it
+export interface ExamModel {
+  topic: string;
+  grade: string;
+  language: 'vi' | 'en';
+  bilingual?: boolean; // Questions carry a translation into the other language
+  questions: ExamQuestion[];
+  images?: Record<string, string>; // Figures the questions use, file name -> PNG data URL
+}
+
+// One paper of a differentiated set; question N tests the same skill for the same points as in the others
+export interface ExamTier {
+  difficulty: ExamDifficulty;
+  exam: ExamModel;
+}
+
+export type ValidationRule = 'environment' | 'preamble' | 'count' | 'dfrac' | 'framebox' | 'options' | 'math' | 'figure' | 'structure' | 'matrix' | 'answer' | 'correctness' | 'translation';
+
+export interface ValidationIssue {
+  id: string;
+  rule: ValidationRule;
+  severity: 'error' | 'warning';
+  line: number; // 1-based line in the rendered exam LaTeX
+  message: string;
+  questionId?: string; // Question whose questionbox contains the line, for targeted fixes
+  part?: QuestionType; // Count issues: the part that has too few or too many questions
+  matrixCell?: { rowId: string; level: CognitiveLevel; missing: number }; // Matrix issues: the cell that is short
+  fixable: boolean; // Can be repaired locally without asking the model again
+}
+
+export interface SourceFileInfo {
+  name: string;
+  type: string;
+  size: number;
+  hash: string; // SHA-256 of the contents, hex
+}
+
+// A problem the extraction pre-step found in an uploaded file; ticked ones replace the file in the prompt
+export interface SourceProblem {
+  id: string;
+  fileIndex: number; // Position of the file in the upload list
+  fileName: string;
+  page: number; // 1-based; an image is a single page
+  text: string; // The problem as printed, in LaTeX
+  figure: string; // Short description of its figure, '' when it has none
+  box?: [number, number, number, number]; // Where it sits on the page: ymin, xmin, ymax, xmax on a 0–1000 scale
+  thumbnail?: string; // Data URL cut out of an image upload
+  selected: boolean;
+  keepData: boolean; // Keep its numbers, or write new ones for the same kind of problem
+}
+
+// A figure cut out of an uploaded image; the model may put it in a question by its file name
+export interface SourceFigure {
+  name: string; // File name in the project, e.g. "hinh-1.png"
+  label: string; // What it shows, as typed when cutting it; tells the model which problem it belongs to
+  dataUrl: string; // PNG
+  fileName: string; // Upload it was cut from
+}
+
+// One generation kept in IndexedDB; edits made afterwards are saved back onto the same entry
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: ExamConfig;
+  files: SourceFileInfo[];
+  prompt: string;
+  exam: ExamModel;
+  latex: string; // Rendered exam at the time of the last save
+  tiers?: ExamTier[]; // Differentiated papers: the other two levels of `exam`
+}
+
+export interface ConfigPreset {
+  id: string;
+  name: string; // e.g. "Lớp 6 – 15 phút"
+  config: ExamConfig;
+  createdAt: number;
+}
+
+export interface QuestionTags {
+  grade: string;
+  topic: string;
+  difficulty: ExamDifficulty;
+  type: QuestionType;
+  language: 'vi' | 'en';
+}
+
+// A question kept in the local bank for reuse in later exams
+export interface BankedQuestion {
+  id: string;
+  question: ExamQuestion;
+  tags: QuestionTags;
+  savedAt: number;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// One call to a model backend; `parts` follow the Gemini content shape ({ text } / { inlineData })
+export interface ModelRequest {
+  model: string;
+  apiKey: string;
+  parts: any[];
+  schema?: object; // Response schema; when set the reply is JSON text matching it
+  signal?: AbortSignal;
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  models: string[];
+  requiresApiKey: boolean;
+  generate: (request: ModelRequest) => Promise<string>;
+  stream: (request: ModelRequest) => AsyncGenerator<string>;
+  generateStructured: (request: ModelRequest & { schema: object }) => Promise<string>;
+}
+
+// Chosen in the UI and kept in localStorage, never in the bundle
+export interface ModelSettings {
+  providerId: ProviderId;
+  model: string;
+  apiKey: string;
 }
 
 export interface GenerationState {
@@ -21,10 +336,49 @@ export interface GenerationState {
   error: string | null;
 }
 
-// Function to generate template based on language
-export const getLatexTemplate = (lang: 'vi' | 'en') => {
+export const TEMPLATE_LAYOUTS: { id: TemplateLayoutId; vi: string; en: string; duration: string }[] = [
+  { id: 'quiz15', vi: 'Kiểm tra 15 phút', en: '15-minute quiz', duration: '15' },
+  { id: 'period', vi: 'Kiểm tra 1 tiết', en: 'One-period test', duration: '45' },
+  { id: 'semester', vi: 'Kiểm tra cuối học kì', en: 'Semester exam', duration: '90' },
+  { id: 'worksheet', vi: 'Phiếu bài tập', en: 'Worksheet', duration: '' },
+];
+
+export const DEFAULT_TEMPLATE_SETTINGS: TemplateSettings = {
+  layout: 'period',
+  schoolName: '',
+  teacherName: '',
+  duration: '45',
+  watermark: '',
+  contactFooter: '',
+};
+
+// Placeholders any template may use; the renderer fills them from the exam and TemplateSettings
+export const BUILT_IN_PLACEHOLDERS = [
+  '[CHỦ ĐỀ IN HOA]', '[TOPIC UPPERCASE]', '[CHỦ ĐỀ]', '[TOPIC]', '[LỚP]', '[GRADE]',
+  '[SỐ LƯỢNG TN]', '[NUM_MC]', '[SỐ LƯỢNG TL]', '[NUM_ESSAY]', '[MÃ ĐỀ]', '[VARIANT]',
+  '[SỐ LƯỢNG ĐS]', '[NUM_TF]', '[SỐ LƯỢNG TLN]', '[NUM_SHORT]', '[SỐ LƯỢNG NC]', '[NUM_MATCHING]', '[SỐ LƯỢNG ĐK]', '[NUM_FILL]',
+  '[TRƯỜNG]', '[SCHOOL]', '[GIÁO VIÊN]', '[TEACHER]', '[THỜI GIAN]', '[DURATION]',
+  '[HÌNH MỜ]', '[WATERMARK]', '[LIÊN HỆ]', '[CONTACT]', '[LOGO]',
+];
+
+// Shared preamble (packages, watermark, header/footer, questionbox) used by every document
+export const getPreamble = (lang: 'vi' | 'en', template: TemplateSettings = DEFAULT_TEMPLATE_SETTINGS) => {
   const isVi = lang === 'vi';
-  
+  if (template.customPreamble) return template.customPreamble.source.trim();
+
+  const watermark = template.watermark.trim()
+    ? `\\backgroundsetup{
+    scale=5,
+    color=cambridgeblue,
+    opacity=0.2,
+    angle=45,
+    contents={\\textbf{${isVi ? '[HÌNH MỜ]' : '[WATERMARK]'}}}
+}`
+    : '\\backgroundsetup{contents={}}';
+  const footer = template.contactFooter.trim()
+    ? `\n\\lfoot{\\textcolor{maincolor}{\\textbf{${isVi ? '[LIÊN HỆ]' : '[CONTACT]'}}}}`
+    : '';
+
   return `\\documentclass[a4paper]{article}
 \\usepackage[fontsize=13pt]{scrextend} % Size 13pt
 \\usepackage[utf8]{inputenc}
@@ -51,13 +405,7 @@ export const getLatexTemplate = (lang: 'vi' | 'en') => {
 \\definecolor{maincolor}{RGB}{0, 51, 102}
 
 % --- WATERMARK ---
-\\backgroundsetup{
-    scale=5,
-    color=cambridgeblue,
-    opacity=0.2,
-    angle=45,
-    contents={\\textbf{Trần Công Nghĩa}}
-}
+${watermark}
 
 % --- PAGE CONFIG ---
 \\geometry{top=2cm, bottom=2cm, left=2cm, right=2cm}
@@ -68,8 +416,7 @@ export const getLatexTemplate = (lang: 'vi' | 'en') => {
 \\fancyhf{}
 \\lhead{\\textbf{${isVi ? 'Toán Cambridge Lớp [LỚP]' : 'Cambridge Math Grade [GRADE]'}}}
 \\rhead{\\textcolor{maincolor}{\\textbf{${isVi ? 'Chủ đề: [CHỦ ĐỀ]' : 'Topic: [TOPIC]'}}}} 
-\\rfoot{${isVi ? 'Trang \\thepage' : 'Page \\thepage'}}
-\\lfoot{\\textcolor{maincolor}{\\textbf{${isVi ? 'SĐT/Zalo: 0866611402 (Trần Nghĩa)' : 'Contact: 0866611402 (Tran Nghia)'}}}}
+\\rfoot{${isVi ? 'Trang \\thepage' : 'Page \\thepage'}}${footer}
 
 \\renewcommand{\\headrulewidth}{0.5pt}
 
@@ -87,33 +434,183 @@ export const getLatexTemplate = (lang: 'vi' | 'en') => {
     {\\par\\medskip\\noindent\\textbf{#1} \\ignorespaces} 
     {\\par\\vspace{0.5em}}
 
-\\begin{document}
-\\onehalfspacing
+% --- TRUE/FALSE, SHORT ANSWER, MATCHING, FILL IN THE BLANK ---
+\\newenvironment{tfstatements}
+    {\\par\\smallskip\\noindent\\tabularx{\\linewidth}{@{}l X c c@{}} & & \\textbf{${isVi ? 'Đúng' : 'True'}} & \\textbf{${isVi ? 'Sai' : 'False'}} \\\\}
+    {\\endtabularx\\par}
+\\newcommand{\\tfitem}[2]{\\textbf{#1)} & #2 & $\\square$ & $\\square$ \\\\}
+\\newcommand{\\answerline}{\\par\\smallskip\\noindent\\textbf{${isVi ? 'Đáp số' : 'Answer'}:} \\makebox[4cm]{\\dotfill}\\par}
+\\newenvironment{matching}
+    {\\par\\smallskip\\noindent\\tabularx{\\linewidth}{@{}l X l X@{}} & \\textbf{${isVi ? 'Cột A' : 'Column A'}} & & \\textbf{${isVi ? 'Cột B' : 'Column B'}} \\\\}
+    {\\endtabularx\\par}
+\\newcommand{\\matchpair}[4]{\\textbf{#1.} & #2 & \\textbf{#3)} & #4 \\\\}
+\\newcommand{\\blank}{\\underline{\\hspace{2.5cm}}}`;
+};
 
-% ================= HEADER BLOCK =================
+// Header block for each built-in layout; rows for empty optional fields are left out
+const templateHeader = (isVi: boolean, template: TemplateSettings) => {
+  const dots = '...........................................';
+  const teacherRow = template.teacherName.trim()
+    ? `\\textit{${isVi ? 'Giáo viên: [GIÁO VIÊN]' : 'Teacher: [TEACHER]'}}`
+    : '';
+  const timeRow = template.duration.trim()
+    ? `\\textit{${isVi ? 'Thời gian: [THỜI GIAN] phút' : 'Time: [DURATION] minutes'}}`
+    : '';
+  const school = `\\textbf{${isVi ? 'TRƯỜNG: [TRƯỜNG]' : 'SCHOOL: [SCHOOL]'}}`;
+  const name = `\\textbf{${isVi ? `HỌ VÀ TÊN: ${dots}` : `FULL NAME: ${dots}`}}`;
+  const className = `\\textbf{${isVi ? 'LỚP: .................' : 'CLASS: .................'}}`;
+  const variant = `\\textbf{${isVi ? 'Mã đề: [MÃ ĐỀ]' : 'Version: [VARIANT]'}}`;
+  const topic = `\\textbf{\\Large ${isVi ? 'CHỦ ĐỀ: [CHỦ ĐỀ IN HOA]' : 'TOPIC: [TOPIC UPPERCASE]'}}`;
+  const noMaterials = `\\textit{(${isVi ? 'Không sử dụng tài liệu trong giờ làm bài' : 'No materials allowed during the test'})}`;
+
+  switch (template.layout) {
+    case 'quiz15':
+      return `[LOGO]
+\\noindent
+${school} \\hfill \\textbf{${isVi ? 'KIỂM TRA 15 PHÚT' : '15-MINUTE QUIZ'}} \\\\
+${name} \\quad ${className} \\hfill ${variant}
+
+\\vspace{0.3cm}
+\\begin{center}
+    ${topic}${timeRow ? ` \\\\\n    ${timeRow}` : ''}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt}
+\\vspace{0.3cm}`;
+
+    case 'semester':
+      return `[LOGO]
+\\noindent
+\\begin{tabularx}{\\linewidth}{@{}>{\\centering\\arraybackslash}p{0.42\\linewidth} X >{\\centering\\arraybackslash}p{0.5\\linewidth}@{}}
+    ${school} & & \\textbf{${isVi ? 'ĐỀ KIỂM TRA CUỐI HỌC KÌ' : 'END-OF-SEMESTER EXAMINATION'}} \\\\
+    ${teacherRow} & & \\textit{${isVi ? 'Môn: Toán -- Lớp [LỚP]' : 'Subject: Mathematics -- Grade [GRADE]'}} \\\\
+    \\fbox{${variant}} & & ${timeRow ? `\\textit{${isVi ? 'Thời gian: [THỜI GIAN] phút (không kể thời gian phát đề)' : 'Time: [DURATION] minutes (excluding handout time)'}}` : ''}
+\\end{tabularx}
+
+\\vspace{0.4cm}
+\\noindent ${name} \\hfill ${isVi ? '\\textbf{SỐ BÁO DANH: .................}' : '\\textbf{CANDIDATE No.: .................}'}
+
+\\vspace{0.3cm}
+\\begin{center}
+    ${topic} \\\\
+    ${noMaterials}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt}
+\\vspace{0.5cm}`;
+
+    case 'worksheet':
+      return `[LOGO]
 \\noindent
 \\begin{tabularx}{\\linewidth}{@{}l X r@{}}
-    \\textbf{${isVi ? 'TRƯỜNG: ...........................................' : 'SCHOOL: ...........................................'}} & & \\textbf{${isVi ? 'ĐỀ KIỂM TRA 1 TIẾT' : 'MID-TERM TEST'}} \\\\
-    \\textbf{${isVi ? 'HỌ VÀ TÊN: .......................................' : 'FULL NAME: .......................................'}} & & \\textit{${isVi ? 'Môn: Toán' : 'Subject: Mathematics'}} \\\\
-    \\textbf{${isVi ? 'LỚP: ...................................................' : 'CLASS: ...................................................'}} & & \\textit{${isVi ? 'Thời gian: 45 phút' : 'Time: 45 minutes'}}
+    ${school} & & \\textbf{${isVi ? 'PHIẾU BÀI TẬP' : 'WORKSHEET'}} \\\\
+    ${name} & & ${teacherRow} \\\\
+    ${className} & & ${timeRow}
 \\end{tabularx}
 
 \\vspace{0.5cm}
 \\begin{center}
-    \\textbf{\\Large ${isVi ? 'CHỦ ĐỀ: [CHỦ ĐỀ IN HOA]' : 'TOPIC: [TOPIC UPPERCASE]'}} \\\\ 
-    \\textit{(${isVi ? 'Không sử dụng tài liệu trong giờ làm bài' : 'No materials allowed during the test'})}
+    ${topic}
 \\end{center}
-\\noindent\\rule{\\linewidth}{1pt} 
+\\noindent\\rule{\\linewidth}{1pt}
+\\vspace{0.5cm}`;
+
+    case 'period':
+    default:
+      return `[LOGO]
+\\noindent
+\\begin{tabularx}{\\linewidth}{@{}l X r@{}}
+    ${school} & & \\textbf{${isVi ? 'ĐỀ KIỂM TRA 1 TIẾT' : 'MID-TERM TEST'}} \\\\
+    ${name} & & \\textit{${isVi ? 'Môn: Toán' : 'Subject: Mathematics'}} \\\\
+    ${className} & & ${timeRow} \\\\
+    ${teacherRow} & & ${variant}
+\\end{tabularx}
+
 \\vspace{0.5cm}
+\\begin{center}
+    ${topic} \\\\ 
+    ${noMaterials}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt} 
+\\vspace{0.5cm}`;
+  }
+};
+
+// Part I and the essay part are printed even when empty; the other parts only when they have questions
+export const DEFAULT_PART_TYPES: QuestionType[] = ['mc', 'essay'];
+
+export const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+
+// One \section* per part followed by `marker`, numbered in print order; bilingual papers add the other language's name
+const partSections = (isVi: boolean, types: QuestionType[], marker: string, bilingual = false) =>
+  QUESTION_TYPES.filter(t => types.includes(t.id)).map((t, i) => {
+    const second = bilingual ? ` / ${isVi ? t.sectionEn : t.sectionVi}` : '';
+    const heading = isVi
+      ? `PHẦN ${ROMAN[i]}: ${t.sectionVi}${second} (${t.countPlaceholderVi} câu)`
+      : `PART ${ROMAN[i]}: ${t.sectionEn}${second} (${t.countPlaceholderEn} questions)`;
+    return `\\section*{${heading}}\n\n${marker}`;
+  }).join('\n\n');
+
+// Translations print in grey italics, under the original or in a column beside it
+const BILINGUAL_COMMANDS = `
+
+% --- BILINGUAL ---
+\\newcommand{\\translated}[1]{\\par{\\itshape\\color{darkgray}#1}\\par}
+\\newenvironment{bilingualcolumns}
+    {\\par\\smallskip\\noindent\\begin{minipage}[t]{0.48\\linewidth}}
+    {\\end{minipage}\\par\\smallskip}
+\\newcommand{\\switchlanguage}{\\end{minipage}\\hfill\\begin{minipage}[t]{0.48\\linewidth}\\itshape\\color{darkgray}}`;
+
+// Function to generate template based on language
+export const getLatexTemplate = (
+  lang: 'vi' | 'en',
+  template: TemplateSettings = DEFAULT_TEMPLATE_SETTINGS,
+  types: QuestionType[] = DEFAULT_PART_TYPES,
+  bilingual = false
+) => {
+  const isVi = lang === 'vi';
+  
+  return `${getPreamble(lang, template)}${bilingual ? BILINGUAL_COMMANDS : ''}
+
+\\begin{document}
+\\onehalfspacing
+
+% ================= HEADER BLOCK =================
+${templateHeader(isVi, template)}
 % ================================================
 
-\\section*{${isVi ? 'PHẦN I: TRẮC NGHIỆM ([SỐ LƯỢNG TN] câu)' : 'PART I: MULTIPLE CHOICE ([NUM_MC] questions)'}}
+${partSections(isVi, types, '% [CONTENT GENERATED BY AI WILL GO HERE]', bilingual)}
 
-% [CONTENT GENERATED BY AI WILL GO HERE]
+\\end{document}`;
+};
+
+// Answer key / marking scheme document, generated alongside every exam
+export const getAnswerKeyTemplate = (
+  lang: 'vi' | 'en',
+  template: TemplateSettings = DEFAULT_TEMPLATE_SETTINGS,
+  types: QuestionType[] = DEFAULT_PART_TYPES
+) => {
+  const isVi = lang === 'vi';
 
-\\section*{${isVi ? 'PHẦN II: TỰ LUẬN ([SỐ LƯỢNG TL] câu)' : 'PART II: CONSTRUCTED RESPONSE ([NUM_ESSAY] questions)'}}
+  return `${getPreamble(lang, template)}
+
+% --- SOLUTION BOX & MARKING ---
+\\newenvironment{solutionbox}[1]
+    {\\par\\medskip\\noindent\\textbf{\\textcolor{maincolor}{#1}} \\par\\nopagebreak\\ignorespaces}
+    {\\par\\vspace{0.5em}}
+\\newcommand{\\diem}[1]{\\hfill\\textbf{(#1 ${isVi ? 'điểm' : 'pts'})}}
+
+\\begin{document}
+\\onehalfspacing
+
+% ================= HEADER BLOCK =================
+\\begin{center}
+    \\textbf{\\Large ${isVi ? 'ĐÁP ÁN VÀ HƯỚNG DẪN CHẤM' : 'ANSWER KEY AND MARKING SCHEME'}} \\\\
+    \\textit{${isVi ? 'Chủ đề: [CHỦ ĐỀ] -- Lớp [LỚP]' : 'Topic: [TOPIC] -- Grade [GRADE]'}}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt}
+\\vspace{0.5cm}
+% ================================================
 
-% [CONTENT GENERATED BY AI WILL GO HERE]
+${partSections(isVi, types, '% [ANSWERS WILL GO HERE]')}
 
 \\end{document}`;
-};
\ No newline at end of file
+};
@@ -0,0 +1,226 @@
+import { DEFAULT_TEMPLATE_SETTINGS, ExamModel, TemplateSettings } from '../types';
+import { getQuestionsByType, OPTION_LETTERS } from './examModel';
+import { formatPoints } from './examRenderer';
+import { escapeLatexText } from './latex';
+import { ExamVariant } from './variants';
+
+// Bubble answer sheet for Part I. The printed sheet and the photo reader share one layout, in millimetres
+// from the top-left corner of an A4 page, so a bubble is read exactly where it was drawn.
+
+export interface SheetPoint {
+  x: number;
+  y: number;
+}
+
+export interface AnswerSheetLayout {
+  markers: SheetPoint[]; // Centres of the corner squares: top-left, top-right, bottom-right, bottom-left
+  orientation: SheetPoint; // Small square beside the top-left marker; tells which way up a photo is
+  studentId: SheetPoint[][]; // [digit][value 0-9]
+  variant: SheetPoint[][]; // [digit][value 0-9]
+  answers: SheetPoint[][]; // [question][option A-D]
+}
+
+export const PAGE_WIDTH = 210;
+export const PAGE_HEIGHT = 297;
+export const MARKER_SIZE = 8;
+export const ORIENTATION_SIZE = 5;
+export const BUBBLE_RADIUS = 2.3;
+export const STUDENT_ID_DIGITS = 6;
+export const VARIANT_DIGITS = 3;
+
+const DIGIT_ROW_TOP = 70;
+const DIGIT_ROW_STEP = 6;
+const DIGIT_COLUMN_STEP = 6.5;
+const STUDENT_ID_LEFT = 30;
+const VARIANT_LEFT = 90;
+
+const ANSWER_TOP = 146;
+const ANSWER_ROW_STEP = 6.5;
+const ANSWER_ROWS = 20;
+const ANSWER_COLUMNS = 4;
+const ANSWER_COLUMN_LEFT = 22;
+const ANSWER_COLUMN_STEP = 45;
+const OPTION_OFFSET = 8; // From a column's number label to its A bubble
+const OPTION_STEP = 7;
+
+export const ANSWER_SHEET_MAX_QUESTIONS = ANSWER_ROWS * ANSWER_COLUMNS;
+
+const digitGrid = (left: number, digits: number): SheetPoint[][] =>
+  Array.from({ length: digits }, (_, d) =>
+    Array.from({ length: 10 }, (_, v) => ({ x: left + d * DIGIT_COLUMN_STEP, y: DIGIT_ROW_TOP + v * DIGIT_ROW_STEP })));
+
+export const getAnswerSheetLayout = (numQuestions: number): AnswerSheetLayout => ({
+  markers: [
+    { x: 14, y: 14 },
+    { x: PAGE_WIDTH - 14, y: 14 },
+    { x: PAGE_WIDTH - 14, y: PAGE_HEIGHT - 14 },
+    { x: 14, y: PAGE_HEIGHT - 14 },
+  ],
+  orientation: { x: 27, y: 14 },
+  studentId: digitGrid(STUDENT_ID_LEFT, STUDENT_ID_DIGITS),
+  variant: digitGrid(VARIANT_LEFT, VARIANT_DIGITS),
+  answers: Array.from({ length: Math.min(numQuestions, ANSWER_SHEET_MAX_QUESTIONS) }, (_, q) => {
+    const column = Math.floor(q / ANSWER_ROWS);
+    const y = ANSWER_TOP + (q % ANSWER_ROWS) * ANSWER_ROW_STEP;
+    return OPTION_LETTERS.map((_, o) => ({ x: ANSWER_COLUMN_LEFT + column * ANSWER_COLUMN_STEP + OPTION_OFFSET + o * OPTION_STEP, y }));
+  }),
+});
+
+const mm = (value: number) => String(Math.round(value * 100) / 100);
+
+const square = (p: SheetPoint, size: number) =>
+  `\\fill (${mm(p.x - size / 2)},${mm(p.y - size / 2)}) rectangle (${mm(p.x + size / 2)},${mm(p.y + size / 2)});`;
+
+const bubble = (p: SheetPoint) => `\\draw[line width=0.3mm] (${mm(p.x)},${mm(p.y)}) circle (${BUBBLE_RADIUS});`;
+
+// Write-in boxes above a digit grid, the grid itself and the 0-9 labels on its left
+const renderDigitBlock = (grid: SheetPoint[][], title: string) => {
+  const left = grid[0][0].x;
+  const right = grid[grid.length - 1][0].x;
+  const lines = [
+    `\\node[anchor=south, font=\\bfseries\\small] at (${mm((left + right) / 2)},${mm(DIGIT_ROW_TOP - 12)}) {${title}};`,
+    ...grid.map(column => `\\draw (${mm(column[0].x - 2.8)},${mm(DIGIT_ROW_TOP - 11)}) rectangle (${mm(column[0].x + 2.8)},${mm(DIGIT_ROW_TOP - 4)});`),
+    ...grid[0].map((p, v) => `\\node[anchor=east, font=\\scriptsize] at (${mm(left - 3.5)},${mm(p.y)}) {${v}};`),
+    ...grid.flat().map(bubble),
+  ];
+  return lines.join('\n');
+};
+
+export const renderAnswerSheetLatex = (exam: ExamModel, template: TemplateSettings = DEFAULT_TEMPLATE_SETTINGS) => {
+  const isVi = exam.language === 'vi';
+  const count = getQuestionsByType(exam, 'mc').length;
+  const layout = getAnswerSheetLayout(count);
+  const school = escapeLatexText(template.schoolName.trim());
+
+  const answerColumns = Array.from({ length: Math.ceil(layout.answers.length / ANSWER_ROWS) }, (_, c) => {
+    const rows = layout.answers.slice(c * ANSWER_ROWS, (c + 1) * ANSWER_ROWS);
+    const header = OPTION_LETTERS.map((letter, o) =>
+      `\\node[font=\\bfseries\\small] at (${mm(rows[0][o].x)},${mm(ANSWER_TOP - 6)}) {${letter}};`);
+    const numbers = rows.map((row, r) =>
+      `\\node[anchor=east, font=\\bfseries\\small] at (${mm(row[0].x - 3.5)},${mm(row[0].y)}) {${c * ANSWER_ROWS + r + 1}};`);
+    return [...header, ...numbers, ...rows.flat().map(bubble)].join('\n');
+  });
+
+  const instructions = isVi
+    ? ['Dùng bút chì hoặc bút mực đen tô kín một ô cho mỗi câu.', 'Ghi số báo danh, mã đề vào ô rồi tô các chữ số tương ứng.', 'Không gấp, không làm bẩn phiếu; giữ nguyên bốn ô vuông ở góc.']
+    : ['Fill one bubble per question completely with a dark pencil or pen.', 'Write your candidate number and version code, then fill the matching digits.', 'Do not fold or mark the sheet; keep the four corner squares clear.'];
+
+  return `\\documentclass[12pt,a4paper]{article}
+\\usepackage[utf8]{inputenc}
+\\usepackage[T5]{fontenc}
+\\usepackage[vietnamese]{babel}
+\\usepackage[margin=0mm]{geometry}
+\\usepackage{tikz}
+\\pagestyle{empty}
+
+% Every position is in millimetres from the top-left corner of the page; the photo reader uses the same layout.
+% The four corner squares and the small square beside the top-left one locate the page in a photo.
+
+\\begin{document}
+\\begin{tikzpicture}[remember picture, overlay, x=1mm, y=-1mm, shift={(current page.north west)}]
+${layout.markers.map(p => square(p, MARKER_SIZE)).join('\n')}
+${square(layout.orientation, ORIENTATION_SIZE)}
+
+\\node[anchor=north, font=\\large\\bfseries] at (105,18) {${isVi ? 'PHIẾU TRẢ LỜI TRẮC NGHIỆM' : 'MULTIPLE-CHOICE ANSWER SHEET'}};
+\\node[anchor=north] at (105,26) {${isVi ? `Chủ đề: ${escapeLatexText(exam.topic)} -- Lớp ${exam.grade}` : `Topic: ${escapeLatexText(exam.topic)} -- Grade ${exam.grade}`}${school ? ` -- ${school}` : ''}};
+\\node[anchor=west] at (24,38) {${isVi ? 'Họ và tên:' : 'Full name:'} \\makebox[9cm]{\\dotfill}};
+\\node[anchor=west] at (24,46) {${isVi ? 'Lớp:' : 'Class:'} \\makebox[3cm]{\\dotfill} \\quad ${isVi ? 'Chữ ký:' : 'Signature:'} \\makebox[4cm]{\\dotfill}};
+
+${renderDigitBlock(layout.studentId, isVi ? 'SỐ BÁO DANH' : 'CANDIDATE No.')}
+${renderDigitBlock(layout.variant, isVi ? 'MÃ ĐỀ' : 'VERSION')}
+
+\\node[anchor=north west, text width=72mm, font=\\small, draw, inner sep=2mm] at (118,60) {
+  \\textbf{${isVi ? 'Hướng dẫn' : 'Instructions'}}\\\\
+  ${instructions.join('\\\\\n  ')}
+};
+\\node[anchor=west, font=\\small] at (118,100) {${isVi ? 'Tô đúng:' : 'Correct:'}};
+\\fill (142,100) circle (${BUBBLE_RADIUS});
+\\node[anchor=west, font=\\small] at (152,100) {${isVi ? 'Tô sai:' : 'Wrong:'}};
+\\draw[line width=0.3mm] (172,100) circle (${BUBBLE_RADIUS});
+\\draw (170.5,101.5) -- (173.5,98.5);
+
+\\node[anchor=west, font=\\bfseries] at (22,${mm(ANSWER_TOP - 14)}) {${isVi ? `PHẦN I: TRẮC NGHIỆM (${count} câu)` : `PART I: MULTIPLE CHOICE (${count} questions)`}};
+${answerColumns.join('\n')}
+\\end{tikzpicture}
+\\end{document}`;
+};
+
+// --- Scoring ---
+
+export interface SheetReading {
+  studentId: string; // One character per digit; "?" where no digit or several are filled
+  variantCode: string;
+  answers: string[]; // "A"-"D"; "" left blank; "*" several bubbles filled
+}
+
+export type AnswerMark = 'right' | 'wrong' | 'blank' | 'multiple';
+
+export interface SheetScore {
+  key: string[]; // The key the sheet was scored against
+  marks: AnswerMark[];
+  correct: number;
+  points: number; // Sum of the points of the questions answered correctly
+  maxPoints: number;
+}
+
+// Key of every version the class may have received; the un-shuffled paper is keyed under ""
+export const buildAnswerKeys = (exam: ExamModel, variants: ExamVariant[]): Record<string, { answers: string[]; points: number[] }> => {
+  const keyOf = (paper: ExamModel) => {
+    const questions = getQuestionsByType(paper, 'mc').slice(0, ANSWER_SHEET_MAX_QUESTIONS);
+    return { answers: questions.map(q => q.correctAnswer), points: questions.map(q => q.points) };
+  };
+  const keys: Record<string, { answers: string[]; points: number[] }> = { '': keyOf(exam) };
+  variants.forEach(v => {
+    keys[v.code] = keyOf(v.exam);
+  });
+  return keys;
+};
+
+// Null when the sheet names a version this exam does not have
+export const scoreSheet = (reading: SheetReading, keys: Record<string, { answers: string[]; points: number[] }>): SheetScore | null => {
+  const hasVariants = Object.keys(keys).length > 1;
+  const key = hasVariants ? keys[reading.variantCode] : keys[''];
+  if (!key || (hasVariants && !reading.variantCode)) return null;
+
+  const marks = key.answers.map((answer, i): AnswerMark => {
+    const given = reading.answers[i] || '';
+    if (!given) return 'blank';
+    if (given === '*') return 'multiple';
+    return given === answer ? 'right' : 'wrong';
+  });
+  return {
+    key: key.answers,
+    marks,
+    correct: marks.filter(m => m === 'right').length,
+    points: marks.reduce((sum, m, i) => sum + (m === 'right' ? key.points[i] : 0), 0),
+    maxPoints: key.points.reduce((a, b) => a + b, 0),
+  };
+};
+
+export interface GradedSheet {
+  fileName: string;
+  reading: SheetReading | null; // Null when the page could not be found in the photo
+  score: SheetScore | null;
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per sheet: candidate number, version, points and every answer as read
+export const renderResultsCsv = (sheets: GradedSheet[], isVi: boolean) => {
+  const count = Math.max(0, ...sheets.map(s => s.reading?.answers.length || 0));
+  const header = isVi
+    ? ['STT', 'Tệp ảnh', 'Số báo danh', 'Mã đề', 'Số câu đúng', 'Điểm', 'Điểm tối đa']
+    : ['No.', 'Photo', 'Candidate No.', 'Version', 'Correct', 'Points', 'Max points'];
+  const rows = sheets.map((sheet, i) => [
+    String(i + 1),
+    sheet.fileName,
+    sheet.reading?.studentId || '',
+    sheet.reading?.variantCode || '',
+    sheet.score ? String(sheet.score.correct) : '',
+    sheet.score ? formatPoints(sheet.score.points, isVi) : '',
+    sheet.score ? formatPoints(sheet.score.maxPoints, isVi) : '',
+    ...Array.from({ length: count }, (_, q) => sheet.reading?.answers[q] || ''),
+  ]);
+  const answerHeader = Array.from({ length: count }, (_, q) => `${isVi ? 'Câu' : 'Q'} ${q + 1}`);
+  return `\ufeff${[[...header, ...answerHeader], ...rows].map(row => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+};
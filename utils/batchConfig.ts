@@ -0,0 +1,264 @@
+import { DEFAULT_EXAM_MATRIX, ExamConfig, ExamDifficulty, ExamModel, QUESTION_TYPES, QuestionCountKey } from '../types';
+import { getLogoFileName, renderAnswerKeyLatex, renderExamLatex } from './examRenderer';
+import { createPlaceholderPng, PLACEHOLDER_IMAGE_NAME } from './placeholderImage';
+import { buildVariantAnswerGrid, buildVariants } from './variants';
+import { createZip, dataUrlToBytes, ZipEntry } from './zip';
+
+// Batch mode input: one paper per line, either a bare list in the default column order or a CSV
+// whose header names the columns. Empty cells keep the value of the form.
+
+type BatchColumn = 'topic' | 'grade' | 'difficulty' | 'language' | 'numVariants' | QuestionCountKey;
+
+export interface BatchRow {
+  line: number; // 1-based line of the input, for messages
+  config: ExamConfig;
+}
+
+export interface BatchParseResult {
+  rows: BatchRow[];
+  errors: string[];
+}
+
+// Column order of a list without a header: "Phân số, 6, Khá, 10, 2, vi"
+export const DEFAULT_BATCH_COLUMNS: BatchColumn[] = ['topic', 'grade', 'difficulty', 'numMultipleChoice', 'numEssay', 'language'];
+
+const stripAccents = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd').replace(/Đ/g, 'D');
+
+// Lowercase, without accents, spaces or punctuation: "Chủ đề" -> "chude"
+const normalizeKey = (value: string) => stripAccents(value).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADER_ALIASES: Record<string, BatchColumn> = {
+  topic: 'topic',
+  chude: 'topic',
+  grade: 'grade',
+  lop: 'grade',
+  khoi: 'grade',
+  difficulty: 'difficulty',
+  level: 'difficulty',
+  dokho: 'difficulty',
+  mucdo: 'difficulty',
+  language: 'language',
+  lang: 'language',
+  ngonngu: 'language',
+  variants: 'numVariants',
+  versions: 'numVariants',
+  made: 'numVariants',
+  somade: 'numVariants',
+  mc: 'numMultipleChoice',
+  tn: 'numMultipleChoice',
+  tf: 'numTrueFalse',
+  ds: 'numTrueFalse',
+  tln: 'numShortAnswer',
+  short: 'numShortAnswer',
+  tl: 'numEssay',
+};
+// Every question type is also known by its id, count field and both form labels
+QUESTION_TYPES.forEach(t => [t.id, t.countKey, t.vi, t.en].forEach(name => (HEADER_ALIASES[normalizeKey(name)] = t.countKey)));
+
+const DIFFICULTY_ALIASES: Record<string, ExamDifficulty> = {
+  '1': ExamDifficulty.EASY,
+  coban: ExamDifficulty.EASY,
+  de: ExamDifficulty.EASY,
+  easy: ExamDifficulty.EASY,
+  basic: ExamDifficulty.EASY,
+  '2': ExamDifficulty.MEDIUM,
+  kha: ExamDifficulty.MEDIUM,
+  trungbinh: ExamDifficulty.MEDIUM,
+  medium: ExamDifficulty.MEDIUM,
+  '3': ExamDifficulty.HARD,
+  nangcao: ExamDifficulty.HARD,
+  kho: ExamDifficulty.HARD,
+  hard: ExamDifficulty.HARD,
+  advanced: ExamDifficulty.HARD,
+};
+
+const LANGUAGE_ALIASES: Record<string, 'vi' | 'en'> = {
+  vi: 'vi',
+  vn: 'vi',
+  tiengviet: 'vi',
+  vietnamese: 'vi',
+  en: 'en',
+  english: 'en',
+  tienganh: 'en',
+};
+
+// Tabs, then semicolons (Excel with a Vietnamese locale), then commas
+const detectDelimiter = (line: string) => {
+  if (line.includes('\t')) return '\t';
+  return (line.match(/;/g) || []).length > (line.match(/,/g) || []).length ? ';' : ',';
+};
+
+// One CSV line; quoted fields may contain the delimiter and doubled quotes
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const readHeader = (cells: string[]): BatchColumn[] | null => {
+  const columns = cells.map(c => HEADER_ALIASES[normalizeKey(c)]);
+  return columns.includes('topic') && columns.every(Boolean) ? columns : null;
+};
+
+// Applies one cell to the config, or returns what is wrong with it
+const applyCell = (config: ExamConfig, column: BatchColumn, value: string, isVi: boolean): string | null => {
+  const key = normalizeKey(value);
+  switch (column) {
+    case 'topic':
+      config.topic = value;
+      return null;
+    case 'grade': {
+      const grade = /\d+/.exec(value)?.[0];
+      if (!grade || +grade < 1 || +grade > 12) return isVi ? `lớp "${value}" không hợp lệ` : `invalid grade "${value}"`;
+      config.grade = String(+grade);
+      return null;
+    }
+    case 'difficulty':
+      if (!DIFFICULTY_ALIASES[key]) return isVi ? `độ khó "${value}" không rõ (Cơ bản, Khá, Nâng cao)` : `unknown difficulty "${value}" (easy, medium, hard)`;
+      config.difficulty = DIFFICULTY_ALIASES[key];
+      return null;
+    case 'language':
+      if (!LANGUAGE_ALIASES[key]) return isVi ? `ngôn ngữ "${value}" không rõ (vi, en)` : `unknown language "${value}" (vi, en)`;
+      config.language = LANGUAGE_ALIASES[key];
+      return null;
+    case 'numVariants': {
+      const count = /^\d+$/.test(value) ? +value : NaN;
+      if (!(count >= 1 && count <= 24)) return isVi ? `số mã đề "${value}" phải từ 1 đến 24` : `number of versions "${value}" must be 1 to 24`;
+      config.numVariants = count;
+      return null;
+    }
+    default: {
+      const count = /^\d+$/.test(value) ? +value : NaN;
+      if (!(count >= 0 && count <= 50)) return isVi ? `số câu "${value}" phải từ 0 đến 50` : `question count "${value}" must be 0 to 50`;
+      config[column] = count;
+      return null;
+    }
+  }
+};
+
+// Rows that cannot be read are reported and left out; a matrix or catalogue objectives on the form
+// do not carry over, since they belong to one topic. Differentiated sets are only written from the form.
+export const parseBatchInput = (text: string, base: ExamConfig, isVi: boolean): BatchParseResult => {
+  const lines = text.replace(/^\ufeff/, '').split(/\r?\n/);
+  const rows: BatchRow[] = [];
+  const errors: string[] = [];
+  let columns: BatchColumn[] | null = null;
+  let delimiter: string | null = null;
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    delimiter = delimiter || detectDelimiter(line);
+    const cells = splitCsvLine(line, delimiter);
+    if (!columns) {
+      columns = readHeader(cells);
+      if (columns) return;
+      columns = DEFAULT_BATCH_COLUMNS;
+    }
+
+    const config: ExamConfig = { ...base, matrix: DEFAULT_EXAM_MATRIX, objectives: [], differentiated: false };
+    const problems = cells
+      .map((value, c) => {
+        if (!value) return null;
+        if (c >= columns!.length) return isVi ? `thừa cột "${value}"` : `extra column "${value}"`;
+        return applyCell(config, columns![c], value, isVi);
+      })
+      .filter((p): p is string => !!p);
+    if (!config.topic) problems.push(isVi ? 'thiếu chủ đề' : 'missing topic');
+    if (QUESTION_TYPES.every(t => !config[t.countKey])) problems.push(isVi ? 'không có câu hỏi nào' : 'no questions');
+
+    if (problems.length > 0) {
+      errors.push(`${isVi ? 'Dòng' : 'Line'} ${i + 1}: ${problems.join('; ')}`);
+    } else {
+      rows.push({ line: i + 1, config });
+    }
+  });
+  return { rows, errors };
+};
+
+// Folder of one paper in the batch zip: "03-lop-7-phan-so"
+export const getBatchFolderName = (config: ExamConfig, index: number) => {
+  const slug = stripAccents(config.topic)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 40);
+  return `${String(index + 1).padStart(2, '0')}-${config.language === 'vi' ? 'lop' : 'grade'}-${config.grade}${slug ? `-${slug}` : ''}`;
+};
+
+export interface BatchResult {
+  config: ExamConfig;
+  exam: ExamModel | null; // Null when the paper could not be generated
+  error?: string;
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Summary of the whole batch, failed papers included, so the list can be fixed and re-run
+const renderBatchSummaryCsv = (results: BatchResult[], isVi: boolean) => {
+  const header = isVi
+    ? ['STT', 'Thư mục', 'Chủ đề', 'Lớp', 'Độ khó', 'Ngôn ngữ', 'Số câu', 'Kết quả']
+    : ['No.', 'Folder', 'Topic', 'Grade', 'Difficulty', 'Language', 'Questions', 'Result'];
+  const rows = results.map((r, i) => [
+    String(i + 1),
+    r.exam ? getBatchFolderName(r.config, i) : '',
+    r.config.topic,
+    r.config.grade,
+    r.config.difficulty,
+    r.config.language,
+    r.exam ? String(r.exam.questions.length) : '',
+    r.exam ? 'OK' : r.error || (isVi ? 'Không tạo được' : 'Not generated'),
+  ]);
+  return `\ufeff${[header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+};
+
+// One folder per generated paper (paper, answer key, versions, the images they use) and a summary CSV
+export const buildBatchZip = (results: BatchResult[], isVi: boolean): Uint8Array => {
+  const entries: ZipEntry[] = [];
+  results.forEach((result, i) => {
+    if (!result.exam) return;
+    const { config, exam } = result;
+    const folder = getBatchFolderName(config, i);
+    const documents = [
+      { fileName: 'de-kiem-tra.tex', latex: renderExamLatex(exam, undefined, config.template) },
+      { fileName: 'dap-an.tex', latex: renderAnswerKeyLatex(exam, config.template) },
+    ];
+    if (config.numVariants > 1) {
+      const variants = buildVariants(exam, config.numVariants);
+      variants.forEach(v => documents.push({ fileName: `de-kiem-tra-ma-${v.code}.tex`, latex: renderExamLatex(v.exam, v.code, config.template) }));
+      documents.push({ fileName: 'bang-dap-an-cac-ma-de.tex', latex: buildVariantAnswerGrid(variants, exam, config.template) });
+    }
+    documents.forEach(d => entries.push({ name: `${folder}/${d.fileName}`, data: d.latex }));
+    if (config.template.logo) {
+      entries.push({ name: `${folder}/${getLogoFileName(config.template)}`, data: dataUrlToBytes(config.template.logo.dataUrl) });
+    }
+    if (documents.some(d => d.latex.includes(PLACEHOLDER_IMAGE_NAME))) {
+      entries.push({ name: `${folder}/${PLACEHOLDER_IMAGE_NAME}`, data: createPlaceholderPng() });
+    }
+  });
+  entries.push({ name: isVi ? 'danh-sach.csv' : 'summary.csv', data: renderBatchSummaryCsv(results, isVi) });
+  return createZip(entries);
+};
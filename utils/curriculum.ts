@@ -0,0 +1,33 @@
+import { CurriculumChapter, CurriculumGrade, CurriculumLesson, ExamConfig } from '../types';
+import { CURRICULUM } from './curriculumCatalogue';
+
+// Picking topics from the catalogue. A pick is a list of objective ids; the lessons follow from them,
+// so a lesson counts as picked while at least one of its objectives is.
+
+export interface CurriculumPick {
+  chapter: CurriculumChapter;
+  lesson: CurriculumLesson;
+  objectives: string[]; // Wording of the picked objectives
+}
+
+export const objectiveId = (lesson: CurriculumLesson, index: number) => `${lesson.id}.${index + 1}`;
+
+// Vietnamese papers use GDPT 2018, English ones Cambridge; some grades have no catalogue in a language
+export const getCurriculum = (grade: string, language: 'vi' | 'en'): CurriculumGrade | undefined =>
+  CURRICULUM.find(c => c.language === language && c.grades.includes(grade));
+
+// Objectives from another grade or language (e.g. after the grade was changed) are ignored, not guessed
+export const getCurriculumPicks = (curriculum: CurriculumGrade | undefined, objectiveIds: string[]): CurriculumPick[] => {
+  if (!curriculum || objectiveIds.length === 0) return [];
+  const wanted = new Set(objectiveIds);
+  return curriculum.chapters.flatMap(chapter =>
+    chapter.lessons
+      .map(lesson => ({ chapter, lesson, objectives: lesson.objectives.filter((_, i) => wanted.has(objectiveId(lesson, i))) }))
+      .filter(pick => pick.objectives.length > 0));
+};
+
+export const getConfigCurriculumPicks = (config: ExamConfig) =>
+  getCurriculumPicks(getCurriculum(config.grade, config.language), config.objectives);
+
+// The topic box gets the lesson titles: "Số nguyên tố; Ước chung. Ước chung lớn nhất"
+export const getCurriculumTopic = (picks: CurriculumPick[]) => picks.map(p => p.lesson.title).join('; ');
@@ -0,0 +1,760 @@
+// Built-in curriculum catalogue, so topics come from the programme instead of each teacher's wording.
+// Vietnamese papers follow the GDPT 2018 mathematics programme, in the chapter order of the common textbooks;
+// English papers follow Cambridge Lower Secondary (stages 7–9 for grades 6–8) and Cambridge IGCSE 0580 (grades 9–10).
+// Objectives are the programme's requirements, shortened to one line each.
+
+import { CurriculumGrade } from '../types';
+
+// [title, ...objectives] per lesson and [title, lessons] per chapter; ids follow the positions
+type LessonData = [string, ...string[]];
+type ChapterData = [string, LessonData[]];
+
+const catalogue = (key: string, language: 'vi' | 'en', grades: string[], programme: string, chapters: ChapterData[]): CurriculumGrade => ({
+  language,
+  grades,
+  programme,
+  chapters: chapters.map(([title, lessons], c) => ({
+    title,
+    lessons: lessons.map(([lessonTitle, ...objectives], l) => ({ id: `${key}-${c + 1}-${l + 1}`, title: lessonTitle, objectives })),
+  })),
+});
+
+const GDPT_1 = catalogue('vn1', 'vi', ['1'], 'Chương trình GDPT 2018 – Toán lớp 1', [
+  ['Các số từ 0 đến 10', [
+    ['Các số 0, 1, 2, …, 10', 'Đếm, đọc, viết được các số trong phạm vi 10', 'Nhận biết được số lượng của một nhóm đồ vật'],
+    ['Nhiều hơn, ít hơn, bằng nhau', 'So sánh được số lượng của hai nhóm đồ vật'],
+    ['So sánh số', 'Sử dụng được các dấu >, <, = để so sánh các số trong phạm vi 10', 'Sắp xếp được các số theo thứ tự từ bé đến lớn và ngược lại'],
+    ['Mấy và mấy', 'Nhận biết được cấu tạo số bằng cách tách, gộp các số trong phạm vi 10'],
+  ]],
+  ['Làm quen với một số hình phẳng', [
+    ['Hình vuông, hình tròn, hình tam giác, hình chữ nhật', 'Nhận dạng được hình vuông, hình tròn, hình tam giác, hình chữ nhật qua đồ vật thật'],
+    ['Thực hành lắp ghép, xếp hình', 'Lắp ghép, xếp được hình từ các hình đã học'],
+  ]],
+  ['Phép cộng, phép trừ trong phạm vi 10', [
+    ['Phép cộng trong phạm vi 10', 'Thực hiện được phép cộng trong phạm vi 10', 'Nêu được phép cộng phù hợp với tình huống thực tế'],
+    ['Phép trừ trong phạm vi 10', 'Thực hiện được phép trừ trong phạm vi 10', 'Nêu được phép trừ phù hợp với tình huống thực tế'],
+    ['Bảng cộng, bảng trừ trong phạm vi 10', 'Thuộc bảng cộng, bảng trừ trong phạm vi 10 và vận dụng để tính nhẩm'],
+  ]],
+  ['Làm quen với một số hình khối', [
+    ['Khối lập phương, khối hộp chữ nhật', 'Nhận dạng được khối lập phương, khối hộp chữ nhật qua đồ vật thật'],
+    ['Vị trí, định hướng trong không gian', 'Xác định được vị trí trên – dưới, phải – trái, trước – sau, ở giữa'],
+  ]],
+  ['Các số đến 100', [
+    ['Số có hai chữ số', 'Đếm, đọc, viết được các số trong phạm vi 100', 'Nhận biết được chục và đơn vị của số có hai chữ số'],
+    ['So sánh số có hai chữ số', 'So sánh, sắp xếp được các số có hai chữ số'],
+    ['Bảng các số từ 1 đến 100', 'Nhận biết được thứ tự các số trong bảng các số từ 1 đến 100'],
+  ]],
+  ['Độ dài và đo độ dài', [
+    ['Dài hơn, ngắn hơn', 'So sánh được độ dài của hai đồ vật'],
+    ['Đơn vị đo độ dài', 'Đo được độ dài bằng đơn vị xăng-ti-mét (cm)', 'Đo được độ dài bằng đơn vị tự quy ước như gang tay, bước chân'],
+  ]],
+  ['Phép cộng, phép trừ (không nhớ) trong phạm vi 100', [
+    ['Phép cộng số có hai chữ số với số có một chữ số, hai chữ số', 'Đặt tính và thực hiện được phép cộng không nhớ trong phạm vi 100'],
+    ['Phép trừ số có hai chữ số cho số có một chữ số, hai chữ số', 'Đặt tính và thực hiện được phép trừ không nhớ trong phạm vi 100'],
+    ['Giải bài toán có lời văn', 'Viết được phép tính thích hợp với câu trả lời của bài toán có lời văn'],
+  ]],
+  ['Thời gian, giờ và lịch', [
+    ['Xem giờ đúng trên đồng hồ', 'Đọc được giờ đúng trên đồng hồ'],
+    ['Các ngày trong tuần', 'Nhận biết được số ngày trong tuần, tên các ngày trong tuần', 'Xác định được thứ, ngày trên tờ lịch'],
+  ]],
+]);
+
+const GDPT_2 = catalogue('vn2', 'vi', ['2'], 'Chương trình GDPT 2018 – Toán lớp 2', [
+  ['Ôn tập và bổ sung', [
+    ['Ôn tập các số đến 100', 'Đọc, viết, so sánh được các số trong phạm vi 100', 'Nhận biết được tia số và số liền trước, số liền sau'],
+    ['Số hạng, tổng. Số bị trừ, số trừ, hiệu', 'Nhận biết được tên gọi các thành phần của phép cộng, phép trừ'],
+    ['Nhiều hơn hay ít hơn bao nhiêu', 'Giải được bài toán về nhiều hơn, ít hơn một số đơn vị'],
+  ]],
+  ['Phép cộng, phép trừ trong phạm vi 20', [
+    ['Phép cộng (qua 10) trong phạm vi 20', 'Thực hiện được phép cộng có nhớ trong phạm vi 20', 'Thuộc bảng cộng (qua 10)'],
+    ['Phép trừ (qua 10) trong phạm vi 20', 'Thực hiện được phép trừ có nhớ trong phạm vi 20', 'Thuộc bảng trừ (qua 10)'],
+    ['Bài toán về thêm, bớt một số đơn vị', 'Giải được bài toán có một bước tính về thêm, bớt một số đơn vị'],
+  ]],
+  ['Làm quen với khối lượng, dung tích', [
+    ['Ki-lô-gam', 'Nhận biết được đơn vị đo khối lượng ki-lô-gam (kg)', 'Thực hiện được phép tính với số đo khối lượng'],
+    ['Lít', 'Nhận biết được đơn vị đo dung tích lít (l)', 'Thực hiện được phép tính với số đo dung tích'],
+  ]],
+  ['Phép cộng, phép trừ (có nhớ) trong phạm vi 100', [
+    ['Phép cộng (có nhớ) số có hai chữ số', 'Đặt tính và thực hiện được phép cộng có nhớ trong phạm vi 100'],
+    ['Phép trừ (có nhớ) số có hai chữ số', 'Đặt tính và thực hiện được phép trừ có nhớ trong phạm vi 100'],
+    ['Giải bài toán bằng hai bước tính', 'Giải được bài toán thực tế liên quan đến phép cộng, phép trừ'],
+  ]],
+  ['Làm quen với hình phẳng', [
+    ['Điểm, đoạn thẳng, đường thẳng, đường cong, ba điểm thẳng hàng', 'Nhận dạng được điểm, đoạn thẳng, đường thẳng, đường cong', 'Nhận biết được ba điểm thẳng hàng'],
+    ['Đường gấp khúc. Hình tứ giác', 'Nhận dạng được đường gấp khúc, hình tứ giác', 'Tính được độ dài đường gấp khúc'],
+  ]],
+  ['Ngày – giờ, giờ – phút, ngày – tháng', [
+    ['Ngày – giờ, giờ – phút', 'Nhận biết được một ngày có 24 giờ, một giờ có 60 phút', 'Đọc được giờ trên đồng hồ khi kim phút chỉ số 3, số 6'],
+    ['Ngày – tháng', 'Nhận biết được số ngày trong tháng, đọc được tờ lịch tháng'],
+  ]],
+  ['Phép nhân, phép chia', [
+    ['Phép nhân. Thừa số, tích', 'Nhận biết được ý nghĩa của phép nhân', 'Nhận biết được thừa số, tích'],
+    ['Bảng nhân 2, bảng nhân 5', 'Thuộc và vận dụng được bảng nhân 2, bảng nhân 5'],
+    ['Phép chia. Số bị chia, số chia, thương', 'Nhận biết được ý nghĩa của phép chia', 'Nhận biết được số bị chia, số chia, thương'],
+    ['Bảng chia 2, bảng chia 5', 'Thuộc và vận dụng được bảng chia 2, bảng chia 5'],
+  ]],
+  ['Làm quen với hình khối', [
+    ['Khối trụ, khối cầu', 'Nhận dạng được khối trụ, khối cầu qua đồ vật thật'],
+  ]],
+  ['Các số trong phạm vi 1000', [
+    ['Các số tròn trăm, tròn chục', 'Đọc, viết được các số tròn trăm, tròn chục'],
+    ['Số có ba chữ số', 'Đọc, viết được số có ba chữ số', 'Viết được số có ba chữ số thành tổng các trăm, chục, đơn vị'],
+    ['So sánh các số có ba chữ số', 'So sánh, sắp xếp được các số có ba chữ số'],
+  ]],
+  ['Độ dài và đơn vị đo độ dài', [
+    ['Đề-xi-mét, mét, ki-lô-mét', 'Nhận biết được các đơn vị dm, m, km và quan hệ giữa chúng', 'Thực hiện được phép tính với số đo độ dài'],
+  ]],
+  ['Phép cộng, phép trừ trong phạm vi 1000', [
+    ['Phép cộng, phép trừ (không nhớ) trong phạm vi 1000', 'Đặt tính và thực hiện được phép cộng, phép trừ không nhớ trong phạm vi 1000'],
+    ['Phép cộng, phép trừ (có nhớ) trong phạm vi 1000', 'Đặt tính và thực hiện được phép cộng, phép trừ có nhớ trong phạm vi 1000'],
+  ]],
+  ['Làm quen với yếu tố thống kê, xác suất', [
+    ['Thu thập, phân loại, kiểm đếm số liệu', 'Thu thập, phân loại, kiểm đếm được các đối tượng thống kê'],
+    ['Biểu đồ tranh', 'Đọc và mô tả được số liệu ở dạng biểu đồ tranh'],
+    ['Chắc chắn, có thể, không thể', 'Nhận biết và mô tả được khả năng xảy ra của sự kiện bằng các từ chắc chắn, có thể, không thể'],
+  ]],
+]);
+
+const GDPT_3 = catalogue('vn3', 'vi', ['3'], 'Chương trình GDPT 2018 – Toán lớp 3', [
+  ['Ôn tập và bổ sung', [
+    ['Ôn tập các số đến 1000', 'Đọc, viết, so sánh được các số trong phạm vi 1000'],
+    ['Tìm thành phần trong phép cộng, phép trừ', 'Tìm được số hạng, số bị trừ, số trừ chưa biết'],
+  ]],
+  ['Bảng nhân, bảng chia', [
+    ['Bảng nhân 3, 4, 6, 7, 8, 9', 'Thuộc và vận dụng được các bảng nhân từ 2 đến 9'],
+    ['Bảng chia 3, 4, 6, 7, 8, 9', 'Thuộc và vận dụng được các bảng chia từ 2 đến 9'],
+    ['Gấp một số lên một số lần. Giảm một số đi một số lần', 'Giải được bài toán về gấp một số lên, giảm một số đi một số lần'],
+    ['Một phần mấy', 'Nhận biết được một phần hai, một phần ba, …, một phần chín của một nhóm đồ vật'],
+  ]],
+  ['Làm quen với hình phẳng, hình khối', [
+    ['Điểm ở giữa. Trung điểm của đoạn thẳng', 'Nhận biết được điểm ở giữa, trung điểm của đoạn thẳng'],
+    ['Hình tròn. Tâm, bán kính, đường kính', 'Nhận biết được tâm, bán kính, đường kính của hình tròn', 'Vẽ được hình tròn bằng compa'],
+    ['Góc, góc vuông, góc không vuông', 'Nhận biết được góc vuông, góc không vuông bằng ê ke'],
+    ['Hình tam giác, hình tứ giác, hình chữ nhật, hình vuông', 'Nhận biết được đỉnh, cạnh, góc của các hình đã học'],
+    ['Khối lập phương, khối hộp chữ nhật', 'Nhận biết được đỉnh, cạnh, mặt của khối lập phương, khối hộp chữ nhật'],
+  ]],
+  ['Phép nhân, phép chia trong phạm vi 100', [
+    ['Nhân số có hai chữ số với số có một chữ số', 'Đặt tính và thực hiện được phép nhân số có hai chữ số với số có một chữ số'],
+    ['Phép chia hết, phép chia có dư', 'Nhận biết được phép chia hết và phép chia có dư', 'Thực hiện được phép chia số có hai chữ số cho số có một chữ số'],
+  ]],
+  ['Một số đơn vị đo độ dài, khối lượng, dung tích, nhiệt độ', [
+    ['Mi-li-mét', 'Nhận biết được đơn vị mm và quan hệ với cm, m'],
+    ['Gam', 'Nhận biết được đơn vị g và quan hệ với kg'],
+    ['Mi-li-lít', 'Nhận biết được đơn vị ml và quan hệ với lít'],
+    ['Nhiệt độ. Đơn vị đo nhiệt độ', 'Đọc được nhiệt độ trên nhiệt kế theo độ C (°C)'],
+  ]],
+  ['Phép nhân, phép chia trong phạm vi 1000', [
+    ['Nhân số có ba chữ số với số có một chữ số', 'Đặt tính và thực hiện được phép nhân số có ba chữ số với số có một chữ số'],
+    ['Chia số có ba chữ số cho số có một chữ số', 'Đặt tính và thực hiện được phép chia số có ba chữ số cho số có một chữ số'],
+    ['Biểu thức số. Tính giá trị của biểu thức', 'Tính được giá trị của biểu thức có hoặc không có dấu ngoặc'],
+  ]],
+  ['Các số đến 10 000 và 100 000', [
+    ['Các số có bốn chữ số, năm chữ số', 'Đọc, viết được các số trong phạm vi 100 000', 'Viết được số thành tổng các nghìn, trăm, chục, đơn vị'],
+    ['So sánh các số trong phạm vi 100 000', 'So sánh, sắp xếp được các số trong phạm vi 100 000'],
+    ['Làm tròn số đến hàng chục, hàng trăm, hàng nghìn', 'Làm tròn được số đến hàng chục, hàng trăm, hàng nghìn, hàng chục nghìn'],
+    ['Số La Mã', 'Đọc, viết được các số La Mã từ 1 đến 20'],
+  ]],
+  ['Chu vi, diện tích một số hình phẳng', [
+    ['Chu vi hình tam giác, hình tứ giác, hình chữ nhật, hình vuông', 'Tính được chu vi của các hình đã học'],
+    ['Diện tích một hình. Xăng-ti-mét vuông', 'Nhận biết được diện tích và đơn vị cm²'],
+    ['Diện tích hình chữ nhật, hình vuông', 'Tính được diện tích hình chữ nhật, hình vuông'],
+  ]],
+  ['Cộng, trừ, nhân, chia trong phạm vi 100 000', [
+    ['Phép cộng, phép trừ trong phạm vi 100 000', 'Thực hiện được phép cộng, phép trừ các số có đến năm chữ số'],
+    ['Nhân, chia số có năm chữ số với số có một chữ số', 'Thực hiện được phép nhân, phép chia số có đến năm chữ số với số có một chữ số'],
+    ['Giải bài toán có đến hai bước tính', 'Giải được bài toán thực tế có đến hai bước tính'],
+  ]],
+  ['Thời gian, tiền Việt Nam', [
+    ['Xem đồng hồ. Tháng – năm', 'Đọc được giờ chính xác đến từng phút', 'Nhận biết được số ngày trong từng tháng của năm'],
+    ['Tiền Việt Nam', 'Nhận biết được các mệnh giá tiền Việt Nam', 'Thực hiện được phép tính với đơn vị tiền đồng'],
+  ]],
+  ['Làm quen với yếu tố thống kê, xác suất', [
+    ['Thu thập, phân loại, ghi chép số liệu. Bảng số liệu', 'Đọc, mô tả được bảng số liệu thống kê đơn giản'],
+    ['Khả năng xảy ra của một sự kiện', 'Mô tả được khả năng xảy ra của sự kiện bằng các từ chắc chắn, có thể, không thể'],
+  ]],
+]);
+
+const GDPT_4 = catalogue('vn4', 'vi', ['4'], 'Chương trình GDPT 2018 – Toán lớp 4', [
+  ['Số tự nhiên', [
+    ['Số có nhiều chữ số. Hàng và lớp', 'Đọc, viết được các số có nhiều chữ số', 'Nhận biết được hàng, lớp và giá trị theo vị trí của mỗi chữ số'],
+    ['So sánh các số có nhiều chữ số', 'So sánh, sắp xếp được các số có nhiều chữ số'],
+    ['Làm tròn số đến hàng trăm nghìn', 'Làm tròn được số đến hàng trăm nghìn'],
+    ['Dãy số tự nhiên. Số chẵn, số lẻ', 'Nhận biết được dãy số tự nhiên, số chẵn, số lẻ'],
+  ]],
+  ['Góc và đơn vị đo góc', [
+    ['Góc nhọn, góc tù, góc bẹt', 'Nhận biết được góc nhọn, góc vuông, góc tù, góc bẹt'],
+    ['Đo góc. Đơn vị đo góc', 'Đo được góc bằng thước đo góc, đơn vị độ (°)'],
+  ]],
+  ['Phép cộng, phép trừ số tự nhiên', [
+    ['Phép cộng, phép trừ các số có nhiều chữ số', 'Thực hiện được phép cộng, phép trừ các số có nhiều chữ số'],
+    ['Tính chất giao hoán, kết hợp của phép cộng', 'Vận dụng được tính chất của phép cộng để tính thuận tiện'],
+    ['Tìm hai số khi biết tổng và hiệu', 'Giải được bài toán tìm hai số khi biết tổng và hiệu của chúng'],
+  ]],
+  ['Đường thẳng vuông góc, song song. Hình bình hành, hình thoi', [
+    ['Hai đường thẳng vuông góc, hai đường thẳng song song', 'Nhận biết và vẽ được hai đường thẳng vuông góc, song song'],
+    ['Hình bình hành, hình thoi', 'Nhận biết được hình bình hành, hình thoi và đặc điểm về cạnh, góc'],
+  ]],
+  ['Đo lường', [
+    ['Yến, tạ, tấn', 'Nhận biết được các đơn vị yến, tạ, tấn và chuyển đổi giữa các đơn vị khối lượng'],
+    ['Đề-xi-mét vuông, mét vuông, mi-li-mét vuông', 'Nhận biết và chuyển đổi được các đơn vị đo diện tích dm², m², mm²'],
+    ['Giây, thế kỉ', 'Nhận biết được giây, thế kỉ và chuyển đổi giữa các đơn vị thời gian'],
+  ]],
+  ['Phép nhân, phép chia số tự nhiên', [
+    ['Nhân với số có một chữ số, hai chữ số', 'Thực hiện được phép nhân với số có không quá hai chữ số'],
+    ['Chia cho số có một chữ số, hai chữ số', 'Thực hiện được phép chia cho số có không quá hai chữ số'],
+    ['Tính chất của phép nhân', 'Vận dụng được tính chất giao hoán, kết hợp, phân phối để tính thuận tiện'],
+    ['Trung bình cộng', 'Tính được số trung bình cộng của nhiều số', 'Giải được bài toán liên quan đến trung bình cộng'],
+  ]],
+  ['Yếu tố thống kê, xác suất', [
+    ['Dãy số liệu thống kê', 'Đọc, mô tả được dãy số liệu thống kê'],
+    ['Biểu đồ cột', 'Đọc, mô tả và nhận xét được số liệu trong biểu đồ cột'],
+    ['Số lần xuất hiện của một sự kiện', 'Kiểm đếm được số lần xuất hiện của một sự kiện trong trò chơi, thí nghiệm'],
+  ]],
+  ['Phân số', [
+    ['Khái niệm phân số. Phân số và phép chia số tự nhiên', 'Đọc, viết được phân số; nhận biết tử số, mẫu số', 'Viết được thương của phép chia số tự nhiên dưới dạng phân số'],
+    ['Tính chất cơ bản của phân số. Rút gọn phân số', 'Nhận biết được tính chất cơ bản của phân số', 'Rút gọn được phân số'],
+    ['Quy đồng mẫu số các phân số', 'Quy đồng được mẫu số hai phân số'],
+    ['So sánh phân số', 'So sánh, sắp xếp được các phân số'],
+  ]],
+  ['Phép tính với phân số', [
+    ['Phép cộng, phép trừ phân số', 'Thực hiện được phép cộng, phép trừ hai phân số'],
+    ['Phép nhân, phép chia phân số', 'Thực hiện được phép nhân, phép chia hai phân số'],
+    ['Tìm phân số của một số', 'Giải được bài toán tìm phân số của một số'],
+  ]],
+]);
+
+const GDPT_5 = catalogue('vn5', 'vi', ['5'], 'Chương trình GDPT 2018 – Toán lớp 5', [
+  ['Ôn tập và bổ sung', [
+    ['Ôn tập phân số', 'Thực hiện được các phép tính với phân số'],
+    ['Phân số thập phân. Hỗn số', 'Nhận biết được phân số thập phân và hỗn số', 'Chuyển đổi được giữa hỗn số và phân số'],
+  ]],
+  ['Số thập phân', [
+    ['Khái niệm số thập phân', 'Đọc, viết được số thập phân; nhận biết hàng của số thập phân'],
+    ['So sánh các số thập phân', 'So sánh, sắp xếp được các số thập phân'],
+    ['Làm tròn số thập phân', 'Làm tròn được số thập phân tới số tự nhiên gần nhất hoặc tới hàng phần mười, phần trăm'],
+    ['Viết số đo đại lượng dưới dạng số thập phân', 'Viết được số đo độ dài, khối lượng, diện tích dưới dạng số thập phân', 'Nhận biết được các đơn vị km², ha'],
+  ]],
+  ['Các phép tính với số thập phân', [
+    ['Phép cộng, phép trừ số thập phân', 'Thực hiện được phép cộng, phép trừ số thập phân'],
+    ['Phép nhân số thập phân', 'Thực hiện được phép nhân số thập phân', 'Nhân nhẩm được với 10; 100; 1000; 0,1; 0,01'],
+    ['Phép chia số thập phân', 'Thực hiện được phép chia số thập phân'],
+  ]],
+  ['Một số hình phẳng', [
+    ['Hình tam giác. Diện tích hình tam giác', 'Nhận biết được đáy và chiều cao của hình tam giác', 'Tính được diện tích hình tam giác'],
+    ['Hình thang. Diện tích hình thang', 'Nhận biết được hình thang', 'Tính được diện tích hình thang'],
+    ['Đường tròn. Chu vi và diện tích hình tròn', 'Tính được chu vi và diện tích hình tròn'],
+  ]],
+  ['Tỉ số và các bài toán liên quan', [
+    ['Tỉ số. Tỉ số phần trăm', 'Nhận biết được tỉ số, tỉ số phần trăm của hai đại lượng cùng loại', 'Tìm được tỉ số phần trăm của hai số và giá trị phần trăm của một số'],
+    ['Tìm hai số khi biết tổng và tỉ số, hiệu và tỉ số', 'Giải được bài toán tìm hai số khi biết tổng (hiệu) và tỉ số của hai số đó'],
+    ['Tỉ lệ bản đồ', 'Tính được độ dài thật dựa vào tỉ lệ bản đồ'],
+  ]],
+  ['Thể tích. Đơn vị đo thể tích', [
+    ['Thể tích của một hình', 'Nhận biết được biểu tượng về thể tích'],
+    ['Xăng-ti-mét khối, đề-xi-mét khối, mét khối', 'Nhận biết và chuyển đổi được các đơn vị cm³, dm³, m³'],
+  ]],
+  ['Diện tích và thể tích của một số hình khối', [
+    ['Hình khai triển của hình lập phương, hình hộp chữ nhật, hình trụ', 'Nhận biết được hình khai triển của các hình khối đã học'],
+    ['Diện tích xung quanh và diện tích toàn phần', 'Tính được diện tích xung quanh, diện tích toàn phần của hình hộp chữ nhật, hình lập phương'],
+    ['Thể tích hình hộp chữ nhật, hình lập phương', 'Tính được thể tích hình hộp chữ nhật, hình lập phương'],
+  ]],
+  ['Số đo thời gian. Vận tốc. Chuyển động đều', [
+    ['Cộng, trừ, nhân, chia số đo thời gian', 'Thực hiện được phép tính với số đo thời gian'],
+    ['Vận tốc, quãng đường, thời gian', 'Tính được vận tốc, quãng đường, thời gian trong chuyển động đều', 'Giải được bài toán thực tế về chuyển động đều'],
+  ]],
+  ['Một số yếu tố thống kê và xác suất', [
+    ['Biểu đồ hình quạt tròn', 'Đọc, mô tả được số liệu ở dạng biểu đồ hình quạt tròn'],
+    ['Tỉ số mô tả số lần lặp lại của một khả năng', 'Sử dụng được tỉ số để mô tả số lần lặp lại của một khả năng khi thực hiện nhiều lần thí nghiệm'],
+  ]],
+]);
+
+const GDPT_6 = catalogue('vn6', 'vi', ['6'], 'Chương trình GDPT 2018 – Toán lớp 6', [
+  ['Tập hợp các số tự nhiên', [
+    ['Tập hợp', 'Sử dụng được cách cho tập hợp và kí hiệu ∈, ∉', 'Viết được tập hợp bằng cách liệt kê phần tử hoặc chỉ ra tính chất đặc trưng'],
+    ['Cách ghi số tự nhiên', 'Đọc, viết được số tự nhiên trong hệ thập phân', 'Đọc, viết được các số La Mã không quá 30'],
+    ['Thứ tự trong tập hợp các số tự nhiên', 'So sánh được hai số tự nhiên và biểu diễn được số tự nhiên trên tia số'],
+    ['Phép cộng, phép trừ, phép nhân, phép chia số tự nhiên', 'Thực hiện được các phép tính trong tập hợp số tự nhiên', 'Vận dụng được tính chất giao hoán, kết hợp, phân phối để tính nhẩm, tính hợp lí', 'Thực hiện được phép chia có dư'],
+    ['Lũy thừa với số mũ tự nhiên', 'Thực hiện được phép tính lũy thừa với số mũ tự nhiên', 'Thực hiện được phép nhân, phép chia hai lũy thừa cùng cơ số'],
+    ['Thứ tự thực hiện các phép tính', 'Tính được giá trị biểu thức theo đúng thứ tự thực hiện các phép tính'],
+  ]],
+  ['Tính chia hết trong tập hợp các số tự nhiên', [
+    ['Quan hệ chia hết và tính chất', 'Nhận biết được quan hệ chia hết, khái niệm ước và bội', 'Vận dụng được tính chất chia hết của một tổng'],
+    ['Dấu hiệu chia hết cho 2, 5, 3, 9', 'Vận dụng được dấu hiệu chia hết cho 2, 5, 9, 3 để xác định một số có chia hết hay không'],
+    ['Số nguyên tố', 'Nhận biết được số nguyên tố, hợp số', 'Phân tích được một số tự nhiên lớn hơn 1 ra thừa số nguyên tố'],
+    ['Ước chung. Ước chung lớn nhất', 'Xác định được ước chung, ước chung lớn nhất', 'Vận dụng được ƯCLN để giải bài toán thực tế'],
+    ['Bội chung. Bội chung nhỏ nhất', 'Xác định được bội chung, bội chung nhỏ nhất', 'Vận dụng được BCNN để cộng, trừ phân số và giải bài toán thực tế'],
+  ]],
+  ['Số nguyên', [
+    ['Tập hợp các số nguyên', 'Nhận biết được số nguyên âm, tập hợp các số nguyên, số đối', 'Biểu diễn được số nguyên trên trục số và so sánh hai số nguyên'],
+    ['Phép cộng và phép trừ số nguyên', 'Thực hiện được phép cộng, phép trừ số nguyên', 'Vận dụng được tính chất giao hoán, kết hợp để tính hợp lí'],
+    ['Quy tắc dấu ngoặc', 'Vận dụng được quy tắc dấu ngoặc trong tính toán'],
+    ['Phép nhân số nguyên', 'Thực hiện được phép nhân số nguyên', 'Vận dụng được tính chất của phép nhân để tính hợp lí'],
+    ['Phép chia hết. Ước và bội của một số nguyên', 'Nhận biết được quan hệ chia hết, ước và bội trong tập hợp các số nguyên'],
+  ]],
+  ['Một số hình phẳng trong thực tiễn', [
+    ['Hình tam giác đều. Hình vuông. Hình lục giác đều', 'Nhận dạng được tam giác đều, hình vuông, lục giác đều và mô tả được yếu tố cơ bản', 'Vẽ được tam giác đều, hình vuông bằng dụng cụ học tập'],
+    ['Hình chữ nhật. Hình thoi. Hình bình hành. Hình thang cân', 'Mô tả được yếu tố cơ bản (cạnh, góc, đường chéo) của các hình', 'Vẽ được hình chữ nhật, hình thoi, hình bình hành'],
+    ['Chu vi và diện tích của một số tứ giác đã học', 'Tính được chu vi, diện tích hình vuông, hình chữ nhật, hình thang, hình bình hành, hình thoi', 'Giải được bài toán thực tế về chu vi, diện tích'],
+  ]],
+  ['Tính đối xứng của hình phẳng trong tự nhiên', [
+    ['Hình có trục đối xứng', 'Nhận biết được trục đối xứng của một hình phẳng'],
+    ['Hình có tâm đối xứng', 'Nhận biết được tâm đối xứng của một hình phẳng'],
+  ]],
+  ['Phân số', [
+    ['Mở rộng phân số. Phân số bằng nhau', 'Nhận biết được phân số với tử số hoặc mẫu số là số nguyên âm', 'Nhận biết được hai phân số bằng nhau và tính chất cơ bản của phân số'],
+    ['So sánh phân số. Hỗn số dương', 'So sánh được hai phân số', 'Nhận biết được hỗn số dương'],
+    ['Phép cộng và phép trừ phân số', 'Thực hiện được phép cộng, phép trừ phân số', 'Vận dụng được tính chất của phép cộng để tính hợp lí'],
+    ['Phép nhân và phép chia phân số', 'Thực hiện được phép nhân, phép chia phân số', 'Nhận biết được phân số nghịch đảo'],
+    ['Hai bài toán về phân số', 'Tính được giá trị phân số của một số cho trước', 'Tìm được một số biết giá trị phân số của số đó'],
+  ]],
+  ['Số thập phân', [
+    ['Số thập phân', 'Nhận biết được số thập phân âm, số đối của số thập phân', 'So sánh được hai số thập phân'],
+    ['Tính toán với số thập phân', 'Thực hiện được các phép tính cộng, trừ, nhân, chia với số thập phân'],
+    ['Làm tròn và ước lượng', 'Làm tròn được số thập phân đến một hàng cho trước', 'Ước lượng được kết quả phép tính'],
+    ['Một số bài toán về tỉ số và tỉ số phần trăm', 'Tính được tỉ số, tỉ số phần trăm của hai đại lượng', 'Giải được bài toán thực tế về tỉ số phần trăm'],
+  ]],
+  ['Những hình hình học cơ bản', [
+    ['Điểm và đường thẳng', 'Nhận biết được điểm thuộc, không thuộc đường thẳng', 'Nhận biết được ba điểm thẳng hàng, hai đường thẳng cắt nhau, song song'],
+    ['Điểm nằm giữa hai điểm. Tia', 'Nhận biết được điểm nằm giữa hai điểm, khái niệm tia'],
+    ['Đoạn thẳng. Độ dài đoạn thẳng', 'Nhận biết được đoạn thẳng và độ dài đoạn thẳng'],
+    ['Trung điểm của đoạn thẳng', 'Nhận biết được trung điểm của đoạn thẳng và tính được độ dài liên quan'],
+    ['Góc. Số đo góc', 'Nhận biết được góc, đỉnh và cạnh của góc', 'Nhận biết được góc nhọn, góc vuông, góc tù, góc bẹt và đo được góc'],
+  ]],
+  ['Dữ liệu và xác suất thực nghiệm', [
+    ['Dữ liệu và thu thập dữ liệu', 'Thu thập, phân loại được dữ liệu theo các tiêu chí cho trước', 'Nhận biết được tính hợp lí của dữ liệu'],
+    ['Bảng thống kê và biểu đồ tranh', 'Đọc và mô tả được dữ liệu ở dạng bảng thống kê, biểu đồ tranh'],
+    ['Biểu đồ cột. Biểu đồ cột kép', 'Đọc, mô tả và vẽ được biểu đồ cột, biểu đồ cột kép', 'Nhận ra được vấn đề hoặc quy luật đơn giản từ biểu đồ'],
+    ['Kết quả có thể và sự kiện trong trò chơi, thí nghiệm', 'Liệt kê được các kết quả có thể trong trò chơi, thí nghiệm đơn giản'],
+    ['Xác suất thực nghiệm', 'Biểu diễn được khả năng xảy ra một sự kiện bằng phân số', 'Tính được xác suất thực nghiệm trong trò chơi, thí nghiệm đơn giản'],
+  ]],
+]);
+
+const GDPT_7 = catalogue('vn7', 'vi', ['7'], 'Chương trình GDPT 2018 – Toán lớp 7', [
+  ['Số hữu tỉ', [
+    ['Tập hợp các số hữu tỉ', 'Nhận biết được số hữu tỉ và biểu diễn được số hữu tỉ trên trục số', 'So sánh được hai số hữu tỉ'],
+    ['Cộng, trừ, nhân, chia số hữu tỉ', 'Thực hiện được các phép tính cộng, trừ, nhân, chia số hữu tỉ', 'Vận dụng được tính chất của các phép tính để tính hợp lí'],
+    ['Lũy thừa với số mũ tự nhiên của một số hữu tỉ', 'Thực hiện được phép tính lũy thừa của số hữu tỉ', 'Vận dụng được tích, thương của hai lũy thừa cùng cơ số và lũy thừa của lũy thừa'],
+    ['Thứ tự thực hiện các phép tính. Quy tắc chuyển vế', 'Thực hiện được phép tính theo đúng thứ tự', 'Vận dụng được quy tắc chuyển vế để tìm x'],
+  ]],
+  ['Số thực', [
+    ['Số thập phân vô hạn tuần hoàn', 'Nhận biết được số thập phân hữu hạn và vô hạn tuần hoàn'],
+    ['Số vô tỉ. Căn bậc hai số học', 'Nhận biết được số vô tỉ và căn bậc hai số học của một số không âm', 'Tính được căn bậc hai số học bằng máy tính cầm tay'],
+    ['Tập hợp các số thực', 'Nhận biết được số thực, số đối và giá trị tuyệt đối của số thực', 'Làm tròn được số thực theo độ chính xác cho trước'],
+  ]],
+  ['Góc và đường thẳng song song', [
+    ['Góc ở vị trí đặc biệt. Tia phân giác của một góc', 'Nhận biết được hai góc kề bù, hai góc đối đỉnh', 'Nhận biết và vẽ được tia phân giác của một góc'],
+    ['Hai đường thẳng song song và dấu hiệu nhận biết', 'Nhận biết được các góc so le trong, đồng vị', 'Vận dụng được dấu hiệu nhận biết hai đường thẳng song song'],
+    ['Tiên đề Euclid. Tính chất của hai đường thẳng song song', 'Nhận biết được tiên đề Euclid', 'Tính được số đo góc dựa vào tính chất hai đường thẳng song song'],
+    ['Định lí và chứng minh định lí', 'Nhận biết được giả thiết, kết luận của định lí', 'Làm quen với chứng minh định lí'],
+  ]],
+  ['Tam giác bằng nhau', [
+    ['Tổng các góc trong một tam giác', 'Giải thích được định lí tổng các góc trong một tam giác bằng 180°'],
+    ['Hai tam giác bằng nhau. Trường hợp cạnh – cạnh – cạnh', 'Nhận biết được hai tam giác bằng nhau', 'Chứng minh được hai tam giác bằng nhau theo trường hợp c.c.c'],
+    ['Trường hợp cạnh – góc – cạnh và góc – cạnh – góc', 'Chứng minh được hai tam giác bằng nhau theo trường hợp c.g.c, g.c.g'],
+    ['Các trường hợp bằng nhau của tam giác vuông', 'Chứng minh được hai tam giác vuông bằng nhau'],
+    ['Tam giác cân. Đường trung trực của đoạn thẳng', 'Nhận biết được tam giác cân và tính chất về góc', 'Nhận biết được đường trung trực của đoạn thẳng và tính chất của nó'],
+  ]],
+  ['Thu thập và biểu diễn dữ liệu', [
+    ['Thu thập và phân loại dữ liệu', 'Thu thập, phân loại dữ liệu và nhận biết tính đại diện của dữ liệu'],
+    ['Biểu đồ hình quạt tròn', 'Đọc, mô tả và phân tích được dữ liệu ở dạng biểu đồ hình quạt tròn'],
+    ['Biểu đồ đoạn thẳng', 'Đọc, mô tả và vẽ được biểu đồ đoạn thẳng', 'Nhận ra được xu thế của dữ liệu theo thời gian'],
+  ]],
+  ['Tỉ lệ thức và đại lượng tỉ lệ', [
+    ['Tỉ lệ thức', 'Nhận biết được tỉ lệ thức và các tính chất của tỉ lệ thức'],
+    ['Tính chất của dãy tỉ số bằng nhau', 'Vận dụng được tính chất của dãy tỉ số bằng nhau để giải toán'],
+    ['Đại lượng tỉ lệ thuận', 'Nhận biết được hai đại lượng tỉ lệ thuận', 'Giải được bài toán đơn giản về đại lượng tỉ lệ thuận'],
+    ['Đại lượng tỉ lệ nghịch', 'Nhận biết được hai đại lượng tỉ lệ nghịch', 'Giải được bài toán đơn giản về đại lượng tỉ lệ nghịch'],
+  ]],
+  ['Biểu thức đại số và đa thức một biến', [
+    ['Biểu thức đại số', 'Viết được biểu thức đại số trong tình huống cụ thể', 'Tính được giá trị của biểu thức đại số'],
+    ['Đa thức một biến', 'Nhận biết được đa thức một biến, bậc, hệ số của đa thức', 'Nhận biết được nghiệm của đa thức một biến'],
+    ['Phép cộng và phép trừ đa thức một biến', 'Thực hiện được phép cộng, phép trừ đa thức một biến'],
+    ['Phép nhân đa thức một biến', 'Thực hiện được phép nhân đa thức một biến'],
+    ['Phép chia đa thức một biến', 'Thực hiện được phép chia hết và phép chia có dư đa thức một biến'],
+  ]],
+  ['Làm quen với biến cố và xác suất của biến cố', [
+    ['Làm quen với biến cố', 'Nhận biết được biến cố chắc chắn, biến cố không thể, biến cố ngẫu nhiên'],
+    ['Làm quen với xác suất của biến cố', 'Tính được xác suất của biến cố ngẫu nhiên trong một số ví dụ đơn giản'],
+  ]],
+  ['Quan hệ giữa các yếu tố trong một tam giác', [
+    ['Quan hệ giữa góc và cạnh đối diện trong một tam giác', 'Vận dụng được quan hệ giữa góc và cạnh đối diện để so sánh góc, cạnh'],
+    ['Quan hệ giữa đường vuông góc và đường xiên', 'Nhận biết được đường vuông góc, đường xiên và khoảng cách từ một điểm đến một đường thẳng'],
+    ['Quan hệ giữa ba cạnh của một tam giác', 'Vận dụng được bất đẳng thức tam giác'],
+    ['Sự đồng quy của ba đường trung tuyến, ba đường phân giác', 'Nhận biết được trọng tâm và giao điểm ba đường phân giác của tam giác'],
+    ['Sự đồng quy của ba đường trung trực, ba đường cao', 'Nhận biết được giao điểm ba đường trung trực, trực tâm của tam giác'],
+  ]],
+  ['Một số hình khối trong thực tiễn', [
+    ['Hình hộp chữ nhật và hình lập phương', 'Mô tả được đỉnh, cạnh, góc, đường chéo của hình hộp chữ nhật, hình lập phương', 'Tính được diện tích xung quanh và thể tích của hình hộp chữ nhật, hình lập phương'],
+    ['Hình lăng trụ đứng tam giác và hình lăng trụ đứng tứ giác', 'Mô tả được các yếu tố của hình lăng trụ đứng tam giác, tứ giác', 'Tính được diện tích xung quanh và thể tích của hình lăng trụ đứng'],
+  ]],
+]);
+
+const GDPT_8 = catalogue('vn8', 'vi', ['8'], 'Chương trình GDPT 2018 – Toán lớp 8', [
+  ['Đa thức', [
+    ['Đơn thức', 'Nhận biết được đơn thức, đơn thức thu gọn, bậc của đơn thức', 'Thực hiện được phép cộng, trừ các đơn thức đồng dạng'],
+    ['Đa thức', 'Nhận biết được đa thức nhiều biến, thu gọn và tìm bậc của đa thức'],
+    ['Phép cộng và phép trừ đa thức', 'Thực hiện được phép cộng, phép trừ đa thức nhiều biến'],
+    ['Phép nhân đa thức', 'Thực hiện được phép nhân đơn thức với đa thức, đa thức với đa thức'],
+    ['Phép chia đa thức cho đơn thức', 'Thực hiện được phép chia hết một đa thức cho một đơn thức'],
+  ]],
+  ['Hằng đẳng thức đáng nhớ và ứng dụng', [
+    ['Hiệu hai bình phương. Bình phương của một tổng hay một hiệu', 'Nhận biết và vận dụng được các hằng đẳng thức bình phương của tổng, hiệu và hiệu hai bình phương'],
+    ['Lập phương của một tổng hay một hiệu', 'Nhận biết và vận dụng được hằng đẳng thức lập phương của tổng, hiệu'],
+    ['Tổng và hiệu hai lập phương', 'Nhận biết và vận dụng được hằng đẳng thức tổng, hiệu hai lập phương'],
+    ['Phân tích đa thức thành nhân tử', 'Phân tích được đa thức thành nhân tử bằng cách đặt nhân tử chung, dùng hằng đẳng thức, nhóm hạng tử'],
+  ]],
+  ['Tứ giác', [
+    ['Tứ giác', 'Nhận biết được tứ giác, tứ giác lồi', 'Giải thích được định lí tổng các góc trong một tứ giác lồi bằng 360°'],
+    ['Hình thang cân', 'Giải thích được tính chất và dấu hiệu nhận biết hình thang cân'],
+    ['Hình bình hành', 'Giải thích được tính chất và dấu hiệu nhận biết hình bình hành'],
+    ['Hình chữ nhật', 'Giải thích được tính chất và dấu hiệu nhận biết hình chữ nhật'],
+    ['Hình thoi và hình vuông', 'Giải thích được tính chất và dấu hiệu nhận biết hình thoi, hình vuông'],
+  ]],
+  ['Định lí Thalès', [
+    ['Định lí Thalès trong tam giác', 'Giải thích được định lí Thalès thuận và đảo', 'Tính được độ dài đoạn thẳng bằng định lí Thalès'],
+    ['Đường trung bình của tam giác', 'Mô tả được đường trung bình của tam giác và tính chất của nó'],
+    ['Tính chất đường phân giác của tam giác', 'Vận dụng được tính chất đường phân giác trong của tam giác'],
+  ]],
+  ['Dữ liệu và biểu đồ', [
+    ['Thu thập và phân loại dữ liệu', 'Thu thập, phân loại dữ liệu và nhận biết dữ liệu không hợp lí'],
+    ['Biểu diễn dữ liệu bằng bảng, biểu đồ', 'Chuyển được dữ liệu giữa các dạng biểu diễn: bảng, biểu đồ tranh, cột, hình quạt tròn, đoạn thẳng'],
+    ['Phân tích số liệu thống kê dựa vào biểu đồ', 'Phát hiện được vấn đề, quy luật đơn giản dựa trên phân tích biểu đồ'],
+  ]],
+  ['Phân thức đại số', [
+    ['Phân thức đại số', 'Nhận biết được phân thức đại số, điều kiện xác định và hai phân thức bằng nhau'],
+    ['Tính chất cơ bản của phân thức đại số', 'Vận dụng được tính chất cơ bản để rút gọn, quy đồng mẫu phân thức'],
+    ['Phép cộng và phép trừ phân thức đại số', 'Thực hiện được phép cộng, phép trừ phân thức đại số'],
+    ['Phép nhân và phép chia phân thức đại số', 'Thực hiện được phép nhân, phép chia phân thức đại số'],
+  ]],
+  ['Phương trình bậc nhất và hàm số bậc nhất', [
+    ['Phương trình bậc nhất một ẩn', 'Giải được phương trình bậc nhất một ẩn và phương trình đưa được về dạng ax + b = 0'],
+    ['Giải bài toán bằng cách lập phương trình', 'Giải được bài toán thực tế bằng cách lập phương trình bậc nhất'],
+    ['Khái niệm hàm số và đồ thị của hàm số', 'Nhận biết được hàm số, giá trị của hàm số và đồ thị', 'Xác định được tọa độ của một điểm trên mặt phẳng tọa độ'],
+    ['Hàm số bậc nhất và đồ thị', 'Vẽ được đồ thị hàm số bậc nhất y = ax + b'],
+    ['Hệ số góc của đường thẳng', 'Nhận biết được hệ số góc của đường thẳng', 'Xác định được hai đường thẳng song song, cắt nhau dựa vào hệ số góc'],
+  ]],
+  ['Mở đầu về tính xác suất của biến cố', [
+    ['Kết quả có thể và kết quả thuận lợi', 'Mô tả được kết quả có thể và kết quả thuận lợi cho một biến cố'],
+    ['Cách tính xác suất của biến cố bằng tỉ số', 'Tính được xác suất của biến cố bằng tỉ số số kết quả thuận lợi trên số kết quả có thể đồng khả năng'],
+    ['Mối liên hệ giữa xác suất thực nghiệm với xác suất', 'Ước lượng được xác suất của biến cố bằng xác suất thực nghiệm'],
+  ]],
+  ['Tam giác đồng dạng', [
+    ['Hai tam giác đồng dạng', 'Mô tả được định nghĩa hai tam giác đồng dạng'],
+    ['Ba trường hợp đồng dạng của hai tam giác', 'Chứng minh được hai tam giác đồng dạng theo các trường hợp c.c.c, c.g.c, g.g'],
+    ['Định lí Pythagore và ứng dụng', 'Giải thích được định lí Pythagore thuận và đảo', 'Tính được độ dài cạnh trong tam giác vuông và giải bài toán thực tế'],
+    ['Các trường hợp đồng dạng của hai tam giác vuông', 'Chứng minh được hai tam giác vuông đồng dạng'],
+    ['Hình đồng dạng', 'Nhận biết được hình đồng dạng phối cảnh và hình đồng dạng trong thực tiễn'],
+  ]],
+  ['Một số hình khối trong thực tiễn', [
+    ['Hình chóp tam giác đều', 'Mô tả được đỉnh, mặt đáy, mặt bên, cạnh bên của hình chóp tam giác đều', 'Tính được diện tích xung quanh và thể tích hình chóp tam giác đều'],
+    ['Hình chóp tứ giác đều', 'Mô tả được các yếu tố của hình chóp tứ giác đều', 'Tính được diện tích xung quanh và thể tích hình chóp tứ giác đều'],
+  ]],
+]);
+
+const GDPT_9 = catalogue('vn9', 'vi', ['9'], 'Chương trình GDPT 2018 – Toán lớp 9', [
+  ['Phương trình và hệ hai phương trình bậc nhất hai ẩn', [
+    ['Phương trình và hệ hai phương trình bậc nhất hai ẩn', 'Nhận biết được phương trình, hệ hai phương trình bậc nhất hai ẩn và nghiệm của chúng'],
+    ['Giải hệ hai phương trình bậc nhất hai ẩn', 'Giải được hệ hai phương trình bậc nhất hai ẩn bằng phương pháp thế, cộng đại số', 'Tìm được nghiệm của hệ bằng máy tính cầm tay'],
+    ['Giải bài toán bằng cách lập hệ phương trình', 'Giải được bài toán thực tế bằng cách lập hệ hai phương trình bậc nhất hai ẩn'],
+  ]],
+  ['Phương trình và bất phương trình bậc nhất một ẩn', [
+    ['Phương trình quy về phương trình bậc nhất một ẩn', 'Giải được phương trình tích dạng (ax + b)(cx + d) = 0', 'Giải được phương trình chứa ẩn ở mẫu quy về phương trình bậc nhất'],
+    ['Bất đẳng thức và tính chất', 'Nhận biết được bất đẳng thức và tính chất liên hệ với phép cộng, phép nhân'],
+    ['Bất phương trình bậc nhất một ẩn', 'Giải được bất phương trình bậc nhất một ẩn'],
+  ]],
+  ['Căn bậc hai và căn bậc ba', [
+    ['Căn bậc hai và căn thức bậc hai', 'Nhận biết được căn bậc hai, căn thức bậc hai và điều kiện xác định', 'Tính được căn bậc hai bằng máy tính cầm tay'],
+    ['Khai căn bậc hai với phép nhân và phép chia', 'Vận dụng được quy tắc khai căn một tích, một thương'],
+    ['Biến đổi đơn giản và rút gọn biểu thức chứa căn thức bậc hai', 'Thực hiện được đưa thừa số ra ngoài, vào trong dấu căn, trục căn thức ở mẫu', 'Rút gọn được biểu thức chứa căn thức bậc hai'],
+    ['Căn bậc ba và căn thức bậc ba', 'Nhận biết được căn bậc ba và tính được căn bậc ba của một số'],
+  ]],
+  ['Hệ thức lượng trong tam giác vuông', [
+    ['Tỉ số lượng giác của góc nhọn', 'Nhận biết được sin, côsin, tang, côtang của góc nhọn', 'Tính được tỉ số lượng giác của các góc 30°, 45°, 60° và bằng máy tính cầm tay'],
+    ['Hệ thức giữa cạnh và góc trong tam giác vuông', 'Giải thích được hệ thức giữa cạnh và góc trong tam giác vuông', 'Giải được bài toán thực tế về khoảng cách, chiều cao'],
+  ]],
+  ['Đường tròn', [
+    ['Mở đầu về đường tròn', 'Nhận biết được tâm đối xứng, trục đối xứng của đường tròn'],
+    ['Cung và dây của một đường tròn', 'Nhận biết được cung, dây cung, góc ở tâm và so sánh được độ dài dây với đường kính'],
+    ['Độ dài cung tròn. Diện tích hình quạt tròn, hình vành khuyên', 'Tính được độ dài cung tròn, diện tích hình quạt tròn, hình vành khuyên'],
+    ['Vị trí tương đối của đường thẳng và đường tròn', 'Mô tả được ba vị trí tương đối của đường thẳng và đường tròn', 'Vận dụng được tính chất của tiếp tuyến và hai tiếp tuyến cắt nhau'],
+    ['Vị trí tương đối của hai đường tròn', 'Mô tả được các vị trí tương đối của hai đường tròn'],
+  ]],
+  ['Hàm số y = ax² (a ≠ 0). Phương trình bậc hai một ẩn', [
+    ['Hàm số y = ax² (a ≠ 0)', 'Vẽ được đồ thị hàm số y = ax² và nhận biết được tính đối xứng của đồ thị'],
+    ['Phương trình bậc hai một ẩn', 'Giải được phương trình bậc hai một ẩn bằng công thức nghiệm', 'Tìm được nghiệm bằng máy tính cầm tay'],
+    ['Định lí Viète và ứng dụng', 'Vận dụng được định lí Viète để tính nhẩm nghiệm, tìm hai số biết tổng và tích'],
+    ['Giải bài toán bằng cách lập phương trình bậc hai', 'Giải được bài toán thực tế bằng cách lập phương trình bậc hai'],
+  ]],
+  ['Tần số và tần số tương đối', [
+    ['Bảng tần số và biểu đồ tần số', 'Lập được bảng tần số và biểu đồ tần số dạng cột, đoạn thẳng'],
+    ['Bảng tần số tương đối và biểu đồ tần số tương đối', 'Lập được bảng tần số tương đối và biểu đồ tần số tương đối'],
+    ['Bảng tần số, tần số tương đối ghép nhóm và biểu đồ', 'Lập được bảng tần số, tần số tương đối ghép nhóm và vẽ được biểu đồ tần số tương đối ghép nhóm'],
+  ]],
+  ['Xác suất của biến cố trong một số mô hình xác suất đơn giản', [
+    ['Phép thử ngẫu nhiên và không gian mẫu', 'Nhận biết được phép thử ngẫu nhiên và mô tả được không gian mẫu'],
+    ['Xác suất của biến cố liên quan tới phép thử', 'Tính được xác suất của biến cố bằng cách kiểm đếm số kết quả thuận lợi trên không gian mẫu'],
+  ]],
+  ['Đường tròn ngoại tiếp và đường tròn nội tiếp', [
+    ['Góc nội tiếp', 'Nhận biết được góc nội tiếp và giải thích được mối liên hệ với cung bị chắn'],
+    ['Đường tròn ngoại tiếp và đường tròn nội tiếp của một tam giác', 'Xác định được tâm và bán kính đường tròn ngoại tiếp, nội tiếp tam giác'],
+    ['Tứ giác nội tiếp', 'Nhận biết được tứ giác nội tiếp và giải thích được tổng hai góc đối bằng 180°'],
+    ['Đa giác đều', 'Nhận dạng được đa giác đều và phép quay giữ nguyên hình đa giác đều'],
+  ]],
+  ['Một số hình khối trong thực tiễn', [
+    ['Hình trụ và hình nón', 'Nhận biết được hình trụ, hình nón và các yếu tố', 'Tính được diện tích xung quanh và thể tích hình trụ, hình nón'],
+    ['Hình cầu', 'Nhận biết được hình cầu', 'Tính được diện tích mặt cầu và thể tích hình cầu'],
+  ]],
+]);
+
+const GDPT_10 = catalogue('vn10', 'vi', ['10'], 'Chương trình GDPT 2018 – Toán lớp 10', [
+  ['Mệnh đề và tập hợp', [
+    ['Mệnh đề', 'Nhận biết được mệnh đề, mệnh đề phủ định, mệnh đề kéo theo, mệnh đề tương đương', 'Sử dụng đúng các kí hiệu ∀, ∃'],
+    ['Tập hợp và các phép toán trên tập hợp', 'Nhận biết được tập con, hai tập hợp bằng nhau', 'Thực hiện được phép hợp, giao, hiệu, phần bù của các tập hợp, kể cả các khoảng, đoạn trên trục số'],
+  ]],
+  ['Bất phương trình và hệ bất phương trình bậc nhất hai ẩn', [
+    ['Bất phương trình bậc nhất hai ẩn', 'Biểu diễn được miền nghiệm của bất phương trình bậc nhất hai ẩn trên mặt phẳng tọa độ'],
+    ['Hệ bất phương trình bậc nhất hai ẩn', 'Biểu diễn được miền nghiệm của hệ bất phương trình bậc nhất hai ẩn', 'Vận dụng được vào bài toán tìm giá trị lớn nhất, nhỏ nhất trong thực tiễn'],
+  ]],
+  ['Hệ thức lượng trong tam giác', [
+    ['Giá trị lượng giác của một góc từ 0° đến 180°', 'Nhận biết được giá trị lượng giác của góc từ 0° đến 180° và hệ thức giữa chúng'],
+    ['Hệ thức lượng trong tam giác', 'Vận dụng được định lí côsin, định lí sin và các công thức tính diện tích tam giác', 'Giải được tam giác và bài toán thực tế về đo khoảng cách'],
+  ]],
+  ['Vectơ', [
+    ['Các khái niệm mở đầu', 'Nhận biết được vectơ, hai vectơ cùng phương, cùng hướng, bằng nhau, vectơ-không'],
+    ['Tổng và hiệu của hai vectơ', 'Thực hiện được phép cộng, phép trừ hai vectơ bằng quy tắc ba điểm, quy tắc hình bình hành'],
+    ['Tích của một vectơ với một số', 'Thực hiện được phép nhân vectơ với một số', 'Sử dụng được tính chất trung điểm, trọng tâm dưới dạng vectơ'],
+    ['Vectơ trong mặt phẳng tọa độ', 'Biểu diễn được các phép toán vectơ bằng tọa độ'],
+    ['Tích vô hướng của hai vectơ', 'Tính được tích vô hướng của hai vectơ', 'Vận dụng được tích vô hướng để tính góc và chứng minh vuông góc'],
+  ]],
+  ['Các số đặc trưng của mẫu số liệu không ghép nhóm', [
+    ['Số gần đúng và sai số', 'Xác định được số gần đúng, sai số tuyệt đối, độ chính xác và làm tròn được số'],
+    ['Các số đặc trưng đo xu thế trung tâm', 'Tính được số trung bình, trung vị, tứ phân vị, mốt của mẫu số liệu'],
+    ['Các số đặc trưng đo độ phân tán', 'Tính được khoảng biến thiên, khoảng tứ phân vị, phương sai, độ lệch chuẩn', 'Phát hiện được giá trị bất thường của mẫu số liệu'],
+  ]],
+  ['Hàm số, đồ thị và ứng dụng', [
+    ['Hàm số', 'Nhận biết được tập xác định, tập giá trị và tính đồng biến, nghịch biến của hàm số'],
+    ['Hàm số bậc hai', 'Vẽ được parabol là đồ thị hàm số bậc hai', 'Xác định được đỉnh, trục đối xứng và khoảng đồng biến, nghịch biến'],
+    ['Dấu của tam thức bậc hai', 'Xét được dấu của tam thức bậc hai', 'Giải được bất phương trình bậc hai một ẩn'],
+    ['Phương trình quy về phương trình bậc hai', 'Giải được phương trình dạng √(ax² + bx + c) = √(dx² + ex + f) và √(ax² + bx + c) = dx + e'],
+  ]],
+  ['Phương pháp tọa độ trong mặt phẳng', [
+    ['Phương trình đường thẳng', 'Lập được phương trình tham số và phương trình tổng quát của đường thẳng'],
+    ['Vị trí tương đối giữa hai đường thẳng. Góc và khoảng cách', 'Xét được vị trí tương đối của hai đường thẳng', 'Tính được góc giữa hai đường thẳng và khoảng cách từ một điểm đến một đường thẳng'],
+    ['Đường tròn trong mặt phẳng tọa độ', 'Lập được phương trình đường tròn và phương trình tiếp tuyến của đường tròn'],
+    ['Ba đường conic', 'Nhận biết được elip, hypebol, parabol và phương trình chính tắc của chúng'],
+  ]],
+  ['Đại số tổ hợp', [
+    ['Quy tắc đếm', 'Vận dụng được quy tắc cộng, quy tắc nhân và sơ đồ hình cây'],
+    ['Hoán vị, chỉnh hợp và tổ hợp', 'Tính được số hoán vị, chỉnh hợp, tổ hợp', 'Giải được bài toán đếm trong thực tiễn'],
+    ['Nhị thức Newton', 'Khai triển được nhị thức Newton với số mũ không quá 5'],
+  ]],
+  ['Tính xác suất theo định nghĩa cổ điển', [
+    ['Biến cố và định nghĩa cổ điển của xác suất', 'Nhận biết được không gian mẫu, biến cố, biến cố đối', 'Tính được xác suất theo định nghĩa cổ điển'],
+    ['Thực hành tính xác suất theo định nghĩa cổ điển', 'Tính được xác suất bằng phương pháp tổ hợp và sơ đồ hình cây', 'Sử dụng được tính chất P(Ā) = 1 − P(A)'],
+  ]],
+]);
+
+const GDPT_11 = catalogue('vn11', 'vi', ['11'], 'Chương trình GDPT 2018 – Toán lớp 11', [
+  ['Hàm số lượng giác và phương trình lượng giác', [
+    ['Giá trị lượng giác của góc lượng giác', 'Nhận biết được góc lượng giác, đơn vị radian và đường tròn lượng giác', 'Tính được giá trị lượng giác của góc lượng giác'],
+    ['Công thức lượng giác', 'Vận dụng được công thức cộng, công thức nhân đôi, biến đổi tích thành tổng và tổng thành tích'],
+    ['Hàm số lượng giác', 'Nhận biết được tính chẵn lẻ, tuần hoàn, tập xác định, tập giá trị của các hàm số lượng giác', 'Đọc được đồ thị các hàm số lượng giác'],
+    ['Phương trình lượng giác cơ bản', 'Giải được phương trình lượng giác cơ bản sin x = m, cos x = m, tan x = m, cot x = m'],
+  ]],
+  ['Dãy số. Cấp số cộng và cấp số nhân', [
+    ['Dãy số', 'Nhận biết được dãy số hữu hạn, vô hạn, dãy số tăng, giảm, bị chặn'],
+    ['Cấp số cộng', 'Tính được số hạng tổng quát và tổng n số hạng đầu của cấp số cộng'],
+    ['Cấp số nhân', 'Tính được số hạng tổng quát và tổng n số hạng đầu của cấp số nhân', 'Giải được bài toán thực tế về lãi suất, tăng trưởng'],
+  ]],
+  ['Các số đặc trưng đo xu thế trung tâm của mẫu số liệu ghép nhóm', [
+    ['Mẫu số liệu ghép nhóm', 'Đọc và lập được bảng tần số ghép nhóm'],
+    ['Các số đặc trưng đo xu thế trung tâm', 'Tính được số trung bình, trung vị, tứ phân vị, mốt của mẫu số liệu ghép nhóm'],
+  ]],
+  ['Quan hệ song song trong không gian', [
+    ['Đường thẳng và mặt phẳng trong không gian', 'Nhận biết được các quan hệ liên thuộc cơ bản giữa điểm, đường thẳng, mặt phẳng', 'Xác định được giao tuyến của hai mặt phẳng, giao điểm của đường thẳng và mặt phẳng'],
+    ['Hai đường thẳng song song', 'Nhận biết được vị trí tương đối của hai đường thẳng trong không gian'],
+    ['Đường thẳng và mặt phẳng song song', 'Giải thích được điều kiện để đường thẳng song song với mặt phẳng'],
+    ['Hai mặt phẳng song song', 'Giải thích được điều kiện để hai mặt phẳng song song', 'Nhận biết được hình lăng trụ, hình hộp'],
+    ['Phép chiếu song song', 'Vẽ được hình biểu diễn của một số hình khối đơn giản'],
+  ]],
+  ['Giới hạn. Hàm số liên tục', [
+    ['Giới hạn của dãy số', 'Tính được giới hạn của dãy số và tổng của cấp số nhân lùi vô hạn'],
+    ['Giới hạn của hàm số', 'Tính được giới hạn hữu hạn, vô cực, một phía của hàm số'],
+    ['Hàm số liên tục', 'Nhận biết được hàm số liên tục tại một điểm, trên một khoảng'],
+  ]],
+  ['Hàm số mũ và hàm số lôgarit', [
+    ['Lũy thừa với số mũ thực', 'Vận dụng được tính chất của phép tính lũy thừa với số mũ nguyên, hữu tỉ, thực'],
+    ['Lôgarit', 'Vận dụng được tính chất của lôgarit và công thức đổi cơ số'],
+    ['Hàm số mũ và hàm số lôgarit', 'Nhận biết được tính chất và đồ thị của hàm số mũ, hàm số lôgarit'],
+    ['Phương trình, bất phương trình mũ và lôgarit', 'Giải được phương trình, bất phương trình mũ, lôgarit dạng đơn giản'],
+  ]],
+  ['Quan hệ vuông góc trong không gian', [
+    ['Hai đường thẳng vuông góc', 'Xác định được góc giữa hai đường thẳng trong không gian'],
+    ['Đường thẳng vuông góc với mặt phẳng', 'Giải thích được điều kiện để đường thẳng vuông góc với mặt phẳng'],
+    ['Phép chiếu vuông góc. Góc giữa đường thẳng và mặt phẳng', 'Xác định được hình chiếu vuông góc và góc giữa đường thẳng và mặt phẳng'],
+    ['Hai mặt phẳng vuông góc', 'Xác định được góc nhị diện và giải thích được điều kiện hai mặt phẳng vuông góc'],
+    ['Khoảng cách', 'Tính được khoảng cách từ một điểm đến một mặt phẳng và giữa hai đường thẳng chéo nhau trong trường hợp đơn giản'],
+    ['Thể tích', 'Tính được thể tích khối chóp, khối lăng trụ, khối hộp, khối chóp cụt đều'],
+  ]],
+  ['Các quy tắc tính xác suất', [
+    ['Biến cố hợp, biến cố giao, biến cố độc lập', 'Nhận biết được biến cố hợp, biến cố giao, biến cố xung khắc, biến cố độc lập'],
+    ['Công thức cộng xác suất', 'Vận dụng được công thức cộng xác suất'],
+    ['Công thức nhân xác suất cho hai biến cố độc lập', 'Vận dụng được công thức nhân xác suất cho hai biến cố độc lập'],
+  ]],
+  ['Đạo hàm', [
+    ['Định nghĩa và ý nghĩa của đạo hàm', 'Nhận biết được định nghĩa, ý nghĩa hình học và vật lí của đạo hàm', 'Viết được phương trình tiếp tuyến của đồ thị hàm số tại một điểm'],
+    ['Các quy tắc tính đạo hàm', 'Tính được đạo hàm của các hàm số sơ cấp cơ bản, của tổng, hiệu, tích, thương và hàm hợp'],
+    ['Đạo hàm cấp hai', 'Tính được đạo hàm cấp hai và nhận biết ý nghĩa cơ học của nó'],
+  ]],
+]);
+
+const GDPT_12 = catalogue('vn12', 'vi', ['12'], 'Chương trình GDPT 2018 – Toán lớp 12', [
+  ['Ứng dụng đạo hàm để khảo sát và vẽ đồ thị hàm số', [
+    ['Tính đơn điệu và cực trị của hàm số', 'Xét được tính đồng biến, nghịch biến của hàm số dựa vào dấu của đạo hàm', 'Tìm được điểm cực trị và giá trị cực trị của hàm số'],
+    ['Giá trị lớn nhất và giá trị nhỏ nhất của hàm số', 'Tìm được giá trị lớn nhất, nhỏ nhất của hàm số trên một khoảng, một đoạn'],
+    ['Đường tiệm cận của đồ thị hàm số', 'Tìm được tiệm cận đứng, tiệm cận ngang, tiệm cận xiên của đồ thị hàm số'],
+    ['Khảo sát sự biến thiên và vẽ đồ thị của hàm số', 'Khảo sát và vẽ được đồ thị hàm số bậc ba, hàm phân thức y = (ax + b)/(cx + d) và y = (ax² + bx + c)/(mx + n)'],
+    ['Ứng dụng đạo hàm để giải quyết bài toán thực tiễn', 'Vận dụng được đạo hàm để giải bài toán tối ưu trong thực tiễn'],
+  ]],
+  ['Vectơ và hệ trục tọa độ trong không gian', [
+    ['Vectơ trong không gian', 'Thực hiện được các phép toán cộng, trừ, nhân vectơ với một số và tích vô hướng trong không gian'],
+    ['Hệ trục tọa độ trong không gian', 'Xác định được tọa độ của điểm, vectơ trong hệ trục Oxyz'],
+    ['Biểu thức tọa độ của các phép toán vectơ', 'Tính được tọa độ của tổng, hiệu, tích vectơ với một số, tích vô hướng', 'Vận dụng được tọa độ vectơ vào bài toán thực tế'],
+  ]],
+  ['Các số đặc trưng đo mức độ phân tán của mẫu số liệu ghép nhóm', [
+    ['Khoảng biến thiên và khoảng tứ phân vị', 'Tính được khoảng biến thiên, khoảng tứ phân vị của mẫu số liệu ghép nhóm'],
+    ['Phương sai và độ lệch chuẩn', 'Tính được phương sai, độ lệch chuẩn của mẫu số liệu ghép nhóm và giải thích ý nghĩa'],
+  ]],
+  ['Nguyên hàm và tích phân', [
+    ['Nguyên hàm', 'Tìm được nguyên hàm của các hàm số sơ cấp cơ bản và dùng tính chất của nguyên hàm'],
+    ['Tích phân', 'Tính được tích phân bằng định nghĩa và tính chất của tích phân'],
+    ['Ứng dụng hình học của tích phân', 'Tính được diện tích hình phẳng và thể tích khối tròn xoay bằng tích phân'],
+  ]],
+  ['Phương pháp tọa độ trong không gian', [
+    ['Phương trình mặt phẳng', 'Lập được phương trình mặt phẳng', 'Tính được khoảng cách từ một điểm đến một mặt phẳng'],
+    ['Phương trình đường thẳng trong không gian', 'Lập được phương trình tham số, chính tắc của đường thẳng', 'Xét được vị trí tương đối của hai đường thẳng'],
+    ['Công thức tính góc trong không gian', 'Tính được góc giữa hai đường thẳng, giữa đường thẳng và mặt phẳng, giữa hai mặt phẳng'],
+    ['Phương trình mặt cầu', 'Lập được phương trình mặt cầu và xác định được tâm, bán kính'],
+  ]],
+  ['Xác suất có điều kiện', [
+    ['Xác suất có điều kiện', 'Tính được xác suất có điều kiện và vận dụng công thức nhân xác suất'],
+    ['Công thức xác suất toàn phần và công thức Bayes', 'Vận dụng được công thức xác suất toàn phần và công thức Bayes, kể cả bằng sơ đồ hình cây'],
+  ]],
+]);
+
+const CAMBRIDGE_7 = catalogue('cam7', 'en', ['6'], 'Cambridge Lower Secondary Mathematics – Stage 7', [
+  ['Number', [
+    ['Integers, powers and roots', 'Estimate, add and subtract integers', 'Estimate, multiply and divide integers, including where one is negative', 'Understand factors, multiples, primes, common factors and common multiples', 'Recognise squares of 1 to 20 and cubes of 1 to 5 with their corresponding roots'],
+    ['Place value, ordering and rounding', 'Use knowledge of place value to multiply and divide whole numbers and decimals by 10, 100 and 1000', 'Round numbers to a given number of decimal places'],
+    ['Fractions, decimals, percentages, ratio and proportion', 'Recognise that fractions, terminating decimals and percentages have equivalent values', 'Estimate and add, subtract, multiply and divide fractions, including by integers', 'Understand and use the relationship between ratio and direct proportion', 'Use ratio notation, simplify ratios and divide a quantity in a given ratio'],
+  ]],
+  ['Algebra', [
+    ['Expressions, equations and formulae', 'Understand that letters can represent unknown numbers, variables or constants', 'Construct and simplify linear expressions by collecting like terms', 'Substitute positive integers into expressions and formulae', 'Construct and solve simple linear equations with integer coefficients'],
+    ['Sequences, functions and graphs', 'Generate terms of a sequence from a term-to-term rule', 'Use a position-to-term rule to find terms of a linear sequence', 'Find the output of a function machine and construct simple functions', 'Use coordinates in all four quadrants and draw graphs of linear functions from a table'],
+  ]],
+  ['Geometry and measure', [
+    ['Geometrical reasoning, shapes and measurements', 'Identify and describe the properties of quadrilaterals and circles', 'Derive and use the formula for the area of a triangle', 'Use the sum of angles on a straight line, around a point and in a triangle', 'Calculate the volume and surface area of cubes and cuboids'],
+    ['Position and transformation', 'Find the midpoint of a line segment given two points', 'Translate 2D shapes and reflect them in horizontal or vertical mirror lines', 'Rotate shapes 90° or 180° around a centre of rotation', 'Enlarge 2D shapes from a centre with a positive integer scale factor'],
+  ]],
+  ['Statistics and probability', [
+    ['Statistics', 'Record, organise and represent categorical, discrete and continuous data', 'Use frequency tables, Venn and Carroll diagrams, bar charts, pie charts and line graphs', 'Use the mode, median, mean and range to compare two distributions'],
+    ['Probability', 'Use the language of probability and the probability scale from 0 to 1', 'Identify equally likely outcomes and find the probability of simple events', 'Understand that experimental probability approaches theoretical probability with more trials'],
+  ]],
+]);
+
+const CAMBRIDGE_8 = catalogue('cam8', 'en', ['7'], 'Cambridge Lower Secondary Mathematics – Stage 8', [
+  ['Number', [
+    ['Integers, powers and roots', 'Multiply and divide integers, including negative integers', 'Use the laws of indices for multiplication and division of positive integer powers', 'Express a number as a product of its prime factors and use it to find the HCF and LCM'],
+    ['Place value, ordering and rounding', 'Round numbers to a given number of significant figures', 'Compare and order positive and negative numbers and decimals', 'Multiply and divide integers and decimals by 0.1 and 0.01'],
+    ['Fractions, decimals, percentages, ratio and proportion', 'Recognise fractions that are equivalent to recurring decimals', 'Add, subtract, multiply and divide fractions and mixed numbers', 'Calculate percentage increases and decreases', 'Use direct proportion and ratio to solve problems'],
+  ]],
+  ['Algebra', [
+    ['Expressions, equations and formulae', 'Expand a single bracket and factorise expressions with a common factor', 'Construct and solve linear equations with unknowns on both sides or with brackets', 'Change the subject of simple formulae', 'Represent and solve simple linear inequalities on a number line'],
+    ['Sequences, functions and graphs', 'Find and use the nth term rule of a linear sequence', 'Understand y = mx + c and identify the gradient and intercept', 'Draw and interpret graphs in real-life contexts, including distance–time graphs'],
+  ]],
+  ['Geometry and measure', [
+    ['Geometrical reasoning, shapes and measurements', 'Use the formulae for the circumference and area of a circle', 'Calculate the area of a trapezium and of compound shapes', 'Calculate the volume and surface area of triangular prisms', 'Use corresponding, alternate and co-interior angles on parallel lines', 'Construct perpendicular bisectors and angle bisectors'],
+    ['Position and transformation', 'Use bearings to describe direction', 'Translate shapes using vectors', 'Reflect shapes in lines such as y = x and describe rotations and enlargements'],
+  ]],
+  ['Statistics and probability', [
+    ['Statistics', 'Calculate the mean from a frequency table', 'Draw stem-and-leaf diagrams and scatter graphs and describe correlation', 'Interpret data and draw conclusions from it'],
+    ['Probability', 'Understand mutually exclusive events and that probabilities of all outcomes sum to 1', 'Use sample space diagrams to find probabilities of combined events', 'Compare experimental and theoretical probabilities'],
+  ]],
+]);
+
+const CAMBRIDGE_9 = catalogue('cam9', 'en', ['8'], 'Cambridge Lower Secondary Mathematics – Stage 9', [
+  ['Number', [
+    ['Integers, powers and roots', 'Use the laws of indices, including zero and negative indices', 'Write and calculate with numbers in standard form', 'Estimate square roots and cube roots'],
+    ['Place value, ordering and rounding', 'Multiply and divide by powers of 10, including negative powers', 'Round and estimate to check calculations'],
+    ['Fractions, decimals, percentages, ratio and proportion', 'Decide whether a fraction gives a terminating or recurring decimal', 'Calculate with compound percentages and reverse percentages', 'Solve problems involving direct and inverse proportion'],
+  ]],
+  ['Algebra', [
+    ['Expressions, equations and formulae', 'Expand the product of two brackets and factorise quadratic expressions', 'Simplify algebraic fractions and use the laws of indices in algebra', 'Construct and solve linear equations, including those with fractions', 'Solve a pair of simultaneous linear equations'],
+    ['Sequences, functions and graphs', 'Generate terms of quadratic sequences and find the nth term of linear sequences', 'Find the inverse of a linear function', 'Recognise parallel lines from their equations and draw graphs of linear functions in any form'],
+  ]],
+  ['Geometry and measure', [
+    ['Geometrical reasoning, shapes and measurements', 'Use Pythagoras’ theorem to solve problems in two dimensions', 'Calculate arc lengths and areas of sectors and compound shapes with circles', 'Calculate the volume and surface area of cylinders and prisms', 'Use the interior and exterior angles of polygons'],
+    ['Position and transformation', 'Enlarge shapes by a fractional scale factor', 'Describe combinations of transformations', 'Use bearings and scale drawings to solve problems'],
+  ]],
+  ['Statistics and probability', [
+    ['Statistics', 'Record data in grouped frequency tables and estimate the mean', 'Draw frequency polygons and scatter graphs with a line of best fit', 'Choose suitable statistics and diagrams to compare distributions'],
+    ['Probability', 'Use tree diagrams to find probabilities of combined independent events', 'Use relative frequency to estimate probabilities'],
+  ]],
+]);
+
+const IGCSE = catalogue('igcse', 'en', ['9', '10'], 'Cambridge IGCSE Mathematics (0580)', [
+  ['Number', [
+    ['Types of number and sets', 'Identify natural numbers, integers, primes, squares, cubes, rational and irrational numbers', 'Use set language, notation and Venn diagrams'],
+    ['Powers, roots and indices', 'Calculate with squares, square roots, cubes and cube roots', 'Use the laws of indices, including fractional indices'],
+    ['Fractions, decimals and percentages', 'Convert between fractions, decimals and percentages, including recurring decimals', 'Calculate percentage change, reverse percentages, simple and compound interest'],
+    ['Standard form, estimation and accuracy', 'Use standard form', 'Round to significant figures and decimal places and estimate answers', 'Give upper and lower bounds for data rounded to a given accuracy'],
+    ['Ratio, proportion and rates', 'Divide a quantity in a given ratio and use direct and inverse proportion', 'Use rates, including speed, density and pressure, and convert between units'],
+    ['Exponential growth and decay', 'Use exponential growth and decay in context, such as depreciation and population growth'],
+    ['Surds', 'Simplify surds and rationalise the denominator'],
+  ]],
+  ['Algebra and graphs', [
+    ['Algebraic manipulation', 'Expand products of brackets and factorise expressions, including quadratics', 'Manipulate algebraic fractions'],
+    ['Equations and inequalities', 'Solve linear, simultaneous and quadratic equations', 'Solve linear inequalities and represent them on a number line or graph', 'Change the subject of a formula'],
+    ['Sequences', 'Find the nth term of linear, quadratic, cubic and exponential sequences'],
+    ['Proportion and functions', 'Express direct and inverse variation in algebraic terms', 'Use function notation, composite and inverse functions'],
+    ['Graphs of functions', 'Draw and interpret graphs of linear, quadratic, cubic, reciprocal and exponential functions', 'Interpret distance–time and speed–time graphs', 'Find gradients of curves by drawing tangents'],
+    ['Differentiation', 'Differentiate simple polynomial functions and find turning points'],
+  ]],
+  ['Coordinate geometry', [
+    ['Straight-line graphs', 'Find the gradient, length and midpoint of a line segment', 'Find the equation of a straight line in the form y = mx + c', 'Find equations of parallel and perpendicular lines'],
+  ]],
+  ['Geometry', [
+    ['Geometrical terms and constructions', 'Use geometrical terms for angles, polygons and circles', 'Construct triangles and use scale drawings'],
+    ['Similarity and symmetry', 'Calculate lengths of similar shapes and use area and volume scale factors', 'Recognise line and rotational symmetry in 2D and 3D shapes'],
+    ['Angles', 'Calculate angles using parallel lines, triangles, quadrilaterals and polygons'],
+    ['Circle theorems', 'Use angle properties of circles, tangents and chords', 'Use the alternate segment theorem and cyclic quadrilaterals'],
+  ]],
+  ['Mensuration', [
+    ['Perimeter and area', 'Calculate the perimeter and area of rectangles, triangles, parallelograms, trapezia and compound shapes'],
+    ['Circles, arcs and sectors', 'Calculate the circumference and area of a circle and the arc length and area of a sector'],
+    ['Surface area and volume', 'Calculate the surface area and volume of prisms, cylinders, pyramids, cones and spheres'],
+  ]],
+  ['Trigonometry', [
+    ['Pythagoras’ theorem and right-angled triangles', 'Use Pythagoras’ theorem and sine, cosine and tangent in right-angled triangles', 'Solve problems involving bearings, angles of elevation and depression'],
+    ['Non-right-angled triangles', 'Use the sine rule, the cosine rule and the area formula ½ab sin C'],
+    ['Trigonometric functions and 3D problems', 'Recognise the graphs of sin x, cos x and tan x for 0° to 360°', 'Apply Pythagoras’ theorem and trigonometry in three dimensions'],
+  ]],
+  ['Transformations and vectors', [
+    ['Transformations', 'Reflect, rotate, translate and enlarge shapes and describe transformations fully'],
+    ['Vectors', 'Add, subtract and multiply vectors by a scalar and find the magnitude of a vector', 'Use vectors to prove geometrical results'],
+  ]],
+  ['Probability', [
+    ['Probability of single events', 'Calculate the probability of a single event and use relative and expected frequencies'],
+    ['Combined events and conditional probability', 'Use sample spaces, Venn diagrams and tree diagrams for combined events', 'Calculate conditional probability'],
+  ]],
+  ['Statistics', [
+    ['Averages and range', 'Calculate the mean, median, mode and range, including from frequency tables and grouped data'],
+    ['Charts, diagrams and correlation', 'Draw and interpret bar charts, pie charts, pictograms and stem-and-leaf diagrams', 'Draw and interpret scatter diagrams and lines of best fit'],
+    ['Cumulative frequency and histograms', 'Draw cumulative frequency diagrams and estimate the median, quartiles and interquartile range', 'Draw and interpret histograms with unequal class widths'],
+  ]],
+]);
+
+export const CURRICULUM: CurriculumGrade[] = [
+  GDPT_1, GDPT_2, GDPT_3, GDPT_4, GDPT_5, GDPT_6, GDPT_7, GDPT_8, GDPT_9, GDPT_10, GDPT_11, GDPT_12,
+  CAMBRIDGE_7, CAMBRIDGE_8, CAMBRIDGE_9, IGCSE,
+];
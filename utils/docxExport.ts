@@ -0,0 +1,436 @@
+import { ExamModel, ExamQuestion, QUESTION_TYPES, ROMAN, TEMPLATE_LAYOUTS, TemplateSettings } from '../types';
+import { getPartTypes, getQuestionsByType, isValidMatchOrder, OPTION_LETTERS, STATEMENT_LETTERS } from './examModel';
+import { questionLabel, taskColumns } from './examRenderer';
+import { escapeXml } from './mathml';
+import { latexToOmml } from './omml';
+import { createPlaceholderPng } from './placeholderImage';
+import { createZip, dataUrlToBytes, ZipEntry } from './zip';
+
+// The paper as a Word document, built straight from the ExamModel: text runs for the LaTeX text,
+// native equations (OMML) for the math, Word tables for true/false and matching questions.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const M_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const PIC_NS = 'http://schemas.openxmlformats.org/drawingml/2006/picture';
+
+// A4 with 2 cm margins, in twentieths of a point
+const TEXT_WIDTH = 9638;
+const PLACEHOLDER_RELATIONSHIP = 'rIdPlaceholder';
+
+interface RunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  size?: number; // Half-points
+}
+
+const BREAK = '<w:r><w:br/></w:r>';
+const TAB = '<w:r><w:tab/></w:r>';
+
+const textRun = (text: string, format: RunFormat = {}) => {
+  if (!text) return '';
+  const props = [
+    format.bold && '<w:b/>',
+    format.italic && '<w:i/>',
+    format.underline && '<w:u w:val="single"/>',
+    format.size && `<w:sz w:val="${format.size}"/><w:szCs w:val="${format.size}"/>`,
+  ].filter(Boolean).join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const FORMAT_COMMANDS: Record<string, RunFormat> = {
+  textbf: { bold: true },
+  textit: { italic: true },
+  emph: { italic: true },
+  underline: { underline: true },
+  text: {},
+  textrm: {},
+  textnormal: {},
+  mbox: {},
+};
+
+const TEXT_COMMANDS: Record<string, string> = {
+  blank: '_______________',
+  dotfill: '..........',
+  ldots: '…',
+  dots: '…',
+  textdegree: '°',
+  quad: ' ',
+  qquad: '  ',
+  enspace: ' ',
+  hfill: ' ',
+  LaTeX: 'LaTeX',
+};
+
+// Skip "[...]" at `index` (optional arguments); returns where the text continues
+const skipOptional = (latex: string, index: number) => {
+  if (latex[index] !== '[') return index;
+  const close = latex.indexOf(']', index);
+  return close === -1 ? index : close + 1;
+};
+
+// Balanced {...} at `index`, ignoring leading spaces
+const readGroup = (latex: string, index: number): { content: string; end: number } | null => {
+  let open = index;
+  while (latex[open] === ' ') open++;
+  if (latex[open] !== '{') return null;
+  let depth = 0;
+  for (let i = open; i < latex.length; i++) {
+    if (latex[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (latex[i] === '{') depth++;
+    if (latex[i] === '}' && --depth === 0) return { content: latex.slice(open + 1, i), end: i + 1 };
+  }
+  return null;
+};
+
+// Unescaped `close` delimiter of inline math starting the search at `from`
+const findClosing = (latex: string, close: string, from: number) => {
+  for (let i = from; i < latex.length; i++) {
+    if (latex[i] === '\\' && close !== '\\)' && close !== '\\]') {
+      i++;
+      continue;
+    }
+    if (latex.startsWith(close, i)) return i;
+  }
+  return -1;
+};
+
+// LaTeX text (a stem, an option, a statement) as Word runs; math becomes <m:oMath>
+export const latexToRuns = (latex: string, format: RunFormat = {}): string => {
+  let out = '';
+  let buffer = '';
+  const flush = () => {
+    out += textRun(buffer, format);
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < latex.length) {
+    const ch = latex[i];
+
+    // Math: $...$, \(...\), and display $$...$$ / \[...\] on a line of their own
+    const display = latex.startsWith('$$', i) ? '$$' : latex.startsWith('\\[', i) ? '\\]' : '';
+    const inline = !display && (ch === '$' ? '$' : latex.startsWith('\\(', i) ? '\\)' : '');
+    if (display || inline) {
+      const open = display ? 2 : inline === '$' ? 1 : 2;
+      const close = findClosing(latex, display || inline, i + open);
+      if (close !== -1) {
+        flush();
+        const math = latexToOmml(latex.slice(i + open, close).trim(), !!display);
+        out += display ? `${BREAK}${math}${BREAK}` : math;
+        i = close + (display || inline).length;
+        continue;
+      }
+    }
+
+    if (ch === '\\') {
+      const name = /^[a-zA-Z]+/.exec(latex.slice(i + 1))?.[0];
+      if (!name) {
+        const next = latex[i + 1] || '';
+        if (next === '\\') {
+          flush();
+          out += BREAK;
+          i = skipOptional(latex, i + 2);
+        } else {
+          buffer += next === ',' || next === ' ' || next === ';' ? ' ' : next;
+          i += 2;
+        }
+        continue;
+      }
+
+      let end = i + 1 + name.length;
+      while (latex[end] === ' ') end++;
+
+      if (FORMAT_COMMANDS[name]) {
+        const group = readGroup(latex, end);
+        if (group) {
+          flush();
+          out += latexToRuns(group.content, { ...format, ...FORMAT_COMMANDS[name] });
+          i = group.end;
+          continue;
+        }
+      }
+      if (name === 'par' || name === 'newline') {
+        flush();
+        out += BREAK;
+      } else if (name === 'begin' || name === 'end') {
+        const env = readGroup(latex, end);
+        if (env) end = env.end;
+        if (name === 'begin' && env?.content === 'tikzpicture') {
+          const close = latex.indexOf('\\end{tikzpicture}', end);
+          end = close === -1 ? latex.length : close + '\\end{tikzpicture}'.length;
+        } else if (env && env.content !== 'center') {
+          // Other environments (tabular, itemize, ...) keep their rows on separate lines
+          flush();
+          out += BREAK;
+          if (name === 'begin') end = readGroup(latex, skipOptional(latex, end))?.end ?? end;
+        }
+      } else if (name === 'includegraphics') {
+        end = readGroup(latex, skipOptional(latex, end))?.end ?? end;
+      } else if (name === 'framebox' || name === 'fbox' || name === 'makebox') {
+        const group = readGroup(latex, skipOptional(latex, end));
+        flush();
+        out += `${textRun('[', format)}${group ? latexToRuns(group.content, format) : ''}${textRun('   ]', format)}`;
+        if (group) end = group.end;
+      } else if (name === 'item' || name === 'task') {
+        flush();
+        out += BREAK;
+        buffer += '• ';
+      } else if (TEXT_COMMANDS[name] !== undefined) {
+        buffer += TEXT_COMMANDS[name];
+      }
+      // Any other command is dropped; its {...} arguments still print as text
+      i = end;
+      continue;
+    }
+
+    if (ch === '%') {
+      const lineEnd = latex.indexOf('\n', i);
+      i = lineEnd === -1 ? latex.length : lineEnd + 1;
+      continue;
+    }
+    if (ch === '\n') {
+      // A blank line starts a new paragraph; a single newline is a space
+      const blank = /^\n[ \t]*\n/.exec(latex.slice(i));
+      if (blank) {
+        flush();
+        out += BREAK;
+        i += blank[0].length;
+      } else {
+        buffer += ' ';
+        i++;
+      }
+      continue;
+    }
+    if (ch === '&') {
+      flush();
+      out += TAB;
+    } else if (ch === '~') {
+      buffer += ' ';
+    } else if (ch !== '{' && ch !== '}') {
+      buffer += ch;
+    }
+    i++;
+  }
+
+  flush();
+  // Line breaks at either end would only add empty lines
+  while (out.startsWith(BREAK)) out = out.slice(BREAK.length);
+  while (out.endsWith(BREAK)) out = out.slice(0, -BREAK.length);
+  return out;
+};
+
+interface ParagraphOptions {
+  align?: 'left' | 'center' | 'right' | 'both';
+  tabs?: number[]; // Left tab stops, in twips
+  rightTab?: boolean; // A right-aligned tab stop at the text margin
+  spaceBefore?: number;
+  keepNext?: boolean;
+  bottomBorder?: boolean;
+  indent?: number;
+}
+
+const paragraph = (runs: string, options: ParagraphOptions = {}) => {
+  const tabs = [
+    ...(options.tabs || []).map(pos => `<w:tab w:val="left" w:pos="${pos}"/>`),
+    ...(options.rightTab ? [`<w:tab w:val="right" w:pos="${TEXT_WIDTH}"/>`] : []),
+  ];
+  const props = [
+    options.keepNext && '<w:keepNext/>',
+    options.bottomBorder && '<w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="auto"/></w:pBdr>',
+    tabs.length > 0 && `<w:tabs>${tabs.join('')}</w:tabs>`,
+    options.spaceBefore && `<w:spacing w:before="${options.spaceBefore}"/>`,
+    options.indent && `<w:ind w:left="${options.indent}"/>`,
+    options.align && `<w:jc w:val="${options.align}"/>`,
+  ].filter(Boolean).join('');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+// Bordered table; `widths` in twips, the first row is the header when `header` is set
+const table = (rows: string[][], widths: number[], header = true) => {
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`;
+  const grid = widths.map(w => `<w:gridCol w:w="${w}"/>`).join('');
+  const body = rows.map((cells, r) => {
+    const tcs = cells.map((content, c) =>
+      `<w:tc><w:tcPr><w:tcW w:w="${widths[c]}" w:type="dxa"/>${header && r === 0 ? '<w:shd w:val="clear" w:color="auto" w:fill="EEEEEE"/>' : ''}</w:tcPr>${paragraph(content)}</w:tc>`);
+    return `<w:tr>${header && r === 0 ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${tcs.join('')}</w:tr>`;
+  });
+  return `<w:tbl><w:tblPr><w:tblW w:w="${widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body.join('')}</w:tbl>`;
+};
+
+// Pictures are 5 cm wide like \includegraphics[width=5cm] in the .tex (EMU)
+const PICTURE_WIDTH = 1800000;
+const PLACEHOLDER_HEIGHT = 1170000;
+
+// A figure cut from the uploads, embedded under its own relationship
+interface DocxFigure {
+  name: string;
+  relationship: string;
+  data: Uint8Array;
+  height: number; // EMU at PICTURE_WIDTH
+}
+
+// Width and height from the PNG header (IHDR)
+const pngSize = (data: Uint8Array) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return data.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : { width: 0, height: 0 };
+};
+
+const readFigures = (exam: ExamModel): DocxFigure[] =>
+  Object.entries(exam.images || {}).map(([name, dataUrl], i) => {
+    const data = dataUrlToBytes(dataUrl);
+    const { width, height } = pngSize(data);
+    return { name, relationship: `rIdFigure${i + 1}`, data, height: width > 0 ? Math.round((PICTURE_WIDTH * height) / width) : PLACEHOLDER_HEIGHT };
+  });
+
+const pictureDrawing = (id: number, relationship: string, fileName: string, cy: number) => {
+  const cx = PICTURE_WIDTH;
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="${escapeXml(fileName)} ${id}"/><a:graphic><a:graphicData uri="${PIC_NS}"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${escapeXml(fileName)}"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${relationship}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+};
+
+const headerParagraphs = (exam: ExamModel, variantCode: string, template: TemplateSettings) => {
+  const isVi = exam.language === 'vi';
+  const layout = TEMPLATE_LAYOUTS.find(l => l.id === template.layout) || TEMPLATE_LAYOUTS[1];
+  const dots = '...........................................';
+  const code = variantCode || '..........';
+  const title = (isVi ? layout.vi : layout.en).toLocaleUpperCase(isVi ? 'vi' : 'en');
+  const topic = isVi ? `CHỦ ĐỀ: ${exam.topic.toLocaleUpperCase('vi')}` : `TOPIC: ${exam.topic.toUpperCase()}`;
+
+  const paragraphs = [
+    paragraph(
+      textRun(`${isVi ? 'TRƯỜNG' : 'SCHOOL'}: ${template.schoolName.trim() || '....................'}`, { bold: true }) + TAB + textRun(title, { bold: true }),
+      { rightTab: true }
+    ),
+    paragraph(
+      textRun(isVi ? `HỌ VÀ TÊN: ${dots}   LỚP: ..........` : `FULL NAME: ${dots}   CLASS: ..........`, { bold: true }) +
+        TAB + textRun(`${isVi ? 'Mã đề' : 'Version'}: ${code}`, { bold: true }),
+      { rightTab: true }
+    ),
+  ];
+  if (template.teacherName.trim()) {
+    paragraphs.push(paragraph(textRun(`${isVi ? 'Giáo viên' : 'Teacher'}: ${template.teacherName.trim()}`, { italic: true })));
+  }
+  paragraphs.push(paragraph(textRun(topic, { bold: true, size: 32 }), { align: 'center', spaceBefore: 200 }));
+  if (template.duration.trim()) {
+    const time = isVi ? `Thời gian: ${template.duration.trim()} phút` : `Time: ${template.duration.trim()} minutes`;
+    paragraphs.push(paragraph(textRun(time, { italic: true }), { align: 'center' }));
+  }
+  paragraphs.push(paragraph('', { bottomBorder: true }));
+  return paragraphs;
+};
+
+// Options four, two or one to a line, as the tasks environment sets them
+const optionParagraphs = (options: string[]) => {
+  const columns = taskColumns(options);
+  const width = Math.floor(TEXT_WIDTH / columns);
+  const lines: string[] = [];
+  for (let i = 0; i < options.length; i += columns) {
+    const runs = options.slice(i, i + columns).map((option, j) =>
+      `${j > 0 ? TAB : ''}${textRun(`${OPTION_LETTERS[i + j]}. `, { bold: true })}${latexToRuns(option)}`);
+    lines.push(paragraph(runs.join(''), { tabs: Array.from({ length: columns - 1 }, (_, j) => width * (j + 1) + 360), indent: 360 }));
+  }
+  return lines;
+};
+
+const questionBody = (question: ExamQuestion, index: number, isVi: boolean, nextId: () => number, figures: DocxFigure[]): string[] => {
+  const body = [paragraph(`${textRun(`${questionLabel(question, index, isVi)} `, { bold: true })}${latexToRuns(question.stem)}`, { align: 'both', spaceBefore: 120 })];
+
+  const { figure } = question;
+  if (figure.kind === 'image') {
+    const cut = figures.find(f => f.name === figure.image);
+    body.push(paragraph(cut
+      ? pictureDrawing(nextId(), cut.relationship, cut.name, cut.height)
+      : pictureDrawing(nextId(), PLACEHOLDER_RELATIONSHIP, 'image_placeholder.png', PLACEHOLDER_HEIGHT), { align: 'center' }));
+    if (figure.description) body.push(paragraph(textRun(figure.description, { italic: true, size: 22 }), { align: 'center' }));
+  } else if (figure.kind === 'tikz' && figure.tikz) {
+    const note = isVi ? 'Hình vẽ TikZ, xem bản LaTeX' : 'TikZ figure, see the LaTeX version';
+    body.push(paragraph(textRun(`[${figure.description ? `${note}: ${figure.description}` : note}]`, { italic: true }), { align: 'center' }));
+  }
+
+  if (question.type === 'mc') body.push(...optionParagraphs(question.options));
+  if (question.type === 'trueFalse') {
+    const head = ['', textRun(isVi ? 'Mệnh đề' : 'Statement', { bold: true }), textRun(isVi ? 'Đúng' : 'True', { bold: true }), textRun(isVi ? 'Sai' : 'False', { bold: true })];
+    const rows = (question.statements || []).map((s, i) => [textRun(`${STATEMENT_LETTERS[i]})`, { bold: true }), latexToRuns(s.text), textRun('☐'), textRun('☐')]);
+    body.push(table([head, ...rows], [600, TEXT_WIDTH - 2400, 900, 900]));
+  }
+  if (question.type === 'shortAnswer') {
+    body.push(paragraph(`${textRun(`${isVi ? 'Đáp số' : 'Answer'}: `, { bold: true })}${textRun('..............................')}`, { spaceBefore: 80 }));
+  }
+  if (question.type === 'matching') {
+    const pairs = question.pairs || [];
+    const order = isValidMatchOrder(question.matchOrder, pairs.length) ? question.matchOrder! : pairs.map((_, i) => i);
+    const head = ['', textRun(isVi ? 'Cột A' : 'Column A', { bold: true }), '', textRun(isVi ? 'Cột B' : 'Column B', { bold: true })];
+    const rows = pairs.map((pair, i) => [
+      textRun(`${i + 1}.`, { bold: true }), latexToRuns(pair.left), textRun(`${String.fromCharCode(97 + i)}.`, { bold: true }), latexToRuns(pairs[order[i]].right),
+    ]);
+    const half = Math.floor(TEXT_WIDTH / 2);
+    body.push(table([head, ...rows], [500, half - 500, 500, half - 500]));
+  }
+  // Word needs a paragraph between two consecutive tables
+  if (body[body.length - 1].startsWith('<w:tbl>')) body.push(paragraph(''));
+  return body;
+};
+
+const documentXml = (exam: ExamModel, variantCode: string, template: TemplateSettings, figures: DocxFigure[]) => {
+  const isVi = exam.language === 'vi';
+  let drawingId = 0;
+  const nextId = () => ++drawingId;
+  const body = headerParagraphs(exam, variantCode, template);
+
+  getPartTypes(exam).forEach((type, part) => {
+    const meta = QUESTION_TYPES.find(t => t.id === type)!;
+    const questions = getQuestionsByType(exam, type);
+    const heading = isVi
+      ? `PHẦN ${ROMAN[part]}: ${meta.sectionVi} (${questions.length} câu)`
+      : `PART ${ROMAN[part]}: ${meta.sectionEn} (${questions.length} questions)`;
+    body.push(paragraph(textRun(heading, { bold: true, size: 28 }), { spaceBefore: 240, keepNext: true }));
+    questions.forEach((q, i) => body.push(...questionBody(q, i, isVi, nextId, figures)));
+  });
+
+  body.push(paragraph(textRun(isVi ? '--- HẾT ---' : '--- END ---', { bold: true }), { align: 'center', spaceBefore: 240 }));
+  if (template.contactFooter.trim()) {
+    body.push(paragraph(textRun(template.contactFooter.trim(), { italic: true, size: 20 }), { align: 'center' }));
+  }
+
+  const section = '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:m="${M_NS}" xmlns:r="${R_NS}" xmlns:wp="${WP_NS}" xmlns:a="${A_NS}" xmlns:pic="${PIC_NS}"><w:body>${body.join('')}${section}</w:body></w:document>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}" xmlns:m="${M_NS}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="26"/><w:szCs w:val="26"/><w:lang w:val="vi-VN"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="60" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style></w:styles>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+const IMAGE_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+
+const documentRelsXml = (figures: DocxFigure[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="${PLACEHOLDER_RELATIONSHIP}" Type="${IMAGE_RELATIONSHIP}" Target="media/image_placeholder.png"/>${figures.map(f => `<Relationship Id="${f.relationship}" Type="${IMAGE_RELATIONSHIP}" Target="media/${escapeXml(f.name)}"/>`).join('')}</Relationships>`;
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// `variantCode` is printed as is; empty leaves a dotted line like the un-shuffled .tex
+// Figures cut from the uploads are embedded; any other image figure gets the placeholder picture
+export const buildExamDocx = (exam: ExamModel, variantCode: string, template: TemplateSettings): Uint8Array => {
+  const figures = readFigures(exam);
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { name: 'word/document.xml', data: documentXml(exam, variantCode, template, figures) },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/_rels/document.xml.rels', data: documentRelsXml(figures) },
+    { name: 'word/media/image_placeholder.png', data: createPlaceholderPng() },
+  ];
+  figures.forEach(f => entries.push({ name: `word/media/${f.name}`, data: f.data }));
+  return createZip(entries);
+};
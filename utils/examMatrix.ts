@@ -0,0 +1,203 @@
+import {
+  COGNITIVE_LEVELS, CognitiveLevel, DEFAULT_TEMPLATE_SETTINGS, ExamMatrix, ExamModel, MatrixCell, MatrixRow, QuestionType, TemplateSettings, getPreamble,
+} from '../types';
+import { fillPlaceholders, formatPoints } from './examRenderer';
+import { escapeLatexText } from './latex';
+
+export const emptyMatrixCell = (): MatrixCell => ({ numMultipleChoice: 0, numEssay: 0, points: 0, requirement: '' });
+
+export const createMatrixRow = (subTopic = ''): MatrixRow => ({
+  id: `row-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  subTopic,
+  cells: { nb: emptyMatrixCell(), th: emptyMatrixCell(), vd: emptyMatrixCell(), vdc: emptyMatrixCell() },
+});
+
+export const isMatrixActive = (matrix: ExamMatrix | undefined): matrix is ExamMatrix =>
+  !!matrix?.enabled && matrix.rows.length > 0;
+
+const cellCount = (cell: MatrixCell) => cell.numMultipleChoice + cell.numEssay;
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export interface MatrixTotals {
+  numMultipleChoice: number;
+  numEssay: number;
+  points: number;
+  byLevel: Record<CognitiveLevel, MatrixCell>;
+}
+
+export const getMatrixTotals = (matrix: ExamMatrix): MatrixTotals => {
+  const byLevel = { nb: emptyMatrixCell(), th: emptyMatrixCell(), vd: emptyMatrixCell(), vdc: emptyMatrixCell() };
+  matrix.rows.forEach(row => COGNITIVE_LEVELS.forEach(({ id }) => {
+    byLevel[id].numMultipleChoice += row.cells[id].numMultipleChoice;
+    byLevel[id].numEssay += row.cells[id].numEssay;
+    byLevel[id].points = round(byLevel[id].points + row.cells[id].points);
+  }));
+  const levels = Object.values(byLevel);
+  return {
+    numMultipleChoice: levels.reduce((sum, c) => sum + c.numMultipleChoice, 0),
+    numEssay: levels.reduce((sum, c) => sum + c.numEssay, 0),
+    points: round(levels.reduce((sum, c) => sum + c.points, 0)),
+    byLevel,
+  };
+};
+
+export const levelLabel = (level: CognitiveLevel, isVi: boolean) => {
+  const entry = COGNITIVE_LEVELS.find(l => l.id === level);
+  return entry ? (isVi ? entry.vi : entry.en) : level;
+};
+
+// "2. Phân số – Thông hiểu"
+export const matrixCellLabel = (matrix: ExamMatrix, cell: { rowId: string; level: CognitiveLevel }, isVi: boolean) => {
+  const index = matrix.rows.findIndex(r => r.id === cell.rowId);
+  if (index === -1) return isVi ? '(dòng đã xoá)' : '(deleted row)';
+  return `${index + 1}. ${matrix.rows[index].subTopic || '…'} – ${levelLabel(cell.level, isVi)}`;
+};
+
+export interface MatrixMismatch {
+  rowId?: string;
+  level?: CognitiveLevel;
+  type?: QuestionType; // Part whose count is short, when questions are missing
+  missing: number; // Questions to add to reach the matrix (0 when the cell has too many or wrong points)
+  questionId?: string; // Question that belongs to no cell of the matrix
+  message: string;
+}
+
+// Compare the paper cell by cell with the matrix: counts per part and total points
+export const findMatrixMismatches = (exam: ExamModel, matrix: ExamMatrix): MatrixMismatch[] => {
+  const isVi = exam.language === 'vi';
+  const mismatches: MatrixMismatch[] = [];
+
+  // The matrix plans multiple-choice and essay questions only; the other parts are counted outside it
+  exam.questions.forEach((q, i) => {
+    if (q.type !== 'mc' && q.type !== 'essay') return;
+    if (!q.matrixCell || !matrix.rows.some(r => r.id === q.matrixCell!.rowId)) {
+      mismatches.push({
+        questionId: q.id,
+        missing: 0,
+        message: isVi ? `Câu ${i + 1} chưa gắn với ô nào của ma trận` : `Question ${i + 1} is not assigned to a matrix cell`,
+      });
+    }
+  });
+
+  matrix.rows.forEach(row => COGNITIVE_LEVELS.forEach(({ id: level }) => {
+    const wanted = row.cells[level];
+    const inCell = exam.questions.filter(q => q.matrixCell?.rowId === row.id && q.matrixCell.level === level);
+    const label = matrixCellLabel(matrix, { rowId: row.id, level }, isVi);
+
+    (['mc', 'essay'] as QuestionType[]).forEach(type => {
+      const have = inCell.filter(q => q.type === type).length;
+      const want = type === 'mc' ? wanted.numMultipleChoice : wanted.numEssay;
+      if (have === want) return;
+      const part = type === 'mc' ? (isVi ? 'trắc nghiệm' : 'multiple-choice') : (isVi ? 'tự luận' : 'essay');
+      mismatches.push({
+        rowId: row.id,
+        level,
+        type,
+        missing: Math.max(0, want - have),
+        message: isVi
+          ? `Ô "${label}": ${have} câu ${part}, ma trận yêu cầu ${want}`
+          : `Cell "${label}": ${have} ${part} questions, the matrix asks for ${want}`,
+      });
+    });
+
+    const points = round(inCell.reduce((sum, q) => sum + q.points, 0));
+    if (cellCount(wanted) > 0 && inCell.length === cellCount(wanted) && points !== round(wanted.points)) {
+      mismatches.push({
+        rowId: row.id,
+        level,
+        missing: 0,
+        message: isVi
+          ? `Ô "${label}": tổng ${formatPoints(points, true)} điểm, ma trận yêu cầu ${formatPoints(wanted.points, true)}`
+          : `Cell "${label}": ${points} points in total, the matrix asks for ${wanted.points}`,
+      });
+    }
+  }));
+
+  return mismatches;
+};
+
+const countText = (count: number) => (count > 0 ? String(count) : '');
+
+const renderMatrixTable = (matrix: ExamMatrix, isVi: boolean) => {
+  const totals = getMatrixTotals(matrix);
+  const header1 = [
+    `\\textbf{TT}`,
+    `\\textbf{${isVi ? 'Nội dung kiến thức' : 'Content'}}`,
+    ...COGNITIVE_LEVELS.map(l => `\\multicolumn{2}{c|}{\\textbf{${isVi ? l.vi : l.en}}}`),
+    `\\textbf{${isVi ? 'Tổng số câu' : 'Questions'}}`,
+    `\\textbf{${isVi ? 'Điểm' : 'Points'}}`,
+  ].join(' & ');
+  const header2 = [' ', ' ', ...COGNITIVE_LEVELS.flatMap(() => [isVi ? 'TN' : 'MC', isVi ? 'TL' : 'CR']), ' ', ' '].join(' & ');
+
+  const rows = matrix.rows.map((row, i) => {
+    const cells = COGNITIVE_LEVELS.flatMap(({ id }) => [countText(row.cells[id].numMultipleChoice), countText(row.cells[id].numEssay)]);
+    const count = COGNITIVE_LEVELS.reduce((sum, { id }) => sum + cellCount(row.cells[id]), 0);
+    const points = round(COGNITIVE_LEVELS.reduce((sum, { id }) => sum + row.cells[id].points, 0));
+    return `    ${i + 1} & ${escapeLatexText(row.subTopic)} & ${cells.join(' & ')} & ${count} & ${formatPoints(points, isVi)} \\\\ \\hline`;
+  });
+
+  const levelCounts = COGNITIVE_LEVELS.flatMap(({ id }) => [countText(totals.byLevel[id].numMultipleChoice), countText(totals.byLevel[id].numEssay)]);
+  const levelPoints = COGNITIVE_LEVELS.map(({ id }) => `\\multicolumn{2}{c|}{${formatPoints(totals.byLevel[id].points, isVi)}}`);
+  const levelPercents = COGNITIVE_LEVELS.map(({ id }) => {
+    const percent = totals.points > 0 ? Math.round((totals.byLevel[id].points / totals.points) * 100) : 0;
+    return `\\multicolumn{2}{c|}{${percent}\\%}`;
+  });
+  const allCount = totals.numMultipleChoice + totals.numEssay;
+
+  return `{\\small
+\\noindent
+\\begin{tabularx}{\\linewidth}{|c|X|*{8}{c|}c|c|} \\hline
+    ${header1} \\\\ \\cline{3-10}
+    ${header2} \\\\ \\hline
+${rows.join('\n')}
+    \\multicolumn{2}{|l|}{\\textbf{${isVi ? 'Tổng số câu' : 'Total questions'}}} & ${levelCounts.join(' & ')} & ${allCount} & \\\\ \\hline
+    \\multicolumn{2}{|l|}{\\textbf{${isVi ? 'Tổng điểm' : 'Total points'}}} & ${levelPoints.join(' & ')} & & ${formatPoints(totals.points, isVi)} \\\\ \\hline
+    \\multicolumn{2}{|l|}{\\textbf{${isVi ? 'Tỉ lệ' : 'Share'}}} & ${levelPercents.join(' & ')} & & 100\\% \\\\ \\hline
+\\end{tabularx}
+}`;
+};
+
+// Bảng đặc tả: one line per non-empty cell, grouped under its content row
+const renderSpecificationTable = (matrix: ExamMatrix, isVi: boolean) => {
+  const rows = matrix.rows.map((row, i) => {
+    const levels = COGNITIVE_LEVELS.filter(({ id }) => cellCount(row.cells[id]) > 0);
+    if (levels.length === 0) return '';
+    return levels.map(({ id }, j) => {
+      const cell = row.cells[id];
+      const first = j === 0 ? `${i + 1} & ${escapeLatexText(row.subTopic)}` : ' & ';
+      const rule = j === levels.length - 1 ? '\\hline' : '\\cline{3-6}';
+      return `    ${first} & ${levelLabel(id, isVi)} & ${escapeLatexText(cell.requirement)} & ${countText(cell.numMultipleChoice)} & ${countText(cell.numEssay)} \\\\ ${rule}`;
+    }).join('\n');
+  }).filter(Boolean);
+
+  return `{\\small
+\\noindent
+\\begin{tabularx}{\\linewidth}{|c|p{3cm}|p{2.4cm}|X|c|c|} \\hline
+    \\textbf{TT} & \\textbf{${isVi ? 'Nội dung kiến thức' : 'Content'}} & \\textbf{${isVi ? 'Mức độ' : 'Level'}} & \\textbf{${isVi ? 'Yêu cầu cần đạt' : 'Learning requirement'}} & \\textbf{${isVi ? 'TN' : 'MC'}} & \\textbf{${isVi ? 'TL' : 'CR'}} \\\\ \\hline
+${rows.join('\n')}
+\\end{tabularx}
+}`;
+};
+
+// Matrix and specification table as their own document, handed out with the exam
+export const renderMatrixLatex = (matrix: ExamMatrix, exam: ExamModel, template: TemplateSettings = DEFAULT_TEMPLATE_SETTINGS) => {
+  const isVi = exam.language === 'vi';
+  return `${fillPlaceholders(getPreamble(exam.language, template), exam, '', template)}
+
+\\begin{document}
+
+\\begin{center}
+    \\textbf{\\Large ${isVi ? 'MA TRẬN ĐỀ KIỂM TRA' : 'TEST SPECIFICATION MATRIX'}} \\\\
+    \\textit{${isVi ? `Chủ đề: ${escapeLatexText(exam.topic)} -- Lớp ${exam.grade}` : `Topic: ${escapeLatexText(exam.topic)} -- Grade ${exam.grade}`}}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt}
+\\vspace{0.3cm}
+
+${renderMatrixTable(matrix, isVi)}
+
+\\section*{${isVi ? 'BẢN ĐẶC TẢ ĐỀ KIỂM TRA' : 'SPECIFICATION TABLE'}}
+
+${renderSpecificationTable(matrix, isVi)}
+
+\\end{document}`;
+};
@@ -0,0 +1,275 @@
+import {
+  COGNITIVE_LEVELS, CognitiveLevel, DEFAULT_PART_TYPES, ExamConfig, ExamDifficulty, ExamMatrix, ExamModel, ExamQuestion, FigureSpec, MarkingStep,
+  MatchingPair, QUESTION_TYPES, QuestionTranslation, QuestionType, SourceFigure, TrueFalseStatement,
+} from '../types';
+
+export const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+export const STATEMENT_LETTERS = ['a', 'b', 'c', 'd'];
+
+let idCounter = 0;
+export const createQuestionId = () => `q-${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+const asNumber = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+// The model's JSON is read through these, so a missing or mistyped field falls back instead of throwing
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const normalizeFigure = (value: unknown): FigureSpec => {
+  const raw = asRecord(value);
+  const kind = raw.kind === 'tikz' || raw.kind === 'image' ? raw.kind : 'none';
+  return {
+    kind,
+    tikz: asString(raw.tikz) || undefined,
+    description: asString(raw.description) || undefined,
+    image: (kind === 'image' && asString(raw.image)) || undefined,
+  };
+};
+
+const normalizeDifficulty = (value: unknown, fallback: ExamDifficulty): ExamDifficulty =>
+  (Object.values(ExamDifficulty) as string[]).includes(value as string) ? (value as ExamDifficulty) : fallback;
+
+// The model names a cell by 1-based row number and level code
+const normalizeMatrixCell = (raw: Record<string, unknown>, matrix: ExamMatrix | undefined): ExamQuestion['matrixCell'] => {
+  if (!matrix?.enabled) return undefined;
+  const row = matrix.rows[Math.round(asNumber(raw.matrixRow, 0)) - 1];
+  const level = COGNITIVE_LEVELS.find(l => l.id === raw.level)?.id as CognitiveLevel | undefined;
+  return row && level ? { rowId: row.id, level } : undefined;
+};
+
+// Column B order for a matching question: a fixed shuffle of the pairs that never leaves every pair level
+export const shuffleMatchOrder = (pairs: MatchingPair[]): number[] => {
+  let seed = 0;
+  for (const ch of pairs.map(p => p.right).join('|')) seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+  const order = pairs.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.length > 1 && order.every((index, i) => index === i)) order.push(order.shift()!);
+  return order;
+};
+
+export const isValidMatchOrder = (order: number[] | undefined, count: number) =>
+  !!order && order.length === count && order.every((index, i) => order.indexOf(index) === i && index >= 0 && index < count);
+
+const normalizeType = (value: unknown): QuestionType =>
+  QUESTION_TYPES.find(t => t.id === value)?.id || 'mc';
+
+// Short answers are a single number; the model sometimes wraps it in $...$ or adds a unit
+const normalizeShortAnswer = (value: unknown) => {
+  const text = asString(value).replace(/\$/g, '').trim();
+  const number = /-?\d+(?:[.,]\d+)?/.exec(text);
+  return number ? number[0] : text;
+};
+
+// Bilingual papers: the translated texts, cut to the shape of the original so the two sides line up
+const normalizeTranslation = (value: unknown, question: ExamQuestion): QuestionTranslation | undefined => {
+  const raw = asRecord(value);
+  const stem = asString(raw.stem);
+  if (!stem) return undefined;
+  const translation: QuestionTranslation = { stem };
+  if (question.type === 'mc') translation.options = asList(raw.options).map(asString).slice(0, question.options.length);
+  if (question.type === 'trueFalse') {
+    translation.statements = asList(raw.statements).map(s => asString(typeof s === 'string' ? s : asRecord(s).text)).slice(0, question.statements?.length);
+  }
+  if (question.type === 'matching') {
+    translation.pairs = asList(raw.pairs).map(asRecord).map((p): MatchingPair => ({ left: asString(p.left), right: asString(p.right) })).slice(0, question.pairs?.length);
+  }
+  return translation;
+};
+
+// Turn whatever the model returned for one question into a complete ExamQuestion
+export const normalizeQuestion = (value: unknown, fallbackDifficulty: ExamDifficulty, matrix?: ExamMatrix): ExamQuestion => {
+  const raw = asRecord(value);
+  const type = normalizeType(raw.type);
+  const options = type === 'mc' ? asList(raw.options).map(asString).slice(0, OPTION_LETTERS.length) : [];
+  const letter = asString(raw.correctAnswer).replace(/[^A-Da-d]/g, '').charAt(0).toUpperCase();
+  const markingScheme: MarkingStep[] = asList(raw.markingScheme)
+    .map(asRecord)
+    .map(s => ({ step: asString(s.step), points: asNumber(s.points, 0) }))
+    .filter(s => s.step);
+
+  const question: ExamQuestion = {
+    id: createQuestionId(),
+    type,
+    stem: asString(raw.stem),
+    options,
+    correctAnswer: type === 'mc' ? letter || 'A' : type === 'shortAnswer' ? normalizeShortAnswer(raw.correctAnswer) : asString(raw.correctAnswer),
+    solution: asString(raw.solution),
+    markingScheme,
+    figure: normalizeFigure(raw.figure),
+    difficulty: normalizeDifficulty(raw.difficulty, fallbackDifficulty),
+    points: asNumber(raw.points, type === 'mc' ? 0.25 : type === 'shortAnswer' ? 0.5 : 1),
+    matrixCell: normalizeMatrixCell(raw, matrix),
+  };
+
+  if (type === 'trueFalse') {
+    question.statements = asList(raw.statements)
+      .map(asRecord)
+      .map((s): TrueFalseStatement => ({ text: asString(s.text), isTrue: s.isTrue === true }))
+      .filter(s => s.text)
+      .slice(0, STATEMENT_LETTERS.length);
+    question.correctAnswer = '';
+  }
+  if (type === 'matching') {
+    question.pairs = asList(raw.pairs)
+      .map(asRecord)
+      .map((p): MatchingPair => ({ left: asString(p.left), right: asString(p.right) }))
+      .filter(p => p.left && p.right);
+    question.matchOrder = shuffleMatchOrder(question.pairs);
+    question.correctAnswer = '';
+  }
+  if (type === 'fillBlank') {
+    question.blanks = asList(raw.blanks).map(asString);
+    question.correctAnswer = '';
+  }
+  const skill = asString(raw.skill);
+  if (skill) question.skill = skill;
+  const translation = normalizeTranslation(raw.translation, question);
+  if (translation) question.translation = translation;
+  return question;
+};
+
+// The key of any question type as one line of plain text: "B", "a) Đ  b) S ...", "1-c, 2-a ...", "(1) 5; (2) 7"
+export const describeAnswer = (question: ExamQuestion, isVi: boolean) => {
+  switch (question.type) {
+    case 'trueFalse':
+      return (question.statements || [])
+        .map((s, i) => `${STATEMENT_LETTERS[i]}) ${s.isTrue ? (isVi ? 'Đ' : 'T') : (isVi ? 'S' : 'F')}`)
+        .join('  ');
+    case 'matching': {
+      const order = question.matchOrder || [];
+      return (question.pairs || []).map((_, i) => `${i + 1}-${String.fromCharCode(97 + order.indexOf(i))}`).join(', ');
+    }
+    case 'fillBlank':
+      return (question.blanks || []).map((b, i) => `(${i + 1}) ${b}`).join('; ');
+    default:
+      return question.correctAnswer;
+  }
+};
+
+export const questionTypeLabel = (type: QuestionType, isVi: boolean) => {
+  const meta = QUESTION_TYPES.find(t => t.id === type);
+  return meta ? (isVi ? meta.vi : meta.en) : type;
+};
+
+// Parts printed in the paper, in order: Part I and the essay part always, the others when they have questions
+export const getPartTypes = (exam: ExamModel): QuestionType[] =>
+  QUESTION_TYPES.map(t => t.id).filter(type => DEFAULT_PART_TYPES.includes(type) || exam.questions.some(q => q.type === type));
+
+// Questions grouped part by part, in print order
+export const sortByPart = (questions: ExamQuestion[]) =>
+  QUESTION_TYPES.flatMap(({ id }) => questions.filter(q => q.type === id));
+
+// `normalized` lets a caller pass questions it has already normalized (e.g. while streaming)
+export const normalizeExamModel = (value: unknown, config: ExamConfig, normalized?: ExamQuestion[]): ExamModel => {
+  const raw = asRecord(value);
+  const questions = normalized || asList(raw.questions).map(q => normalizeQuestion(q, config.difficulty, config.matrix));
+
+  return {
+    topic: asString(raw.topic) || config.topic,
+    grade: config.grade,
+    language: config.language,
+    bilingual: config.bilingual,
+    // Parts always follow print order, whatever order the model wrote them in
+    questions: sortByPart(questions),
+  };
+};
+
+// Carries the cut figures the questions name; a name the model made up falls back to the placeholder picture
+export const attachFigures = (exam: ExamModel, figures: SourceFigure[]): ExamModel => {
+  if (figures.length === 0) return exam;
+  const images: Record<string, string> = { ...exam.images };
+  const questions = exam.questions.map(q => {
+    const figure = figures.find(f => f.name === q.figure.image);
+    if (figure) images[figure.name] = figure.dataUrl;
+    return figure || !q.figure.image ? q : { ...q, figure: { ...q.figure, image: undefined } };
+  });
+  return { ...exam, questions, images };
+};
+
+// Complete {...} items of the JSON array that follows `"key": [` in a response that is still streaming in
+const readCompleteArrayItems = (text: string, key: string): unknown[] => {
+  const match = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!match) return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && start !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(start, i + 1)));
+        } catch {
+          // Malformed item; the final parse will report it
+        }
+        start = -1;
+      }
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return items;
+};
+
+// What can already be read from a partially streamed exam: the topic (once closed) and every finished question
+export const readStreamedExam = (text: string): { topic: string; questions: unknown[] } => {
+  const topic = /"topic"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(text);
+  let parsedTopic = '';
+  if (topic) {
+    try {
+      parsedTopic = JSON.parse(`"${topic[1]}"`);
+    } catch {
+      parsedTopic = topic[1];
+    }
+  }
+  return { topic: parsedTopic, questions: readCompleteArrayItems(text, 'questions') };
+};
+
+export const getQuestionsByType = (exam: ExamModel, type: ExamQuestion['type']) =>
+  exam.questions.filter(q => q.type === type);
+
+export const replaceQuestion = (exam: ExamModel, question: ExamQuestion): ExamModel => ({
+  ...exam,
+  questions: exam.questions.map(q => (q.id === question.id ? question : q)),
+});
+
+export const removeQuestion = (exam: ExamModel, id: string): ExamModel => ({
+  ...exam,
+  questions: exam.questions.filter(q => q.id !== id),
+});
+
+// Swap a question with its neighbour in the same part; moving past either end of the part is a no-op
+export const moveQuestion = (exam: ExamModel, id: string, offset: -1 | 1): ExamModel => {
+  const index = exam.questions.findIndex(q => q.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= exam.questions.length) return exam;
+  if (exam.questions[target].type !== exam.questions[index].type) return exam;
+
+  const questions = [...exam.questions];
+  [questions[index], questions[target]] = [questions[target], questions[index]];
+  return { ...exam, questions };
+};
+
+// Add questions to an exam, keeping the parts in print order
+export const appendQuestions = (exam: ExamModel, added: ExamQuestion[]): ExamModel => ({
+  ...exam,
+  questions: sortByPart([...exam.questions, ...added]),
+});
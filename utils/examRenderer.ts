@@ -0,0 +1,429 @@
+import {
+  BilingualLayout, BUILT_IN_PLACEHOLDERS, DEFAULT_TEMPLATE_SETTINGS, ExamModel, ExamQuestion, getAnswerKeyTemplate, getLatexTemplate, MatchingPair,
+  QUESTION_TYPES, QuestionTranslation, QuestionType, TemplateSettings,
+} from '../types';
+import { describeAnswer, getPartTypes, getQuestionsByType, isValidMatchOrder, STATEMENT_LETTERS } from './examModel';
+import { escapeLatexText, findEnvironmentBlocks, getSectionRanges, LatexBlock, readBraceGroup } from './latex';
+import { PLACEHOLDER_IMAGE_NAME } from './placeholderImage';
+
+// Printed on the un-shuffled original in place of a variant code
+export const BLANK_VARIANT_CODE = '\\makebox[1.5cm]{\\dotfill}';
+
+const CONTENT_MARKER = '% [CONTENT GENERATED BY AI WILL GO HERE]';
+const ANSWERS_MARKER = '% [ANSWERS WILL GO HERE]';
+
+// Vietnamese papers write decimal points with a comma: "0,25 điểm"
+export const formatPoints = (points: number, isVi: boolean) => {
+  const text = String(Math.round(points * 100) / 100);
+  return isVi ? text.replace('.', ',') : text;
+};
+
+// The uploaded logo is saved as logo.<ext> beside the .tex file
+export const getLogoFileName = (template: TemplateSettings) => {
+  if (!template.logo) return '';
+  const ext = /\.([a-z0-9]+)$/i.exec(template.logo.fileName)?.[1]?.toLowerCase() || 'png';
+  return `logo.${ext}`;
+};
+
+// "[TỔ CHUYÊN MÔN]"-style placeholders in a pasted preamble that the built-in ones do not cover
+export const findDeclaredPlaceholders = (source: string): string[] => {
+  const found = source.match(/\[[A-ZÀ-Ỹ_ ]+\]/g) || [];
+  return Array.from(new Set(found)).filter(key => !BUILT_IN_PLACEHOLDERS.includes(key));
+};
+
+export const fillPlaceholders = (
+  template: string,
+  exam: ExamModel,
+  variantCode: string,
+  settings: TemplateSettings = DEFAULT_TEMPLATE_SETTINGS
+) => {
+  const school = escapeLatexText(settings.schoolName.trim()) || '\\makebox[5cm]{\\dotfill}';
+  const logo = settings.logo
+    ? `\\begin{center}\\includegraphics[height=1.6cm]{${getLogoFileName(settings)}}\\end{center}`
+    : '';
+  // The topic is typed on the form, so it is plain text too; uppercased before escaping so the commands stay intact
+  const topic = escapeLatexText(exam.topic);
+  const values: Record<string, string> = {
+    '[CHỦ ĐỀ IN HOA]': escapeLatexText(exam.topic.toLocaleUpperCase('vi')),
+    '[TOPIC UPPERCASE]': escapeLatexText(exam.topic.toUpperCase()),
+    '[CHỦ ĐỀ]': topic,
+    '[TOPIC]': topic,
+    '[LỚP]': exam.grade,
+    '[GRADE]': exam.grade,
+    '[MÃ ĐỀ]': variantCode,
+    '[VARIANT]': variantCode,
+    '[TRƯỜNG]': school,
+    '[SCHOOL]': school,
+    '[GIÁO VIÊN]': escapeLatexText(settings.teacherName.trim()),
+    '[TEACHER]': escapeLatexText(settings.teacherName.trim()),
+    '[THỜI GIAN]': escapeLatexText(settings.duration.trim()),
+    '[DURATION]': escapeLatexText(settings.duration.trim()),
+    '[HÌNH MỜ]': escapeLatexText(settings.watermark.trim()),
+    '[WATERMARK]': escapeLatexText(settings.watermark.trim()),
+    '[LIÊN HỆ]': escapeLatexText(settings.contactFooter.trim()),
+    '[CONTACT]': escapeLatexText(settings.contactFooter.trim()),
+    '[LOGO]': logo,
+  };
+  QUESTION_TYPES.forEach(t => {
+    const count = String(getQuestionsByType(exam, t.id).length);
+    values[t.countPlaceholderVi] = count;
+    values[t.countPlaceholderEn] = count;
+  });
+  // Declared placeholders of a custom preamble; an unfilled one stays visible so it gets noticed
+  settings.customPreamble?.placeholders.forEach(p => {
+    if (p.value.trim()) values[p.key] = escapeLatexText(p.value.trim());
+  });
+
+  return Object.entries(values).reduce((text, [placeholder, value]) => text.split(placeholder).join(value), template);
+};
+
+// Replace the first occurrence of a marker comment (the templates have one per part)
+const replaceMarker = (template: string, marker: string, content: string) => {
+  const index = template.indexOf(marker);
+  return index === -1 ? template : template.slice(0, index) + content + template.slice(index + marker.length);
+};
+
+// Short options sit four to a row, long ones two or one
+export const taskColumns = (options: string[]) => {
+  const longest = Math.max(0, ...options.map(o => o.length));
+  if (longest <= 20) return 4;
+  if (longest <= 45) return 2;
+  return 1;
+};
+
+export const renderFigure = (question: ExamQuestion, isVi: boolean) => {
+  const { figure } = question;
+  if (figure.kind === 'tikz' && figure.tikz) {
+    return `\\begin{center}\n${figure.tikz}\n\\end{center}\n`;
+  }
+  if (figure.kind === 'image') {
+    const caption = figure.description || (isVi ? 'Thay thế bằng hình ảnh bài toán...' : 'Replace with the problem figure...');
+    return `\\begin{center}\n\\includegraphics[width=5cm]{${figure.image || PLACEHOLDER_IMAGE_NAME}} % ${caption.replace(/\n/g, ' ')}\n\\end{center}\n`;
+  }
+  return '';
+};
+
+// Multiple-choice questions share the part's points; every other type shows its own
+export const questionLabel = (question: ExamQuestion, index: number, isVi: boolean) => {
+  const name = question.translation ? (isVi ? 'Câu / Question' : 'Question / Câu') : isVi ? 'Câu' : 'Question';
+  return question.type === 'mc'
+    ? `${name} ${index + 1}:`
+    : `${name} ${index + 1} (${formatPoints(question.points, isVi)} ${isVi ? 'điểm' : 'marks'}):`;
+};
+
+// What a question shows in one language, apart from the figure
+interface QuestionText {
+  stem: string;
+  options: string[];
+  statements: string[];
+  pairs: MatchingPair[];
+}
+
+const originalText = (question: ExamQuestion): QuestionText => ({
+  stem: question.stem,
+  options: question.options,
+  statements: (question.statements || []).map(s => s.text),
+  pairs: question.pairs || [],
+});
+
+// Missing pieces of a translation fall back to the original, so both sides always have the same shape
+const translatedText = (question: ExamQuestion, translation: QuestionTranslation): QuestionText => {
+  const original = originalText(question);
+  return {
+    stem: translation.stem,
+    options: original.options.map((o, i) => translation.options?.[i] || o),
+    statements: original.statements.map((s, i) => translation.statements?.[i] || s),
+    pairs: original.pairs.map((p, i) => ({ left: translation.pairs?.[i]?.left || p.left, right: translation.pairs?.[i]?.right || p.right })),
+  };
+};
+
+// Stacked layout: the translation goes under each piece of text that it changes
+const withTranslation = (text: string, translation: string) => (translation && translation !== text ? `${text} \\translated{${translation}}` : text);
+
+const stackedText = (original: QuestionText, translated: QuestionText): QuestionText => ({
+  stem: `${original.stem}\n\\translated{${translated.stem}}`,
+  options: original.options.map((o, i) => withTranslation(o, translated.options[i])),
+  statements: original.statements.map((s, i) => withTranslation(s, translated.statements[i])),
+  pairs: original.pairs.map((p, i) => ({ left: withTranslation(p.left, translated.pairs[i].left), right: withTranslation(p.right, translated.pairs[i].right) })),
+});
+
+// Options, statements or pairs, whichever the question type has
+const renderResponses = (question: ExamQuestion, text: QuestionText) => {
+  let body = '';
+  if (question.type === 'mc' && text.options.length > 0) {
+    const options = text.options.map(option => `    \\task ${option}`).join('\n');
+    body += `\\begin{tasks}(${taskColumns(text.options)})\n${options}\n\\end{tasks}\n`;
+  }
+  if (question.type === 'trueFalse') {
+    const items = text.statements.map((s, i) => `    \\tfitem{${STATEMENT_LETTERS[i]}}{${s}}`).join('\n');
+    body += `\\begin{tfstatements}\n${items}\n\\end{tfstatements}\n`;
+  }
+  if (question.type === 'matching') {
+    const pairs = text.pairs;
+    const order = isValidMatchOrder(question.matchOrder, pairs.length) ? question.matchOrder! : pairs.map((_, i) => i);
+    const rows = pairs.map((pair, i) =>
+      `    \\matchpair{${i + 1}}{${pair.left}}{${String.fromCharCode(97 + i)}}{${pairs[order[i]].right}}`).join('\n');
+    body += `\\begin{matching}\n${rows}\n\\end{matching}\n`;
+  }
+  return body;
+};
+
+export const renderQuestion = (question: ExamQuestion, index: number, isVi: boolean, layout: BilingualLayout = 'stacked') => {
+  const original = originalText(question);
+  const answerLine = question.type === 'shortAnswer' ? '\\answerline\n' : '';
+  let body: string;
+
+  if (question.translation && layout === 'columns') {
+    const translated = translatedText(question, question.translation);
+    body = `\\begin{bilingualcolumns}\n${original.stem}\n${renderResponses(question, original)}\\switchlanguage\n`
+      + `${translated.stem}\n${renderResponses(question, translated)}\\end{bilingualcolumns}\n${renderFigure(question, isVi)}${answerLine}`;
+  } else {
+    const text = question.translation ? stackedText(original, translatedText(question, question.translation)) : original;
+    body = `${text.stem}\n${renderFigure(question, isVi)}${renderResponses(question, text)}${answerLine}`;
+  }
+
+  return `\\begin{questionbox}{${questionLabel(question, index, isVi)}}\n${body}\\end{questionbox}\n`;
+};
+
+// "text \translated{translation}" -> both halves; text without the command has no translation
+const splitTranslated = (text: string): [string, string | undefined] => {
+  const at = text.indexOf('\\translated{');
+  const group = at === -1 ? null : readBraceGroup(text, at + '\\translated'.length);
+  if (!group) return [text.trim(), undefined];
+  return [(text.slice(0, at) + text.slice(group.end)).trim(), group.content.trim()];
+};
+
+// The original-language LaTeX of a question: the translation column and every \\translated{...} removed
+export const stripTranslations = (latex: string) => {
+  let text = latex.replace(/\\switchlanguage(?![a-zA-Z])[\s\S]*?(?=\\end\{bilingualcolumns\})/g, '');
+  let at: number;
+  while ((at = text.indexOf('\\translated{')) !== -1) {
+    const group = readBraceGroup(text, at + '\\translated'.length);
+    if (!group) break;
+    text = text.slice(0, at) + text.slice(group.end);
+  }
+  return text;
+};
+
+// Inverse of renderQuestion for a hand-edited questionbox: options come from \task items, the figure from
+// the centred tikzpicture/includegraphics, and the rest is the stem. Answers and solutions are kept.
+// A bilingual question is read back from either layout: the right column, or each \translated{...}.
+export const parseQuestionLatex = (latex: string, question: ExamQuestion): ExamQuestion => {
+  let body = latex.trim();
+  let points = question.points;
+
+  const open = /^\\begin\{questionbox\}\{((?:[^{}]|\{[^{}]*\})*)\}/.exec(body);
+  if (open) {
+    const marks = /\((\d+(?:[.,]\d+)?)/.exec(open[1]);
+    if (question.type !== 'mc' && marks) points = parseFloat(marks[1].replace(',', '.'));
+    body = body.slice(open[0].length);
+  }
+  body = body.replace(/\\end\{questionbox\}\s*$/, '');
+
+  let side: ExamQuestion | null = null;
+  const columns = /\\begin\{bilingualcolumns\}([\s\S]*?)\\end\{bilingualcolumns\}/.exec(body);
+  if (columns) {
+    const [left, right = ''] = columns[1].split(/\\switchlanguage(?![a-zA-Z])/);
+    side = parseQuestionLatex(right, { ...question, translation: undefined });
+    body = body.slice(0, columns.index) + left + body.slice(columns.index + columns[0].length);
+  }
+  let stacked = false;
+  const split = (text: string) => {
+    const [original, translation] = splitTranslated(text);
+    if (translation !== undefined) stacked = true;
+    return { original, translation: translation ?? original };
+  };
+
+  let options = question.options;
+  let optionTranslations: string[] = [];
+  const tasks = /\\begin\{tasks\}(\(\d+\))?([\s\S]*?)\\end\{tasks\}/.exec(body);
+  if (tasks) {
+    const items = tasks[2].split(/\\task(?![a-zA-Z])/).slice(1).map(option => split(option));
+    options = items.map(item => item.original);
+    optionTranslations = items.map(item => item.translation);
+    body = body.slice(0, tasks.index) + body.slice(tasks.index + tasks[0].length);
+  } else if (question.type === 'mc') {
+    options = [];
+  }
+
+  // True/false statements keep their truth value by position; matching pairs are read back through the print order
+  let { statements, pairs } = question;
+  const statementTranslations: string[] = [];
+  let pairTranslations: MatchingPair[] = [];
+  const tf = /\\begin\{tfstatements\}([\s\S]*?)\\end\{tfstatements\}/.exec(body);
+  if (tf) {
+    statements = [];
+    const item = /\\tfitem\{[^{}]*\}\{((?:[^{}]|\{(?:[^{}]|\{[^{}]*\})*\})*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = item.exec(tf[1])) !== null) {
+      const text = split(match[1]);
+      statements.push({ text: text.original, isTrue: question.statements?.[statements.length]?.isTrue ?? false });
+      statementTranslations.push(text.translation);
+    }
+    body = body.slice(0, tf.index) + body.slice(tf.index + tf[0].length);
+  }
+  const matching = /\\begin\{matching\}([\s\S]*?)\\end\{matching\}/.exec(body);
+  if (matching) {
+    const arg = '\\{((?:[^{}]|\\{(?:[^{}]|\\{[^{}]*\\})*\\})*)\\}';
+    const row = new RegExp(`\\\\matchpair${arg}${arg}${arg}${arg}`, 'g');
+    const rows: { original: string; translation: string }[][] = [];
+    let match: RegExpExecArray | null;
+    while ((match = row.exec(matching[1])) !== null) rows.push([split(match[2]), split(match[4])]);
+    const order = isValidMatchOrder(question.matchOrder, rows.length) ? question.matchOrder! : rows.map((_, i) => i);
+    pairs = rows.map(([left], i) => ({ left: left.original, right: rows[order.indexOf(i)][1].original }));
+    pairTranslations = rows.map(([left], i) => ({ left: left.translation, right: rows[order.indexOf(i)][1].translation }));
+    body = body.slice(0, matching.index) + body.slice(matching.index + matching[0].length);
+  }
+  body = body.replace(/\\answerline\s*/g, '');
+
+  let figure: ExamQuestion['figure'] = { kind: 'none', description: question.figure.description };
+  const tikz = /(?:\\begin\{center\}\s*)?(\\begin\{tikzpicture\}[\s\S]*?\\end\{tikzpicture\})(?:\s*\\end\{center\})?/.exec(body);
+  const image = /(?:\\begin\{center\}\s*)?\\includegraphics(?:\[[^\]]*\])?\{([^}]*)\}[ \t]*(?:%[ \t]*(.*))?(?:\s*\\end\{center\})?/.exec(body);
+  if (tikz) {
+    figure = { kind: 'tikz', tikz: tikz[1], description: question.figure.description };
+    body = body.slice(0, tikz.index) + body.slice(tikz.index + tikz[0].length);
+  } else if (image) {
+    const file = image[1].trim();
+    figure = { kind: 'image', description: image[2]?.trim() || question.figure.description, image: file && file !== PLACEHOLDER_IMAGE_NAME ? file : undefined };
+    body = body.slice(0, image.index) + body.slice(image.index + image[0].length);
+  }
+  const stem = split(body);
+
+  // Only the pieces the question type has; with no translation markup left, the question is monolingual again
+  let translation: QuestionTranslation | undefined;
+  if (side) {
+    translation = { stem: side.stem, options: side.options, statements: side.statements?.map(s => s.text), pairs: side.pairs };
+  } else if (stacked) {
+    translation = { stem: stem.translation, options: optionTranslations, statements: statementTranslations, pairs: pairTranslations };
+  }
+  if (translation) {
+    if (question.type !== 'mc') delete translation.options;
+    if (question.type !== 'trueFalse') delete translation.statements;
+    if (question.type !== 'matching') delete translation.pairs;
+  }
+
+  return { ...question, stem: stem.original, options, figure, points, statements, pairs, translation };
+};
+
+export interface QuestionBlock extends LatexBlock {
+  question: ExamQuestion;
+}
+
+// The \\section* ranges of a rendered document, paired with the part each one holds
+export const getPartRanges = (latex: string, exam: ExamModel): { type: QuestionType; start: number; end: number }[] => {
+  const ranges = getSectionRanges(latex);
+  return getPartTypes(exam).map((type, i) => (ranges[i] ? { type, ...ranges[i] } : null)).filter(Boolean);
+};
+
+// Map the questionbox blocks of each part back to the model questions they were rendered from
+export const getQuestionBlocks = (latex: string, exam: ExamModel): QuestionBlock[] => {
+  const blocks: QuestionBlock[] = [];
+
+  getPartRanges(latex, exam).forEach(range => {
+    const questions = getQuestionsByType(exam, range.type);
+    findEnvironmentBlocks(latex, 'questionbox', range.start, range.end).forEach((block, i) => {
+      if (questions[i]) blocks.push({ ...block, question: questions[i] });
+    });
+  });
+  return blocks;
+};
+
+export const renderExamLatex = (exam: ExamModel, variantCode = BLANK_VARIANT_CODE, template = DEFAULT_TEMPLATE_SETTINGS) => {
+  const isVi = exam.language === 'vi';
+  const types = getPartTypes(exam);
+
+  let latex = fillPlaceholders(getLatexTemplate(exam.language, template, types, !!exam.bilingual), exam, variantCode, template);
+  types.forEach(type => {
+    const content = getQuestionsByType(exam, type).map((q, i) => renderQuestion(q, i, isVi, template.bilingualLayout)).join('\n');
+    latex = replaceMarker(latex, CONTENT_MARKER, content);
+  });
+  return latex;
+};
+
+// Ten questions per row block: "Câu | 1 | 2 ..." over "Đáp án | A | C ..."
+export const renderAnswerGrid = (answers: string[], isVi: boolean) => {
+  if (answers.length === 0) return '';
+
+  const rows: string[] = [];
+  for (let i = 0; i < answers.length; i += 10) {
+    const chunk = answers.slice(i, i + 10);
+    rows.push(
+      `    \\textbf{${isVi ? 'Câu' : 'Question'}} & ${chunk.map((_, j) => i + j + 1).join(' & ')} \\\\ \\hline\n` +
+      `    \\textbf{${isVi ? 'Đáp án' : 'Answer'}} & ${chunk.join(' & ')} \\\\ \\hline`
+    );
+  }
+
+  return `\\noindent
+\\begin{tabularx}{\\linewidth}{|l|*{10}{>{\\centering\\arraybackslash}X|}} \\hline
+${rows.join('\n')}
+\\end{tabularx}
+`;
+};
+
+const renderSolution = (question: ExamQuestion, index: number, isVi: boolean) => {
+  const label = question.type === 'mc' || question.type === 'shortAnswer'
+    ? `${isVi ? 'Câu' : 'Question'} ${index + 1}: ${question.correctAnswer}`
+    : `${isVi ? 'Câu' : 'Question'} ${index + 1} (${formatPoints(question.points, isVi)} ${isVi ? 'điểm' : 'marks'})`;
+
+  const steps = question.type === 'essay' && question.markingScheme.length > 0
+    ? question.markingScheme.map(s => `${s.step} \\diem{${formatPoints(s.points, isVi)}}\\par`).join('\n')
+    : question.solution;
+
+  const answer = describeAnswer(question, isVi);
+  const finalAnswer = question.type !== 'mc' && question.type !== 'shortAnswer' && answer
+    ? `\n\\textbf{${isVi ? (question.type === 'essay' ? 'Đáp số' : 'Đáp án') : 'Answer'}:} ${answer}`
+    : '';
+
+  return `\\begin{solutionbox}{${label}}\n${steps}${finalAnswer}\n\\end{solutionbox}\n`;
+};
+
+// One row per question, Đ/S under each statement letter
+const renderTrueFalseGrid = (questions: ExamQuestion[], isVi: boolean) => {
+  if (questions.length === 0) return '';
+  const rows = questions.map((q, i) => {
+    const marks = STATEMENT_LETTERS.map((_, j) => {
+      const statement = q.statements?.[j];
+      if (!statement) return '';
+      return statement.isTrue ? (isVi ? 'Đ' : 'T') : (isVi ? 'S' : 'F');
+    });
+    return `    ${i + 1} & ${marks.join(' & ')} \\\\ \\hline`;
+  });
+
+  return `\\begin{center}
+\\begin{tabular}{|c|c|c|c|c|} \\hline
+    \\textbf{${isVi ? 'Câu' : 'Question'}} & ${STATEMENT_LETTERS.map(l => `\\textbf{${l})}`).join(' & ')} \\\\ \\hline
+${rows.join('\n')}
+\\end{tabular}
+\\end{center}
+`;
+};
+
+// Parts with a one-line key get a grid and then worked solutions for the questions that have one
+const renderPartAnswers = (type: QuestionType, questions: ExamQuestion[], isVi: boolean) => {
+  const solutions = (withHeading: boolean) => {
+    const boxes = questions.map((q, i) => (q.solution ? renderSolution(q, i, isVi) : '')).filter(Boolean);
+    if (boxes.length === 0) return '';
+    return withHeading ? `\n\\subsection*{${isVi ? 'Lời giải chi tiết' : 'Worked solutions'}}\n${boxes.join('\n')}` : boxes.join('\n');
+  };
+
+  switch (type) {
+    case 'mc':
+    case 'shortAnswer':
+      return renderAnswerGrid(questions.map(q => q.correctAnswer), isVi) + solutions(true);
+    case 'trueFalse':
+      return renderTrueFalseGrid(questions, isVi) + solutions(true);
+    default:
+      return questions.map((q, i) => renderSolution(q, i, isVi)).join('\n');
+  }
+};
+
+export const renderAnswerKeyLatex = (exam: ExamModel, template = DEFAULT_TEMPLATE_SETTINGS) => {
+  const isVi = exam.language === 'vi';
+  const types = getPartTypes(exam);
+
+  let latex = fillPlaceholders(getAnswerKeyTemplate(exam.language, template, types), exam, '', template);
+  types.forEach(type => {
+    latex = replaceMarker(latex, ANSWERS_MARKER, renderPartAnswers(type, getQuestionsByType(exam, type), isVi));
+  });
+  return latex;
+};
@@ -0,0 +1,109 @@
+// Remove the ```latex / ```json fences the model sometimes wraps around its answer
+export const stripCodeFences = (raw: string): string => {
+  return raw.trim().replace(/^```[a-zA-Z]*/, '').replace(/```$/, '').trim();
+};
+
+// Trigger a browser download for a generated text file (.tex, .csv, ...)
+export const downloadTextFile = (content: string, fileName: string, mimeType = 'text/plain') =>
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+
+// Same for a generated binary file (.zip, .docx, .png)
+export const downloadBinaryFile = (data: Uint8Array, fileName: string, mimeType: string) =>
+  downloadBlob(new Blob([data], { type: mimeType }), fileName);
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Save an in-memory file such as an uploaded logo next to the .tex download
+export const downloadDataUrl = (dataUrl: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Escape user-typed text (school name, footer, ...) so it compiles inside LaTeX
+export const escapeLatexText = (text: string): string =>
+  text.replace(/[\\{}$&#%_^~]/g, ch => {
+    if (ch === '\\') return '\\textbackslash{}';
+    if (ch === '^') return '\\textasciicircum{}';
+    if (ch === '~') return '\\textasciitilde{}';
+    return `\\${ch}`;
+  });
+
+export interface LatexBlock {
+  start: number; // index of "\begin{env}"
+  end: number; // index just after "\end{env}"
+  arg: string; // first {...} argument, e.g. "Câu 1:" for questionbox
+  body: string; // content between the argument and "\end{env}"
+}
+
+// Read a balanced {...} group starting at `open` (which must point to "{")
+export const readBraceGroup = (text: string, open: number): { content: string; end: number } | null => {
+  if (text[open] !== '{') return null;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      i++;
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') {
+      depth--;
+      if (depth === 0) return { content: text.slice(open + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+};
+
+// Top-level \begin{env}{arg} ... \end{env} blocks, in document order
+export const findEnvironmentBlocks = (text: string, env: string, from = 0, to = text.length): LatexBlock[] => {
+  const blocks: LatexBlock[] = [];
+  const beginTag = `\\begin{${env}}`;
+  const endTag = `\\end{${env}}`;
+  let cursor = from;
+
+  while (cursor < to) {
+    const start = text.indexOf(beginTag, cursor);
+    if (start === -1 || start >= to) break;
+
+    let bodyStart = start + beginTag.length;
+    let arg = '';
+    const group = readBraceGroup(text, bodyStart);
+    if (group) {
+      arg = group.content;
+      bodyStart = group.end;
+    }
+
+    const close = text.indexOf(endTag, bodyStart);
+    if (close === -1) break;
+
+    blocks.push({ start, end: close + endTag.length, arg, body: text.slice(bodyStart, close) });
+    cursor = close + endTag.length;
+  }
+
+  return blocks;
+};
+
+// Character ranges of Part I / Part II, delimited by the template's \section* headings
+export const getSectionRanges = (text: string): { start: number; end: number }[] => {
+  const starts: number[] = [];
+  const re = /\\section\*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) starts.push(match.index);
+
+  const docEnd = text.lastIndexOf('\\end{document}');
+  const limit = docEnd === -1 ? text.length : docEnd;
+  return starts.map((start, i) => ({ start, end: i + 1 < starts.length ? starts[i + 1] : limit }));
+};
@@ -0,0 +1,640 @@
+import katex from 'katex';
+import { readBraceGroup } from './latex';
+import { renderTikz } from './tikz';
+
+// HTML preview for the subset of LaTeX the exam templates use: the header table, \section*,
+// questionbox/solutionbox, tasks, tfstatements/matching, tabular(x), center, lists, TikZ (via utils/tikz) and math (via KaTeX).
+
+export interface PreviewProblem {
+  line: number; // 1-based line in the LaTeX source
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PreviewResult {
+  html: string;
+  problems: PreviewProblem[];
+}
+
+const SIZE_SWITCHES: Record<string, string> = {
+  tiny: '0.6em', scriptsize: '0.7em', footnotesize: '0.8em', small: '0.9em', normalsize: '1em',
+  large: '1.2em', Large: '1.44em', LARGE: '1.73em', huge: '2.07em', Huge: '2.49em',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000', white: '#fff', red: '#dc2626', green: '#16a34a', blue: '#2563eb', gray: '#6b7280',
+  orange: '#ea580c', purple: '#7c3aed', brown: '#92400e', cyan: '#0891b2', magenta: '#db2777',
+};
+
+// Layout-only commands with no visible output in the preview
+const IGNORED = new Set([
+  'noindent', 'indent', 'par', 'medskip', 'smallskip', 'bigskip', 'onehalfspacing', 'singlespacing', 'doublespacing',
+  'centering', 'raggedright', 'raggedleft', 'ignorespaces', 'nopagebreak', 'pagebreak', 'newpage', 'clearpage',
+  'hline', 'cline', 'maketitle', 'protect', 'relax', 'arraybackslash', 'selectfont', 'normalfont', 'bfseries', 'itshape',
+]);
+
+// Standard environments that are valid LaTeX but drawn only as plain content here
+const PASSTHROUGH_ENVS = new Set(['minipage', 'flushleft', 'flushright', 'multicols', 'figure', 'table', 'quote', 'spacing']);
+const MATH_ENVS = new Set(['equation', 'equation*', 'align', 'align*', 'gather', 'gather*', 'multline', 'multline*', 'eqnarray*']);
+
+export const KATEX_MACROS: Record<string, string> = {
+  '\\degree': '^\\circ',
+  '\\overparen': '\\overgroup',
+  '\\blank': '\\underline{\\hspace{3em}}',
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// KaTeX does not know \framebox[w]{..} or \makebox; map them onto what it does know (also used by the Word export)
+export const prepareMath = (math: string) =>
+  math
+    .replace(/\\framebox\s*(\[[^\]]*\])?/g, '\\fbox')
+    .replace(/\\makebox\s*(\[[^\]]*\])?/g, '')
+    .replace(/\\dotfill/g, '\\ldots');
+
+// `images` maps \includegraphics file names to data URLs for files that ship with the download
+export const renderLatexPreview = (latex: string, isVi: boolean, images: Record<string, string> = {}): PreviewResult => {
+  const problems: PreviewProblem[] = [];
+  const warned = new Set<string>();
+  const lineStarts: number[] = [0];
+  for (let i = 0; i < latex.length; i++) if (latex[i] === '\n') lineStarts.push(i + 1);
+
+  const lineOf = (offset: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+
+  const report = (offset: number, severity: PreviewProblem['severity'], message: string, onceKey?: string) => {
+    if (onceKey) {
+      if (warned.has(onceKey)) return;
+      warned.add(onceKey);
+    }
+    problems.push({ line: lineOf(offset), severity, message });
+  };
+
+  // Colours declared in the preamble with \definecolor{name}{RGB}{r, g, b}
+  const colors: Record<string, string> = { ...NAMED_COLORS };
+  const defineColor = /\\definecolor\{([^}]+)\}\{RGB\}\{\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\}/g;
+  let colorMatch: RegExpExecArray | null;
+  while ((colorMatch = defineColor.exec(latex)) !== null) {
+    colors[colorMatch[1]] = `rgb(${colorMatch[2]}, ${colorMatch[3]}, ${colorMatch[4]})`;
+  }
+  const colorOf = (spec: string) => {
+    const [base, percent] = spec.trim().split('!');
+    const color = colors[base] || '#000';
+    return percent ? `color-mix(in srgb, ${color} ${parseFloat(percent)}%, white)` : color;
+  };
+
+  const renderMath = (math: string, display: boolean, offset: number) => {
+    try {
+      return katex.renderToString(prepareMath(math), { displayMode: display, throwOnError: true, strict: 'ignore', macros: { ...KATEX_MACROS } });
+    } catch (err: any) {
+      report(offset, 'error', `${isVi ? 'Lỗi công thức' : 'Math error'}: ${String(err?.message || err).replace(/^KaTeX parse error:\s*/, '')}`);
+      return `<span class="latex-error">${escapeHtml(math)}</span>`;
+    }
+  };
+
+  const skipSpaces = (pos: number) => {
+    while (pos < latex.length && /\s/.test(latex[pos])) pos++;
+    return pos;
+  };
+
+  // Optional [...] argument
+  const readOptional = (pos: number): { content: string; end: number } | null => {
+    const at = skipSpaces(pos);
+    if (latex[at] !== '[') return null;
+    const close = latex.indexOf(']', at);
+    return close === -1 ? null : { content: latex.slice(at + 1, close), end: close + 1 };
+  };
+
+  // Required {...} argument; returns absolute content range
+  const readArg = (pos: number): { start: number; end: number; next: number } | null => {
+    const at = skipSpaces(pos);
+    const group = readBraceGroup(latex, at);
+    if (!group) return null;
+    return { start: at + 1, end: group.end - 1, next: group.end };
+  };
+
+  const argText = (arg: { start: number; end: number } | null) => (arg ? latex.slice(arg.start, arg.end) : '');
+
+  // Find the matching \end{env}, honouring nested environments of the same name
+  const findEnd = (env: string, from: number): number => {
+    const begin = `\\begin{${env}}`;
+    const end = `\\end{${env}}`;
+    let depth = 1;
+    let pos = from;
+    while (pos < latex.length) {
+      const nextBegin = latex.indexOf(begin, pos);
+      const nextEnd = latex.indexOf(end, pos);
+      if (nextEnd === -1) return -1;
+      if (nextBegin !== -1 && nextBegin < nextEnd) {
+        depth++;
+        pos = nextBegin + begin.length;
+      } else {
+        depth--;
+        if (depth === 0) return nextEnd;
+        pos = nextEnd + end.length;
+      }
+    }
+    return -1;
+  };
+
+  // Split [start, end) at top-level separators (\\ for rows, & for cells, \task, \item, \switchlanguage)
+  const splitRanges = (start: number, end: number, separator: RegExp): { start: number; end: number }[] => {
+    const ranges: { start: number; end: number }[] = [];
+    let depth = 0;
+    let envDepth = 0;
+    let inMath = false;
+    let current = start;
+    for (let i = start; i < end; i++) {
+      const ch = latex[i];
+      if (ch === '\\' && latex.startsWith('\\begin{', i)) envDepth++;
+      if (ch === '\\' && latex.startsWith('\\end{', i)) envDepth--;
+      if (ch === '$' && latex[i - 1] !== '\\') inMath = !inMath;
+      if (ch === '{' && latex[i - 1] !== '\\') depth++;
+      if (ch === '}' && latex[i - 1] !== '\\') depth--;
+      if (depth === 0 && envDepth === 0 && !inMath) {
+        separator.lastIndex = 0;
+        const match = separator.exec(latex.slice(i, Math.min(end, i + 20)));
+        if (match && match.index === 0) {
+          ranges.push({ start: current, end: i });
+          i += match[0].length - 1;
+          current = i + 1;
+          continue;
+        }
+      }
+      if (ch === '\\') i++;
+    }
+    ranges.push({ start: current, end });
+    return ranges;
+  };
+
+  const renderTable = (specText: string, start: number, end: number) => {
+    const aligns = specText.replace(/@\{[^}]*\}|>\{[^}]*\}|<\{[^}]*\}|\*\{(\d+)\}\{([^}]*)\}|\|/g, (m, n, col) =>
+      n ? col.repeat(parseInt(n, 10)) : '').replace(/p\{[^}]*\}|m\{[^}]*\}/g, 'l').split('').filter(c => /[lcrX]/.test(c));
+    const bordered = specText.includes('|') || latex.slice(start, end).includes('\\hline');
+    const rows = splitRanges(start, end, /\\\\/y)
+      .filter(r => latex.slice(r.start, r.end).replace(/\\hline|\\cline\{[^}]*\}/g, '').trim() !== '');
+    const body = rows.map(row => {
+      const cells = splitRanges(row.start, row.end, /&/y).map((cell, c) => {
+        const align = aligns[c] === 'r' ? 'right' : aligns[c] === 'c' ? 'center' : 'left';
+        const width = aligns[c] === 'X' ? ' style="width:100%"' : '';
+        return `<td class="${bordered ? 'latex-cell-bordered' : 'latex-cell'}" align="${align}"${width}>${convert(cell.start, cell.end)}</td>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    });
+    return `<table class="latex-table${bordered ? ' latex-table-bordered' : ''}">${body.join('')}</table>`;
+  };
+
+  const renderEnvironment = (env: string, beginAt: number, contentStart: number, contentEnd: number): string => {
+    let pos = contentStart;
+
+    switch (env) {
+      case 'questionbox':
+      case 'solutionbox': {
+        const label = readArg(pos);
+        const labelHtml = label ? convert(label.start, label.end) : '';
+        const inner = convert(label ? label.next : pos, contentEnd);
+        return `<div class="latex-${env}"><b class="latex-${env}-label">${labelHtml}</b> ${inner}</div>`;
+      }
+      case 'tasks': {
+        const cols = /^\s*\((\d+)\)/.exec(latex.slice(pos, contentEnd));
+        if (cols) pos += cols[0].length;
+        const columns = cols ? parseInt(cols[1], 10) : 1;
+        const items = splitRanges(pos, contentEnd, /\\task(?![a-zA-Z])/y).slice(1);
+        const cells = items.map((item, i) =>
+          `<div class="latex-task"><b>${String.fromCharCode(65 + i)}.</b> ${convert(item.start, item.end)}</div>`);
+        return `<div class="latex-tasks" style="grid-template-columns: repeat(${columns}, minmax(0, 1fr))">${cells.join('')}</div>`;
+      }
+      case 'tfstatements':
+        return `<table class="latex-table"><tr><td></td><td style="width:100%"></td>`
+          + `<td class="latex-cell"><b>${isVi ? 'Đúng' : 'True'}</b></td><td class="latex-cell"><b>${isVi ? 'Sai' : 'False'}</b></td></tr>`
+          + `${convert(pos, contentEnd)}</table>`;
+      case 'matching':
+        return `<table class="latex-table"><tr><td></td><td class="latex-cell"><b>${isVi ? 'Cột A' : 'Column A'}</b></td>`
+          + `<td></td><td class="latex-cell"><b>${isVi ? 'Cột B' : 'Column B'}</b></td></tr>${convert(pos, contentEnd)}</table>`;
+      // Original on the left, translation on the right
+      case 'bilingualcolumns': {
+        const columns = splitRanges(pos, contentEnd, /\\switchlanguage(?![a-zA-Z])/y);
+        const cells = columns.map((column, c) => `<div${c > 0 ? ' class="latex-translated"' : ''}>${convert(column.start, column.end)}</div>`);
+        return `<div class="latex-bilingual">${cells.join('')}</div>`;
+      }
+      case 'center':
+        return `<div class="latex-center">${convert(pos, contentEnd)}</div>`;
+      case 'tabularx': {
+        const width = readArg(pos);
+        const spec = width ? readArg(width.next) : null;
+        return renderTable(argText(spec), spec ? spec.next : pos, contentEnd);
+      }
+      case 'tabular':
+      case 'array': {
+        const opt = readOptional(pos);
+        const spec = readArg(opt ? opt.end : pos);
+        return renderTable(argText(spec), spec ? spec.next : pos, contentEnd);
+      }
+      case 'itemize':
+      case 'enumerate': {
+        const opt = readOptional(pos);
+        const items = splitRanges(opt ? opt.end : pos, contentEnd, /\\item(?![a-zA-Z])/y).slice(1);
+        const tag = env === 'itemize' ? 'ul' : 'ol';
+        return `<${tag} class="latex-${tag}">${items.map(item => `<li>${convert(item.start, item.end)}</li>`).join('')}</${tag}>`;
+      }
+      case 'tikzpicture': {
+        const endTag = '\\end{tikzpicture}';
+        const source = latex.slice(beginAt, contentEnd + endTag.length);
+        const result = renderTikz(source);
+        result.problems.forEach(p => report(beginAt + p.offset, 'warning', `TikZ: ${p.message}`));
+        return `<span class="latex-tikz">${result.svg}</span>`;
+      }
+      default:
+        if (MATH_ENVS.has(env)) {
+          const inner = latex.slice(contentStart, contentEnd);
+          // KaTeX has no equation numbering, so numbered environments render as their starred form
+          const katexEnv = env.endsWith('*') ? env : `${env}*`;
+          return renderMath(env.startsWith('equation') ? inner : `\\begin{${katexEnv}}${inner}\\end{${katexEnv}}`, true, contentStart);
+        }
+        if (!PASSTHROUGH_ENVS.has(env)) {
+          report(beginAt, 'warning', isVi ? `Xem trước chưa hỗ trợ môi trường ${env}` : `Preview does not support environment ${env}`, `env-${env}`);
+        }
+        {
+          const opt = readOptional(pos);
+          const arg = env === 'minipage' ? readArg(opt ? opt.end : pos) : null;
+          return `<div>${convert(arg ? arg.next : opt ? opt.end : pos, contentEnd)}</div>`;
+        }
+    }
+  };
+
+  // Convert the LaTeX in [start, end) to HTML
+  function convert(start: number, end: number): string {
+    let html = '';
+    let openSpans = 0;
+    let i = start;
+
+    while (i < end) {
+      const ch = latex[i];
+
+      if (ch === '%') {
+        const eol = latex.indexOf('\n', i);
+        i = eol === -1 || eol > end ? end : eol + 1;
+        continue;
+      }
+
+      if (ch === '\n') {
+        // A blank line starts a new paragraph
+        let j = i + 1;
+        while (j < end && (latex[j] === ' ' || latex[j] === '\t')) j++;
+        if (latex[j] === '\n') {
+          html += '<div class="latex-par"></div>';
+          while (j < end && /\s/.test(latex[j])) j++;
+          i = j;
+        } else {
+          html += ' ';
+          i++;
+        }
+        continue;
+      }
+
+      if (ch === '$') {
+        const display = latex[i + 1] === '$';
+        const open = display ? 2 : 1;
+        const closeToken = display ? '$$' : '$';
+        let close = i + open;
+        while (close < end) {
+          close = latex.indexOf(closeToken, close);
+          if (close === -1 || close >= end) break;
+          if (latex[close - 1] !== '\\') break;
+          close++;
+        }
+        if (close === -1 || close >= end) {
+          report(i, 'error', isVi ? 'Công thức toán chưa đóng dấu $' : 'Unclosed $ math');
+          html += escapeHtml(latex.slice(i, end));
+          break;
+        }
+        html += renderMath(latex.slice(i + open, close), display, i);
+        i = close + open;
+        continue;
+      }
+
+      if (ch === '{') {
+        const group = readBraceGroup(latex, i);
+        if (!group || group.end > end) {
+          report(i, 'error', isVi ? 'Thiếu dấu } đóng nhóm' : 'Missing closing }');
+          i++;
+          continue;
+        }
+        html += convert(i + 1, group.end - 1);
+        i = group.end;
+        continue;
+      }
+
+      if (ch === '}') {
+        report(i, 'error', isVi ? 'Dấu } thừa' : 'Extra }');
+        i++;
+        continue;
+      }
+
+      if (ch === '~') {
+        html += '&nbsp;';
+        i++;
+        continue;
+      }
+
+      if (ch === '-' && latex.startsWith('---', i)) {
+        html += '—';
+        i += 3;
+        continue;
+      }
+      if (ch === '-' && latex.startsWith('--', i)) {
+        html += '–';
+        i += 2;
+        continue;
+      }
+
+      if (ch !== '\\') {
+        html += escapeHtml(ch);
+        i++;
+        continue;
+      }
+
+      // ---- Control sequences ----
+      if (latex.startsWith('\\[', i) || latex.startsWith('\\(', i)) {
+        const display = latex[i + 1] === '[';
+        const closeToken = display ? '\\]' : '\\)';
+        const close = latex.indexOf(closeToken, i + 2);
+        if (close === -1 || close >= end) {
+          report(i, 'error', isVi ? `Thiếu ${closeToken}` : `Missing ${closeToken}`);
+          i += 2;
+          continue;
+        }
+        html += renderMath(latex.slice(i + 2, close), display, i);
+        i = close + 2;
+        continue;
+      }
+
+      const nameMatch = /^\\([a-zA-Z]+\*?|.)/.exec(latex.slice(i, i + 40));
+      const name = nameMatch ? nameMatch[1] : '';
+      let pos = i + 1 + name.length;
+
+      if (name === '\\') {
+        const opt = latex[pos] === '[' ? readOptional(pos) : null;
+        html += '<br/>';
+        i = opt ? opt.end : pos;
+        continue;
+      }
+      if ('%&$#_{}'.includes(name)) {
+        html += escapeHtml(name);
+        i = pos;
+        continue;
+      }
+      if (name === ' ' || name === ',' || name === ';' || name === '!') {
+        html += ' ';
+        i = pos;
+        continue;
+      }
+
+      if (name === 'begin') {
+        const envArg = readArg(pos);
+        const env = argText(envArg);
+        if (!envArg) {
+          report(i, 'error', isVi ? '\\begin thiếu tên môi trường' : '\\begin without an environment name');
+          i = pos;
+          continue;
+        }
+        const close = findEnd(env, envArg.next);
+        if (close === -1 || close >= end + `\\end{${env}}`.length) {
+          report(i, 'error', isVi ? `Thiếu \\end{${env}}` : `Missing \\end{${env}}`);
+          html += renderEnvironment(env, i, envArg.next, end);
+          i = end;
+          continue;
+        }
+        html += renderEnvironment(env, i, envArg.next, close);
+        i = close + `\\end{${env}}`.length;
+        continue;
+      }
+
+      if (name === 'end') {
+        const envArg = readArg(pos);
+        report(i, 'error', isVi ? `\\end{${argText(envArg)}} không có \\begin tương ứng` : `\\end{${argText(envArg)}} has no matching \\begin`);
+        i = envArg ? envArg.next : pos;
+        continue;
+      }
+
+      if (SIZE_SWITCHES[name]) {
+        html += `<span style="font-size:${SIZE_SWITCHES[name]}">`;
+        openSpans++;
+        i = pos;
+        continue;
+      }
+
+      if (IGNORED.has(name)) {
+        i = pos;
+        continue;
+      }
+
+      switch (name) {
+        case 'textbf':
+        case 'textit':
+        case 'emph':
+        case 'underline':
+        case 'textrm':
+        case 'textsf':
+        case 'texttt':
+        case 'text':
+        case 'mbox': {
+          const arg = readArg(pos);
+          const tag = name === 'textbf' ? 'b' : name === 'textit' || name === 'emph' ? 'i' : name === 'underline' ? 'u' : name === 'texttt' ? 'code' : 'span';
+          html += `<${tag}>${arg ? convert(arg.start, arg.end) : ''}</${tag}>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'textcolor': {
+          const color = readArg(pos);
+          const arg = color ? readArg(color.next) : null;
+          html += `<span style="color:${colorOf(argText(color))}">${arg ? convert(arg.start, arg.end) : ''}</span>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'color': {
+          const color = readArg(pos);
+          html += `<span style="color:${colorOf(argText(color))}">`;
+          openSpans++;
+          i = color ? color.next : pos;
+          continue;
+        }
+        case 'section':
+        case 'section*':
+        case 'subsection':
+        case 'subsection*': {
+          const arg = readArg(pos);
+          const tag = name.startsWith('sub') ? 'h3' : 'h2';
+          html += `<${tag} class="latex-${tag}">${arg ? convert(arg.start, arg.end) : ''}</${tag}>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'vspace':
+        case 'vspace*':
+        case 'hspace':
+        case 'hspace*': {
+          const arg = readArg(pos);
+          const size = argText(arg);
+          const em = /([\d.]+)\s*cm/.exec(size) ? parseFloat(size) * 2.3 : /([\d.]+)\s*em/.exec(size) ? parseFloat(size) : 1;
+          html += name.startsWith('v') ? `<div style="height:${em}em"></div>` : `<span style="display:inline-block;width:${em}em"></span>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'rule': {
+          const opt = readOptional(pos);
+          const width = readArg(opt ? opt.end : pos);
+          const height = width ? readArg(width.next) : null;
+          html += '<hr class="latex-rule"/>';
+          i = height ? height.next : width ? width.next : pos;
+          continue;
+        }
+        case 'hfill':
+          html += '<span class="latex-hfill"></span>';
+          i = pos;
+          continue;
+        case 'dotfill':
+          html += '<span class="latex-dotfill"></span>';
+          i = pos;
+          continue;
+        case 'framebox':
+        case 'fbox':
+        case 'makebox': {
+          const opt = readOptional(pos);
+          const opt2 = opt ? readOptional(opt.end) : null;
+          const arg = readArg(opt2 ? opt2.end : opt ? opt.end : pos);
+          const width = opt && /([\d.]+)\s*(em|cm)/.exec(opt.content);
+          const style = width ? ` style="min-width:${(width[2] === 'cm' ? parseFloat(width[1]) * 2.3 : parseFloat(width[1])).toFixed(1)}em"` : '';
+          html += `<span class="${name === 'makebox' ? 'latex-makebox' : 'latex-framebox'}"${style}>${arg ? convert(arg.start, arg.end) : ''}&nbsp;</span>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'phantom':
+        case 'vphantom':
+        case 'hphantom': {
+          const arg = readArg(pos);
+          html += `<span style="visibility:hidden">${arg ? convert(arg.start, arg.end) : ''}</span>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'includegraphics': {
+          const opt = readOptional(pos);
+          const arg = readArg(opt ? opt.end : pos);
+          const file = argText(arg);
+          html += images[file]
+            ? `<img class="latex-graphic" src="${escapeHtml(images[file])}" alt="${escapeHtml(file)}"/>`
+            : `<span class="latex-image">🖼 ${escapeHtml(file)}</span>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'diem': {
+          const arg = readArg(pos);
+          html += `<span class="latex-hfill"></span><b>(${escapeHtml(argText(arg))} ${isVi ? 'điểm' : 'pts'})</b>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        // Rows of tfstatements and matching: each command is one whole table row
+        case 'tfitem':
+        case 'matchpair': {
+          const args: { start: number; end: number; next: number }[] = [];
+          let next = pos;
+          for (let n = 0; n < (name === 'tfitem' ? 2 : 4); n++) {
+            const arg = readArg(next);
+            if (!arg) break;
+            args.push(arg);
+            next = arg.next;
+          }
+          const cell = (k: number) => (args[k] ? convert(args[k].start, args[k].end) : '');
+          html += name === 'tfitem'
+            ? `<tr><td class="latex-cell"><b>${cell(0)})</b></td><td class="latex-cell">${cell(1)}</td><td class="latex-cell" align="center">☐</td><td class="latex-cell" align="center">☐</td></tr>`
+            : `<tr><td class="latex-cell"><b>${cell(0)}.</b></td><td class="latex-cell">${cell(1)}</td><td class="latex-cell"><b>${cell(2)})</b></td><td class="latex-cell">${cell(3)}</td></tr>`;
+          i = next;
+          continue;
+        }
+        case 'translated': {
+          const arg = readArg(pos);
+          html += `<div class="latex-translated">${arg ? convert(arg.start, arg.end) : ''}</div>`;
+          i = arg ? arg.next : pos;
+          continue;
+        }
+        case 'switchlanguage':
+          // Only meaningful inside bilingualcolumns, which splits on it before converting
+          i = pos;
+          continue;
+        case 'answerline':
+          html += `<div><b>${isVi ? 'Đáp số' : 'Answer'}:</b> <span class="latex-makebox" style="min-width:9.2em"><span class="latex-dotfill"></span></span></div>`;
+          i = pos;
+          continue;
+        case 'blank':
+          html += '<span class="latex-blank"></span>';
+          i = pos;
+          continue;
+        case 'quad':
+        case 'qquad':
+          html += name === 'quad' ? '&emsp;' : '&emsp;&emsp;';
+          i = pos;
+          continue;
+        case 'textbackslash':
+        case 'textasciicircum':
+        case 'textasciitilde':
+          html += name === 'textbackslash' ? '\\' : name === 'textasciicircum' ? '^' : '~';
+          i = pos;
+          continue;
+        case 'thepage':
+          html += '1';
+          i = pos;
+          continue;
+        case 'task':
+        case 'item':
+          // Only meaningful inside tasks/itemize, which split on them before converting
+          i = pos;
+          continue;
+        default:
+          report(i, 'warning', isVi ? `Xem trước bỏ qua lệnh \\${name}` : `Preview ignores \\${name}`, `cmd-${name}`);
+          i = pos;
+          continue;
+      }
+    }
+
+    return html + '</span>'.repeat(openSpans);
+  }
+
+  // Page furniture from the preamble: fancyhdr header/footer and the background watermark
+  const furniture = (command: string) => {
+    const at = latex.indexOf(`\\${command}{`);
+    if (at === -1) return '';
+    const arg = readArg(at + command.length + 1);
+    return arg ? convert(arg.start, arg.end) : '';
+  };
+  const watermarkMatch = /contents=\{\\textbf\{([^}]*)\}\}/.exec(latex);
+
+  const docBegin = latex.indexOf('\\begin{document}');
+  const docEnd = latex.lastIndexOf('\\end{document}');
+  if (docBegin === -1) {
+    report(0, 'error', isVi ? 'Không tìm thấy \\begin{document}' : '\\begin{document} not found');
+    return { html: '', problems };
+  }
+  if (docEnd === -1) report(latex.length, 'error', isVi ? 'Không tìm thấy \\end{document}' : '\\end{document} not found');
+
+  const preambleWarnings = problems.length;
+  const header = `<div class="latex-header"><span>${furniture('lhead')}</span><span>${furniture('rhead')}</span></div>`;
+  const footer = `<div class="latex-footer"><span>${furniture('lfoot')}</span><span>${furniture('rfoot')}</span></div>`;
+  // Furniture conversion should not surface as document problems
+  problems.splice(preambleWarnings);
+
+  const body = convert(docBegin + '\\begin{document}'.length, docEnd === -1 ? latex.length : docEnd);
+  const watermark = watermarkMatch ? `<div class="latex-watermark">${escapeHtml(watermarkMatch[1])}</div>` : '';
+
+  return {
+    html: `<div class="latex-page">${watermark}${header}<div class="latex-body">${body}</div>${footer}</div>`,
+    problems: problems.sort((a, b) => a.line - b.line),
+  };
+};
@@ -0,0 +1,537 @@
+import { ExamQuestion } from '../types';
+import { OPTION_LETTERS, STATEMENT_LETTERS } from './examModel';
+import {
+  evaluate, ExprNode, findRoots, findUnevenDivisions, formatValue, freeVariables, hasOperation, holds, isUnitWord, MathStatement,
+  nearlyEqual, parseExpression, parseStatement, PLACEHOLDER,
+} from './mathEngine';
+
+// Recompute what can be recomputed: arithmetic, equations, divisibility and the usual area/perimeter
+// formulas. Questions the checker does not recognise are left alone, so every message is a real mismatch.
+
+const MATH = /\$\$([\s\S]+?)\$\$|\$([^$]+)\$|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+// "25\%" on its own is a quantity, not something to work out
+const BARE_PERCENT = /^\d+(?:[.,]\d+|\{,\}\d+)?\s*\\?%$/;
+// "25% của 80", "25% of 80", once the stem is flattened
+const PERCENT_OF = /(\d+(?:[.,]\d+)?)\s*\\?%\s*(?:của|of)\s*(\d+(?:[.,]\d+)?)/g;
+
+const withoutDollarSigns = (text: string) => text.replace(/\\\$/g, '');
+
+const mathSegments = (text: string) =>
+  Array.from(withoutDollarSigns(text).matchAll(MATH), m => (m[1] ?? m[2] ?? m[3] ?? m[4]).trim());
+
+// The words around the formulas, for recognising what a question asks
+const proseOf = (text: string) => withoutDollarSigns(text).replace(MATH, ' ').toLowerCase();
+
+// Formulas and words together as plain text: "chiều dài 8 cm", "2,5"
+const flatten = (text: string) =>
+  withoutDollarSigns(text)
+    .replace(/\$|\\\(|\\\)|\\\[|\\\]/g, ' ')
+    .replace(/\{,\}/g, ',')
+    .replace(/\\(?:text|mathrm)\{([^{}]*)\}/g, ' $1 ')
+    .replace(/\\[,;! ]|~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+
+interface AnswerValue {
+  values: number[]; // Several for "x = 1; x = 2", none for "no solution"
+  unit: string; // "cm^2", "" when there is none
+  decimals: number; // Digits after the decimal mark as written, for answers given rounded
+  hasPi: boolean;
+}
+
+const EMPTY_SET = /vô nghiệm|no (?:real )?solutions?|\\varnothing|\\emptyset|^\s*\\\{\s*\\\}\s*$/i;
+// A unit written as \text{cm} or as a separate word ("24 cm"); "2a" is a product, not 2 ares
+const TRAILING_UNIT = /(?:\s*\\(?:text|mathrm)\s*\{\s*([^{}]*?)\s*\}|\s+([\p{L}]+(?:\/[\p{L}]+)?))\s*(\^\s*\{?\s*([23])\s*\}?|[²³])?\s*$/u;
+
+// Value of an option or a stated answer: "$\dfrac{7}{12}$", "$24$ cm$^2$", "$x = -1; x = 2$", "Vô nghiệm"
+const parseAnswer = (text: string, decimalComma: boolean): AnswerValue | null => {
+  const plain = withoutDollarSigns(text).replace(/\$|\\\(|\\\)|\\\[|\\\]/g, ' ').replace(/\\displaystyle/g, '').trim().replace(/[.;]\s*$/, '');
+  if (!plain) return null;
+  if (EMPTY_SET.test(plain)) return { values: [], unit: '', decimals: 0, hasPi: false };
+
+  let unit = '';
+  const parts = plain
+    .replace(/\\(?:text|mathrm)\{\s*(hoặc|hay|or|và|and)\s*\}/g, ' $1 ')
+    .split(/;|,\s+|\s(?:hoặc|hay|or|và|and)\s/)
+    .map(p => p.trim());
+  const values: number[] = [];
+  for (let part of parts) {
+    part = part.replace(/^(?:[a-zA-Z](?:_\{?\w+\}?)?|S|\*|\\square)\s*=/, '').replace(/\\[{}]/g, '').trim();
+    for (let match = TRAILING_UNIT.exec(part); match && isUnitWord(match[1] ?? match[2]); match = TRAILING_UNIT.exec(part)) {
+      unit = `${match[1] ?? match[2]}${match[4] ? `^${match[4]}` : match[3] === '²' ? '^2' : match[3] === '³' ? '^3' : ''}`;
+      part = part.slice(0, match.index).trim();
+    }
+    const expr = part ? parseExpression(part, decimalComma) : null;
+    if (!expr || freeVariables(expr).size > 0) return null;
+    const value = evaluate(expr);
+    if (!Number.isFinite(value)) return null;
+    values.push(value);
+  }
+  const decimals = /\d(?:\{,\}|[.,])(\d+)(?!.*\d(?:\{,\}|[.,])\d)/.exec(plain);
+  return { values, unit: unit.toLowerCase(), decimals: decimals ? decimals[1].length : 0, hasPi: /\\pi|π/.test(plain) };
+};
+
+interface Recomputed {
+  correct: boolean[]; // Per option
+  expected: string; // What the working gives, for the message
+}
+
+const roundingPlaces = (prose: string): number | null => {
+  if (!/làm tròn|round/.test(prose)) return null;
+  if (/phần mười|tenth|một chữ số thập phân|1 chữ số thập phân|one decimal|1 decimal/.test(prose)) return 1;
+  if (/hàng phần trăm|hundredth|hai chữ số thập phân|2 chữ số thập phân|two decimal|2 decimal/.test(prose)) return 2;
+  if (/phần nghìn|thousandth|ba chữ số thập phân|3 chữ số thập phân|three decimal|3 decimal/.test(prose)) return 3;
+  if (/hàng đơn vị|whole number|nearest integer|nearest whole/.test(prose)) return 0;
+  return null;
+};
+
+// Options equal to one of the computed values; an option may be rounded to the places it is written with.
+// When several rounded options fit (2,3 and 2,33 for 2,333...), only the most precise counts.
+const matchValues = (targets: number[], answers: AnswerValue[], places: number | null) => {
+  const exact = answers.map(a => a.values.length === 1 && targets.some(t => nearlyEqual(a.values[0], t)));
+  if (exact.some(Boolean)) return exact;
+  const rounded = answers.map(a => {
+    if (a.values.length !== 1) return false;
+    const digits = places ?? (a.decimals > 0 ? a.decimals : null);
+    return digits !== null && targets.some(t => Math.abs(a.values[0] - t) <= 0.5 * Math.pow(10, -digits) + 1e-9);
+  });
+  const precision = Math.max(-1, ...answers.map((a, i) => (rounded[i] ? a.decimals : -1)));
+  return rounded.map((r, i) => r && answers[i].decimals === precision);
+};
+
+interface Context {
+  isVi: boolean;
+  decimalComma: boolean;
+  stem: string;
+  prose: string;
+  scope: Record<string, number>;
+  targets: MathStatement[]; // Formulas of the stem that are not "x = 3" style givens
+}
+
+// Givens such as "x = 3", "a = 2; b = -1" or "\pi \approx 3{,}14" become the scope; the rest are targets
+const readStem = (stem: string, isVi: boolean, decimalComma: boolean): Context => {
+  const scope: Record<string, number> = {};
+  if (/3\s*(?:\{,\}|[.,])\s*14(?!\d)/.test(stem) && /\\pi|π/.test(stem)) scope['π'] = 3.14;
+  const targets: MathStatement[] = [];
+
+  mathSegments(stem).forEach(segment => {
+    if (BARE_PERCENT.test(segment)) return;
+    const pieces = segment.split(/;\s*|,\s+|\\text\{\s*(?:và|and|,)\s*\}|\\quad/).filter(p => p.trim());
+    const givens = pieces.map(piece => {
+      const statement = parseStatement(piece, decimalComma);
+      if (!statement || statement.sides.length !== 2 || (statement.relations[0] !== '=' && statement.relations[0] !== '≈')) return null;
+      const [left, right] = statement.sides;
+      if (left.kind !== 'variable' || freeVariables(right).size > 0) return null;
+      const value = evaluate(right, scope);
+      return Number.isFinite(value) ? { name: left.name, value } : null;
+    });
+    if (givens.every(Boolean)) {
+      givens.forEach(g => {
+        scope[g!.name] = g!.value;
+      });
+      return;
+    }
+    const statement = parseStatement(segment, decimalComma);
+    if (statement) {
+      targets.push(statement);
+    } else if (/[=+\-*/:^]|\\(?:frac|dfrac|cdot|times|div|sqrt)/.test(segment)) {
+      // A formula the engine cannot read might be the one the question is about
+      targets.push({ sides: [], relations: [] });
+    }
+  });
+  return { isVi, decimalComma, stem, prose: proseOf(stem), scope, targets };
+};
+
+const variablesOf = (statement: MathStatement, scope: Record<string, number>) => {
+  const names = new Set<string>();
+  statement.sides.forEach(side => freeVariables(side, names));
+  Object.keys(scope).forEach(name => names.delete(name));
+  return names;
+};
+
+// Values to compare with: π as π, and as 3,14 when the options are decimals worked out with it
+const valuesWithPi = (node: ExprNode, scope: Record<string, number>, answers: AnswerValue[]) => {
+  const values = [evaluate(node, scope)];
+  const usesPi = JSON.stringify(node).includes('"name":"π"');
+  if (usesPi && !('π' in scope) && answers.every(a => !a.hasPi)) values.push(evaluate(node, { ...scope, π: 3.14 }));
+  return values.filter(Number.isFinite);
+};
+
+const SOLVE_WORDS = /nghiệm|giải|tìm|thích hợp|ô trống|chỗ trống|điền|solve|solution|root|find|missing|value of|giá trị của/;
+
+// One equation in one unknown: an option is right when its values are the solutions
+// (or, when every option is a single number, when that number is a solution)
+const checkEquation = (context: Context, answers: AnswerValue[]): Recomputed | null => {
+  const { scope, targets, isVi } = context;
+  if (!SOLVE_WORDS.test(context.prose)) return null;
+  const equations = targets.filter(t => t.relations.length === 1 && t.relations[0] === '=' && variablesOf(t, scope).size === 1);
+  if (equations.length !== 1 || targets.some(t => t !== equations[0] && (t.sides.length === 0 || t.sides.some(hasOperation)))) return null;
+
+  const [left, right] = equations[0].sides;
+  const name = [...variablesOf(equations[0], scope)][0];
+  const residual = (t: number) => {
+    const values = { ...scope, [name]: t };
+    return evaluate(left, values) - evaluate(right, values);
+  };
+  const satisfies = (t: number) => {
+    const values = { ...scope, [name]: t };
+    const a = evaluate(left, values);
+    const b = evaluate(right, values);
+    return Number.isFinite(a) && Number.isFinite(b) && nearlyEqual(a, b, 1e-7 * Math.max(1, Math.abs(a), Math.abs(b)));
+  };
+
+  let solutions = findRoots(residual);
+  answers.forEach(a => a.values.forEach(v => {
+    if (satisfies(v) && !solutions.some(s => nearlyEqual(s, v, 1e-6))) solutions.push(v);
+  }));
+  if (/số tự nhiên|natural number/.test(context.prose)) solutions = solutions.filter(s => nearlyEqual(s, Math.round(s), 1e-6) && s > -1e-6);
+  else if (/số nguyên|integer/.test(context.prose)) solutions = solutions.filter(s => nearlyEqual(s, Math.round(s), 1e-6));
+
+  const singles = answers.every(a => a.values.length === 1);
+  const correct = answers.map(a => singles
+    ? satisfies(a.values[0]) && solutions.some(s => nearlyEqual(s, a.values[0], 1e-6))
+    : a.values.length === solutions.length && a.values.every(v => solutions.some(s => nearlyEqual(s, v, 1e-6))));
+
+  const label = name.startsWith(PLACEHOLDER) ? '' : `${name} = `;
+  const expected = solutions.length === 0
+    ? (isVi ? 'phương trình vô nghiệm' : 'the equation has no solution')
+    : `${isVi ? 'nghiệm' : 'solution'}: ${solutions.sort((a, b) => a - b).map(s => `${label}${formatValue(s, isVi)}`).join('; ')}`;
+  return { correct, expected };
+};
+
+const CALCULATE_WORDS = /tính|kết quả|giá trị|bằng|rút gọn|thu gọn|là bao nhiêu|calculate|work out|evaluate|value|result|equal|simplif|what is/;
+const NOT_A_CALCULATION = /so sánh|compare|mệnh đề|khẳng định|statement|lớn nhất|nhỏ nhất|largest|smallest|greatest|least|không|\bnot\b|sai/;
+
+// The one formula the question asks to work out, from the givens in the stem
+const findCalculation = (context: Context): ExprNode | null => {
+  const { scope, targets, prose } = context;
+  if (!CALCULATE_WORDS.test(prose) || NOT_A_CALCULATION.test(prose)) return null;
+  // Null marks a formula that may be the one asked about but cannot be evaluated, which makes the question ambiguous
+  const calculations: (ExprNode | null)[] = [];
+  targets.forEach(t => {
+    const unknowns = variablesOf(t, scope).size;
+    if (t.sides.length === 0) {
+      calculations.push(null);
+    } else if (t.relations.length === 0) {
+      if (hasOperation(t.sides[0])) calculations.push(unknowns === 0 ? t.sides[0] : null);
+    } else {
+      // "A = 2x + 1" with x given
+      const [left, right] = t.sides;
+      const named = t.relations.length === 1 && t.relations[0] === '=' && left.kind === 'variable' && !(left.name in scope);
+      calculations.push(named && unknowns === 1 && hasOperation(right) ? right : null);
+    }
+  });
+  // "Tính 25% của 80" spreads the calculation over two formulas and a word between them
+  const percentOf = Array.from(flatten(context.stem).matchAll(PERCENT_OF));
+  if (calculations.length === 0 && percentOf.length === 1) return parseExpression(`${percentOf[0][1]}\\% \\cdot ${percentOf[0][2]}`, context.decimalComma);
+  return calculations.length === 1 ? calculations[0] : null;
+};
+
+const checkCalculation = (context: Context, answers: AnswerValue[]): Recomputed | null => {
+  const node = findCalculation(context);
+  if (!node) return null;
+  const values = valuesWithPi(node, context.scope, answers);
+  if (values.length === 0) return null;
+  const correct = matchValues(values, answers, roundingPlaces(context.prose));
+  return { correct, expected: `${context.isVi ? 'kết quả tính lại' : 'recomputed result'}: ${formatValue(values[0], context.isVi)}` };
+};
+
+const LENGTH_UNITS = /(?:^|[^a-zà-ỹ])(mm|cm|dm|km|m)(?![a-zà-ỹ])/g;
+const NUMBER = '(\\d+(?:[.,]\\d+)?)';
+
+const toNumber = (text: string) => parseFloat(text.replace(',', '.'));
+
+// The number written right after one of the keywords ("chiều dài 8 cm"), or right before it ("8 cm long")
+const measurement = (flat: string, after: string, before?: string) => {
+  const forward = new RegExp(`(?:${after})(?:\\s|là|bằng|:|=|is|of)*${NUMBER}`).exec(flat);
+  if (forward) return toNumber(forward[1]);
+  const backward = before && new RegExp(`${NUMBER}\\s*(?:mm|cm|dm|km|m)?\\s+(?:${before})`).exec(flat);
+  return backward ? toNumber(backward[1]) : null;
+};
+
+// Area, perimeter and hypotenuse of the shapes a lower-secondary paper draws
+const checkMeasurement = (context: Context, answers: AnswerValue[]): Recomputed | null => {
+  const flat = flatten(context.stem);
+  const wants = {
+    area: /diện tích|\barea\b/.test(flat),
+    perimeter: /chu vi|perimeter|circumference/.test(flat),
+    hypotenuse: /cạnh huyền|hypotenuse/.test(flat),
+  };
+  const target = (Object.keys(wants) as (keyof typeof wants)[]).filter(k => wants[k]);
+  if (target.length !== 1) return null;
+  if (/nửa|\bhalf\b|tăng|giảm|gấp|increase|decrease|lần|còn lại|remaining|xung quanh|toàn phần|thang|trapez|bình hành|parallelogram|hình thoi|rhombus|hộp|cube|lập phương|cylinder|hình trụ|hình cầu|sphere|hình nón|cone|biết (?:diện tích|chu vi)|given (?:the )?(?:area|perimeter)/.test(flat)) return null;
+  if (new Set(Array.from(flat.matchAll(LENGTH_UNITS), m => m[1])).size > 1) return null;
+
+  const shapes = {
+    rectangle: /hình chữ nhật|rectangle/.test(flat),
+    square: /hình vuông|\ba square\b|\bthe square\b(?! (?:cm|centimet|met|unit))/.test(flat),
+    circle: /hình tròn|đường tròn|circle/.test(flat),
+    rightTriangle: /tam giác vuông|right[- ]angled triangle|right triangle/.test(flat),
+    triangle: /tam giác|triangle/.test(flat),
+  };
+  if (shapes.rightTriangle) shapes.triangle = false;
+  const shape = (Object.keys(shapes) as (keyof typeof shapes)[]).filter(k => shapes[k]);
+  if (shape.length !== 1) return null;
+
+  let value: number | null = null;
+  let alternatives: number[] = [];
+  const { isVi } = context;
+  switch (shape[0]) {
+    case 'rectangle': {
+      const length = measurement(flat, 'chiều dài|dài|length', 'long');
+      const width = measurement(flat, 'chiều rộng|rộng|width', 'wide');
+      if (length === null || width === null) return null;
+      if (target[0] === 'area') value = length * width;
+      if (target[0] === 'perimeter') value = 2 * (length + width);
+      break;
+    }
+    case 'square': {
+      const side = measurement(flat, 'cạnh|side', 'sides?');
+      if (side === null) return null;
+      if (target[0] === 'area') value = side * side;
+      if (target[0] === 'perimeter') value = 4 * side;
+      break;
+    }
+    case 'circle': {
+      const radius = measurement(flat, 'bán kính|radius');
+      const diameter = measurement(flat, 'đường kính|diameter');
+      const r = radius ?? (diameter === null ? null : diameter / 2);
+      if (r === null || (radius !== null && diameter !== null)) return null;
+      const pi = 'π' in context.scope ? context.scope['π'] : Math.PI;
+      const formula = (p: number) => (target[0] === 'area' ? p * r * r : target[0] === 'perimeter' ? 2 * p * r : NaN);
+      value = formula(pi);
+      if (!('π' in context.scope) && answers.every(a => !a.hasPi)) alternatives = [formula(3.14)];
+      break;
+    }
+    case 'triangle': {
+      const base = measurement(flat, 'cạnh đáy|đáy|base');
+      const height = measurement(flat, 'chiều cao|cao|height', 'high|tall');
+      if (base === null || height === null || target[0] !== 'area') return null;
+      value = (base * height) / 2;
+      break;
+    }
+    case 'rightTriangle': {
+      const legs = new RegExp(`(?:hai cạnh góc vuông|legs|shorter sides)[^0-9]{0,30}${NUMBER}[^0-9]{1,20}${NUMBER}`).exec(flat);
+      if (!legs) return null;
+      const [a, b] = [toNumber(legs[1]), toNumber(legs[2])];
+      if (target[0] === 'hypotenuse') value = Math.hypot(a, b);
+      if (target[0] === 'area') value = (a * b) / 2;
+      break;
+    }
+  }
+  if (value === null || !Number.isFinite(value)) return null;
+
+  // An area in cm and a length in cm² are distractors, not answers
+  const fitsUnit = (a: AnswerValue) => !a.unit || (target[0] === 'area') === /\^2$/.test(a.unit);
+  const correct = matchValues([value, ...alternatives], answers, roundingPlaces(context.prose)).map((c, i) => c && fitsUnit(answers[i]));
+  const what = isVi
+    ? { area: 'diện tích', perimeter: 'chu vi', hypotenuse: 'cạnh huyền' }[target[0]]
+    : { area: 'area', perimeter: 'perimeter', hypotenuse: 'hypotenuse' }[target[0]];
+  return { correct, expected: `${what} ${isVi ? 'tính lại' : 'recomputed'}: ${formatValue(value, isVi)}` };
+};
+
+const isPrime = (n: number) => {
+  if (n < 2 || !Number.isInteger(n)) return false;
+  for (let d = 2; d * d <= n; d++) if (n % d === 0) return false;
+  return true;
+};
+
+// "Số nào sau đây chia hết cho 3?", "Which number is prime?", "Tìm chữ số * để 12* chia hết cho 9"
+const checkDivisibility = (context: Context, answers: AnswerValue[]): Recomputed | null => {
+  const flat = flatten(context.stem);
+  const { isVi } = context;
+  if (!answers.every(a => a.values.length === 1 && Number.isInteger(a.values[0]) && !a.unit)) return null;
+  if (/nhỏ nhất|lớn nhất|smallest|largest|greatest|least|bao nhiêu|how many|tổng|\bsum\b|ƯCLN|ucln|bcnn|hcf|lcm|gcd/i.test(flat)) return null;
+
+  const tests: { test: (n: number) => boolean; label: string }[] = [];
+  const divisors = /(?:chia hết cho|divisible by)\s*(?:cả|both)?\s*(\d+(?:\s*(?:,|và|and)\s*\d+)*)/.exec(flat);
+  if (divisors) {
+    const list = (divisors[1].match(/\d+/g) || []).map(Number).filter(d => d > 0);
+    tests.push({ test: n => list.every(d => n % d === 0), label: isVi ? `chia hết cho ${list.join(' và ')}` : `divisible by ${list.join(' and ')}` });
+  }
+  const multiple = /(?:bội của|multiple of)\s*(\d+)/.exec(flat);
+  if (multiple) tests.push({ test: n => n % Number(multiple[1]) === 0, label: isVi ? `bội của ${multiple[1]}` : `multiple of ${multiple[1]}` });
+  const divisor = /(?:ước của|factor of|divisor of)\s*(\d+)/.exec(flat);
+  if (divisor) tests.push({ test: n => n !== 0 && Number(divisor[1]) % n === 0, label: isVi ? `ước của ${divisor[1]}` : `factor of ${divisor[1]}` });
+  if (/số nguyên tố|\bprime\b/.test(flat)) tests.push({ test: isPrime, label: isVi ? 'số nguyên tố' : 'prime' });
+  if (/hợp số|composite/.test(flat)) tests.push({ test: n => n > 3 && !isPrime(n), label: isVi ? 'hợp số' : 'composite' });
+  if (tests.length !== 1) return null;
+  const negated = /không (?:chia hết|phải|là)|\bnot\b|isn't/.test(flat);
+
+  // A missing digit: \overline{12a} or 12* with the options giving the digit
+  const pattern = /\\overline\{\s*([\d\s]*[a-z*][\d\s]*)\}/i.exec(context.stem) || /(?:^|[^\d\\])(\d*\*\d*)(?![\d*])/.exec(context.stem.replace(/\\ast/g, '*'));
+  if (pattern && /\d/.test(pattern[1])) {
+    if (!/chữ số|digit|thay|replace|điền/.test(flat) || !answers.every(a => a.values[0] >= 0 && a.values[0] <= 9)) return null;
+    const digits = pattern[1].replace(/\s/g, '');
+    const numberWith = (d: number) => Number(digits.replace(/[a-z*]/i, String(d)));
+    return {
+      correct: answers.map(a => tests[0].test(numberWith(a.values[0])) !== negated),
+      expected: `${isVi ? 'cần' : 'needs'} ${digits} ${negated ? (isVi ? 'không là ' : 'not ') : ''}${tests[0].label}`,
+    };
+  }
+
+  if (!/số nào|which|trong các số|among|sau đây|following/.test(flat)) return null;
+  return {
+    correct: answers.map(a => tests[0].test(a.values[0]) !== negated),
+    expected: `${isVi ? 'cần số' : 'needs a number'} ${negated ? (isVi ? 'không là ' : 'that is not ') : ''}${tests[0].label}`,
+  };
+};
+
+const letters = (indices: number[]) => indices.map(i => OPTION_LETTERS[i]).join(', ');
+
+const normalizeOption = (text: string) =>
+  text.replace(/\$|\\[,;! ]|\\left|\\right|\s/g, '').replace(/\\[dt]frac/g, '\\frac').replace(/\{,\}/g, ',').toLowerCase();
+
+const checkMultipleChoice = (question: ExamQuestion, context: Context): string[] => {
+  const { isVi } = context;
+  const problems: string[] = [];
+  const answers = question.options.map(o => parseAnswer(o, context.decimalComma));
+
+  // Two options that say the same thing, in writing or in value
+  question.options.forEach((option, i) => {
+    for (let j = 0; j < i; j++) {
+      const a = answers[i];
+      const b = answers[j];
+      const sameValue = a && b && a.values.length > 0 && a.unit === b.unit && a.values.length === b.values.length
+        && a.values.every(v => b.values.some(w => nearlyEqual(v, w)));
+      if (normalizeOption(option) === normalizeOption(question.options[j]) || sameValue) {
+        problems.push(isVi
+          ? `Phương án ${OPTION_LETTERS[j]} và ${OPTION_LETTERS[i]} trùng nhau`
+          : `Options ${OPTION_LETTERS[j]} and ${OPTION_LETTERS[i]} are the same`);
+      }
+    }
+  });
+
+  if (question.options.length < 2 || answers.some(a => !a)) return problems;
+  const parsed = answers as AnswerValue[];
+  const result = checkEquation(context, parsed) || checkCalculation(context, parsed) || checkMeasurement(context, parsed) || checkDivisibility(context, parsed);
+  if (!result) return problems;
+
+  const right = result.correct.map((c, i) => (c ? i : -1)).filter(i => i !== -1);
+  const stated = OPTION_LETTERS.indexOf(question.correctAnswer.trim().toUpperCase());
+  if (right.length === 0) {
+    problems.push(isVi ? `Không phương án nào đúng (${result.expected})` : `No option is correct (${result.expected})`);
+  } else if (right.length > 1) {
+    problems.push(isVi
+      ? `Nhiều phương án cùng đúng: ${letters(right)} (${result.expected})`
+      : `Several options are correct: ${letters(right)} (${result.expected})`);
+  } else if (right[0] !== stated) {
+    problems.push(isVi
+      ? `Đáp án ghi ${question.correctAnswer || '?'} nhưng phương án đúng là ${OPTION_LETTERS[right[0]]} (${result.expected})`
+      : `The key says ${question.correctAnswer || '?'} but the correct option is ${OPTION_LETTERS[right[0]]} (${result.expected})`);
+  }
+
+  // Changed numbers that no longer divide: 17 : 3 in a question whose options are all whole numbers
+  const calculation = findCalculation(context);
+  if (calculation && parsed.every(a => a.values.every(Number.isInteger))) {
+    findUnevenDivisions(calculation).forEach(([a, b]) => problems.push(isVi
+      ? `Phép chia ${a} : ${b} không chia hết trong khi các phương án đều là số nguyên`
+      : `${a} ÷ ${b} does not divide evenly although every option is a whole number`));
+  }
+  return problems;
+};
+
+const checkShortAnswer = (question: ExamQuestion, context: Context): string[] => {
+  const { isVi } = context;
+  const answer = parseAnswer(question.correctAnswer, context.decimalComma);
+  if (!answer || answer.values.length !== 1) return [];
+
+  // Checked as a one-option question: the stated answer must be the value the working gives
+  const result = checkEquation(context, [answer]) || checkCalculation(context, [answer]) || checkMeasurement(context, [answer]);
+  if (!result || result.correct[0]) return [];
+  if (result.expected.includes(';')) return []; // Several solutions: the question picks one we cannot tell
+  return [isVi
+    ? `Đáp án ${question.correctAnswer} không khớp (${result.expected})`
+    : `Answer ${question.correctAnswer} does not match (${result.expected})`];
+};
+
+// Each formula with \blank must come out true once the blank answers are put in, in order
+const checkBlanks = (question: ExamQuestion, context: Context): string[] => {
+  const { isVi } = context;
+  const answers = (question.blanks || []).map(b => parseAnswer(b, context.decimalComma));
+  const problems: string[] = [];
+  let offset = 0;
+  mathSegments(question.stem).forEach(segment => {
+    const count = (segment.match(/\\blank(?![a-zA-Z])/g) || []).length;
+    const first = offset;
+    offset += count;
+    if (count === 0 || /\\(?:framebox|fbox|boxed|square|Box|dots|ldots|cdots|underline)|\?/.test(segment)) return;
+    const statement = parseStatement(segment, context.decimalComma);
+    if (!statement || statement.relations.length === 0) return;
+    const scope = { ...context.scope };
+    for (let i = 0; i < count; i++) {
+      const answer = answers[first + i];
+      if (!answer || answer.values.length !== 1) return;
+      scope[`${PLACEHOLDER}${i}`] = answer.values[0];
+    }
+    const values = statement.sides.map(side => evaluate(side, scope));
+    if (values.some(v => !Number.isFinite(v))) return;
+    if (!statement.relations.every((r, i) => holds(r, values[i], values[i + 1]))) {
+      problems.push(isVi
+        ? `Đáp án chỗ trống (${question.blanks!.slice(first, first + count).join('; ')}) không làm đúng $${segment}$`
+        : `The blank answers (${question.blanks!.slice(first, first + count).join('; ')}) do not make $${segment}$ true`);
+    }
+  });
+  return problems;
+};
+
+// Statements that are nothing but a numeric comparison: their truth can be worked out
+const checkStatements = (question: ExamQuestion, context: Context): string[] => {
+  const { isVi } = context;
+  const problems: string[] = [];
+  (question.statements || []).forEach((statement, i) => {
+    const segments = mathSegments(statement.text);
+    if (segments.length !== 1 || /[\p{L}\d]/u.test(proseOf(statement.text))) return;
+    const parsed = parseStatement(segments[0], context.decimalComma);
+    if (!parsed || parsed.relations.length === 0 || variablesOf(parsed, context.scope).size > 0) return;
+    const values = parsed.sides.map(side => evaluate(side, context.scope));
+    if (values.some(v => !Number.isFinite(v))) return;
+    const isTrue = parsed.relations.every((r, j) => holds(r, values[j], values[j + 1]));
+    if (isTrue === statement.isTrue) return;
+    const word = (value: boolean) => (isVi ? (value ? 'Đúng' : 'Sai') : value ? 'true' : 'false');
+    problems.push(isVi
+      ? `Mệnh đề ${STATEMENT_LETTERS[i]}) được ghi là ${word(statement.isTrue)} nhưng tính ra là ${word(isTrue)}`
+      : `Statement ${STATEMENT_LETTERS[i]}) is marked ${word(statement.isTrue)} but works out ${word(isTrue)}`);
+  });
+  return problems;
+};
+
+// A calculation in column A must equal its partner in column B
+const checkPairs = (question: ExamQuestion, context: Context): string[] => {
+  const { isVi } = context;
+  const problems: string[] = [];
+  (question.pairs || []).forEach((pair, i) => {
+    const segments = mathSegments(pair.left);
+    if (segments.length !== 1 || /[\p{L}\d]/u.test(proseOf(pair.left))) return;
+    const left = parseExpression(segments[0], context.decimalComma);
+    const right = parseAnswer(pair.right, context.decimalComma);
+    if (!left || !hasOperation(left) || !right || right.values.length !== 1 || variablesOf({ sides: [left], relations: [] }, context.scope).size > 0) return;
+    const value = evaluate(left, context.scope);
+    if (!Number.isFinite(value) || nearlyEqual(value, right.values[0])) return;
+    problems.push(isVi
+      ? `Cặp ${i + 1}: ${pair.left} không bằng ${pair.right} (tính lại được ${formatValue(value, true)})`
+      : `Pair ${i + 1}: ${pair.left} does not equal ${pair.right} (it works out as ${formatValue(value, false)})`);
+  });
+  return problems;
+};
+
+// Mismatches between a question's stated answer and what the math gives; empty when it checks out or cannot be checked
+export const checkQuestionMath = (question: ExamQuestion, language: 'vi' | 'en'): string[] => {
+  const isVi = language === 'vi';
+  const context = readStem(question.stem, isVi, isVi);
+  switch (question.type) {
+    case 'mc':
+      return checkMultipleChoice(question, context);
+    case 'shortAnswer':
+      return checkShortAnswer(question, context);
+    case 'fillBlank':
+      return checkBlanks(question, context);
+    case 'trueFalse':
+      return checkStatements(question, context);
+    case 'matching':
+      return checkPairs(question, context);
+    default:
+      return [];
+  }
+};
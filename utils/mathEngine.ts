@@ -0,0 +1,594 @@
+// A small numeric engine for the math the papers are made of: reads a LaTeX formula such as
+// "2\dfrac{1}{3} - \sqrt{16} : 2" or "3x + 1 = \dfrac{x}{2}" into a tree and evaluates it.
+// Anything it does not understand throws, so callers treat that formula as "cannot check".
+
+export type ExprNode =
+  | { kind: 'number'; value: number; integer: boolean }
+  | { kind: 'variable'; name: string }
+  | { kind: 'negate'; arg: ExprNode }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: ExprNode; right: ExprNode; colon?: boolean } // colon: written ":" or \div
+  | { kind: 'call'; name: string; args: ExprNode[] };
+
+export type Relation = '=' | '<' | '>' | '≤' | '≥' | '≠' | '≈';
+
+// "a = b < c" is read as sides [a, b, c] joined by relations ["=", "<"]
+export interface MathStatement {
+  sides: ExprNode[];
+  relations: Relation[];
+}
+
+// Stands for an answer box, "?" or "\blank" in a formula; the n-th one in a formula is PLACEHOLDER + n
+export const PLACEHOLDER = '□';
+
+type Token =
+  | { type: 'number'; value: number; integer: boolean }
+  | { type: 'name'; name: string }
+  | { type: 'function'; name: string }
+  | { type: 'op'; op: string }
+  | { type: 'relation'; relation: Relation }
+  | { type: 'frac' }
+  | { type: 'sqrt' };
+
+const FUNCTION_WORDS: Record<string, string> = {
+  ƯCLN: 'gcd', UCLN: 'gcd', gcd: 'gcd', GCD: 'gcd', HCF: 'gcd',
+  BCNN: 'lcm', lcm: 'lcm', LCM: 'lcm',
+};
+const COMMAND_FUNCTIONS = new Set(['sin', 'cos', 'tan', 'cot', 'ln', 'log']);
+const GREEK = new Set(['alpha', 'beta', 'gamma', 'delta', 'varphi', 'phi', 'theta', 'lambda', 'mu', 'omega', 'sigma']);
+const RELATIONS: Record<string, Relation> = {
+  le: '≤', leq: '≤', leqslant: '≤', ge: '≥', geq: '≥', geqslant: '≥', ne: '≠', neq: '≠', approx: '≈', lt: '<', gt: '>',
+};
+const PLACEHOLDER_COMMANDS = new Set(['framebox', 'fbox', 'boxed', 'square', 'Box', 'blank', 'underline', 'dots', 'ldots', 'cdots', 'hspace']);
+const IGNORED_COMMANDS = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'displaystyle', 'textstyle', 'limits', 'quad', 'qquad']);
+
+// Units and words that may sit next to a number and carry no value
+const UNIT = /^(?:mm|cm|dm|m|km|hm|dam|g|kg|mg|hg|dag|yến|tạ|tấn|l|ml|lít|giờ|phút|giây|h|min|s|ngày|năm|đồng|nghìn đồng|triệu đồng|độ|km\/h|m\/s|cm\/s|ha|a|học sinh|người|quyển|cái|con|trang|quả|viên|students?|people|books?|pages?|days?|hours?|minutes?|seconds?|years?|đơn vị|units?)$/i;
+
+export const isUnitWord = (word: string) => UNIT.test(word.trim());
+
+// Content of the {...} group starting at `open`, or null
+const braceGroup = (text: string, open: number): { content: string; end: number } | null => {
+  if (text[open] !== '{') return null;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) return { content: text.slice(open + 1, i), end: i + 1 };
+  }
+  return null;
+};
+
+const skipSpaces = (text: string, pos: number) => {
+  while (pos < text.length && /\s/.test(text[pos])) pos++;
+  return pos;
+};
+
+// Skip an optional [...] argument and any {...} groups after a command that draws an answer box
+const skipArguments = (text: string, pos: number) => {
+  pos = skipSpaces(text, pos);
+  if (text[pos] === '[') {
+    const close = text.indexOf(']', pos);
+    if (close !== -1) pos = skipSpaces(text, close + 1);
+  }
+  let group = braceGroup(text, pos);
+  while (group) {
+    pos = skipSpaces(text, group.end);
+    group = braceGroup(text, pos);
+  }
+  return pos;
+};
+
+const tokenize = (latex: string, decimalComma: boolean): Token[] => {
+  const text = latex
+    .replace(/−/g, '-')
+    .replace(/[×·⋅]/g, '\\times ')
+    .replace(/÷/g, ':')
+    .replace(/π/g, '\\pi ')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/°/g, '^\\circ ')
+    .replace(/≤/g, '\\le ')
+    .replace(/≥/g, '\\ge ')
+    .replace(/≠/g, '\\ne ')
+    .replace(/≈/g, '\\approx ');
+  const tokens: Token[] = [];
+  const parens: ('args' | 'group')[] = [];
+  let pendingArgs = false;
+  let placeholders = 0;
+  let pos = 0;
+
+  const push = (token: Token) => {
+    tokens.push(token);
+    if (token.type === 'function' && (token.name === 'gcd' || token.name === 'lcm')) pendingArgs = true;
+  };
+
+  const readNumber = () => {
+    let raw = '';
+    const inArgs = parens[parens.length - 1] === 'args';
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (/\d/.test(ch)) {
+        raw += ch;
+        pos++;
+      } else if (text.startsWith('{,}', pos) && /\d/.test(text[pos + 3] || '')) {
+        raw += '.';
+        pos += 3;
+      } else if (text.startsWith('\\,', pos) && /^\d{3}(?!\d)/.test(text.slice(pos + 2))) {
+        pos += 2; // Thousands separated by a thin space: 1\,000
+      } else if ((ch === '.' || ch === ',') && /\d/.test(text[pos + 1] || '') && !raw.includes('.')) {
+        const thousands = /^\d{3}(?![\d]|[.,]\d)/.test(text.slice(pos + 1));
+        const isDecimalMark = ch === (decimalComma ? ',' : '.');
+        if (ch === ',' && inArgs) break;
+        if (isDecimalMark && !(decimalComma && thousands && ch === '.')) {
+          raw += '.';
+          pos++;
+        } else if (thousands) {
+          pos++; // 1.000 in Vietnamese, 1,000 in English
+        } else if (ch === '.') {
+          raw += '.'; // 3.14 in a Vietnamese paper
+          pos++;
+        } else {
+          break;
+        }
+      } else {
+        break;
+      }
+    }
+    push({ type: 'number', value: parseFloat(raw), integer: !raw.includes('.') });
+  };
+
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(text[pos + 1] || ''))) {
+      readNumber();
+      continue;
+    }
+    if (/[a-zA-Z]/.test(ch)) {
+      let name = ch;
+      pos++;
+      if (text[pos] === '_') {
+        const group = braceGroup(text, pos + 1);
+        if (group) {
+          name += `_${group.content.trim()}`;
+          pos = group.end;
+        } else if (/[a-zA-Z0-9]/.test(text[pos + 1] || '')) {
+          name += `_${text[pos + 1]}`;
+          pos += 2;
+        }
+      }
+      push({ type: 'name', name });
+      continue;
+    }
+    if (/\p{L}/u.test(ch)) {
+      const word = /^[\p{L}_]+/u.exec(text.slice(pos))![0];
+      pos += word.length;
+      if (FUNCTION_WORDS[word]) push({ type: 'function', name: FUNCTION_WORDS[word] });
+      else if (!isUnitWord(word)) throw new Error(`word ${word}`);
+      continue;
+    }
+    if (ch === '\\') {
+      const next = text[pos + 1] || '';
+      if (!/[a-zA-Z]/.test(next)) {
+        pos += 2;
+        if (next === '{' || next === '}') push({ type: 'op', op: next === '{' ? '(' : ')' });
+        else if (next === '%') push({ type: 'op', op: '%' });
+        else if (next === '\\') throw new Error('line break');
+        continue; // \, \; \! \: and "\ " are spacing
+      }
+      const command = /^[a-zA-Z]+/.exec(text.slice(pos + 1))![0];
+      pos += command.length + 1;
+      if (command === 'frac' || command === 'dfrac' || command === 'tfrac' || command === 'cfrac') push({ type: 'frac' });
+      else if (command === 'sqrt') push({ type: 'sqrt' });
+      else if (command === 'cdot' || command === 'times' || command === 'ast') push({ type: 'op', op: '*' });
+      else if (command === 'div') push({ type: 'op', op: ':' });
+      else if (command === 'pi') push({ type: 'name', name: 'π' });
+      else if (GREEK.has(command)) push({ type: 'name', name: command });
+      else if (RELATIONS[command]) push({ type: 'relation', relation: RELATIONS[command] });
+      else if (COMMAND_FUNCTIONS.has(command)) push({ type: 'function', name: command });
+      else if (command === 'circ') push({ type: 'op', op: '°' });
+      else if (IGNORED_COMMANDS.has(command)) {
+        pos = skipSpaces(text, pos);
+        if (text[pos] === '.') pos++;
+      } else if (command === 'text' || command === 'mathrm' || command === 'textrm' || command === 'operatorname' || command === 'mbox' || command === 'textbf') {
+        const group = braceGroup(text, skipSpaces(text, pos));
+        if (!group) throw new Error('text');
+        pos = group.end;
+        const word = group.content.trim().replace(/\\,|~/g, ' ').trim();
+        if (FUNCTION_WORDS[word]) push({ type: 'function', name: FUNCTION_WORDS[word] });
+        else if (word && !isUnitWord(word)) throw new Error(`word ${word}`);
+        else {
+          // A unit may carry a power (cm^2); it is not part of the value
+          const power = /^\s*\^\s*(\{[^}]*\}|\d)/.exec(text.slice(pos));
+          if (power) pos += power[0].length;
+        }
+      } else if (command === 'overline') {
+        const group = braceGroup(text, skipSpaces(text, pos));
+        if (!group || !/^\d+$/.test(group.content.replace(/\s/g, ''))) throw new Error('overline');
+        pos = group.end;
+        push({ type: 'number', value: parseInt(group.content.replace(/\s/g, ''), 10), integer: true });
+      } else if (PLACEHOLDER_COMMANDS.has(command) || command === 'phantom' || command === 'vphantom') {
+        pos = skipArguments(text, pos);
+        if (command !== 'phantom' && command !== 'vphantom') push({ type: 'name', name: `${PLACEHOLDER}${placeholders++}` });
+      } else {
+        throw new Error(`command \\${command}`);
+      }
+      continue;
+    }
+
+    pos++;
+    if (ch === '^' && /^\s*(\\circ|\{\s*\\circ\s*\})/.test(text.slice(pos))) {
+      pos += /^\s*(\\circ|\{\s*\\circ\s*\})/.exec(text.slice(pos))![0].length;
+      push({ type: 'op', op: '°' });
+    } else if (ch === '^' && /\d/.test(text[skipSpaces(text, pos)] || '')) {
+      // x^23 is x squared times 3: a bare exponent is one character
+      pos = skipSpaces(text, pos);
+      push({ type: 'op', op: '^' });
+      push({ type: 'number', value: parseInt(text[pos], 10), integer: true });
+      pos++;
+    } else if ('+-*/^!|[]{}%'.includes(ch)) {
+      push({ type: 'op', op: ch });
+    } else if (ch === '(') {
+      parens.push(pendingArgs ? 'args' : 'group');
+      pendingArgs = false;
+      push({ type: 'op', op: '(' });
+    } else if (ch === ')') {
+      parens.pop();
+      push({ type: 'op', op: ')' });
+    } else if (ch === ':') {
+      push({ type: 'op', op: ':' });
+    } else if (ch === ',' || ch === ';') {
+      push({ type: 'op', op: ch });
+    } else if (ch === '=' || ch === '<' || ch === '>') {
+      push({ type: 'relation', relation: ch as Relation });
+    } else if (ch === '?') {
+      push({ type: 'name', name: `${PLACEHOLDER}${placeholders++}` });
+    } else {
+      throw new Error(`character ${ch}`);
+    }
+  }
+  return tokens;
+};
+
+// Recursive descent over the tokens; throws on anything left over or out of place
+const parseTokens = (tokens: Token[]): MathStatement => {
+  let pos = 0;
+  let absDepth = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const isOp = (op: string) => {
+    const token = tokens[pos];
+    return token?.type === 'op' && token.op === op;
+  };
+  const expectOp = (op: string) => {
+    if (!isOp(op)) throw new Error(`expected ${op}`);
+    pos++;
+  };
+
+  // Can the next token start a factor written right after another one (2x, 3(x + 1), x\sqrt{2})?
+  const startsFactor = () => {
+    const token = peek();
+    if (!token) return false;
+    if (token.type === 'number' || token.type === 'name' || token.type === 'function' || token.type === 'frac' || token.type === 'sqrt') return true;
+    return isOp('(') || isOp('{') || isOp('[') || (isOp('|') && absDepth === 0);
+  };
+
+  const expression = (): ExprNode => {
+    let left = term();
+    while (isOp('+') || isOp('-')) {
+      const op = isOp('+') ? '+' : '-';
+      pos++;
+      left = { kind: 'binary', op, left, right: term() };
+    }
+    return left;
+  };
+
+  const term = (): ExprNode => {
+    let left = unary();
+    for (;;) {
+      if (isOp('*')) {
+        pos++;
+        left = { kind: 'binary', op: '*', left, right: unary() };
+      } else if (isOp('/') || isOp(':')) {
+        const colon = isOp(':');
+        pos++;
+        left = { kind: 'binary', op: '/', left, right: unary(), colon };
+      } else if (startsFactor()) {
+        left = { kind: 'binary', op: '*', left, right: power() };
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const unary = (): ExprNode => {
+    if (isOp('-')) {
+      pos++;
+      return { kind: 'negate', arg: unary() };
+    }
+    if (isOp('+')) {
+      pos++;
+      return unary();
+    }
+    return power();
+  };
+
+  const power = (): ExprNode => {
+    const base = postfix(primary());
+    if (!isOp('^')) return base;
+    pos++;
+    return { kind: 'binary', op: '^', left: base, right: unary() };
+  };
+
+  const postfix = (node: ExprNode): ExprNode => {
+    for (;;) {
+      if (isOp('!')) node = { kind: 'call', name: 'factorial', args: [node] };
+      else if (isOp('%')) node = { kind: 'binary', op: '/', left: node, right: { kind: 'number', value: 100, integer: true } };
+      else if (isOp('°')) node = { kind: 'call', name: 'degrees', args: [node] };
+      else return node;
+      pos++;
+    }
+  };
+
+  const group = (open: string, close: string): ExprNode => {
+    expectOp(open);
+    const inner = expression();
+    expectOp(close);
+    return inner;
+  };
+
+  // {…} after \frac or \sqrt; a single character may stand without braces (\frac12)
+  const argument = (): ExprNode => {
+    if (isOp('{')) return group('{', '}');
+    const token = peek();
+    if (token?.type === 'number' && token.integer && token.value < 10) {
+      pos++;
+      return { kind: 'number', value: token.value, integer: true };
+    }
+    if (token?.type === 'name') {
+      pos++;
+      return { kind: 'variable', name: token.name };
+    }
+    throw new Error('argument');
+  };
+
+  const fraction = (): ExprNode => {
+    const numerator = argument();
+    return { kind: 'binary', op: '/', left: numerator, right: argument() };
+  };
+
+  const primary = (): ExprNode => {
+    const token = peek();
+    if (!token) throw new Error('unexpected end');
+    pos++;
+
+    switch (token.type) {
+      case 'number': {
+        // Mixed number: 2\dfrac{1}{3} is 2 + 1/3
+        if (token.integer && peek()?.type === 'frac') {
+          const start = pos;
+          pos++;
+          const part = fraction();
+          if (part.kind === 'binary' && part.left.kind === 'number' && part.right.kind === 'number') {
+            return { kind: 'binary', op: '+', left: { kind: 'number', value: token.value, integer: true }, right: part };
+          }
+          pos = start;
+        }
+        return { kind: 'number', value: token.value, integer: token.integer };
+      }
+      case 'name':
+        return { kind: 'variable', name: token.name };
+      case 'frac':
+        return fraction();
+      case 'sqrt': {
+        const index = isOp('[') ? group('[', ']') : null;
+        const radicand = argument();
+        return index ? { kind: 'call', name: 'root', args: [radicand, index] } : { kind: 'call', name: 'sqrt', args: [radicand] };
+      }
+      case 'function': {
+        if (token.name === 'gcd' || token.name === 'lcm') {
+          expectOp('(');
+          const args = [expression()];
+          while (isOp(',') || isOp(';')) {
+            pos++;
+            args.push(expression());
+          }
+          expectOp(')');
+          return { kind: 'call', name: token.name, args };
+        }
+        // \sin 30^\circ, \sin(x), \ln x: the argument binds tighter than * and /
+        return { kind: 'call', name: token.name, args: [power()] };
+      }
+      case 'op':
+        if (token.op === '(' || token.op === '{' || token.op === '[') {
+          pos--;
+          return group(token.op, token.op === '(' ? ')' : token.op === '{' ? '}' : ']');
+        }
+        if (token.op === '|') {
+          absDepth++;
+          const inner = expression();
+          absDepth--;
+          expectOp('|');
+          return { kind: 'call', name: 'abs', args: [inner] };
+        }
+        throw new Error(`unexpected ${token.op}`);
+      default:
+        throw new Error('unexpected token');
+    }
+  };
+
+  const sides = [expression()];
+  const relations: Relation[] = [];
+  for (let token = peek(); token?.type === 'relation'; token = peek()) {
+    pos++;
+    relations.push(token.relation);
+    sides.push(expression());
+  }
+  if (pos < tokens.length) throw new Error('trailing tokens');
+  return { sides, relations };
+};
+
+// `decimalComma`: Vietnamese papers write 2,5 (or 2{,}5) for two and a half. Null when the formula
+// uses something the engine cannot read.
+export const parseStatement = (latex: string, decimalComma: boolean): MathStatement | null => {
+  try {
+    return parseTokens(tokenize(latex, decimalComma));
+  } catch {
+    return null;
+  }
+};
+
+export const parseExpression = (latex: string, decimalComma: boolean): ExprNode | null => {
+  const statement = parseStatement(latex, decimalComma);
+  return statement && statement.relations.length === 0 ? statement.sides[0] : null;
+};
+
+export const freeVariables = (node: ExprNode, into = new Set<string>()): Set<string> => {
+  if (node.kind === 'variable' && node.name !== 'π') into.add(node.name);
+  if (node.kind === 'negate') freeVariables(node.arg, into);
+  if (node.kind === 'binary') {
+    freeVariables(node.left, into);
+    freeVariables(node.right, into);
+  }
+  if (node.kind === 'call') node.args.forEach(arg => freeVariables(arg, into));
+  return into;
+};
+
+// True when the formula is more than a bare number or name
+export const hasOperation = (node: ExprNode) => node.kind === 'binary' || node.kind === 'call' || (node.kind === 'negate' && hasOperation(node.arg));
+
+// Divisions written with ":" whose two whole-number operands do not divide evenly (17 : 3)
+export const findUnevenDivisions = (node: ExprNode): [number, number][] => {
+  const found: [number, number][] = [];
+  const visit = (n: ExprNode) => {
+    if (n.kind === 'binary') {
+      if (n.op === '/' && n.colon && n.left.kind === 'number' && n.right.kind === 'number' && n.left.integer && n.right.integer
+        && n.right.value !== 0 && n.left.value % n.right.value !== 0) {
+        found.push([n.left.value, n.right.value]);
+      }
+      visit(n.left);
+      visit(n.right);
+    }
+    if (n.kind === 'negate') visit(n.arg);
+    if (n.kind === 'call') n.args.forEach(visit);
+  };
+  visit(node);
+  return found;
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+// NaN when a variable has no value or the formula is undefined there (division by zero, root of a negative)
+export const evaluate = (node: ExprNode, scope: Record<string, number> = {}): number => {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      if (node.name in scope) return scope[node.name];
+      return node.name === 'π' ? Math.PI : NaN;
+    case 'negate':
+      return -evaluate(node.arg, scope);
+    case 'binary': {
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? NaN : left / right;
+        case '^': return Math.pow(left, right);
+      }
+      return NaN;
+    }
+    case 'call': {
+      const args = node.args.map(arg => evaluate(arg, scope));
+      const [x, y] = args;
+      switch (node.name) {
+        case 'sqrt': return x < 0 ? NaN : Math.sqrt(x);
+        case 'root': return x < 0 && y % 2 === 1 ? -Math.pow(-x, 1 / y) : Math.pow(x, 1 / y);
+        case 'abs': return Math.abs(x);
+        case 'degrees': return (x * Math.PI) / 180;
+        case 'sin': return Math.sin(x);
+        case 'cos': return Math.cos(x);
+        case 'tan': return Math.tan(x);
+        case 'cot': return 1 / Math.tan(x);
+        case 'ln': return x <= 0 ? NaN : Math.log(x);
+        case 'log': return x <= 0 ? NaN : Math.log10(x);
+        case 'factorial': {
+          if (!Number.isInteger(x) || x < 0 || x > 20) return NaN;
+          let result = 1;
+          for (let i = 2; i <= x; i++) result *= i;
+          return result;
+        }
+        case 'gcd':
+        case 'lcm': {
+          if (args.some(a => !Number.isInteger(a) || a === 0)) return NaN;
+          return node.name === 'gcd'
+            ? args.reduce((a, b) => gcd(a, b))
+            : args.reduce((a, b) => Math.abs(a * b) / gcd(a, b));
+        }
+      }
+      return NaN;
+    }
+  }
+};
+
+export const nearlyEqual = (a: number, b: number, tolerance = 0) =>
+  Math.abs(a - b) <= Math.max(tolerance, 1e-9 * Math.max(1, Math.abs(a), Math.abs(b)));
+
+export const holds = (relation: Relation, a: number, b: number) => {
+  switch (relation) {
+    case '=': return nearlyEqual(a, b);
+    case '≈': return nearlyEqual(a, b, 0.01 * Math.max(1, Math.abs(b)));
+    case '≠': return !nearlyEqual(a, b);
+    case '<': return a < b && !nearlyEqual(a, b);
+    case '>': return a > b && !nearlyEqual(a, b);
+    case '≤': return a < b || nearlyEqual(a, b);
+    case '≥': return a > b || nearlyEqual(a, b);
+  }
+};
+
+// Real solutions of f(t) = 0 for t in [-100, 100], found from sign changes and refined by bisection
+export const findRoots = (f: (t: number) => number): number[] => {
+  const roots: number[] = [];
+  const step = 0.05;
+  let previous = f(-100);
+  for (let t = -100 + step; t <= 100 + step / 2; t += step) {
+    const value = f(t);
+    if (Number.isFinite(previous) && Number.isFinite(value) && Math.sign(previous) !== Math.sign(value)) {
+      let lo = t - step;
+      let hi = t;
+      for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (Math.sign(f(mid)) === Math.sign(f(lo))) lo = mid;
+        else hi = mid;
+      }
+      const root = (lo + hi) / 2;
+      // A sign change across a pole (1/(x - 2)) is not a root
+      if (Math.abs(f(root)) < 1e-6 && !roots.some(r => nearlyEqual(r, root, 1e-6))) roots.push(root);
+    }
+    previous = value;
+  }
+  return roots;
+};
+
+// 7/12, -3, 2,5, 1,4142: a value as a teacher would write it in a message
+export const formatValue = (value: number, isVi: boolean) => {
+  const decimal = (v: number) => {
+    const text = String(Math.round(v * 10000) / 10000);
+    return isVi ? text.replace('.', ',') : text;
+  };
+  if (Number.isInteger(Math.round(value * 1e9) / 1e9)) return String(Math.round(value));
+  if (nearlyEqual(value, Math.round(value * 10000) / 10000)) return decimal(value);
+  for (let denominator = 2; denominator <= 1000; denominator++) {
+    const numerator = Math.round(value * denominator);
+    if (nearlyEqual(value, numerator / denominator)) return `${numerator}/${denominator}`;
+  }
+  return decimal(value);
+};
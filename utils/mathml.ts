@@ -0,0 +1,67 @@
+import katex from 'katex';
+import { KATEX_MACROS, prepareMath } from './latexPreview';
+
+// KaTeX's MathML output as a small tree, shared by the exporters that turn LaTeX math into
+// other notations (Word equations, QTI, plain text for Google Forms).
+
+export interface MathNode {
+  name: string; // "#text" for character data
+  attrs: Record<string, string>;
+  children: MathNode[];
+  text: string;
+}
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()] || '';
+  });
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Just enough XML parsing for KaTeX's own, well-formed output
+export const parseMathMl = (xml: string): MathNode => {
+  const root: MathNode = { name: '#root', attrs: {}, children: [], text: '' };
+  const stack = [root];
+  const tag = /<(\/?)([a-zA-Z:]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(xml)) !== null) {
+    const parent = stack[stack.length - 1];
+    if (match[5] !== undefined) {
+      parent.children.push({ name: '#text', attrs: {}, children: [], text: decodeEntities(match[5]) });
+      continue;
+    }
+    if (match[1]) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+    const attrs: Record<string, string> = {};
+    const attr = /([a-zA-Z:-]+)="([^"]*)"/g;
+    let a: RegExpExecArray | null;
+    while ((a = attr.exec(match[3])) !== null) attrs[a[1]] = decodeEntities(a[2]);
+    const node: MathNode = { name: match[2], attrs, children: [], text: '' };
+    parent.children.push(node);
+    if (!match[4]) stack.push(node);
+  }
+  return root;
+};
+
+export const textOf = (node: MathNode): string => (node.name === '#text' ? node.text : node.children.map(textOf).join(''));
+
+export const elements = (node: MathNode) => node.children.filter(c => c.name !== '#text');
+
+// Math as any renderer outside this app reads it: \framebox[w] and friends mapped as in the preview, and
+// \blank as underscores, since an empty underline would be invisible
+export const prepareExportMath = (math: string) =>
+  prepareMath(math).replace(/\\blank(?![a-zA-Z])/g, '\\text{\\_\\_\\_\\_\\_\\_}');
+
+// The <math> element for a formula; throws when KaTeX cannot parse it
+export const latexToMathMl = (math: string, display = false): string => {
+  const html = katex.renderToString(prepareExportMath(math), { output: 'mathml', throwOnError: true, displayMode: display, macros: { ...KATEX_MACROS } });
+  return /<math[\s\S]*<\/math>/.exec(html)?.[0] || '';
+};
@@ -0,0 +1,92 @@
+import { elements, escapeXml, latexToMathMl, MathNode, parseMathMl, textOf } from './mathml';
+
+// LaTeX math -> Office Math (OMML), so equations in the .docx are native Word equations rather than
+// pictures or plain text. KaTeX does the parsing and emits MathML; this walks that MathML tree.
+
+const run = (text: string, style?: 'p' | 'b' | 'normal') => {
+  if (!text) return '';
+  const props = style === 'normal' ? '<m:rPr><m:nor/></m:rPr>' : style ? `<m:rPr><m:sty m:val="${style}"/></m:rPr>` : '';
+  return `<m:r>${props}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+};
+
+const convertChildren = (node: MathNode) => node.children.map(convert).join('');
+
+// OMML argument slots (<m:e>, <m:num>, ...) must always be present, even when empty
+const slot = (tag: string, node?: MathNode) => `<m:${tag}>${node ? convert(node) : ''}</m:${tag}>`;
+
+const convert = (node: MathNode): string => {
+  const [first, second, third] = elements(node);
+
+  switch (node.name) {
+    case '#text':
+      return node.text.trim() ? run(node.text) : '';
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    case 'mi': {
+      const text = textOf(node);
+      // Multi-letter identifiers (sin, log) and \mathrm are upright; single letters stay italic
+      const variant = node.attrs.mathvariant;
+      return run(text, variant === 'bold' ? 'b' : variant === 'normal' || text.length > 1 ? 'p' : undefined);
+    }
+    case 'mn':
+    case 'mo':
+      // U+2061 (function application) has no glyph in Word
+      return run(textOf(node).replace(/⁡/g, ''), 'p');
+    case 'mtext':
+      return run(textOf(node), 'normal');
+    case 'mspace': {
+      const width = parseFloat(node.attrs.width || '0');
+      return width >= 0.5 ? run(' ') : width > 0 ? run(' ') : '';
+    }
+    case 'mfrac': {
+      const noBar = node.attrs.linethickness === '0px' || node.attrs.linethickness === '0';
+      return `<m:f>${noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''}${slot('num', first)}${slot('den', second)}</m:f>`;
+    }
+    case 'msup':
+      return `<m:sSup>${slot('e', first)}${slot('sup', second)}</m:sSup>`;
+    case 'msub':
+      return `<m:sSub>${slot('e', first)}${slot('sub', second)}</m:sSub>`;
+    case 'msubsup':
+      return `<m:sSubSup>${slot('e', first)}${slot('sub', second)}${slot('sup', third)}</m:sSubSup>`;
+    case 'msqrt':
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${convertChildren(node)}</m:e></m:rad>`;
+    case 'mroot':
+      return `<m:rad>${slot('deg', second)}${slot('e', first)}</m:rad>`;
+    case 'mover': {
+      const mark = second ? textOf(second) : '';
+      if (mark === '‾' || mark === '¯' || mark === '_') return `<m:bar><m:barPr><m:pos m:val="top"/></m:barPr>${slot('e', first)}</m:bar>`;
+      if (node.attrs.accent === 'true' && mark.length === 1) {
+        return `<m:acc><m:accPr><m:chr m:val="${escapeXml(mark)}"/></m:accPr>${slot('e', first)}</m:acc>`;
+      }
+      return `<m:limUpp>${slot('e', first)}${slot('lim', second)}</m:limUpp>`;
+    }
+    case 'munder':
+      if (second && textOf(second) === '‾') return `<m:bar><m:barPr><m:pos m:val="bot"/></m:barPr>${slot('e', first)}</m:bar>`;
+      return `<m:limLow>${slot('e', first)}${slot('lim', second)}</m:limLow>`;
+    case 'munderover':
+      return `<m:limUpp><m:e><m:limLow>${slot('e', first)}${slot('lim', second)}</m:limLow></m:e>${slot('lim', third)}</m:limUpp>`;
+    case 'menclose':
+      return `<m:borderBox><m:e>${convertChildren(node)}</m:e></m:borderBox>`;
+    case 'mphantom':
+      return `<m:phant><m:e>${convertChildren(node)}</m:e></m:phant>`;
+    case 'mtable': {
+      const rows = elements(node).map(row => `<m:mr>${elements(row).map(cell => `<m:e>${convertChildren(cell)}</m:e>`).join('')}</m:mr>`);
+      return `<m:m>${rows.join('')}</m:m>`;
+    }
+    default:
+      // math, semantics, mrow, mstyle, mpadded, ...: only their content matters
+      return convertChildren(node);
+  }
+};
+
+// One <m:oMath>; `display` typesets it like \[...\]. Math KaTeX cannot read comes through as plain text
+export const latexToOmml = (math: string, display = false): string => {
+  let body: string;
+  try {
+    body = convert(parseMathMl(latexToMathMl(math, display)));
+  } catch {
+    body = run(math, 'normal');
+  }
+  return `<m:oMath>${body}</m:oMath>`;
+};
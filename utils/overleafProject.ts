@@ -0,0 +1,49 @@
+import { createPlaceholderPng, PLACEHOLDER_IMAGE_NAME } from './placeholderImage';
+import { createZip, dataUrlToBytes, ZipEntry } from './zip';
+
+export interface ProjectDocument {
+  fileName: string;
+  latex: string;
+}
+
+const readme = (documents: ProjectDocument[], withPlaceholder: boolean, isVi: boolean) => {
+  const files = documents.map(d => `- ${d.fileName}`).join('\n');
+  if (isVi) {
+    return `# Đề kiểm tra LaTeX
+
+Tải lên Overleaf: New Project → Upload Project → chọn tệp .zip này.
+
+- Trình biên dịch: pdfLaTeX (mặc định của Overleaf).
+- Tệp chính: main.tex (đề kiểm tra).
+- Muốn biên dịch tệp khác: chọn tệp đó ở Menu → Main document rồi bấm Recompile.
+
+Các tệp .tex trong dự án:
+${files}
+${withPlaceholder ? `\n${PLACEHOLDER_IMAGE_NAME} là ô giữ chỗ cho hình minh hoạ: thay nó bằng hình thật (giữ nguyên tên tệp) hoặc sửa \\includegraphics trong main.tex. Chú thích bên cạnh lệnh mô tả hình cần vẽ.\n` : ''}`;
+  }
+  return `# LaTeX exam
+
+Open in Overleaf: New Project → Upload Project → choose this .zip file.
+
+- Compiler: pdfLaTeX (the Overleaf default).
+- Main document: main.tex (the exam paper).
+- To compile another file, set it under Menu → Main document and recompile.
+
+LaTeX files in this project:
+${files}
+${withPlaceholder ? `\n${PLACEHOLDER_IMAGE_NAME} stands in for the figures: replace it with the real picture (same file name) or edit the \\includegraphics lines in main.tex. The comment next to each one describes the figure.\n` : ''}`;
+};
+
+// Overleaf project: the documents (the first is main.tex), the logo and other \includegraphics files,
+// the placeholder picture when a document refers to it, and a README
+export const buildOverleafProject = (documents: ProjectDocument[], images: Record<string, string>, isVi: boolean): Uint8Array => {
+  const withPlaceholder = documents.some(d => d.latex.includes(PLACEHOLDER_IMAGE_NAME));
+  const entries: ZipEntry[] = documents.map(d => ({ name: d.fileName, data: d.latex }));
+
+  Object.entries(images).forEach(([name, dataUrl]) => entries.push({ name, data: dataUrlToBytes(dataUrl) }));
+  if (withPlaceholder && !images[PLACEHOLDER_IMAGE_NAME]) {
+    entries.push({ name: PLACEHOLDER_IMAGE_NAME, data: createPlaceholderPng() });
+  }
+  entries.push({ name: 'README.md', data: readme(documents, withPlaceholder, isVi) });
+  return createZip(entries);
+};
@@ -0,0 +1,81 @@
+import { crc32 } from './zip';
+
+// The grey box shipped as image_placeholder.png so a paper with image figures compiles before the real
+// figures are dropped in. Drawn here as an 8-bit greyscale PNG with uncompressed deflate blocks.
+
+const adler32 = (bytes: Uint8Array) => {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+// zlib stream made of stored blocks (at most 65535 bytes each)
+const zlibStore = (raw: Uint8Array) => {
+  const blocks = Math.max(1, Math.ceil(raw.length / 65535));
+  const out = new Uint8Array(2 + raw.length + blocks * 5 + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let cursor = 2;
+  for (let i = 0; i < blocks; i++) {
+    const chunk = raw.subarray(i * 65535, Math.min(raw.length, (i + 1) * 65535));
+    out[cursor] = i === blocks - 1 ? 1 : 0;
+    view.setUint16(cursor + 1, chunk.length, true);
+    view.setUint16(cursor + 3, ~chunk.length & 0xffff, true);
+    out.set(chunk, cursor + 5);
+    cursor += 5 + chunk.length;
+  }
+  view.setUint32(cursor, adler32(raw));
+  return out;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+export const PLACEHOLDER_IMAGE_NAME = 'image_placeholder.png';
+
+// Light grey box with a dark frame and both diagonals, the usual "figure goes here" mark
+export const createPlaceholderPng = (width = 400, height = 260): Uint8Array => {
+  const raw = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width + 1);
+    raw[row] = 0; // filter: none
+    for (let x = 0; x < width; x++) {
+      const border = x < 3 || y < 3 || x >= width - 3 || y >= height - 3;
+      const diagonal = Math.abs(x * height - y * width) <= width || Math.abs((width - 1 - x) * height - y * width) <= width;
+      raw[row + 1 + x] = border ? 90 : diagonal ? 170 : 235;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let cursor = 0;
+  parts.forEach(part => {
+    png.set(part, cursor);
+    cursor += part.length;
+  });
+  return png;
+};
@@ -0,0 +1,122 @@
+import { PromptProfile, PromptSection, PromptSectionId, PromptSettings, PromptVersion } from '../types';
+
+// The generation prompt as named sections a teacher can reword. Bracketed placeholders are filled from the form;
+// the blocks that only exist for some settings (matrix, picked problems, figures, bilingual and differentiated
+// rules) are still written by the code and go between the content and LaTeX sections.
+
+export const PROMPT_SECTIONS: { id: PromptSectionId; vi: string; en: string; placeholders: string[] }[] = [
+  { id: 'role', vi: 'Vai trò', en: 'Role', placeholders: [] },
+  { id: 'special', vi: 'Tài liệu & số liệu', en: 'Files & data', placeholders: ['[TÀI LIỆU]', '[SỐ LIỆU]'] },
+  { id: 'language', vi: 'Ngôn ngữ', en: 'Language', placeholders: ['[NGÔN NGỮ]', '[YÊU CẦU TIẾNG ANH]'] },
+  { id: 'content', vi: 'Nội dung & cấu trúc', en: 'Content & structure', placeholders: ['[CHỦ ĐỀ]', '[LỚP]', '[ĐỘ KHÓ]', '[CẤU TRÚC]', '[TỔNG ĐIỂM]'] },
+  { id: 'latex', vi: 'Quy tắc LaTeX & hình vẽ', en: 'LaTeX & figure rules', placeholders: ['[HÌNH VẼ]'] },
+];
+
+// What each placeholder stands for, shown in the editor
+export const PROMPT_PLACEHOLDER_HELP: Record<string, { vi: string; en: string }> = {
+  '[TÀI LIỆU]': { vi: 'Số tệp đính kèm hoặc số bài đã chọn', en: 'Number of attached files or picked problems' },
+  '[SỐ LIỆU]': { vi: 'Giữ hay đổi số liệu, theo công tắc trên form', en: 'Keep or vary the numbers, from the form' },
+  '[NGÔN NGỮ]': { vi: 'TIẾNG VIỆT hoặc TIẾNG ANH (ENGLISH)', en: 'TIẾNG VIỆT or TIẾNG ANH (ENGLISH)' },
+  '[YÊU CẦU TIẾNG ANH]': { vi: 'Dòng yêu cầu dịch chuẩn Cambridge, chỉ với đề tiếng Anh', en: 'The Cambridge wording line, English papers only' },
+  '[CHỦ ĐỀ]': { vi: 'Chủ đề trên form', en: 'Topic from the form' },
+  '[LỚP]': { vi: 'Lớp', en: 'Grade' },
+  '[ĐỘ KHÓ]': { vi: 'Độ khó', en: 'Difficulty' },
+  '[CẤU TRÚC]': { vi: 'Số câu từng dạng và yêu cầu của dạng câu', en: 'Question counts per type and what each type needs' },
+  '[TỔNG ĐIỂM]': { vi: '10, hoặc tổng điểm của ma trận', en: '10, or the matrix total' },
+  '[HÌNH VẼ]': { vi: 'Vẽ bằng TikZ hay dùng ảnh thay thế, theo công tắc trên form', en: 'TikZ or placeholder images, from the form' },
+};
+
+export const DEFAULT_PROMPT_SECTIONS: PromptSection[] = [
+  {
+    id: 'role',
+    text: 'Đóng vai trò là một trợ giảng Toán học và chuyên gia LaTeX. Hãy soạn cho tôi một đề kiểm tra Toán hoàn chỉnh kèm đáp án, trả về dưới dạng JSON theo đúng schema đã cho. Phần mềm sẽ tự ghép các câu hỏi vào template LaTeX của trường, vì vậy KHÔNG trả về \\documentclass, preamble hay môi trường questionbox.',
+  },
+  {
+    id: 'special',
+    text: 'YÊU CẦU ĐẶC BIỆT:\n[TÀI LIỆU]\n[SỐ LIỆU]',
+  },
+  {
+    id: 'language',
+    text: 'YÊU CẦU VỀ NGÔN NGỮ (QUAN TRỌNG):\n- NGÔN NGỮ ĐẦU RA CỦA ĐỀ THI: **[NGÔN NGỮ]**.\n[YÊU CẦU TIẾNG ANH]',
+  },
+  {
+    id: 'content',
+    text: 'YÊU CẦU VỀ NỘI DUNG:\n1. Chủ đề: [CHỦ ĐỀ]\n2. Đối tượng: Lớp [LỚP]\n3. Độ khó: [ĐỘ KHÓ]\n4. Cấu trúc đề:\n[CẤU TRÚC]\n5. Tổng điểm toàn bài là [TỔNG ĐIỂM].',
+  },
+  {
+    id: 'latex',
+    text: `YÊU CẦU QUAN TRỌNG VỀ TOÁN HỌC & LATEX (áp dụng cho mọi trường văn bản):
+1. **PHÂN SỐ:** BẮT BUỘC sử dụng lệnh \\dfrac{...}{...} cho tất cả các phân số để hiển thị to, rõ ràng (KHÔNG dùng \\frac).
+2. **DẠNG ĐIỀN SỐ CÒN THIẾU (QUAN TRỌNG):**
+   - Tuyệt đối cẩn thận khi tạo mã LaTeX cho các bài toán điền ô trống.
+   - **Ô TRẢ LỜI:** Sử dụng \\framebox[1.5em]{\\vphantom{M}} hoặc \\fbox{\\phantom{00}} để tạo ô trống **RỖNG** (TUYỆT ĐỐI KHÔNG ĐIỀN DẤU CHẤM HỎI "?" VÀO TRONG). Mục đích là để học sinh điền kết quả vào.
+   - Với phép tính dọc: Sử dụng môi trường \\begin{array} hoặc \\begin{tabular} với căn lề chuẩn xác.
+3. **HÌNH VẼ (QUAN TRỌNG):**
+   [HÌNH VẼ]
+   - Câu không cần hình: figure.kind = "none".
+4. Chỉ dùng các gói lệnh có sẵn: amsmath, amssymb, tikz, pgfplots, tasks, tabularx, xcolor, graphicx.`,
+  },
+];
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = { sections: DEFAULT_PROMPT_SECTIONS };
+
+// Configs saved before prompts were editable, or sections a profile lacks, fall back to the built-in wording
+export const getSectionText = (settings: PromptSettings | undefined, id: PromptSectionId) =>
+  settings?.sections.find(s => s.id === id)?.text ?? DEFAULT_PROMPT_SECTIONS.find(s => s.id === id)!.text;
+
+// One pass, so a value that happens to contain a placeholder is not filled again
+export const fillPromptSection = (text: string, values: Record<string, string>) =>
+  text.replace(/\[[^\]\n]+\]/g, key => (key in values ? values[key] : key));
+
+// Placeholders a section no longer contains, e.g. a content section without [CẤU TRÚC] sends no question counts
+export const getMissingPlaceholders = (id: PromptSectionId, text: string) =>
+  PROMPT_SECTIONS.find(s => s.id === id)!.placeholders.filter(key => !text.includes(key));
+
+export const getChangedSections = (a: PromptSettings | undefined, b: PromptSettings | undefined): PromptSectionId[] =>
+  PROMPT_SECTIONS.map(s => s.id).filter(id => getSectionText(a, id) !== getSectionText(b, id));
+
+// A saved version as the settings a paper is generated with
+export const getVersionSettings = (profile: PromptProfile, version: PromptVersion): PromptSettings => ({
+  sections: version.sections,
+  source: { profileId: profile.id, name: profile.name, version: version.version },
+});
+
+export const isDefaultPrompt = (settings: PromptSettings | undefined) => getChangedSections(settings, DEFAULT_PROMPT_SETTINGS).length === 0;
+
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line diff by longest common subsequence; sections are a few dozen lines, so the table stays small
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ kind: 'removed', text: a[i++] });
+    } else {
+      lines.push({ kind: 'added', text: b[j++] });
+    }
+  }
+  return lines;
+};
+
+// "Mặc định", "Đề HK1 · v3" or "Đề HK1 · v3 (đã sửa)"
+export const describePrompt = (settings: PromptSettings | undefined, isVi: boolean) => {
+  if (!settings?.source) return isDefaultPrompt(settings) ? (isVi ? 'Mặc định' : 'Built-in') : (isVi ? 'Mặc định (đã sửa)' : 'Built-in (edited)');
+  const { name, version } = settings.source;
+  return `${name} · v${version}${settings.edited ? (isVi ? ' (đã sửa)' : ' (edited)') : ''}`;
+};
@@ -0,0 +1,381 @@
+import { ExamModel, ExamQuestion } from '../types';
+import { getQuestionsByType, OPTION_LETTERS } from './examModel';
+import { formatPoints } from './examRenderer';
+import { elements, escapeXml, latexToMathMl, MathNode, parseMathMl, prepareExportMath, textOf } from './mathml';
+import { createZip } from './zip';
+
+// Part I (multiple choice) of an exam in the formats online quiz tools import. Each format gets the
+// math in the notation it renders: MathJax \(...\) for Moodle XML and GIFT, MathML for QTI 2.1,
+// and plain Unicode text for Google Forms, which has no math support.
+
+export type QuizFormat = 'moodle' | 'gift' | 'qti' | 'forms';
+
+export const QUIZ_FORMATS: { id: QuizFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'moodle', label: 'Moodle XML', extension: 'xml', mimeType: 'application/xml' },
+  { id: 'gift', label: 'GIFT', extension: 'gift.txt', mimeType: 'text/plain' },
+  { id: 'qti', label: 'QTI 2.1', extension: 'zip', mimeType: 'application/zip' },
+  { id: 'forms', label: 'Google Forms CSV', extension: 'csv', mimeType: 'text/csv' },
+];
+
+// How one target writes text around the converted math
+interface TextTarget {
+  math: (math: string, display: boolean) => string;
+  escape: (text: string) => string;
+  bold: (text: string) => string;
+  italic: (text: string) => string;
+  underline: (text: string) => string;
+  lineBreak: string;
+}
+
+const TEXT_COMMANDS: Record<string, string> = {
+  blank: '______',
+  dotfill: '......',
+  ldots: '…',
+  dots: '…',
+  textdegree: '°',
+  quad: ' ',
+  qquad: '  ',
+  hfill: ' ',
+};
+
+const readGroup = (latex: string, index: number): { content: string; end: number } | null => {
+  let open = index;
+  while (latex[open] === ' ') open++;
+  if (latex[open] !== '{') return null;
+  let depth = 0;
+  for (let i = open; i < latex.length; i++) {
+    if (latex[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (latex[i] === '{') depth++;
+    if (latex[i] === '}' && --depth === 0) return { content: latex.slice(open + 1, i), end: i + 1 };
+  }
+  return null;
+};
+
+// Text-mode LaTeX (stem, option, solution) for one target; formatting commands map to the target's
+// markup, any other command is dropped and figures are left to the caller
+const convertText = (latex: string, target: TextTarget): string => {
+  let out = '';
+  let i = 0;
+  while (i < latex.length) {
+    const ch = latex[i];
+
+    const display = latex.startsWith('$$', i) ? '$$' : latex.startsWith('\\[', i) ? '\\]' : '';
+    const inline = !display && (ch === '$' ? '$' : latex.startsWith('\\(', i) ? '\\)' : '');
+    if (display || inline) {
+      const open = display ? 2 : inline === '$' ? 1 : 2;
+      const close = latex.indexOf(display || inline, i + open);
+      if (close !== -1) {
+        out += target.math(latex.slice(i + open, close).trim(), !!display);
+        i = close + (display || inline).length;
+        continue;
+      }
+    }
+
+    if (ch === '\\') {
+      const name = /^[a-zA-Z]+/.exec(latex.slice(i + 1))?.[0];
+      if (!name) {
+        const next = latex[i + 1] || '';
+        out += next === '\\' ? target.lineBreak : target.escape(next === ',' || next === ' ' ? ' ' : next);
+        i += 2;
+        continue;
+      }
+      let end = i + 1 + name.length;
+      while (latex[end] === ' ') end++;
+
+      const wrap = name === 'textbf' ? target.bold : name === 'textit' || name === 'emph' ? target.italic : name === 'underline' ? target.underline : null;
+      const group = wrap || ['text', 'textrm', 'mbox'].includes(name) ? readGroup(latex, end) : null;
+      if (group) {
+        const inner = convertText(group.content, target);
+        out += wrap ? wrap(inner) : inner;
+        i = group.end;
+        continue;
+      }
+      if (name === 'par' || name === 'newline') out += target.lineBreak;
+      else if (name === 'begin' && readGroup(latex, end)?.content === 'tikzpicture') {
+        const close = latex.indexOf('\\end{tikzpicture}', end);
+        end = close === -1 ? latex.length : close + '\\end{tikzpicture}'.length;
+      } else if (name === 'begin' || name === 'end') end = readGroup(latex, end)?.end ?? end;
+      else if (TEXT_COMMANDS[name]) out += target.escape(TEXT_COMMANDS[name]);
+      i = end;
+      continue;
+    }
+
+    if (ch === '%') {
+      const lineEnd = latex.indexOf('\n', i);
+      i = lineEnd === -1 ? latex.length : lineEnd + 1;
+      continue;
+    }
+    if (ch === '\n') {
+      const blank = /^\n[ \t]*\n/.exec(latex.slice(i));
+      out += blank ? target.lineBreak : ' ';
+      i += blank ? blank[0].length : 1;
+      continue;
+    }
+    if (ch !== '{' && ch !== '}') out += target.escape(ch === '~' ? ' ' : ch);
+    i++;
+  }
+  return out.trim();
+};
+
+// A figure cannot travel with the question; say what it shows instead
+const figureNote = (question: ExamQuestion, isVi: boolean) => {
+  if (question.figure.kind === 'none') return '';
+  const label = isVi ? 'Hình vẽ' : 'Figure';
+  return question.figure.description ? `[${label}: ${question.figure.description}]` : `[${label}]`;
+};
+
+const escapeHtml = (text: string) => escapeXml(text).replace(/'/g, '&#39;');
+
+const HTML: TextTarget = {
+  math: (math, display) => escapeHtml(display ? `\\[${prepareExportMath(math)}\\]` : `\\(${prepareExportMath(math)}\\)`),
+  escape: escapeHtml,
+  bold: text => `<b>${text}</b>`,
+  italic: text => `<i>${text}</i>`,
+  underline: text => `<u>${text}</u>`,
+  lineBreak: '<br>',
+};
+
+// GIFT reserves ~ = # { } : everywhere, math included
+const escapeGift = (text: string) => text.replace(/[~=#{}:]/g, ch => `\\${ch}`);
+
+const GIFT: TextTarget = {
+  ...HTML,
+  math: (math, display) => escapeGift(HTML.math(math, display)),
+  escape: text => escapeGift(escapeHtml(text)),
+};
+
+// --- Plain text (Google Forms) ---
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '−': '⁻', '(': '⁽', ')': '⁾', n: 'ⁿ', '∘': '°', '′': '′',
+};
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '−': '₋', '(': '₍', ')': '₎',
+};
+const COMBINING_ACCENTS: Record<string, string> = { '‾': '̅', '¯': '̅', '^': '̂', '~': '̃', '→': '⃗', '⃗': '⃗' };
+
+// Unicode super/subscript characters when every character has one, "^(...)" / "_(...)" otherwise
+const script = (text: string, map: Record<string, string>, marker: string) => {
+  if (!text) return '';
+  return [...text].every(ch => map[ch]) ? [...text].map(ch => map[ch]).join('') : `${marker}${group(text)}`;
+};
+
+// Parenthesise anything longer than a single number or letter
+const group = (text: string) => (/^(?:[\p{L}\d.,]+|\(.*\))$/u.test(text) ? text : `(${text})`);
+
+const plainMath = (node: MathNode): string => {
+  const [first, second, third] = elements(node);
+  const of = (n?: MathNode) => (n ? plainMath(n) : '');
+
+  switch (node.name) {
+    case '#text':
+      return node.text;
+    case 'annotation':
+    case 'annotation-xml':
+    case 'mphantom':
+      return '';
+    case 'mi':
+    case 'mn':
+    case 'mtext':
+      return textOf(node);
+    case 'mo': {
+      const text = textOf(node).replace(/⁡/g, '');
+      return /^[=<>≤≥≠≈+−×÷→⇒⇔∈∉⊂∪∩]$/.test(text) ? ` ${text} ` : text;
+    }
+    case 'mspace':
+      return ' ';
+    case 'mfrac':
+      return `${group(of(first).trim())}/${group(of(second).trim())}`;
+    case 'msup':
+      return of(first) + script(of(second).trim(), SUPERSCRIPTS, '^');
+    case 'msub':
+      return of(first) + script(of(second).trim(), SUBSCRIPTS, '_');
+    case 'msubsup':
+    case 'munderover':
+      return of(first) + script(of(second).trim(), SUBSCRIPTS, '_') + script(of(third).trim(), SUPERSCRIPTS, '^');
+    case 'munder':
+      return of(first) + script(of(second).trim(), SUBSCRIPTS, '_');
+    case 'msqrt':
+      return `√${group(node.children.map(plainMath).join('').trim())}`;
+    case 'mroot': {
+      const index = of(second).trim();
+      return `${index === '3' ? '∛' : index === '4' ? '∜' : `${script(index, SUPERSCRIPTS, '')}√`}${group(of(first).trim())}`;
+    }
+    case 'mover': {
+      const accent = COMBINING_ACCENTS[textOf(second || node).trim()];
+      return accent ? [...of(first)].map(ch => ch + accent).join('') : of(first) + script(of(second).trim(), SUPERSCRIPTS, '^');
+    }
+    case 'menclose':
+      return `[${node.children.map(plainMath).join('')}]`;
+    case 'mtable':
+      return elements(node).map(row => elements(row).map(plainMath).join(' ').trim()).join('; ');
+    default:
+      return node.children.map(plainMath).join('');
+  }
+};
+
+export const latexMathToText = (math: string): string => {
+  try {
+    return plainMath(parseMathMl(latexToMathMl(math)))
+      .replace(/\s+/g, ' ')
+      // A leading minus is a sign, not an operator: "x ≤ −3", not "x ≤ − 3"
+      .replace(/(^|[=<>≤≥≠≈(,;] ?)− /g, '$1−')
+      .trim();
+  } catch {
+    return math;
+  }
+};
+
+const PLAIN: TextTarget = {
+  math: math => latexMathToText(math),
+  escape: text => text,
+  bold: text => text,
+  italic: text => text,
+  underline: text => text,
+  lineBreak: '\n',
+};
+
+// --- QTI 2.1 (MathML inside XHTML) ---
+
+const QTI: TextTarget = {
+  math: (math, display) => {
+    try {
+      return latexToMathMl(math, display);
+    } catch {
+      return escapeXml(math);
+    }
+  },
+  escape: escapeXml,
+  bold: text => `<b>${text}</b>`,
+  italic: text => `<i>${text}</i>`,
+  underline: text => `<span class="underline">${text}</span>`,
+  lineBreak: '<br/>',
+};
+
+// --- Writers ---
+
+const questionText = (question: ExamQuestion, target: TextTarget, isVi: boolean) => {
+  const note = figureNote(question, isVi);
+  const stem = convertText(question.stem, target);
+  return note ? `${stem}${target.lineBreak}${target.escape(note)}` : stem;
+};
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const toMoodleXml = (exam: ExamModel, questions: ExamQuestion[], isVi: boolean) => {
+  const items = questions.map((q, i) => {
+    const answers = q.options.map((option, j) => `    <answer fraction="${OPTION_LETTERS[j] === q.correctAnswer ? 100 : 0}" format="html">
+      <text>${cdata(convertText(option, HTML))}</text>
+      <feedback format="html"><text></text></feedback>
+    </answer>`).join('\n');
+    return `  <question type="multichoice">
+    <name><text>${escapeXml(`${isVi ? 'Câu' : 'Question'} ${i + 1}`)}</text></name>
+    <questiontext format="html"><text>${cdata(`<p>${questionText(q, HTML, isVi)}</p>`)}</text></questiontext>
+    <generalfeedback format="html"><text>${cdata(q.solution ? `<p>${convertText(q.solution, HTML)}</p>` : '')}</text></generalfeedback>
+    <defaultgrade>${q.points}</defaultgrade>
+    <penalty>0</penalty>
+    <hidden>0</hidden>
+    <single>true</single>
+    <shuffleanswers>false</shuffleanswers>
+    <answernumbering>ABCD</answernumbering>
+${answers}
+  </question>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>${escapeXml(`$course$/top/${exam.topic}`)}</text></category>
+  </question>
+${items.join('\n')}
+</quiz>
+`;
+};
+
+const toGift = (exam: ExamModel, questions: ExamQuestion[], isVi: boolean) => {
+  const items = questions.map((q, i) => {
+    const answers = q.options.map((option, j) => `  ${OPTION_LETTERS[j] === q.correctAnswer ? '=' : '~'}${convertText(option, GIFT)}`);
+    const feedback = q.solution ? [`  ####${convertText(q.solution, GIFT)}`] : [];
+    return [`::${escapeGift(`${isVi ? 'Câu' : 'Question'} ${i + 1}`)}::[html]${questionText(q, GIFT, isVi)} {`, ...answers, ...feedback, '}'].join('\n');
+  });
+  return `// ${exam.topic}\n$CATEGORY: ${escapeGift(exam.topic)}\n\n${items.join('\n\n')}\n`;
+};
+
+const qtiItem = (question: ExamQuestion, index: number, isVi: boolean) => {
+  const choices = question.options
+    .map((option, j) => `      <simpleChoice identifier="${OPTION_LETTERS[j]}">${convertText(option, QTI)}</simpleChoice>`)
+    .join('\n');
+  const title = `${isVi ? 'Câu' : 'Question'} ${index + 1}`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"
+  identifier="item-${index + 1}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>${question.correctAnswer}</value></correctResponse>
+  </responseDeclaration>
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <itemBody>
+    <p>${questionText(question, QTI, isVi)}</p>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+${choices}
+    </choiceInteraction>
+  </itemBody>
+  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>
+</assessmentItem>
+`;
+};
+
+// IMS content package: one item file per question and the manifest that lists them
+const toQtiPackage = (questions: ExamQuestion[], isVi: boolean) => {
+  const files = questions.map((q, i) => ({ name: `items/item-${i + 1}.xml`, data: qtiItem(q, i, isVi) }));
+  const resources = files
+    .map((f, i) => `    <resource identifier="item-${i + 1}" type="imsqti_item_xmlv2p1" href="${f.name}">\n      <file href="${f.name}"/>\n    </resource>`)
+    .join('\n');
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="exam-manifest">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources}
+  </resources>
+</manifest>
+`;
+  return createZip([{ name: 'imsmanifest.xml', data: manifest }, ...files]);
+};
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// One row per question; the correct answer is repeated as text, which is what Forms importers match on
+const toFormsCsv = (questions: ExamQuestion[], isVi: boolean) => {
+  const header = ['Question', 'Option A', 'Option B', 'Option C', 'Option D', 'Correct Answer', 'Points'];
+  const rows = questions.map(q => {
+    const options = OPTION_LETTERS.map((_, j) => (q.options[j] !== undefined ? convertText(q.options[j], PLAIN) : ''));
+    return [questionText(q, PLAIN, isVi), ...options, options[OPTION_LETTERS.indexOf(q.correctAnswer)] || '', formatPoints(q.points, false)];
+  });
+  // The BOM keeps Vietnamese text intact when the file is opened in Excel first
+  return `\ufeff${[header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+};
+
+export const exportQuiz = (exam: ExamModel, format: QuizFormat): string | Uint8Array => {
+  const isVi = exam.language === 'vi';
+  const questions = getQuestionsByType(exam, 'mc').filter(q => q.options.length > 0);
+  switch (format) {
+    case 'moodle':
+      return toMoodleXml(exam, questions, isVi);
+    case 'gift':
+      return toGift(exam, questions, isVi);
+    case 'qti':
+      return toQtiPackage(questions, isVi);
+    case 'forms':
+      return toFormsCsv(questions, isVi);
+  }
+};
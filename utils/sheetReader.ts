@@ -0,0 +1,217 @@
+import { AnswerSheetLayout, BUBBLE_RADIUS, MARKER_SIZE, ORIENTATION_SIZE, SheetPoint, SheetReading } from './answerSheet';
+import { OPTION_LETTERS } from './examModel';
+
+// Reads a photo of a filled answer sheet: find the four corner squares, map sheet millimetres onto photo
+// pixels with a perspective transform, then measure how dark each bubble is against the paper around it.
+
+export interface GrayImage {
+  data: Uint8Array; // One byte per pixel, 0 = black
+  width: number;
+  height: number;
+}
+
+export const toGrayImage = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (rgba[i * 4] * 299 + rgba[i * 4 + 1] * 587 + rgba[i * 4 + 2] * 114) / 1000;
+  }
+  return { data, width, height };
+};
+
+// Otsu's method: the grey level that best separates ink from paper
+const otsuThreshold = (image: GrayImage) => {
+  const histogram = new Array(256).fill(0);
+  image.data.forEach(v => histogram[v]++);
+  const total = image.data.length;
+  const sumAll = histogram.reduce((sum, count, v) => sum + v * count, 0);
+
+  let best = 127;
+  let bestVariance = -1;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0 || weightBelow === total) continue;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sumAll - sumBelow) / (total - weightBelow);
+    const variance = weightBelow * (total - weightBelow) * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+interface Blob {
+  x: number; // Centroid
+  y: number;
+  area: number;
+}
+
+// Solid, roughly square dark regions: the corner markers (bubbles are round and fill less of their box)
+const findSquareBlobs = (image: GrayImage, threshold: number): Blob[] => {
+  const { width, height, data } = image;
+  const seen = new Uint8Array(width * height);
+  const blobs: Blob[] = [];
+  const minArea = Math.max(20, (width * height) / 20000);
+  const maxArea = (width * height) / 100;
+  const stack: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (seen[start] || data[start] > threshold) continue;
+    let area = 0;
+    let sumX = 0;
+    let sumY = 0;
+    let minX = width;
+    let maxX = 0;
+    let minY = height;
+    let maxY = 0;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      area++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, y > 0 ? index - width : -1, y < height - 1 ? index + width : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && !seen[n] && data[n] <= threshold) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    const w = maxX - minX + 1;
+    const h = maxY - minY + 1;
+    const aspect = w / h;
+    if (area >= minArea && area <= maxArea && aspect > 0.6 && aspect < 1.67 && area / (w * h) > 0.85) {
+      blobs.push({ x: sumX / area, y: sumY / area, area });
+    }
+  }
+  return blobs;
+};
+
+// Solve the 8x8 system of a perspective transform taking `from[i]` to `to[i]` (four point pairs)
+const solveHomography = (from: SheetPoint[], to: SheetPoint[]) => {
+  const rows: number[][] = [];
+  from.forEach((p, i) => {
+    const q = to[i];
+    rows.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x, q.x]);
+    rows.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y, q.y]);
+  });
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    if (Math.abs(rows[pivot][col]) < 1e-12) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  const [a, b, c, d, e, f, g, h] = rows.map((row, i) => row[8] / row[i]);
+  return (p: SheetPoint): SheetPoint => {
+    const w = g * p.x + h * p.y + 1;
+    return { x: (a * p.x + b * p.y + c) / w, y: (d * p.x + e * p.y + f) / w };
+  };
+};
+
+const pixel = (image: GrayImage, p: SheetPoint) => {
+  const x = Math.round(p.x);
+  const y = Math.round(p.y);
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return 255;
+  return image.data[y * image.width + x];
+};
+
+// Grey levels sampled over a disc (or a ring) of the sheet, given in millimetres
+const sampleDisc = (image: GrayImage, map: (p: SheetPoint) => SheetPoint, centre: SheetPoint, inner: number, outer: number) => {
+  const values: number[] = [];
+  const step = 0.35;
+  for (let dy = -outer; dy <= outer; dy += step) {
+    for (let dx = -outer; dx <= outer; dx += step) {
+      const r = Math.hypot(dx, dy);
+      if (r >= inner && r <= outer) values.push(pixel(image, map({ x: centre.x + dx, y: centre.y + dy })));
+    }
+  }
+  return values;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 255;
+};
+
+// Share of a bubble's inside that is clearly darker than the paper just outside it
+const bubbleFill = (image: GrayImage, map: (p: SheetPoint) => SheetPoint, centre: SheetPoint) => {
+  const paper = median(sampleDisc(image, map, centre, BUBBLE_RADIUS + 0.6, BUBBLE_RADIUS + 1.1));
+  const inside = sampleDisc(image, map, centre, 0, BUBBLE_RADIUS - 0.7);
+  return inside.filter(v => v < paper * 0.6).length / Math.max(1, inside.length);
+};
+
+const FILLED = 0.5;
+
+// Index of the one filled bubble of a group, -1 when none is, -2 when several are
+const readChoice = (image: GrayImage, map: (p: SheetPoint) => SheetPoint, bubbles: SheetPoint[]) => {
+  const filled = bubbles.map((b, i) => (bubbleFill(image, map, b) >= FILLED ? i : -1)).filter(i => i !== -1);
+  if (filled.length === 0) return -1;
+  return filled.length === 1 ? filled[0] : -2;
+};
+
+// How dark the sheet is over a solid square, 0 (paper) to 1 (ink)
+const squareDarkness = (image: GrayImage, map: (p: SheetPoint) => SheetPoint, centre: SheetPoint, size: number, paper: number) => {
+  const values = sampleDisc(image, map, centre, 0, size / 2 - 0.8);
+  return values.filter(v => v < paper * 0.6).length / Math.max(1, values.length);
+};
+
+// Null when the four corner squares cannot be found
+export const readAnswerSheet = (image: GrayImage, layout: AnswerSheetLayout): SheetReading | null => {
+  const threshold = otsuThreshold(image);
+  const blobs = findSquareBlobs(image, threshold);
+  if (blobs.length < 4) return null;
+
+  // The blob nearest each corner of the photo, clockwise from the top-left
+  const { width, height } = image;
+  const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const found = corners.map(corner => blobs.reduce((best, b) =>
+    Math.hypot(b.x - corner.x, b.y - corner.y) < Math.hypot(best.x - corner.x, best.y - corner.y) ? b : best));
+  if (new Set(found).size < 4) return null;
+
+  // The page may be photographed in any of four orientations: keep the one that puts ink on the orientation square
+  const paper = median(Array.from(image.data.filter((_, i) => i % 7 === 0)));
+  let best: { map: (p: SheetPoint) => SheetPoint; darkness: number } | null = null;
+  for (let turn = 0; turn < 4; turn++) {
+    const map = solveHomography(layout.markers, found.map((_, i) => found[(i + turn) % 4]));
+    if (!map) continue;
+    const darkness = squareDarkness(image, map, layout.orientation, ORIENTATION_SIZE, paper);
+    if (!best || darkness > best.darkness) best = { map, darkness };
+  }
+  if (!best || best.darkness < 0.5) return null;
+  const map = best.map;
+
+  // A marker that does not land on ink means the corners were matched to the wrong blobs
+  if (layout.markers.some(m => squareDarkness(image, map, m, MARKER_SIZE, paper) < 0.5)) return null;
+
+  const readDigits = (grid: SheetPoint[][]) =>
+    grid.map(column => {
+      const value = readChoice(image, map, column);
+      return value >= 0 ? String(value) : '?';
+    }).join('');
+  const answers = layout.answers.map(row => {
+    const choice = readChoice(image, map, row);
+    return choice >= 0 ? OPTION_LETTERS[choice] : choice === -2 ? '*' : '';
+  });
+
+  // An untouched code grid reads as all "?"; report it as empty
+  const variant = readDigits(layout.variant);
+  return { studentId: readDigits(layout.studentId), variantCode: /^\?+$/.test(variant) ? '' : variant, answers };
+};
@@ -0,0 +1,58 @@
+import { SourceFigure, SourceProblem } from '../types';
+
+// Problems read out of one uploaded file by the extraction pre-step, in the order they are printed
+
+type Box = [number, number, number, number];
+
+// [ymin, xmin, ymax, xmax] within 0–1000 and not empty, else no box
+const readBox = (raw: unknown): Box | undefined => {
+  if (!Array.isArray(raw) || raw.length !== 4) return undefined;
+  const box = raw.map(v => Math.min(1000, Math.max(0, Number(v))));
+  if (box.some(v => !Number.isFinite(v)) || box[2] <= box[0] || box[3] <= box[1]) return undefined;
+  return box as Box;
+};
+
+// One problem as the model wrote it; only `text` is required
+interface RawProblem {
+  text: string;
+  page?: unknown;
+  figure?: unknown;
+  box?: unknown;
+}
+
+const isRawProblem = (value: unknown): value is RawProblem =>
+  typeof value === 'object' && value !== null && typeof (value as RawProblem).text === 'string' && !!(value as RawProblem).text.trim();
+
+export const normalizeSourceProblems = (raw: unknown, fileName: string, fileIndex: number, keepData: boolean): SourceProblem[] => {
+  const stamp = Date.now().toString(36);
+  const problems = typeof raw === 'object' && raw !== null ? (raw as { problems?: unknown }).problems : undefined;
+  return (Array.isArray(problems) ? problems : [])
+    .filter(isRawProblem)
+    .map((p, i): SourceProblem => ({
+      id: `src-${stamp}-${fileIndex}-${i}`,
+      fileIndex,
+      fileName,
+      page: Math.max(1, Math.round(Number(p.page)) || 1),
+      text: p.text.trim(),
+      figure: typeof p.figure === 'string' ? p.figure.trim() : '',
+      box: readBox(p.box),
+      selected: true,
+      keepData,
+    }))
+    .sort((a, b) => a.page - b.page);
+};
+
+// After a file is taken off the upload list: its problems go, later files move up one place
+export const removeSourceFile = (problems: SourceProblem[], fileIndex: number): SourceProblem[] =>
+  problems
+    .filter(p => p.fileIndex !== fileIndex)
+    .map(p => (p.fileIndex > fileIndex ? { ...p, fileIndex: p.fileIndex - 1 } : p));
+
+export const getSelectedSources = (problems: SourceProblem[]) => problems.filter(p => p.selected);
+
+// Cut figures are numbered in the order they are saved: "hinh-1.png", "hinh-2.png", ... skipping names already taken
+export const nextFigureName = (figures: SourceFigure[]) => {
+  let n = 1;
+  while (figures.some(f => f.name === `hinh-${n}.png`)) n++;
+  return `hinh-${n}.png`;
+};
@@ -0,0 +1,98 @@
+// Runs jobs a few at a time. A job that hits the provider's rate limit waits and tries again,
+// longer each time; any other error fails the job and the queue moves on.
+
+export type TaskStatus = 'queued' | 'running' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface TaskState {
+  status: TaskStatus;
+  attempts: number; // Calls made so far
+  error?: string; // Last error, kept while waiting to retry
+  retryAt?: number; // Epoch ms of the next attempt while waiting
+}
+
+export interface QueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  signal: AbortSignal;
+  onChange: (index: number, state: TaskState) => void;
+  baseDelayMs?: number;
+}
+
+const MAX_DELAY_MS = 120000;
+
+// 429 / RESOURCE_EXHAUSTED from Gemini, and the 503 / UNAVAILABLE "model overloaded" answer, are worth waiting out.
+// Only the status codes count: a bad key or a dropped connection would fail the same way on every retry.
+export const isRateLimitError = (err: any) => {
+  if ([err?.status, err?.code].some(code => code === 429 || code === 503 || code === 'RESOURCE_EXHAUSTED' || code === 'UNAVAILABLE')) return true;
+  return /\b(?:429|503)\b|\bRESOURCE_EXHAUSTED\b|"status":\s*"UNAVAILABLE"/.test(String(err?.message ?? err));
+};
+
+// The wait the provider asks for ("retryDelay": "37s", "Please retry in 12.5s"), else exponential backoff with jitter
+const retryDelay = (err: any, attempt: number, baseDelayMs: number) => {
+  const message = String(err?.message ?? err);
+  const hinted = /retry(?:Delay)?"?\s*(?::|in)\s*"?([\d.]+)\s*s/i.exec(message);
+  const delay = hinted ? parseFloat(hinted[1]) * 1000 : baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random() / 2);
+  return Math.min(MAX_DELAY_MS, Math.round(delay));
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    if (signal.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Resolves once every job has finished, failed or been cancelled; results of the failed ones are undefined
+export const runQueue = async <T, R>(
+  items: T[],
+  job: (item: T, signal: AbortSignal) => Promise<R>,
+  { concurrency, maxRetries, signal, onChange, baseDelayMs = 4000 }: QueueOptions
+): Promise<(R | undefined)[]> => {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+  let next = 0;
+
+  const runOne = async (index: number) => {
+    let attempts = 0;
+    while (!signal.aborted) {
+      attempts++;
+      onChange(index, { status: 'running', attempts });
+      try {
+        results[index] = await job(items[index], signal);
+        onChange(index, signal.aborted ? { status: 'cancelled', attempts } : { status: 'done', attempts });
+        return;
+      } catch (err: any) {
+        if (signal.aborted) break;
+        const error = err?.message || String(err);
+        if (!isRateLimitError(err) || attempts > maxRetries) {
+          onChange(index, { status: 'failed', attempts, error });
+          return;
+        }
+        const delay = retryDelay(err, attempts, baseDelayMs);
+        onChange(index, { status: 'waiting', attempts, error, retryAt: Date.now() + delay });
+        await sleep(delay, signal);
+      }
+    }
+    onChange(index, { status: 'cancelled', attempts });
+  };
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (signal.aborted) {
+        onChange(index, { status: 'cancelled', attempts: 0 });
+      } else {
+        await runOne(index);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+};
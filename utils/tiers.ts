@@ -0,0 +1,129 @@
+import {
+  DEFAULT_TEMPLATE_SETTINGS, ExamDifficulty, ExamModel, ExamQuestion, ExamTier, getPreamble, MarkingStep, QUESTION_TYPES, QuestionType,
+} from '../types';
+import { describeAnswer, getQuestionsByType } from './examModel';
+import { fillPlaceholders, formatPoints } from './examRenderer';
+import { escapeLatexText } from './latex';
+
+// Differentiated papers: one topic written at Cơ bản, Khá and Nâng cao. Question N has the same type, skill and
+// points in every paper, so the three can be handed out in one lesson and marked on one scale.
+
+const LEVELS = Object.values(ExamDifficulty);
+
+// Printed where the Mã đề goes, so the paper itself does not tell a student which level they got
+export const TIER_CODES: Record<ExamDifficulty, string> = {
+  [ExamDifficulty.EASY]: 'A',
+  [ExamDifficulty.MEDIUM]: 'B',
+  [ExamDifficulty.HARD]: 'C',
+};
+
+export const TIER_FILE_NAMES: Record<ExamDifficulty, string> = {
+  [ExamDifficulty.EASY]: 'co-ban',
+  [ExamDifficulty.MEDIUM]: 'kha',
+  [ExamDifficulty.HARD]: 'nang-cao',
+};
+
+// The levels written from the paper generated at `difficulty`
+export const getOtherDifficulties = (difficulty: ExamDifficulty) => LEVELS.filter(d => d !== difficulty);
+
+// The generated paper and the rewritten ones, easiest first
+export const getAllTiers = (exam: ExamModel, difficulty: ExamDifficulty, tiers: ExamTier[]): ExamTier[] =>
+  [{ difficulty, exam }, ...tiers.filter(t => t.difficulty !== difficulty)]
+    .sort((a, b) => LEVELS.indexOf(a.difficulty) - LEVELS.indexOf(b.difficulty));
+
+// Marking steps keep their shares when the question's points are set to the base paper's
+const rescaleSteps = (steps: MarkingStep[], points: number): MarkingStep[] => {
+  const total = steps.reduce((sum, s) => sum + s.points, 0);
+  if (steps.length === 0 || total <= 0 || Math.abs(total - points) < 0.001) return steps;
+  const scaled = steps.map(s => ({ ...s, points: Math.round((s.points / total) * points * 4) / 4 }));
+  const rest = points - scaled.slice(0, -1).reduce((sum, s) => sum + s.points, 0);
+  scaled[scaled.length - 1].points = Math.round(rest * 100) / 100;
+  return scaled;
+};
+
+// Question N of the rewritten paper takes the skill, points and matrix cell of question N of the base, part by part.
+// Extra questions are dropped; null when a part came back short, since the papers would no longer line up.
+export const alignTier = (base: ExamModel, written: ExamModel, difficulty: ExamDifficulty): ExamModel | null => {
+  const questions: ExamQuestion[] = [];
+  for (const { id } of QUESTION_TYPES) {
+    const wanted = getQuestionsByType(base, id);
+    const got = getQuestionsByType(written, id);
+    if (got.length < wanted.length) return null;
+    wanted.forEach((q, i) => questions.push({
+      ...got[i],
+      difficulty,
+      points: q.points,
+      skill: q.skill,
+      matrixCell: q.matrixCell,
+      markingScheme: rescaleSteps(got[i].markingScheme, q.points),
+    }));
+  }
+  return { ...written, topic: base.topic, images: base.images, questions };
+};
+
+export interface TierRow {
+  type: QuestionType;
+  number: number; // Question number inside its part
+  skill: string;
+  points: number;
+  questions: (ExamQuestion | undefined)[]; // Question N of each tier, in the order of the tiers given; missing after an edit removed it
+}
+
+// Side-by-side rows for the comparison view; the first paper that has question N gives its skill and points
+export const getTierRows = (tiers: ExamTier[]): TierRow[] =>
+  QUESTION_TYPES.flatMap(({ id }) => {
+    const parts = tiers.map(t => getQuestionsByType(t.exam, id));
+    const count = Math.max(0, ...parts.map(p => p.length));
+    return Array.from({ length: count }, (_, i) => {
+      const questions = parts.map(p => p[i]);
+      const first = questions.find(Boolean)!;
+      return { type: id, number: i + 1, skill: first.skill || '', points: first.points, questions };
+    });
+  });
+
+const LEVEL_NAMES_EN: Record<ExamDifficulty, string> = {
+  [ExamDifficulty.EASY]: 'Basic',
+  [ExamDifficulty.MEDIUM]: 'Standard',
+  [ExamDifficulty.HARD]: 'Advanced',
+};
+
+export const tierLabel = (difficulty: ExamDifficulty, isVi: boolean) => (isVi ? difficulty : LEVEL_NAMES_EN[difficulty]);
+
+// The teacher's sheet for marking the three papers together: skill, points and each paper's key, question by question
+export const renderTierSheetLatex = (tiers: ExamTier[], template = DEFAULT_TEMPLATE_SETTINGS): string => {
+  const exam = tiers[0].exam;
+  const isVi = exam.language === 'vi';
+  const rows = getTierRows(tiers);
+  const total = rows.reduce((sum, r) => sum + r.points, 0);
+  const heads = tiers.map(t => `\\textbf{${isVi ? 'Mã' : 'Version'} ${TIER_CODES[t.difficulty]} (${tierLabel(t.difficulty, isVi)})}`);
+
+  const body = QUESTION_TYPES.map(({ id, vi, en }) => {
+    const partRows = rows.filter(r => r.type === id);
+    if (partRows.length === 0) return '';
+    const lines = partRows.map(r =>
+      `    ${r.number} & ${escapeLatexText(r.skill)} & ${formatPoints(r.points, isVi)} & ${r.questions.map(q => (q ? describeAnswer(q, isVi) : '')).join(' & ')} \\\\ \\hline`);
+    return `    \\multicolumn{${3 + tiers.length}}{|l|}{\\textbf{${isVi ? vi : en}}} \\\\ \\hline\n${lines.join('\n')}`;
+  }).filter(Boolean);
+
+  return `${fillPlaceholders(getPreamble(exam.language, template), exam, '', template)}
+
+\\begin{document}
+\\onehalfspacing
+
+\\begin{center}
+    \\textbf{\\Large ${isVi ? 'BẢNG ĐỐI CHIẾU ĐỀ PHÂN HOÁ' : 'DIFFERENTIATED PAPERS: MARKING SHEET'}}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt}
+
+\\noindent ${isVi
+    ? `Các mã đề cùng chủ đề và cùng thang điểm ${formatPoints(total, true)}; câu cùng số kiểm tra cùng một kĩ năng với cùng số điểm.`
+    : `All versions share the topic and a ${formatPoints(total, false)}-mark scale; questions with the same number test the same skill for the same marks.`}
+
+\\medskip
+\\noindent
+\\begin{tabularx}{\\linewidth}{|c|X|c|${tiers.map(() => 'X|').join('')}} \\hline
+    \\textbf{${isVi ? 'Câu' : 'Q.'}} & \\textbf{${isVi ? 'Kĩ năng' : 'Skill'}} & \\textbf{${isVi ? 'Điểm' : 'Marks'}} & ${heads.join(' & ')} \\\\ \\hline
+${body.join('\n')}
+\\end{tabularx}
+\\end{document}`;
+};
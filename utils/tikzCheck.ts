@@ -0,0 +1,83 @@
+import { renderTikz, TikzLabel } from './tikz';
+
+// What can be told about a TikZ figure without compiling it: labels whose boxes run into each other and
+// pictures too big for the question box. Sizes are printed centimetres, so a picture's scale moves the
+// points apart while the labels keep their size, as in TikZ itself.
+
+export interface TikzCheck {
+  svg: string;
+  scale: number;
+  width: number; // Printed size in cm, labels included
+  height: number;
+  problems: string[];
+}
+
+// A4 with 2 cm margins leaves 17 cm; the questionbox frame takes a little more. Taller than this splits badly across pages.
+const MAX_WIDTH = 16;
+const MAX_HEIGHT = 12;
+// Boxes are estimates, so a sliver of overlap is not reported
+const OVERLAP_TOLERANCE = 0.05;
+
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 3;
+
+const formatCm = (value: number, isVi: boolean) => {
+  const text = String(Math.round(value * 10) / 10);
+  return isVi ? text.replace('.', ',') : text;
+};
+
+// The label box where it is printed: the attachment point scales, the box around it does not
+const printedBox = (label: TikzLabel, scale: number) => {
+  const x = label.at.x * scale + (label.x - label.at.x);
+  const y = label.at.y * scale + (label.y - label.at.y);
+  return { x0: x - label.width / 2, x1: x + label.width / 2, y0: y - label.height / 2, y1: y + label.height / 2 };
+};
+
+export const checkTikz = (source: string, isVi: boolean): TikzCheck => {
+  const render = renderTikz(source);
+  const { scale, labels, points } = render;
+  const problems: string[] = [];
+
+  const boxes = labels.map(l => printedBox(l, scale));
+  boxes.forEach((a, i) => {
+    boxes.slice(i + 1).forEach((b, k) => {
+      const overlapX = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+      const overlapY = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+      if (overlapX <= OVERLAP_TOLERANCE || overlapY <= OVERLAP_TOLERANCE) return;
+      const [first, second] = [labels[i].text, labels[i + 1 + k].text];
+      problems.push(isVi ? `Nhãn "${first}" đè lên nhãn "${second}"` : `Label "${first}" overlaps label "${second}"`);
+    });
+  });
+
+  const xs = [...points.map(p => p.x * scale), ...boxes.flatMap(b => [b.x0, b.x1])];
+  const ys = [...points.map(p => p.y * scale), ...boxes.flatMap(b => [b.y0, b.y1])];
+  const width = xs.length > 0 ? Math.max(...xs) - Math.min(...xs) : 0;
+  const height = ys.length > 0 ? Math.max(...ys) - Math.min(...ys) : 0;
+  if (width > MAX_WIDTH) {
+    const range = `x ${isVi ? 'từ' : 'from'} ${formatCm(Math.min(...xs), isVi)} ${isVi ? 'đến' : 'to'} ${formatCm(Math.max(...xs), isVi)}`;
+    problems.push(isVi
+      ? `Hình rộng ${formatCm(width, true)} cm (${range}), vượt khổ ${MAX_WIDTH} cm của khung câu hỏi`
+      : `Figure is ${formatCm(width, false)} cm wide (${range}), wider than the ${MAX_WIDTH} cm question box`);
+  }
+  if (height > MAX_HEIGHT) {
+    const range = `y ${isVi ? 'từ' : 'from'} ${formatCm(Math.min(...ys), isVi)} ${isVi ? 'đến' : 'to'} ${formatCm(Math.max(...ys), isVi)}`;
+    problems.push(isVi
+      ? `Hình cao ${formatCm(height, true)} cm (${range}), quá ${MAX_HEIGHT} cm`
+      : `Figure is ${formatCm(height, false)} cm tall (${range}), more than ${MAX_HEIGHT} cm`);
+  }
+
+  return { svg: render.svg, scale, width, height, problems };
+};
+
+// Rewrites the scale key of \begin{tikzpicture}[...], adding the options when there are none
+export const setTikzScale = (source: string, scale: number) => {
+  const value = String(Math.round(Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale)) * 100) / 100);
+  const begin = /\\begin\{tikzpicture\}(\s*\[([^\]]*)\])?/.exec(source);
+  if (!begin) return source;
+  const options = begin[2] === undefined
+    ? `scale=${value}`
+    : /(^|,)\s*scale\s*=/.test(begin[2])
+      ? begin[2].replace(/((?:^|,)\s*)scale\s*=\s*[^,]*/, `$1scale=${value}`)
+      : [`scale=${value}`, begin[2].trim()].filter(Boolean).join(', ');
+  return source.slice(0, begin.index) + `\\begin{tikzpicture}[${options}]` + source.slice(begin.index + begin[0].length);
+};
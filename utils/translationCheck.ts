@@ -0,0 +1,65 @@
+import { ExamQuestion } from '../types';
+import { OPTION_LETTERS, STATEMENT_LETTERS } from './examModel';
+
+// A translation must carry the same numbers and the same pieces as the original. Numbers are compared
+// as runs of digits, so "2,5" and "2.5" or "1 000" and "1,000" agree; words are not compared.
+
+const numbersIn = (text: string) => Array.from(text.matchAll(/\d+/g), m => m[0]).sort();
+
+const countBlanks = (text: string) => (text.match(/\\blank(?![a-zA-Z])/g) || []).length;
+
+// "thiếu 12; thừa 13" for the numbers of the original missing from the translation and the other way round
+const compareNumbers = (original: string, translated: string, isVi: boolean): string | null => {
+  const left = numbersIn(original);
+  const right = numbersIn(translated);
+  const missing = left.filter(n => {
+    const at = right.indexOf(n);
+    if (at === -1) return true;
+    right.splice(at, 1);
+    return false;
+  });
+  if (missing.length === 0 && right.length === 0) return null;
+  const parts = [
+    missing.length > 0 ? `${isVi ? 'thiếu' : 'missing'} ${missing.join(', ')}` : '',
+    right.length > 0 ? `${isVi ? 'thừa' : 'extra'} ${right.join(', ')}` : '',
+  ];
+  return parts.filter(Boolean).join('; ');
+};
+
+export const checkQuestionTranslation = (question: ExamQuestion, language: 'vi' | 'en', required: boolean): string[] => {
+  const isVi = language === 'vi';
+  const translation = question.translation;
+  if (!translation) return required ? [isVi ? 'Câu chưa có bản dịch' : 'Question has no translation'] : [];
+
+  const problems: string[] = [];
+  const numbers = (label: string, original: string, translated: string | undefined) => {
+    const diff = translated === undefined ? null : compareNumbers(original, translated, isVi);
+    if (diff) problems.push(isVi ? `${label}: bản dịch khác số liệu (${diff})` : `${label}: translation has different numbers (${diff})`);
+  };
+  const counts = (name: string, original: number, translated: number | undefined) => {
+    if (translated === undefined || translated === original) return;
+    problems.push(isVi ? `Bản dịch có ${translated} ${name}, bản gốc có ${original}` : `Translation has ${translated} ${name}, the original ${original}`);
+  };
+
+  numbers(isVi ? 'Đề bài' : 'Stem', question.stem, translation.stem);
+  counts(isVi ? 'chỗ trống \\blank' : '\\blank gaps', countBlanks(question.stem), countBlanks(translation.stem));
+
+  if (question.type === 'mc') {
+    counts(isVi ? 'phương án' : 'options', question.options.length, translation.options?.length);
+    question.options.forEach((option, i) =>
+      numbers(`${isVi ? 'Phương án' : 'Option'} ${OPTION_LETTERS[i]}`, option, translation.options?.[i]));
+  }
+  if (question.type === 'trueFalse') {
+    counts(isVi ? 'mệnh đề' : 'statements', question.statements?.length || 0, translation.statements?.length);
+    (question.statements || []).forEach((statement, i) =>
+      numbers(`${isVi ? 'Mệnh đề' : 'Statement'} ${STATEMENT_LETTERS[i]})`, statement.text, translation.statements?.[i]));
+  }
+  if (question.type === 'matching') {
+    counts(isVi ? 'cặp' : 'pairs', question.pairs?.length || 0, translation.pairs?.length);
+    (question.pairs || []).forEach((pair, i) => {
+      const other = translation.pairs?.[i];
+      numbers(`${isVi ? 'Cặp' : 'Pair'} ${i + 1}`, `${pair.left} ${pair.right}`, other && `${other.left} ${other.right}`);
+    });
+  }
+  return problems;
+};
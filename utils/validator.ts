@@ -0,0 +1,322 @@
+import { ExamConfig, ExamModel, ExamQuestion, getLatexTemplate, QUESTION_TYPES, TemplateSettings, ValidationIssue, ValidationRule } from '../types';
+import { getQuestionsByType, isValidMatchOrder, sortByPart } from './examModel';
+import { getPartRanges, getQuestionBlocks, stripTranslations } from './examRenderer';
+import { findMatrixMismatches, isMatrixActive } from './examMatrix';
+import { findEnvironmentBlocks } from './latex';
+import { checkQuestionMath } from './mathCheck';
+import { checkQuestionTranslation } from './translationCheck';
+
+const FRAC = /\\frac(?![a-zA-Z])/g;
+const QUESTION_MARK_BOX = /\\(framebox|fbox)(\[[^\]]*\])?\{\s*\$?\s*\?\s*\$?\s*\}/g;
+
+const lineAt = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+// Drop the comment part of a line ("%" not preceded by a backslash)
+const stripComment = (line: string) => line.replace(/(^|[^\\])%.*$/, '$1');
+
+interface QuestionSpan {
+  questionId: string;
+  startLine: number;
+  endLine: number;
+  body: string;
+}
+
+const getQuestionSpans = (latex: string, exam: ExamModel): QuestionSpan[] =>
+  getQuestionBlocks(latex, exam).map(block => ({
+    questionId: block.question.id,
+    startLine: lineAt(latex, block.start),
+    endLine: lineAt(latex, block.end),
+    body: block.body,
+  }));
+
+// From \begin{document} on: the preamble is compared with the template instead, and its
+// \newenvironment/\newcommand definitions may open an environment in one command and close it in another
+const checkEnvironments = (lines: string[], firstLine: number, add: (rule: ValidationRule, line: number, message: string, fixable: boolean) => void, isVi: boolean) => {
+  const stack: { name: string; line: number }[] = [];
+  const token = /\\(begin|end)\{([^}]+)\}/g;
+
+  lines.forEach((rawLine, i) => {
+    if (i + 1 < firstLine) return;
+    const line = stripComment(rawLine);
+    let match: RegExpExecArray | null;
+    token.lastIndex = 0;
+    while ((match = token.exec(line)) !== null) {
+      const [, kind, name] = match;
+      if (kind === 'begin') {
+        stack.push({ name, line: i + 1 });
+        continue;
+      }
+      const top = stack[stack.length - 1];
+      if (top && top.name === name) {
+        stack.pop();
+      } else if (stack.some(open => open.name === name)) {
+        // Something opened after \begin{name} was never closed
+        while (stack.length > 0 && stack[stack.length - 1].name !== name) {
+          const unclosed = stack.pop()!;
+          add('environment', unclosed.line, isVi ? `Thiếu \\end{${unclosed.name}}` : `Missing \\end{${unclosed.name}}`, true);
+        }
+        stack.pop();
+      } else {
+        add('environment', i + 1, isVi ? `\\end{${name}} không có \\begin tương ứng` : `\\end{${name}} has no matching \\begin`, true);
+      }
+    }
+  });
+
+  stack.forEach(open => add('environment', open.line, isVi ? `Thiếu \\end{${open.name}}` : `Missing \\end{${open.name}}`, true));
+};
+
+// Template placeholders such as [LỚP] or [TOPIC] are filled per exam, so they match any text
+const PLACEHOLDER = /\[[A-ZÀ-Ỹ_ ]+\]/g;
+const matchesTemplateLine = (expected: string | undefined, actual: string | undefined) => {
+  if (expected === undefined || actual === undefined) return expected === actual;
+  if (!PLACEHOLDER.test(expected)) return expected === actual;
+  PLACEHOLDER.lastIndex = 0;
+  const pattern = expected
+    .split(PLACEHOLDER)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`).test(actual);
+};
+
+const checkPreamble = (latex: string, lang: 'vi' | 'en', settings: TemplateSettings, bilingual: boolean, add: (rule: ValidationRule, line: number, message: string, fixable: boolean) => void, isVi: boolean) => {
+  const template = getLatexTemplate(lang, settings, undefined, bilingual);
+  const expected = template.slice(0, template.indexOf('\\begin{document}')).split('\n');
+  const docStart = latex.indexOf('\\begin{document}');
+  if (docStart === -1) {
+    add('structure', 1, isVi ? 'Không tìm thấy \\begin{document}' : '\\begin{document} not found', true);
+    return;
+  }
+
+  const actual = latex.slice(0, docStart).split('\n');
+  const length = Math.max(expected.length, actual.length);
+  for (let i = 0; i < length; i++) {
+    if (!matchesTemplateLine(expected[i], actual[i])) {
+      add('preamble', i + 1, isVi ? 'Preamble khác với template gốc (gói lệnh/cấu hình bị thay đổi)' : 'Preamble differs from the template (packages or settings changed)', true);
+      return;
+    }
+  }
+};
+
+// Short answers fit the 4-box answer sheet: at most four characters counting "-" and ","
+const SHORT_ANSWER = /^-?\d+(?:[.,]\d+)?$/;
+
+const checkAnswerShape = (question: ExamQuestion, body: string, isVi: boolean): string | null => {
+  switch (question.type) {
+    case 'trueFalse': {
+      const count = (body.match(/\\tfitem(?![a-zA-Z])/g) || []).length;
+      return count === 4 ? null : isVi ? `Câu Đúng/Sai có ${count} mệnh đề (cần 4)` : `True/false question has ${count} statements (needs 4)`;
+    }
+    case 'shortAnswer': {
+      const answer = question.correctAnswer.trim();
+      if (!SHORT_ANSWER.test(answer)) {
+        return isVi ? `Đáp án trả lời ngắn "${answer}" không phải là một số` : `Short answer "${answer}" is not a number`;
+      }
+      return answer.length <= 4 ? null : isVi ? `Đáp án "${answer}" dài hơn 4 kí tự` : `Answer "${answer}" is longer than 4 characters`;
+    }
+    case 'matching': {
+      const count = (body.match(/\\matchpair(?![a-zA-Z])/g) || []).length;
+      if (count < 2) return isVi ? `Câu nối cột chỉ có ${count} cặp (cần ít nhất 2)` : `Matching question has ${count} pairs (needs at least 2)`;
+      return isValidMatchOrder(question.matchOrder, question.pairs?.length || 0) && count === question.pairs?.length
+        ? null
+        : isVi ? 'Cột B không khớp với đáp án nối cột' : 'Column B does not match the matching key';
+    }
+    case 'fillBlank': {
+      const count = (body.match(/\\blank(?![a-zA-Z])/g) || []).length;
+      const answers = question.blanks?.length || 0;
+      if (count === 0) return isVi ? 'Câu điền khuyết không có chỗ trống \\blank' : 'Fill-in question has no \\blank';
+      return count === answers ? null : isVi ? `Có ${count} chỗ trống nhưng ${answers} đáp án` : `${count} blanks but ${answers} answers`;
+    }
+    default:
+      return null;
+  }
+};
+
+// Run every hard rule from the generation prompt over the rendered exam
+export const validateExamLatex = (
+  latex: string,
+  exam: ExamModel,
+  config: ExamConfig,
+  template: TemplateSettings = config.template
+): ValidationIssue[] => {
+  const isVi = exam.language === 'vi';
+  const lines = latex.split('\n');
+  const spans = getQuestionSpans(latex, exam);
+  const issues: ValidationIssue[] = [];
+
+  const questionAtLine = (line: number) => spans.find(s => line >= s.startLine && line <= s.endLine)?.questionId;
+  const add = (rule: ValidationRule, line: number, message: string, fixable: boolean, questionId = questionAtLine(line)) => {
+    const issue: ValidationIssue = {
+      id: `${rule}-${line}-${issues.length}`,
+      rule,
+      severity: rule === 'figure' ? 'warning' : 'error',
+      line,
+      message,
+      questionId,
+      fixable,
+    };
+    issues.push(issue);
+    return issue;
+  };
+
+  if (!latex.trimStart().startsWith('\\documentclass')) {
+    add('structure', 1, isVi ? 'Mã phải bắt đầu bằng \\documentclass' : 'Code must start with \\documentclass', true);
+  }
+  if (!latex.trimEnd().endsWith('\\end{document}')) {
+    add('structure', lines.length, isVi ? 'Mã phải kết thúc bằng \\end{document}' : 'Code must end with \\end{document}', true);
+  }
+
+  checkPreamble(latex, exam.language, template, !!exam.bilingual, add, isVi);
+  const docStart = lineAt(latex, Math.max(0, latex.indexOf('\\begin{document}')));
+  checkEnvironments(lines, docStart, add, isVi);
+
+  // A part with no questions has no section; its count issue points at the end of the document
+  const parts = getPartRanges(latex, exam);
+  const partLine = (type: ExamQuestion['type']) => {
+    const part = parts.find(p => p.type === type);
+    return part ? lineAt(latex, part.start) : lines.length;
+  };
+  QUESTION_TYPES.forEach(t => {
+    const part = parts.find(p => p.type === t.id);
+    const count = part ? findEnvironmentBlocks(latex, 'questionbox', part.start, part.end).length : 0;
+    const wanted = config[t.countKey] || 0;
+    if (count === wanted) return;
+    const name = isVi ? t.vi : t.en;
+    add('count', partLine(t.id),
+      isVi ? `Phần ${name} có ${count} câu, yêu cầu ${wanted} câu` : `${name} part has ${count} questions, expected ${wanted}`,
+      count > wanted, undefined).part = t.id;
+  });
+
+  lines.forEach((rawLine, i) => {
+    if (i + 1 < docStart) return;
+    const line = stripComment(rawLine);
+    if (FRAC.test(line)) {
+      add('dfrac', i + 1, isVi ? 'Dùng \\frac thay vì \\dfrac' : 'Uses \\frac instead of \\dfrac', true);
+    }
+    FRAC.lastIndex = 0;
+    if (QUESTION_MARK_BOX.test(line)) {
+      add('framebox', i + 1, isVi ? 'Ô trả lời chứa dấu "?" (phải để trống)' : 'Answer box contains "?" (must be empty)', true);
+    }
+    QUESTION_MARK_BOX.lastIndex = 0;
+    if (!config.useTikz && /\\begin\{tikzpicture\}/.test(line)) {
+      add('figure', i + 1, isVi ? 'Có hình TikZ trong khi đã tắt chế độ vẽ TikZ' : 'TikZ figure present although TikZ drawing is off', true);
+    }
+  });
+
+  spans.forEach(span => {
+    const dollars = (span.body.replace(/\\\$/g, '').match(/\$/g) || []).length;
+    if (dollars % 2 !== 0) {
+      add('math', span.startLine, isVi ? 'Số dấu $ lẻ — công thức toán chưa đóng' : 'Odd number of $ — unclosed math', false, span.questionId);
+    }
+  });
+
+  const mcIds = new Set(getQuestionsByType(exam, 'mc').map(q => q.id));
+  spans.filter(span => mcIds.has(span.questionId)).forEach(span => {
+    const optionCount = (stripTranslations(span.body).match(/\\task(?![a-zA-Z])/g) || []).length;
+    if (optionCount !== 4) {
+      add('options', span.startLine, isVi ? `Câu trắc nghiệm có ${optionCount} phương án (cần 4)` : `Multiple-choice question has ${optionCount} options (needs 4)`, false, span.questionId);
+    }
+  });
+
+  // Each type has its own answer shape; these need the model (or a hand edit) to put right.
+  // Shapes are counted on the original text, the translation is compared with it further down.
+  spans.forEach(span => {
+    const question = exam.questions.find(q => q.id === span.questionId);
+    const problem = question && checkAnswerShape(question, stripTranslations(span.body), isVi);
+    if (problem) add('answer', span.startLine, problem, false, span.questionId);
+  });
+
+  // Answers recomputed locally: wrong keys, no or several correct options, repeated distractors
+  spans.forEach(span => {
+    const question = exam.questions.find(q => q.id === span.questionId);
+    if (!question) return;
+    checkQuestionMath(question, exam.language).forEach(problem => add('correctness', span.startLine, problem, false, span.questionId));
+  });
+
+  // Cut figures travel with the exam; a question that names one the exam does not carry has nothing to print
+  spans.forEach(span => {
+    const image = exam.questions.find(q => q.id === span.questionId)?.figure.image;
+    if (!image || exam.images?.[image]) return;
+    add('figure', span.startLine, isVi ? `Không có tệp hình ${image} đi kèm đề` : `Figure file ${image} is not part of the exam`, false, span.questionId);
+  });
+
+  // Both languages must agree on numbers, options and gaps
+  spans.forEach(span => {
+    const question = exam.questions.find(q => q.id === span.questionId);
+    if (!question) return;
+    checkQuestionTranslation(question, exam.language, !!exam.bilingual).forEach(problem => add('translation', span.startLine, problem, false, span.questionId));
+  });
+
+  // Cell-level problems point at the part heading; unassigned questions at the question itself
+  if (isMatrixActive(config.matrix)) {
+    findMatrixMismatches(exam, config.matrix).forEach(mismatch => {
+      const span = spans.find(s => s.questionId === mismatch.questionId);
+      const line = span ? span.startLine : partLine(mismatch.type || 'mc');
+      const issue = add('matrix', line, mismatch.message, false, mismatch.questionId);
+      if (mismatch.missing > 0 && mismatch.type) {
+        issue.part = mismatch.type;
+        issue.matrixCell = { rowId: mismatch.rowId!, level: mismatch.level!, missing: mismatch.missing };
+      }
+    });
+  }
+
+  return issues.sort((a, b) => a.line - b.line);
+};
+
+// Close environments left open inside one text field and drop stray \end{...}
+const balanceEnvironments = (text: string) => {
+  const stack: string[] = [];
+  const cleaned = text.replace(/\\(begin|end)\{([^}]+)\}/g, (match, kind: string, name: string) => {
+    if (kind === 'begin') {
+      stack.push(name);
+      return match;
+    }
+    if (stack[stack.length - 1] === name) {
+      stack.pop();
+      return match;
+    }
+    return '';
+  });
+  return cleaned + stack.reverse().map(name => `\n\\end{${name}}`).join('');
+};
+
+const fixText = (text: string) =>
+  balanceEnvironments(
+    text
+      .replace(FRAC, '\\dfrac')
+      .replace(QUESTION_MARK_BOX, (_, box: string, width?: string) =>
+        box === 'fbox' ? '\\fbox{\\phantom{00}}' : `\\framebox${width || '[1.5em]'}{\\vphantom{M}}`)
+  );
+
+export const autoFixQuestion = (question: ExamQuestion, useTikz: boolean): ExamQuestion => ({
+  ...question,
+  stem: fixText(question.stem),
+  options: question.options.map(fixText),
+  statements: question.statements?.map(s => ({ ...s, text: fixText(s.text) })),
+  pairs: question.pairs?.map(p => ({ left: fixText(p.left), right: fixText(p.right) })),
+  blanks: question.blanks?.map(fixText),
+  solution: fixText(question.solution),
+  translation: question.translation && {
+    ...question.translation,
+    stem: fixText(question.translation.stem),
+    options: question.translation.options?.map(fixText),
+    statements: question.translation.statements?.map(fixText),
+    pairs: question.translation.pairs?.map(p => ({ left: fixText(p.left), right: fixText(p.right) })),
+  },
+  markingScheme: question.markingScheme.map(s => ({ ...s, step: fixText(s.step) })),
+  figure: !useTikz && question.figure.kind === 'tikz'
+    ? { kind: 'image', description: question.figure.description }
+    : { ...question.figure, tikz: question.figure.tikz && fixText(question.figure.tikz) },
+});
+
+// Apply every local repair; preamble and document structure come back right on re-render
+export const applyAutoFixes = (exam: ExamModel, issues: ValidationIssue[], config: ExamConfig): ExamModel => {
+  const targets = new Set(issues.filter(i => i.fixable && i.questionId).map(i => i.questionId));
+  let questions = exam.questions.map(q => (targets.has(q.id) ? autoFixQuestion(q, config.useTikz) : q));
+
+  // Too many questions in a part: keep the first N
+  if (issues.some(i => i.rule === 'count' && i.fixable)) {
+    questions = sortByPart(QUESTION_TYPES.flatMap(t => questions.filter(q => q.type === t.id).slice(0, config[t.countKey] || 0)));
+  }
+
+  return { ...exam, questions };
+};
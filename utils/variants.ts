@@ -0,0 +1,100 @@
+import { DEFAULT_TEMPLATE_SETTINGS, ExamModel, ExamQuestion, getPreamble } from '../types';
+import { OPTION_LETTERS } from './examModel';
+import { fillPlaceholders, renderAnswerGrid } from './examRenderer';
+
+export interface ExamVariant {
+  code: string; // Mã đề, e.g. "101"
+  exam: ExamModel; // Same questions, Part I reordered and options shuffled
+}
+
+// Options that point at other options ("Cả A và B", "All of the above") must keep their order
+const ORDER_DEPENDENT_OPTION = /tất cả|cả\s+[A-D]\s+và|đều đúng|đều sai|all of the above|none of the above|both\s+[A-D]/i;
+
+// Small deterministic PRNG (mulberry32) so the same exam always yields the same variants
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (text: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Fisher–Yates; returns the permutation (new position -> original index)
+const shuffledIndices = (length: number, random: () => number): number[] => {
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+const shuffleOptions = (question: ExamQuestion, random: () => number): ExamQuestion => {
+  if (question.options.length < 2 || question.options.some(o => ORDER_DEPENDENT_OPTION.test(o))) {
+    return question;
+  }
+
+  const order = shuffledIndices(question.options.length, random);
+  const correctIndex = OPTION_LETTERS.indexOf(question.correctAnswer);
+  // A translation's options follow their originals
+  const translation = question.translation?.options
+    ? { ...question.translation, options: order.map(i => question.translation!.options![i] ?? question.options[i]) }
+    : question.translation;
+  return {
+    ...question,
+    options: order.map(i => question.options[i]),
+    correctAnswer: correctIndex === -1 ? question.correctAnswer : OPTION_LETTERS[order.indexOf(correctIndex)],
+    translation,
+  };
+};
+
+// Build one shuffled version: Part I questions reordered, and their A–D options reordered inside each question.
+// Seeded from question ids, not their text, so fixing a typo after printing keeps every version's order and key;
+// each question draws from its own seed, so editing one leaves the others' options where they were.
+export const buildVariant = (exam: ExamModel, code: string): ExamVariant => {
+  const mc = exam.questions.filter(q => q.type === 'mc');
+  const rest = exam.questions.filter(q => q.type !== 'mc');
+  const order = shuffledIndices(mc.length, createRandom(hashString(`${code}\n${mc.map(q => q.id).join('\n')}`)));
+
+  return {
+    code,
+    exam: { ...exam, questions: [...order.map(i => shuffleOptions(mc[i], createRandom(hashString(`${code}\n${mc[i].id}`)))), ...rest] },
+  };
+};
+
+export const buildVariants = (exam: ExamModel, count: number): ExamVariant[] =>
+  Array.from({ length: count }, (_, i) => buildVariant(exam, String(101 + i)));
+
+// One answer table per variant, for the teacher's marking copy
+export const buildVariantAnswerGrid = (variants: ExamVariant[], exam: ExamModel, template = DEFAULT_TEMPLATE_SETTINGS): string => {
+  const isVi = exam.language === 'vi';
+  const tables = variants.map(variant => {
+    const answers = variant.exam.questions.filter(q => q.type === 'mc').map(q => q.correctAnswer);
+    return `\\subsection*{${isVi ? 'Mã đề' : 'Version'} ${variant.code}}\n${renderAnswerGrid(answers, isVi)}`;
+  });
+
+  return `${fillPlaceholders(getPreamble(exam.language, template), exam, '', template)}
+
+\\begin{document}
+\\onehalfspacing
+
+\\begin{center}
+    \\textbf{\\Large ${isVi ? 'BẢNG ĐÁP ÁN CÁC MÃ ĐỀ' : 'ANSWER GRID FOR ALL VERSIONS'}}
+\\end{center}
+\\noindent\\rule{\\linewidth}{1pt}
+
+${tables.join('\n\\medskip\n\n')}
+\\end{document}`;
+};